@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AGENT_MAX_ITERATIONS, AGENT_MAX_ROWS, AGENT_MAX_TOOL_CALLS, AgentModelReply, AgentToolCall, AgentToolExecutor, runAgent } from './aiAgent';
+import { createFixtureProvider } from './fixtureLlmProvider';
+import { NAMED_QUERIES } from './namedQueries';
+
+const options = { prompt: '오늘 매출은?', namedQueries: NAMED_QUERIES, currentDate: '2024-05-01' };
+
+const select = (sql: string, id = 'call'): AgentToolCall => ({ id, name: 'run_select', args: { sql } });
+const named = (name: string, params: Record<string, unknown> = {}): AgentToolCall => ({ name: 'run_named_query', args: { name, params } });
+const reply = (...toolCalls: AgentToolCall[]): AgentModelReply => ({ toolCalls });
+
+function createExecutor(rows: any[] = [{ a: 1 }]) {
+    return {
+        runNamedQuery: vi.fn(async () => ({ recordset: rows })),
+        runSelect: vi.fn(async () => ({ recordset: rows })),
+    } satisfies AgentToolExecutor;
+}
+
+const modelFor = (agentReplies: AgentModelReply[]) => createFixtureProvider({ agentReplies }).createAgentModel('fixture');
+
+describe('runAgent', () => {
+    it('answers directly when the model calls no tools', async () => {
+        const result = await runAgent(modelFor([{ text: '매출은 0원입니다.', toolCalls: [] }]), createExecutor(), options);
+        expect(result).toMatchObject({ answer: '매출은 0원입니다.', iterations: 1, stoppedByLimit: false, trace: [] });
+    });
+
+    it('stops after the iteration limit and asks for an answer without tools', async () => {
+        const executor = createExecutor();
+        // 마지막 응답이 반복되므로 모델은 매번 도구를 하나씩 호출합니다.
+        const result = await runAgent(modelFor([reply(select('SELECT 1'))]), executor, options);
+        expect(result.stoppedByLimit).toBe(true);
+        expect(result.iterations).toBe(AGENT_MAX_ITERATIONS + 1);
+        expect(result.trace).toHaveLength(AGENT_MAX_ITERATIONS);
+        expect(executor.runSelect).toHaveBeenCalledTimes(AGENT_MAX_ITERATIONS);
+        expect(result.answer).toMatch(/^\[fixture\]/);
+    });
+
+    it('stops executing once the tool-call limit is reached', async () => {
+        const executor = createExecutor();
+        const calls = Array.from({ length: 4 }, (_, i) => select(`SELECT ${i}`, `c${i}`));
+        const result = await runAgent(modelFor([reply(...calls)]), executor, options);
+        expect(result.stoppedByLimit).toBe(true);
+        expect(result.trace).toHaveLength(AGENT_MAX_TOOL_CALLS);
+        expect(executor.runSelect).toHaveBeenCalledTimes(AGENT_MAX_TOOL_CALLS);
+        expect(result.iterations).toBe(Math.ceil(AGENT_MAX_TOOL_CALLS / calls.length) + 1);
+    });
+
+    it('passes at most the row limit to the model and marks the result as truncated', async () => {
+        const rows = Array.from({ length: AGENT_MAX_ROWS + 10 }, (_, i) => ({ barcode: String(i) }));
+        const executor = createExecutor(rows);
+        const result = await runAgent(modelFor([reply(select('SELECT barcode FROM parts')), { text: '완료', toolCalls: [] }]), executor, options);
+        expect(executor.runSelect).toHaveBeenCalledWith('SELECT barcode FROM parts', AGENT_MAX_ROWS + 1);
+        expect(result.trace[0]).toMatchObject({ tool: 'select', rowCount: AGENT_MAX_ROWS, truncated: true, columns: ['barcode'] });
+    });
+
+    it.each([
+        'SET ROWCOUNT 0; SELECT * FROM parts',
+        'SELECT 1 SET ROWCOUNT 0',
+        'DELETE FROM parts',
+        'DECLARE @t TABLE (a INT); INSERT INTO @t SELECT 1; SELECT * FROM @t',
+        'EXEC sp_who',
+        // 식별자 안의 작은따옴표로 뒤의 명령을 숨기는 경우
+        `SELECT 1 AS "a'"; EXEC xp_cmdshell 'dir'; SELECT 'x'`,
+        `SELECT "a'" FROM parts; SHUTDOWN --'`,
+        "SELECT 1 [a]]'] ; KILL 53",
+    ])('rejects %s without running it', async sql => {
+        const executor = createExecutor();
+        const result = await runAgent(modelFor([reply(select(sql)), { text: '완료', toolCalls: [] }]), executor, options);
+        expect(executor.runSelect).not.toHaveBeenCalled();
+        expect(result.trace[0].error).toBeTruthy();
+        expect(result.answer).toBe('완료');
+    });
+
+    it('rejects named queries that change data and SELECTs for users without ad-hoc SQL rights', async () => {
+        const executor = createExecutor();
+        const { runNamedQuery } = executor;
+        const result = await runAgent(modelFor([reply(named('입고등록'), select('SELECT 1'), named('거래처목록')), { text: '완료', toolCalls: [] }]), { runNamedQuery }, options);
+        expect(result.trace.map(step => step.error ?? 'ok')).toEqual([expect.stringContaining('입고등록'), expect.stringContaining('권한'), 'ok']);
+        expect(runNamedQuery).toHaveBeenCalledTimes(1);
+    });
+});
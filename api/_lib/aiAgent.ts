@@ -0,0 +1,253 @@
+// api/_lib/aiAgent.ts
+// AI 어시스턴트(aiChat)의 도구 호출 루프입니다.
+// 모델이 읽기 전용 등록 쿼리와 SELECT 문을 서버에 요청해 실제 데이터를 확인한 뒤 한국어로 답합니다.
+// 모델과 DB 실행은 주입받으므로(AgentModel, AgentToolExecutor) 정해진 응답을 돌려주는 대체 모델로도 루프를 실행할 수 있습니다.
+// 반복 횟수와 반환 행 수를 제한하고, 실행한 모든 쿼리를 trace로 남겨 클라이언트에 함께 전달합니다.
+import { NamedQuery } from './namedQueries';
+import { classifySql, listStatementKeywords } from './sqlClassifier';
+
+/** 모델의 도구 호출 반복(모델 요청) 최대 횟수. 넘으면 도구 없이 지금까지의 결과로 답하게 합니다. */
+export const AGENT_MAX_ITERATIONS = 6;
+/** 한 번의 질문에서 실행할 수 있는 쿼리 수 */
+export const AGENT_MAX_TOOL_CALLS = 10;
+/** 모델에 전달하는 결과 행 수 */
+export const AGENT_MAX_ROWS = 50;
+
+export interface AgentToolCall {
+    /** 모델이 부여한 호출 ID (있으면 결과에 그대로 돌려줍니다) */
+    id?: string;
+    name: string;
+    args: Record<string, unknown>;
+}
+
+export type AgentMessage =
+    | { role: 'user'; text: string }
+    // raw: 모델 제공자가 다음 요청에 그대로 돌려받아야 하는 원본 응답 (서명 등)
+    | { role: 'model'; text?: string; toolCalls: AgentToolCall[]; raw?: unknown }
+    | { role: 'tool'; call: AgentToolCall; result: Record<string, unknown> };
+
+export interface AgentToolSpec {
+    name: string;
+    description: string;
+    /** JSON Schema (object) */
+    parameters: Record<string, unknown>;
+}
+
+export interface AgentModelReply {
+    text?: string;
+    toolCalls: AgentToolCall[];
+    raw?: unknown;
+}
+
+export interface AgentModel {
+    /** tools가 비어 있으면 도구를 호출하지 않고 답해야 합니다. */
+    generate(systemInstruction: string, messages: AgentMessage[], tools: AgentToolSpec[]): Promise<AgentModelReply>;
+}
+
+export interface AgentQueryResult {
+    recordset: any[];
+}
+
+export interface AgentToolExecutor {
+    /** 읽기 전용 등록 쿼리를 실행합니다. */
+    runNamedQuery(name: string, params: Record<string, unknown>): Promise<AgentQueryResult>;
+    /** SELECT 문을 실행합니다. 임의 SQL 권한이 없는 사용자이면 지정하지 않습니다(도구를 제공하지 않음). maxRows보다 많은 행은 받지 않아도 됩니다. */
+    runSelect?(sqlText: string, maxRows: number): Promise<AgentQueryResult>;
+}
+
+/** 도구 실행 중 모델에 돌려줄 오류 (권한, 검증 실패 등). 그 밖의 오류도 메시지만 모델에 전달합니다. */
+export class AgentToolError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AgentToolError';
+    }
+}
+
+export interface AgentTraceStep {
+    step: number;
+    tool: 'namedQuery' | 'select';
+    /** 등록 쿼리 이름 (namedQuery) */
+    name?: string;
+    params?: Record<string, unknown>;
+    /** 실행한 SQL (select) */
+    sql?: string;
+    /** 모델에 전달한 행 수 */
+    rowCount?: number;
+    columns?: string[];
+    /** 결과가 행 수 제한보다 많아 일부만 전달한 경우 true */
+    truncated?: boolean;
+    durationMs: number;
+    error?: string;
+}
+
+export interface AgentRunResult {
+    answer: string;
+    trace: AgentTraceStep[];
+    iterations: number;
+    /** 반복/쿼리 수 제한에 걸려 도구 없이 답을 마무리한 경우 true */
+    stoppedByLimit: boolean;
+}
+
+export interface AgentRunOptions {
+    prompt: string;
+    schema?: unknown;
+    context?: string;
+    currentDate?: string;
+    namedQueries: Record<string, NamedQuery>;
+}
+
+/**
+ * 프롬프트에 넣을 스키마. 클라이언트가 질문에 맞춰 줄인 스키마 설명(문자열)을 보내면 그대로,
+ * 이전 클라이언트처럼 스키마 객체를 보내면 JSON으로 넣습니다.
+ */
+export function formatSchemaForPrompt(schema: unknown): string {
+    return typeof schema === 'string' ? schema : JSON.stringify(schema);
+}
+
+const TOOL_NAMED_QUERY = 'run_named_query';
+const TOOL_SELECT = 'run_select';
+
+/** 에이전트가 사용할 수 있는 등록 쿼리 (데이터를 변경하지 않는 쿼리만) */
+export function listReadOnlyNamedQueries(namedQueries: Record<string, NamedQuery>): [string, NamedQuery][] {
+    return Object.entries(namedQueries).filter(([, def]) => classifySql(def.sql).readOnly);
+}
+
+/**
+ * run_select로 받은 SQL이 SELECT 문(WITH ... SELECT 포함)으로만 이루어졌는지 확인합니다.
+ * 실행기가 SET ROWCOUNT 사이에 SQL을 넣어 실행하므로 SET 문과 변수 선언, 임시 테이블 쓰기도 허용하지 않습니다.
+ */
+export function assertSelectOnly(sqlText: string) {
+    const statements = listStatementKeywords(sqlText);
+    if (statements.includes('SET')) throw new AgentToolError('SET 문은 사용할 수 없습니다. SELECT 문만 실행할 수 있습니다.');
+    const other = statements.find(word => word !== 'SELECT' && word !== 'WITH');
+    if (statements.length === 0 || other) throw new AgentToolError(`SELECT 문만 실행할 수 있습니다${other ? ` (${other})` : ''}.`);
+}
+
+function buildTools(canSelect: boolean): AgentToolSpec[] {
+    const tools: AgentToolSpec[] = [{
+        name: TOOL_NAMED_QUERY,
+        description: '서버에 등록된 읽기 전용 쿼리를 이름으로 실행합니다. 시스템 안내에 있는 쿼리 이름과 파라미터만 사용할 수 있습니다.',
+        parameters: {
+            type: 'object',
+            properties: {
+                name: { type: 'string', description: '등록 쿼리 이름' },
+                params: { type: 'object', description: '파라미터 이름과 값' },
+            },
+            required: ['name'],
+        },
+    }];
+    if (canSelect) {
+        tools.push({
+            name: TOOL_SELECT,
+            description: `MS-SQL(T-SQL) SELECT 문 하나를 실행합니다. 데이터를 변경하는 구문은 거부됩니다. 결과는 최대 ${AGENT_MAX_ROWS}행까지 반환되므로 집계(SUM, COUNT, GROUP BY)와 TOP을 사용하세요.`,
+            parameters: {
+                type: 'object',
+                properties: { sql: { type: 'string', description: '실행할 SELECT 문' } },
+                required: ['sql'],
+            },
+        });
+    }
+    return tools;
+}
+
+function buildSystemInstruction(options: AgentRunOptions, canSelect: boolean): string {
+    const namedList = listReadOnlyNamedQueries(options.namedQueries)
+        .map(([name, def]) => `- ${name}: ${def.description} (파라미터: ${Object.entries(def.params).map(([k, t]) => `${k} ${t}`).join(', ') || '없음'})`)
+        .join('\n');
+    return [
+        'You are a helpful database assistant for KJ Mart, a Korean grocery store running MS-SQL (SQL Server 2005 compatible).',
+        'Use the tools to look at the actual data before answering questions about sales, stock, products or customers. Do not guess numbers.',
+        canSelect ? 'Prefer registered queries when one fits; otherwise write a single read-only SELECT with WITH(NOLOCK).' : 'Only registered queries are available to this user.',
+        'When you have enough data, answer in Korean, concisely, citing the figures you found. If the data is insufficient, say so.',
+        `Current Date: ${options.currentDate || new Date().toISOString().slice(0, 10)}`,
+        `Registered read-only queries:\n${namedList || '(none)'}`,
+        options.schema ? `Schema:\n${formatSchemaForPrompt(options.schema)}` : '',
+        options.context ? `Context: ${options.context}` : '',
+    ].filter(Boolean).join('\n\n');
+}
+
+function summarizeRows(recordset: any[]): { result: Record<string, unknown>; rowCount: number; columns: string[]; truncated: boolean } {
+    const rows = Array.isArray(recordset) ? recordset : [];
+    const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+    const truncated = rows.length > AGENT_MAX_ROWS;
+    const returned = rows.slice(0, AGENT_MAX_ROWS);
+    return {
+        result: { columns, rows: returned, rowCount: returned.length, truncated },
+        rowCount: returned.length,
+        columns,
+        truncated,
+    };
+}
+
+async function executeToolCall(call: AgentToolCall, step: number, options: AgentRunOptions, executor: AgentToolExecutor): Promise<{ trace: AgentTraceStep; result: Record<string, unknown> }> {
+    const startedAt = Date.now();
+    const isSelect = call.name === TOOL_SELECT;
+    const trace: AgentTraceStep = { step, tool: isSelect ? 'select' : 'namedQuery', durationMs: 0 };
+    try {
+        let recordset: any[];
+        if (isSelect) {
+            const sqlText = typeof call.args.sql === 'string' ? call.args.sql : '';
+            trace.sql = sqlText;
+            if (!executor.runSelect) throw new AgentToolError('SELECT 실행 권한이 없습니다. 등록 쿼리를 사용하세요.');
+            if (!sqlText.trim()) throw new AgentToolError('sql이 비어 있습니다.');
+            assertSelectOnly(sqlText);
+            // 잘림 여부를 알 수 있도록 제한보다 한 행 더 요청합니다.
+            ({ recordset } = await executor.runSelect(sqlText, AGENT_MAX_ROWS + 1));
+        } else if (call.name === TOOL_NAMED_QUERY) {
+            const name = typeof call.args.name === 'string' ? call.args.name : '';
+            const params = call.args.params && typeof call.args.params === 'object' ? call.args.params as Record<string, unknown> : {};
+            trace.name = name;
+            trace.params = params;
+            const allowed = listReadOnlyNamedQueries(options.namedQueries).some(([n]) => n === name);
+            if (!allowed) throw new AgentToolError(`사용할 수 없는 쿼리입니다: ${name}`);
+            ({ recordset } = await executor.runNamedQuery(name, params));
+        } else {
+            throw new AgentToolError(`알 수 없는 도구입니다: ${call.name}`);
+        }
+        const summary = summarizeRows(recordset);
+        trace.rowCount = summary.rowCount;
+        trace.columns = summary.columns;
+        trace.truncated = summary.truncated;
+        return { trace: { ...trace, durationMs: Date.now() - startedAt }, result: summary.result };
+    } catch (err: any) {
+        const message = err?.message || String(err);
+        trace.error = message;
+        return { trace: { ...trace, durationMs: Date.now() - startedAt }, result: { error: message } };
+    }
+}
+
+/**
+ * 질문에 답할 때까지 모델과 도구 실행을 반복합니다.
+ * 제한에 걸리면 도구 없이 한 번 더 요청하여 지금까지의 결과로 답을 마무리합니다.
+ */
+export async function runAgent(model: AgentModel, executor: AgentToolExecutor, options: AgentRunOptions): Promise<AgentRunResult> {
+    const canSelect = !!executor.runSelect;
+    const systemInstruction = buildSystemInstruction(options, canSelect);
+    const tools = buildTools(canSelect);
+    const messages: AgentMessage[] = [{ role: 'user', text: options.prompt }];
+    const trace: AgentTraceStep[] = [];
+
+    let iterations = 0;
+    while (iterations < AGENT_MAX_ITERATIONS && trace.length < AGENT_MAX_TOOL_CALLS) {
+        iterations++;
+        const reply = await model.generate(systemInstruction, messages, tools);
+        messages.push({ role: 'model', text: reply.text, toolCalls: reply.toolCalls, raw: reply.raw });
+        if (reply.toolCalls.length === 0) {
+            return { answer: reply.text?.trim() || '답변을 생성하지 못했습니다.', trace, iterations, stoppedByLimit: false };
+        }
+        for (const call of reply.toolCalls) {
+            // 제한을 넘은 호출도 결과를 돌려줘야 대화가 이어지므로 실행하지 않고 오류로 응답합니다.
+            if (trace.length >= AGENT_MAX_TOOL_CALLS) {
+                messages.push({ role: 'tool', call, result: { error: '쿼리 실행 횟수 제한에 도달했습니다.' } });
+                continue;
+            }
+            const executed = await executeToolCall(call, trace.length + 1, options, executor);
+            trace.push(executed.trace);
+            messages.push({ role: 'tool', call, result: executed.result });
+        }
+    }
+
+    messages.push({ role: 'user', text: '쿼리 실행 제한에 도달했습니다. 더 이상 도구를 사용하지 말고 지금까지 확인한 데이터로 한국어로 답하세요.' });
+    const final = await model.generate(systemInstruction, messages, []);
+    return { answer: final.text?.trim() || '답변을 생성하지 못했습니다.', trace, iterations: iterations + 1, stoppedByLimit: true };
+}
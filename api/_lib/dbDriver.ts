@@ -0,0 +1,111 @@
+// api/_lib/dbDriver.ts
+// api/sql.ts가 사용하는 데이터베이스 드라이버 인터페이스입니다.
+// 운영 환경은 매장 MSSQL 서버(mssql 패키지)를 사용하고, DB_DRIVER=memory 이면 픽스처 데이터로 동작하는
+// 로컬 대체 드라이버(./memoryDb.ts)를 사용하여 운영 DB 접속 정보 없이 발주/입고/실사 흐름을 실행해볼 수 있습니다.
+import sql from 'mssql';
+
+export type DbDriverKind = 'mssql' | 'memory';
+
+export type DbParamType = sql.ISqlType | sql.ISqlTypeFactoryWithNoParams;
+
+export interface DbResult {
+    recordset: any[];
+    recordsets: any[][];
+    rowsAffected: number[];
+}
+
+export interface DbRequest {
+    input(name: string, type: DbParamType, value: any): DbRequest;
+    /**
+     * @param queryId 쿼리 식별자 (예: 'named:입고등록', 'syncBOM'). MSSQL 드라이버는 무시하며,
+     * 로컬 대체 드라이버는 SQL 본문 대신 이 값으로 처리기를 찾습니다.
+     */
+    query(text: string, queryId?: string): Promise<DbResult>;
+    /** PRINT 등 정보 메시지 수신 */
+    on(event: 'info', listener: (info: any) => void): DbRequest;
+}
+
+export interface DbTransaction {
+    begin(): Promise<void>;
+    commit(): Promise<void>;
+    rollback(): Promise<void>;
+    request(): DbRequest;
+}
+
+/** 연결 풀 상태 (진단 응답용) */
+export interface DbPoolStats {
+    /** 열려 있는 연결 수 */
+    size: number;
+    /** 대기 중(유휴) 연결 수 */
+    available: number;
+    /** 사용 중인 연결 수 */
+    borrowed: number;
+    /** 연결을 기다리는 요청 수 */
+    pending: number;
+}
+
+export interface DbDriver {
+    kind: DbDriverKind;
+    connected: boolean;
+    stats(): DbPoolStats;
+    connect(): Promise<void>;
+    close(): Promise<void>;
+    request(): DbRequest;
+    transaction(): DbTransaction;
+}
+
+function toDbResult(result: sql.IResult<any>): DbResult {
+    const recordsets = (Array.isArray(result.recordsets) ? result.recordsets : []) as any[][];
+    return { recordset: result.recordset || recordsets[0] || [], recordsets, rowsAffected: result.rowsAffected || [] };
+}
+
+function wrapRequest(request: sql.Request): DbRequest {
+    const wrapped: DbRequest = {
+        input(name, type, value) {
+            request.input(name, type, value);
+            return wrapped;
+        },
+        async query(text) {
+            return toDbResult(await request.query(text));
+        },
+        on(event, listener) {
+            request.on(event, listener);
+            return wrapped;
+        },
+    };
+    return wrapped;
+}
+
+export function createMssqlDriver(config: sql.config): DbDriver {
+    const pool = new sql.ConnectionPool(config);
+    return {
+        kind: 'mssql',
+        get connected() {
+            return pool.connected;
+        },
+        stats: () => ({ size: pool.size, available: pool.available, borrowed: pool.borrowed, pending: pool.pending }),
+        async connect() {
+            await pool.connect();
+        },
+        async close() {
+            await pool.close();
+        },
+        request: () => wrapRequest(pool.request()),
+        transaction() {
+            const transaction = new sql.Transaction(pool);
+            return {
+                begin: async () => { await transaction.begin(); },
+                commit: () => transaction.commit(),
+                rollback: () => transaction.rollback(),
+                request: () => wrapRequest(new sql.Request(transaction)),
+            };
+        },
+    };
+}
+
+/** DB_DRIVER 환경 변수로 드라이버를 고릅니다. 지정하지 않으면 mssql입니다. */
+export function resolveDriverKind(value: string | undefined): DbDriverKind {
+    const kind = (value || 'mssql').trim().toLowerCase();
+    if (kind === 'mssql' || kind === 'memory') return kind;
+    throw new Error(`지원하지 않는 DB_DRIVER 값입니다: ${value} (mssql | memory)`);
+}
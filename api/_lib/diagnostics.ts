@@ -0,0 +1,96 @@
+// api/_lib/diagnostics.ts
+// type: 'diagnostics' 응답을 만듭니다.
+// DB 서버 버전과 왕복 시간, 연결 풀 상태, 최근 서버 오류, 배포 버전, 서버 시각을 한 번에 돌려주어
+// 매장에서 '서버 느림', 'DB 중단', '휴대폰 오프라인'을 구분할 수 있게 합니다.
+// DB에 연결할 수 없어도 API 서버 자체는 응답하므로 오류 대신 db.ok = false 로 응답합니다.
+import type { DbDriver, DbDriverKind, DbPoolStats } from './dbDriver';
+
+export const DB_VERSION_SQL = "SELECT @@VERSION AS version, CONVERT(VARCHAR(33), SYSDATETIMEOFFSET(), 127) AS dbTime";
+
+export interface ServerErrorRecord {
+    message: string;
+    at: string;
+    /** 오류가 발생한 요청 type */
+    requestType?: string;
+}
+
+export interface DiagnosticsResponse {
+    success: boolean;
+    server: {
+        /** 배포 버전 (APP_VERSION 또는 Vercel 커밋) */
+        appVersion: string | null;
+        runtime: 'vercel' | 'node';
+        driver: DbDriverKind;
+        time: string;
+        uptimeSeconds: number;
+    };
+    db: {
+        ok: boolean;
+        version: string | null;
+        /** DB 왕복 시간 (연결 포함, ms) */
+        latencyMs: number | null;
+        serverTime: string | null;
+        error: string | null;
+    };
+    pool: DbPoolStats | null;
+    lastError: ServerErrorRecord | null;
+    /** 요청에 포함된 클라이언트 시각 (그대로 돌려줌) */
+    clientTime: string | null;
+}
+
+const startedAt = Date.now();
+let lastError: ServerErrorRecord | null = null;
+
+/** 진단 응답에 표시할 최근 서버 오류를 기록합니다. (같은 프로세스 안에서만 유지) */
+export function recordServerError(err: any, requestType?: string) {
+    lastError = { message: err?.message || String(err), at: new Date().toISOString(), ...(requestType ? { requestType } : {}) };
+}
+
+function resolveAppVersion(): string | null {
+    if (process.env.APP_VERSION) return process.env.APP_VERSION;
+    const commit = process.env.VERCEL_GIT_COMMIT_SHA;
+    return commit ? commit.slice(0, 7) : null;
+}
+
+/** 'Microsoft SQL Server 2019 (RTM-CU22) ... \n ...' 에서 첫 줄만 남깁니다. */
+function firstLine(value: unknown): string | null {
+    if (typeof value !== 'string') return null;
+    return value.split('\n')[0].trim() || null;
+}
+
+export async function collectDiagnostics(
+    kind: DbDriverKind,
+    getDriver: () => Promise<DbDriver>,
+    clientTime?: unknown,
+): Promise<DiagnosticsResponse> {
+    const dbStartedAt = Date.now();
+    let driver: DbDriver | undefined;
+    const db: DiagnosticsResponse['db'] = { ok: false, version: null, latencyMs: null, serverTime: null, error: null };
+    try {
+        driver = await getDriver();
+        const result = await driver.request().query(DB_VERSION_SQL, 'diagnostics:version');
+        const row = result.recordset[0] || {};
+        db.ok = true;
+        db.version = firstLine(row.version);
+        db.serverTime = row.dbTime ? String(row.dbTime) : null;
+    } catch (err: any) {
+        db.error = err?.message || String(err);
+        recordServerError(err, 'diagnostics');
+    }
+    db.latencyMs = Date.now() - dbStartedAt;
+
+    return {
+        success: db.ok,
+        server: {
+            appVersion: resolveAppVersion(),
+            runtime: process.env.VERCEL ? 'vercel' : 'node',
+            driver: kind,
+            time: new Date().toISOString(),
+            uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+        },
+        db,
+        pool: driver ? driver.stats() : null,
+        lastError,
+        clientTime: typeof clientTime === 'string' ? clientTime : null,
+    };
+}
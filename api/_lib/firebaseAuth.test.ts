@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AuthError, extractBearerToken, setPublicKeyProvider, verifyIdToken } from './firebaseAuth';
+
+const PROJECT_ID = 'kjmart-test';
+const NOW = 1_700_000_000;
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const otherKeys = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+function signToken(overrides: Record<string, any> = {}, options: { kid?: string; key?: crypto.KeyObject; alg?: string } = {}): string {
+    const header = encode({ alg: options.alg ?? 'RS256', kid: options.kid ?? 'local-1', typ: 'JWT' });
+    const payload = encode({
+        aud: PROJECT_ID,
+        iss: `https://securetoken.google.com/${PROJECT_ID}`,
+        sub: 'user-1',
+        email: 'staff@example.com',
+        email_verified: true,
+        iat: NOW - 60,
+        exp: NOW + 3600,
+        ...overrides,
+    });
+    const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), options.key ?? privateKey).toString('base64url');
+    return `${header}.${payload}.${signature}`;
+}
+
+async function expectAuthError(token: string, message: RegExp) {
+    const error = await verifyIdToken(token, PROJECT_ID, NOW).catch(err => err);
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error.status).toBe(401);
+    expect(error.message).toMatch(message);
+}
+
+describe('verifyIdToken', () => {
+    beforeEach(() => {
+        setPublicKeyProvider(async () => ({ 'local-1': publicKey.export({ type: 'spki', format: 'pem' }).toString() }));
+    });
+    afterEach(() => setPublicKeyProvider());
+
+    it('accepts a token signed with a known key', async () => {
+        await expect(verifyIdToken(signToken(), PROJECT_ID, NOW)).resolves.toMatchObject({
+            uid: 'user-1',
+            email: 'staff@example.com',
+            emailVerified: true,
+        });
+    });
+
+    it('rejects an expired token', async () => {
+        await expectAuthError(signToken({ iat: NOW - 7200, exp: NOW - 3600 }), /만료/);
+    });
+
+    it('allows a small clock skew on the issue time but not minutes past expiry', async () => {
+        await expect(verifyIdToken(signToken({ iat: NOW + 60, auth_time: NOW + 60 }), PROJECT_ID, NOW)).resolves.toMatchObject({ uid: 'user-1' });
+        await expect(verifyIdToken(signToken({ exp: NOW - 2 }), PROJECT_ID, NOW)).resolves.toMatchObject({ uid: 'user-1' });
+        await expectAuthError(signToken({ exp: NOW - 60 }), /만료/);
+    });
+
+    it('rejects a token for another project', async () => {
+        await expectAuthError(signToken({ aud: 'other-project' }), /다른 프로젝트/);
+    });
+
+    it('rejects a token from another issuer', async () => {
+        await expectAuthError(signToken({ iss: 'https://securetoken.google.com/other-project' }), /발급자/);
+    });
+
+    it('rejects an unknown kid', async () => {
+        await expectAuthError(signToken({}, { kid: 'unknown' }), /서명 키/);
+    });
+
+    it.each(['constructor', '__proto__', 'toString'])('rejects the kid %s with 401', async kid => {
+        await expectAuthError(signToken({}, { kid }), /서명 키/);
+    });
+
+    it('rejects a token signed with another key', async () => {
+        await expectAuthError(signToken({}, { key: otherKeys.privateKey }), /서명이 올바르지/);
+    });
+
+    it('rejects a token whose payload was changed after signing', async () => {
+        const [header, , signature] = signToken().split('.');
+        const [, forgedPayload] = signToken({ sub: 'admin' }).split('.');
+        await expectAuthError(`${header}.${forgedPayload}.${signature}`, /서명이 올바르지/);
+    });
+
+    it('rejects tokens that are not RS256', async () => {
+        await expectAuthError(signToken({}, { alg: 'HS256' }), /서명 방식/);
+    });
+
+    it('rejects malformed tokens', async () => {
+        await expectAuthError('not-a-token', /형식/);
+        await expectAuthError('a.b.c', /형식/);
+        await expectAuthError(`${encode([])}.bnVsbA.c`, /형식/);
+    });
+});
+
+describe('extractBearerToken', () => {
+    it('reads the token from the Authorization header', () => {
+        expect(extractBearerToken('Bearer abc.def.ghi')).toBe('abc.def.ghi');
+        expect(extractBearerToken(undefined)).toBeNull();
+        expect(extractBearerToken('Basic abc')).toBeNull();
+    });
+});
@@ -0,0 +1,125 @@
+// api/_lib/firebaseAuth.ts
+// Firebase ID 토큰(RS256 JWT)을 firebase-admin 없이 직접 검증합니다.
+// Google 공개 인증서는 Cache-Control max-age 동안 메모리에 보관하여 요청마다 내려받지 않습니다.
+import crypto from 'crypto';
+
+export const DEFAULT_FIREBASE_PROJECT_ID = 'kjmart-8ff85';
+
+const PUBLIC_KEYS_URL = 'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+const DEFAULT_KEYS_TTL_MS = 60 * 60 * 1000;
+// 서버와 Google 사이의 시계 오차 허용 범위. 발급 시각(iat/auth_time)이 조금 미래인 토큰을 받아들이기 위한 것입니다.
+const CLOCK_SKEW_SEC = 300;
+// 만료 시각은 거의 그대로 적용합니다. (만료된 토큰이 몇 분씩 더 쓰이지 않도록)
+const EXPIRY_SKEW_SEC = 5;
+
+export interface VerifiedIdentity {
+    uid: string;
+    email?: string;
+    emailVerified: boolean;
+    claims: Record<string, any>;
+}
+
+export class AuthError extends Error {
+    status: number;
+    constructor(message: string, status: number = 401) {
+        super(message);
+        this.name = 'AuthError';
+        this.status = status;
+    }
+}
+
+/** kid -> X.509 인증서(PEM) */
+export type PublicKeySet = Record<string, string>;
+export type PublicKeyProvider = () => Promise<PublicKeySet>;
+
+let cachedKeys: PublicKeySet | null = null;
+let cachedKeysExpireAt = 0;
+let keysPromise: Promise<PublicKeySet> | null = null;
+
+async function fetchGooglePublicKeys(): Promise<PublicKeySet> {
+    if (cachedKeys && Date.now() < cachedKeysExpireAt) return cachedKeys;
+    if (keysPromise) return keysPromise;
+
+    keysPromise = (async () => {
+        try {
+            const response = await fetch(PUBLIC_KEYS_URL);
+            if (!response.ok) throw new Error(`Failed to fetch Firebase public keys (${response.status})`);
+            const keys = await response.json() as PublicKeySet;
+            const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') || '');
+            cachedKeys = keys;
+            cachedKeysExpireAt = Date.now() + (maxAge ? parseInt(maxAge[1], 10) * 1000 : DEFAULT_KEYS_TTL_MS);
+            return keys;
+        } catch (err) {
+            // 갱신에 실패해도 만료 전까지 받아둔 키가 있으면 계속 사용합니다.
+            if (cachedKeys) return cachedKeys;
+            throw err;
+        } finally {
+            keysPromise = null;
+        }
+    })();
+    return keysPromise;
+}
+
+let keyProvider: PublicKeyProvider = fetchGooglePublicKeys;
+
+/**
+ * 공개 키 공급자를 교체합니다. 로컬에서 생성한 키로 검증 흐름을 확인할 때 사용합니다.
+ * 인자를 생략하면 Google 공개 인증서로 되돌립니다.
+ */
+export function setPublicKeyProvider(provider?: PublicKeyProvider) {
+    keyProvider = provider || fetchGooglePublicKeys;
+}
+
+function decodeSegment(segment: string): any {
+    let value: any;
+    try {
+        value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    } catch {
+        throw new AuthError('토큰 형식이 올바르지 않습니다.');
+    }
+    if (!value || typeof value !== 'object') throw new AuthError('토큰 형식이 올바르지 않습니다.');
+    return value;
+}
+
+export async function verifyIdToken(idToken: string, projectId: string, nowSec: number = Math.floor(Date.now() / 1000)): Promise<VerifiedIdentity> {
+    if (!projectId) throw new AuthError('서버에 FIREBASE_PROJECT_ID가 설정되지 않았습니다.', 500);
+
+    const segments = idToken.split('.');
+    if (segments.length !== 3) throw new AuthError('토큰 형식이 올바르지 않습니다.');
+    const [headerSegment, payloadSegment, signatureSegment] = segments;
+
+    const header = decodeSegment(headerSegment);
+    const payload = decodeSegment(payloadSegment);
+
+    if (header.alg !== 'RS256') throw new AuthError('지원하지 않는 토큰 서명 방식입니다.');
+    if (payload.aud !== projectId) throw new AuthError('다른 프로젝트에서 발급된 토큰입니다.');
+    if (payload.iss !== `https://securetoken.google.com/${projectId}`) throw new AuthError('토큰 발급자가 올바르지 않습니다.');
+    if (typeof payload.sub !== 'string' || !payload.sub || payload.sub.length > 128) throw new AuthError('토큰에 사용자 정보가 없습니다.');
+    if (typeof payload.exp !== 'number' || payload.exp + EXPIRY_SKEW_SEC < nowSec) throw new AuthError('로그인이 만료되었습니다. 다시 로그인해주세요.');
+    if (typeof payload.iat !== 'number' || payload.iat - CLOCK_SKEW_SEC > nowSec) throw new AuthError('토큰 발급 시각이 올바르지 않습니다.');
+    if (payload.auth_time !== undefined && payload.auth_time - CLOCK_SKEW_SEC > nowSec) throw new AuthError('토큰 인증 시각이 올바르지 않습니다.');
+
+    const keys = await keyProvider();
+    // kid가 'constructor' 같은 객체 기본 속성 이름이어도 키 목록에 있는 값만 사용합니다.
+    const certificate = typeof header.kid === 'string' && Object.hasOwn(keys, header.kid) ? keys[header.kid] : undefined;
+    if (typeof certificate !== 'string' || !certificate) throw new AuthError('토큰 서명 키를 찾을 수 없습니다.');
+
+    const verifier = crypto.createVerify('RSA-SHA256');
+    verifier.update(`${headerSegment}.${payloadSegment}`);
+    const isValid = verifier.verify(certificate, Buffer.from(signatureSegment, 'base64url'));
+    if (!isValid) throw new AuthError('토큰 서명이 올바르지 않습니다.');
+
+    return {
+        uid: payload.sub,
+        email: typeof payload.email === 'string' ? payload.email : undefined,
+        emailVerified: payload.email_verified === true,
+        claims: payload,
+    };
+}
+
+/** Authorization: Bearer <token> 헤더에서 토큰을 꺼냅니다. */
+export function extractBearerToken(authorization: string | string[] | undefined): string | null {
+    const value = Array.isArray(authorization) ? authorization[0] : authorization;
+    const match = /^Bearer\s+(.+)$/i.exec(value || '');
+    return match ? match[1].trim() : null;
+}
@@ -0,0 +1,52 @@
+// api/_lib/fixtureLlmProvider.ts
+// 정해진 응답을 돌려주는 제공자입니다. (LLM_PROVIDER=fixture)
+// 외부 AI 서비스 없이 메모리 DB 드라이버(DB_DRIVER=memory)와 함께 자연어 → SQL, AI 어시스턴트 흐름을 확인할 때 사용합니다.
+// 응답 순서를 지정하면(script) 그대로 재생하고, 지정하지 않으면 항상 같은 기본 응답을 돌려줍니다.
+import type { AgentMessage, AgentModelReply } from './aiAgent';
+import type { LlmProvider } from './llmProvider';
+
+export interface FixtureScript {
+    /** generateText 응답 순서. 마지막 응답은 이후에도 반복합니다. */
+    texts?: string[];
+    /** AI 어시스턴트의 모델 응답 순서. createAgentModel마다 처음부터 재생합니다. */
+    agentReplies?: AgentModelReply[];
+}
+
+export const FIXTURE_SQL = 'SELECT TOP 10 barcode, descr, money1 FROM parts WITH(NOLOCK) ORDER BY barcode';
+// 기본 응답에서 호출하는 등록 쿼리 (메모리 DB 픽스처에 처리기가 있는 읽기 전용 쿼리)
+const FIXTURE_NAMED_QUERY = '거래처목록';
+
+function defaultAgentReply(messages: AgentMessage[], canCallTools: boolean): AgentModelReply {
+    const results = messages.filter((m): m is Extract<AgentMessage, { role: 'tool' }> => m.role === 'tool');
+    if (results.length === 0 && canCallTools) {
+        return { toolCalls: [{ id: 'fixture_1', name: 'run_named_query', args: { name: FIXTURE_NAMED_QUERY, params: {} } }] };
+    }
+    const summary = results
+        .map(({ call, result }) => `${String(call.args.name ?? call.name)}: ${result.error ? `오류 (${String(result.error)})` : `${String(result.rowCount ?? 0)}행`}`)
+        .join(', ');
+    return { text: summary ? `[fixture] 조회 결과 - ${summary}` : '[fixture] 조회한 데이터가 없습니다.', toolCalls: [] };
+}
+
+export function createFixtureProvider(script: FixtureScript = {}): LlmProvider {
+    let textIndex = 0;
+    return {
+        kind: 'fixture',
+        async generateText() {
+            const texts = script.texts;
+            if (!texts || texts.length === 0) return FIXTURE_SQL;
+            return texts[Math.min(textIndex++, texts.length - 1)];
+        },
+        createAgentModel() {
+            let replyIndex = 0;
+            return {
+                async generate(_systemInstruction, messages, tools) {
+                    const replies = script.agentReplies;
+                    if (!replies || replies.length === 0) return defaultAgentReply(messages, tools.length > 0);
+                    // 도구 없이 답을 요청받으면(실행 제한) 스크립트와 관계없이 텍스트로 답합니다.
+                    const reply = replies[Math.min(replyIndex++, replies.length - 1)];
+                    return tools.length > 0 || reply.toolCalls.length === 0 ? reply : defaultAgentReply(messages, false);
+                },
+            };
+        },
+    };
+}
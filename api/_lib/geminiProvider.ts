@@ -0,0 +1,66 @@
+// api/_lib/geminiProvider.ts
+// Google Gemini 제공자. 함수 호출(function calling)을 AgentModel로 감쌉니다.
+// 모델 응답(functionCall 부분과 서명)은 raw로 보관했다가 다음 요청의 대화 기록에 그대로 돌려줍니다.
+import { GoogleGenAI } from '@google/genai';
+import type { Content, Part } from '@google/genai';
+import type { AgentMessage } from './aiAgent';
+import type { LlmProvider } from './llmProvider';
+
+function toContents(messages: AgentMessage[]): Content[] {
+    const contents: Content[] = [];
+    for (const message of messages) {
+        if (message.role === 'user') {
+            contents.push({ role: 'user', parts: [{ text: message.text }] });
+        } else if (message.role === 'model') {
+            const raw = message.raw as Content | undefined;
+            const parts: Part[] = raw?.parts || [
+                ...(message.text ? [{ text: message.text }] : []),
+                ...message.toolCalls.map(call => ({ functionCall: { id: call.id, name: call.name, args: call.args } })),
+            ];
+            contents.push({ role: 'model', parts });
+        } else {
+            const part: Part = { functionResponse: { id: message.call.id, name: message.call.name, response: message.result } };
+            // 같은 응답에 대한 함수 결과는 하나의 user 메시지로 묶습니다.
+            const last = contents[contents.length - 1];
+            if (last?.role === 'user' && last.parts?.every(p => p.functionResponse)) last.parts.push(part);
+            else contents.push({ role: 'user', parts: [part] });
+        }
+    }
+    return contents;
+}
+
+export function createGeminiProvider(apiKey: string | undefined): LlmProvider {
+    // 첫 요청 때 만듭니다. (Gemini를 사용하지 않는 서버에서는 API 키가 없어도 됩니다)
+    let client: GoogleGenAI | null = null;
+    const getClient = () => (client ??= new GoogleGenAI({ apiKey }));
+
+    return {
+        kind: 'gemini',
+        async generateText(model, prompt) {
+            const response = await getClient().models.generateContent({ model, contents: prompt });
+            return response.text || '';
+        },
+        createAgentModel(model) {
+            return {
+                async generate(systemInstruction, messages, tools) {
+                    const response = await getClient().models.generateContent({
+                        model,
+                        contents: toContents(messages),
+                        config: {
+                            systemInstruction,
+                            ...(tools.length > 0 ? {
+                                tools: [{
+                                    functionDeclarations: tools.map(tool => ({ name: tool.name, description: tool.description, parametersJsonSchema: tool.parameters })),
+                                }],
+                            } : {}),
+                        },
+                    });
+                    const toolCalls = (response.functionCalls || [])
+                        .filter(call => !!call.name)
+                        .map(call => ({ id: call.id, name: call.name!, args: call.args || {} }));
+                    return { text: toolCalls.length > 0 ? undefined : response.text, toolCalls, raw: response.candidates?.[0]?.content };
+                },
+            };
+        },
+    };
+}
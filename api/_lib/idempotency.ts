@@ -0,0 +1,60 @@
+// api/_lib/idempotency.ts
+// 쓰기 요청의 멱등성 키를 기록하는 테이블의 쿼리와 결과 직렬화를 담당합니다.
+// 키는 쿼리와 같은 트랜잭션 안에서 기록되므로, 커밋된 작업만 '완료'로 남습니다.
+// 같은 키로 다시 요청하면 쿼리를 실행하지 않고 저장된 결과를 돌려줍니다.
+
+export const IDEMPOTENCY_KEY_MAX_LENGTH = 200;
+// 이 기간이 지난 키는 주기적으로 정리합니다.
+export const IDEMPOTENCY_RETENTION_DAYS = 30;
+// 정리 주기. 키를 기록한 요청이 끝난 뒤 마지막 정리로부터 이만큼 지났으면 다시 정리합니다.
+export const IDEMPOTENCY_PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+// 한 번에 지우는 최대 행 수. 오래 잠그지 않도록 나눠서 지웁니다.
+export const IDEMPOTENCY_PURGE_BATCH_SIZE = 5000;
+// 결과가 이보다 크면 recordset 없이 rowsAffected만 저장합니다.
+const STORED_RESULT_MAX_LENGTH = 64 * 1024;
+
+// 테이블은 migrations/001_app_idempotency_keys.sql 로 미리 만듭니다. API 계정에는 DDL 권한이 없으므로 존재 여부만 확인합니다.
+export const IDEMPOTENCY_TABLE_MISSING_MESSAGE = '멱등성 키 테이블(dbo.app_idempotency_keys)이 없습니다. migrations/001_app_idempotency_keys.sql 을 실행해주세요.';
+
+export const CHECK_IDEMPOTENCY_TABLE_SQL = `SELECT OBJECT_ID('dbo.app_idempotency_keys', 'U') AS objectId`;
+
+export const PURGE_IDEMPOTENCY_KEYS_SQL = `
+DELETE TOP (${IDEMPOTENCY_PURGE_BATCH_SIZE}) FROM dbo.app_idempotency_keys WHERE created_at < DATEADD(DAY, -${IDEMPOTENCY_RETENTION_DAYS}, GETDATE());
+SELECT @@ROWCOUNT AS deleted;
+`;
+
+// 같은 키의 동시 요청이 함께 실행되지 않도록 키 범위에 잠금을 겁니다.
+export const LOOKUP_IDEMPOTENCY_KEY_SQL = `SELECT query_name, result FROM dbo.app_idempotency_keys WITH (UPDLOCK, HOLDLOCK) WHERE idem_key = @idemKey`;
+
+export const RECORD_IDEMPOTENCY_KEY_SQL = `INSERT INTO dbo.app_idempotency_keys (idem_key, query_name, result) VALUES (@idemKey, @idemName, @idemResult)`;
+
+export interface StoredResult {
+    recordset: any[];
+    rowsAffected: number[];
+}
+
+/**
+ * 요청의 키 값을 확인합니다. 키가 없으면 undefined, 형식이 잘못되었으면 오류 메시지를 던집니다.
+ */
+export function normalizeIdempotencyKey(value: unknown): string | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value !== 'string') throw new Error('멱등성 키는 문자열이어야 합니다.');
+    const key = value.trim();
+    if (key.length === 0 || key.length > IDEMPOTENCY_KEY_MAX_LENGTH) throw new Error(`멱등성 키는 1~${IDEMPOTENCY_KEY_MAX_LENGTH}자여야 합니다.`);
+    return key;
+}
+
+export function serializeStoredResult(result: StoredResult): string {
+    const full = JSON.stringify(result);
+    if (full.length <= STORED_RESULT_MAX_LENGTH) return full;
+    return JSON.stringify({ recordset: [], rowsAffected: result.rowsAffected });
+}
+
+export function parseStoredResult(value: string | null): StoredResult {
+    try {
+        const parsed = value ? JSON.parse(value) : null;
+        return { recordset: parsed?.recordset || [], rowsAffected: parsed?.rowsAffected || [] };
+    } catch {
+        return { recordset: [], rowsAffected: [] };
+    }
+}
@@ -0,0 +1,105 @@
+// api/_lib/llmProvider.ts
+// AI 모델 제공자(LLM provider) 인터페이스와 작업별 모델 선택입니다.
+// 제공자: gemini (Google), openai (OpenAI 호환 HTTP API — Ollama, llama.cpp 등 로컬 서버 포함), fixture (정해진 응답, 개발/테스트용)
+// 서버 기본값은 환경 변수(LLM_PROVIDER, LLM_SQL_MODEL, LLM_CHAT_MODEL)로 정하고,
+// 클라이언트는 공통 설정(settings/common/aiModels)에 지정한 제공자/모델을 요청의 llm 필드로 보냅니다.
+// 설정되지 않은 제공자는 요청해도 사용할 수 없습니다.
+import type { AgentModel } from './aiAgent';
+import { createFixtureProvider } from './fixtureLlmProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+
+export type LlmProviderKind = 'gemini' | 'openai' | 'fixture';
+/** sql: 자연어 → SQL 변환, chat: AI 어시스턴트 */
+export type LlmTask = 'sql' | 'chat';
+
+export interface LlmProvider {
+    kind: LlmProviderKind;
+    /** 프롬프트 하나에 대한 텍스트 응답 */
+    generateText(model: string, prompt: string): Promise<string>;
+    /** 도구 호출 루프(aiAgent.ts)에 사용할 모델 */
+    createAgentModel(model: string): AgentModel;
+}
+
+export interface LlmChoice {
+    provider: LlmProviderKind;
+    model: string;
+}
+
+/** 요청한 제공자/모델을 사용할 수 없는 경우 (400) */
+export class LlmConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LlmConfigError';
+    }
+}
+
+const PROVIDER_KINDS: LlmProviderKind[] = ['gemini', 'openai', 'fixture'];
+const MODEL_NAME_PATTERN = /^[\w.:/-]{1,100}$/;
+
+const DEFAULT_MODELS: Record<LlmProviderKind, Record<LlmTask, string>> = {
+    gemini: { sql: 'gemini-3-pro-preview', chat: 'gemini-3-flash-preview' },
+    openai: { sql: 'llama3.1', chat: 'llama3.1' },
+    fixture: { sql: 'fixture', chat: 'fixture' },
+};
+
+const isProviderKind = (value: unknown): value is LlmProviderKind => PROVIDER_KINDS.includes(value as LlmProviderKind);
+
+/** 서버 기본 제공자. LLM_PROVIDER가 없거나 알 수 없는 값이면 gemini */
+export function resolveDefaultProvider(env: NodeJS.ProcessEnv = process.env): LlmProviderKind {
+    const value = env.LLM_PROVIDER?.trim().toLowerCase();
+    if (value && !isProviderKind(value)) console.warn(`[LLM] 알 수 없는 LLM_PROVIDER: ${value} (gemini 사용)`);
+    return isProviderKind(value) ? value : 'gemini';
+}
+
+/** 요청으로 선택할 수 있는 제공자. 기본 제공자와 접속 정보가 설정된 제공자만 허용합니다. (fixture는 기본 제공자일 때만) */
+function isProviderAvailable(kind: LlmProviderKind, env: NodeJS.ProcessEnv): boolean {
+    if (kind === resolveDefaultProvider(env)) return true;
+    if (kind === 'gemini') return !!env.API_KEY;
+    if (kind === 'openai') return !!env.OPENAI_COMPAT_BASE_URL;
+    return false;
+}
+
+function defaultModel(kind: LlmProviderKind, task: LlmTask, env: NodeJS.ProcessEnv): string {
+    if (kind === resolveDefaultProvider(env)) {
+        const override = task === 'sql' ? env.LLM_SQL_MODEL : env.LLM_CHAT_MODEL;
+        if (override?.trim()) return override.trim();
+    }
+    if (kind === 'openai' && env.OPENAI_COMPAT_MODEL?.trim()) return env.OPENAI_COMPAT_MODEL.trim();
+    return DEFAULT_MODELS[kind][task];
+}
+
+/**
+ * 작업에 사용할 제공자와 모델을 정합니다.
+ * @param requested 요청의 llm 필드 ({ provider?, model? }). 없으면 서버 기본값
+ * @throws {LlmConfigError} 알 수 없거나 설정되지 않은 제공자, 올바르지 않은 모델 이름
+ */
+export function resolveLlmChoice(task: LlmTask, requested: unknown, env: NodeJS.ProcessEnv = process.env): LlmChoice {
+    const { provider: requestedProvider, model: requestedModel } = (requested && typeof requested === 'object' ? requested : {}) as Record<string, unknown>;
+
+    let provider = resolveDefaultProvider(env);
+    if (requestedProvider !== undefined && requestedProvider !== null && requestedProvider !== '') {
+        if (!isProviderKind(requestedProvider)) throw new LlmConfigError(`알 수 없는 AI 제공자입니다: ${requestedProvider}`);
+        if (!isProviderAvailable(requestedProvider, env)) throw new LlmConfigError(`이 서버에 설정되지 않은 AI 제공자입니다: ${requestedProvider}`);
+        provider = requestedProvider;
+    }
+
+    if (requestedModel !== undefined && requestedModel !== null && requestedModel !== '') {
+        if (typeof requestedModel !== 'string' || !MODEL_NAME_PATTERN.test(requestedModel)) throw new LlmConfigError(`AI 모델 이름이 올바르지 않습니다: ${requestedModel}`);
+        return { provider, model: requestedModel };
+    }
+    return { provider, model: defaultModel(provider, task, env) };
+}
+
+const providers = new Map<LlmProviderKind, LlmProvider>();
+
+export function getLlmProvider(kind: LlmProviderKind, env: NodeJS.ProcessEnv = process.env): LlmProvider {
+    let provider = providers.get(kind);
+    if (!provider) {
+        if (kind === 'gemini') provider = createGeminiProvider(env.API_KEY);
+        else if (kind === 'openai') provider = createOpenAiCompatibleProvider(env.OPENAI_COMPAT_BASE_URL || '', env.OPENAI_COMPAT_API_KEY);
+        else provider = createFixtureProvider();
+        providers.set(kind, provider);
+    }
+    return provider;
+}
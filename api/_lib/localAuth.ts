@@ -0,0 +1,49 @@
+// api/_lib/localAuth.ts
+// DB_DRIVER=memory 로 오프라인 개발/테스트할 때 Google 공개 인증서 대신 로컬 RSA 키로 ID 토큰을 검증합니다.
+// 토큰은 Firebase ID 토큰과 같은 형식(aud/iss/sub/exp)으로 만들어지므로 verifyIdToken의 검사를 그대로 거칩니다.
+// 운영(MSSQL) 드라이버에서는 api/sql.ts가 이 공급자를 사용하지 않습니다.
+import crypto from 'crypto';
+import fs from 'fs';
+import { PublicKeyProvider } from './firebaseAuth';
+
+export const LOCAL_AUTH_KID = 'local';
+const DEFAULT_TOKEN_TTL_SEC = 60 * 60;
+
+/**
+ * 환경 변수에서 로컬 검증용 공개 키(PEM)를 읽습니다. 설정되지 않았으면 null입니다.
+ * LOCAL_AUTH_PUBLIC_KEY(PEM 본문)가 LOCAL_AUTH_PUBLIC_KEY_FILE(파일 경로)보다 우선합니다.
+ */
+export function readLocalAuthPublicKey(env: NodeJS.ProcessEnv = process.env): string | null {
+    if (env.LOCAL_AUTH_PUBLIC_KEY?.trim()) return env.LOCAL_AUTH_PUBLIC_KEY.replace(/\\n/g, '\n');
+    if (env.LOCAL_AUTH_PUBLIC_KEY_FILE) return fs.readFileSync(env.LOCAL_AUTH_PUBLIC_KEY_FILE, 'utf8');
+    return null;
+}
+
+export function createLocalKeyProvider(publicKeyPem: string): PublicKeyProvider {
+    // 잘못된 키는 첫 요청이 아니라 서버 시작 시 알 수 있도록 미리 해석해봅니다.
+    crypto.createPublicKey(publicKeyPem);
+    const keys = { [LOCAL_AUTH_KID]: publicKeyPem };
+    return async () => keys;
+}
+
+export interface LocalTokenClaims {
+    uid: string;
+    email?: string;
+}
+
+/** 로컬 개인 키로 Firebase ID 토큰 형식의 토큰을 만듭니다. (이메일은 인증된 것으로 표시) */
+export function signLocalIdToken(privateKeyPem: string | crypto.KeyObject, projectId: string, claims: LocalTokenClaims, nowSec: number = Math.floor(Date.now() / 1000), ttlSec: number = DEFAULT_TOKEN_TTL_SEC): string {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const header = encode({ alg: 'RS256', kid: LOCAL_AUTH_KID, typ: 'JWT' });
+    const payload = encode({
+        aud: projectId,
+        iss: `https://securetoken.google.com/${projectId}`,
+        sub: claims.uid,
+        ...(claims.email ? { email: claims.email, email_verified: true } : {}),
+        auth_time: nowSec,
+        iat: nowSec,
+        exp: nowSec + ttlSec,
+    });
+    const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKeyPem).toString('base64url');
+    return `${header}.${payload}.${signature}`;
+}
@@ -0,0 +1,545 @@
+// api/_lib/memoryDb.ts
+// 매장 MSSQL 서버 대신 메모리의 픽스처 데이터로 동작하는 로컬 대체 드라이버입니다. (DB_DRIVER=memory)
+// T-SQL을 해석하지 않고, 요청의 queryId('named:입고등록', 'syncBOM' 등)에 해당하는 처리기가 같은 결과를 만듭니다.
+// 데이터는 프로세스가 살아 있는 동안만 유지되며, 재시작하면 픽스처(./memoryFixtures.ts)로 초기화됩니다.
+import { DbDriver, DbRequest, DbResult, DbTransaction } from './dbDriver';
+import { createFixtureTables, FIXTURE_COLUMNS, FixtureRow, FixtureTables, formatDate, formatDateTime, MONTHLY_COLUMNS, yymm, yymmdd } from './memoryFixtures';
+import { IDEMPOTENCY_RETENTION_DAYS } from './idempotency';
+
+/** SQL Server 오류와 같은 형태(number/state/class)로 전달하여 오류 응답이 운영 환경과 같게 보이도록 합니다. */
+export class MemoryDbError extends Error {
+    readonly state = 1;
+    readonly class = 16;
+    constructor(message: string, public readonly number: number = 50000) {
+        super(message);
+        this.name = 'MemoryDbError';
+    }
+}
+
+interface QueryContext {
+    tables: FixtureTables;
+    params: Record<string, any>;
+    now: Date;
+}
+
+type QueryHandler = (ctx: QueryContext) => DbResult;
+
+// --- 결과/조회 도우미 ---
+function result(recordsets: any[][], rowsAffected: number[] = []): DbResult {
+    return { recordset: recordsets[0] || [], recordsets, rowsAffected };
+}
+
+const trim = (value: any) => String(value ?? '').trim();
+const sameJunno = (a: any, b: any) => trim(a) === trim(b);
+const table = (tables: FixtureTables, name: string) => (tables[name] ||= []);
+const findPart = (tables: FixtureTables, barcode: any) => table(tables, 'parts').find(p => p.barcode === barcode);
+const findMast = (tables: FixtureTables, junno: any) => table(tables, 'sale_mast').find(m => sameJunno(m.junno, junno));
+const readyOf = (tables: FixtureTables, junno: any) => table(tables, 'sale_ready').filter(r => sameJunno(r.junno, junno));
+
+function byKeys<T extends FixtureRow>(...keys: { key: string; desc?: boolean }[]) {
+    return (a: T, b: T) => {
+        for (const { key, desc } of keys) {
+            const x = a[key] ?? '';
+            const y = b[key] ?? '';
+            if (x < y) return desc ? 1 : -1;
+            if (x > y) return desc ? -1 : 1;
+        }
+        return 0;
+    };
+}
+
+/** 다른 행사 중 이 상품이 속한 항목을 mast와 함께 찾습니다. */
+function otherEventItems(tables: FixtureTables, barcode: any, excludeJunno: any) {
+    return table(tables, 'sale_ready')
+        .filter(r => r.barcode === barcode && !sameJunno(r.junno, excludeJunno))
+        .map(r => ({ r, m: table(tables, 'sale_mast').find(m => m.junno === r.junno) }))
+        .filter((item): item is { r: FixtureRow; m: FixtureRow } => !!item.m);
+}
+
+/**
+ * 쿼리 본문의 BEGIN TRAN ... CATCH 블록처럼 실패 시 변경을 되돌립니다.
+ * failResult가 true이면 'FAIL' 결과 행을, 아니면 오류를 그대로 던집니다 (RAISERROR로 재발생하는 쿼리).
+ */
+function atomically(ctx: QueryContext, failResult: boolean, run: () => DbResult): DbResult {
+    const snapshot = structuredClone(ctx.tables);
+    try {
+        return run();
+    } catch (err: any) {
+        for (const key of Object.keys(ctx.tables)) delete ctx.tables[key];
+        Object.assign(ctx.tables, snapshot);
+        if (!failResult) throw err;
+        return result([[{ RESULT: 'FAIL', MSG: err.message }]]);
+    }
+}
+
+// --- 행사 공통 처리 ---
+function refreshMastSummary(tables: FixtureTables, junno: any) {
+    const mast = findMast(tables, junno);
+    if (!mast) return;
+    const items = readyOf(tables, junno);
+    mast.itemcount = items.length;
+    mast.avgmgrate = items.length > 0 ? items.reduce((sum, r) => sum + Number(r.salecount || 0), 0) / items.length : 0;
+}
+
+/** 행사 중지 시 parts 판매가를 다른 진행 중 행사 가격 또는 정상가로 되돌립니다. */
+function revertParts(tables: FixtureTables, barcode: any, stoppedJunno: any) {
+    const part = findPart(tables, barcode);
+    if (!part) return;
+    const next = otherEventItems(tables, barcode, stoppedJunno)
+        .filter(({ m }) => m.isappl === '1')
+        .sort((a, b) => byKeys({ key: 'startday', desc: true })(a.m, b.m))[0];
+    part.money1comp = next ? next.r.salemoney1 : part.money1;
+    part.salemoney0 = next ? next.r.salemoney0 : part.money0vat;
+    part.salestartday = next ? next.m.startday : null;
+    part.saleendday = next ? next.m.endday : null;
+}
+
+function applyToParts(tables: FixtureTables, item: FixtureRow, startday: any, endday: any) {
+    const part = findPart(tables, item.barcode);
+    if (!part) return;
+    Object.assign(part, { money1comp: item.salemoney1, salemoney0: item.salemoney0, salestartday: startday, saleendday: endday });
+}
+
+/** 'YYYY-MM-DD 오후 H:MM:SS' (행사 품목 수정 시각 표기) */
+function editTimestamp(now: Date): string {
+    const hour = now.getHours();
+    const hour12 = hour > 12 ? hour - 12 : hour === 0 ? 12 : hour;
+    return `${formatDate(now)} ${hour >= 12 ? '오후' : '오전'} ${hour12}:${String(now.getMinutes()).padStart(2, '0')}:${String(now.getSeconds()).padStart(2, '0')}`;
+}
+
+function upsertEventItem(ctx: QueryContext, options: { islink: string; applyToParts: boolean }): DbResult {
+    return atomically(ctx, true, () => {
+        const { tables, params, now } = ctx;
+        const today = formatDate(now);
+        const mast = findMast(tables, params.Junno);
+        if (!mast || !trim(mast.salename)) throw new MemoryDbError('존재하지 않는 행사 전표이거나 행사명이 없습니다.');
+        const part = findPart(tables, params.Barcode);
+        if (!part) throw new MemoryDbError('상품 마스터에 없는 바코드입니다.');
+
+        const previous = otherEventItems(tables, params.Barcode, params.Junno)
+            .sort((a, b) => byKeys({ key: 'endday', desc: true }, { key: 'startday', desc: true })(a.m, b.m))[0];
+        const orgPrice = previous ? previous.r.salemoney1 : part.money1;
+        const salePrice = Math.round(Number(params.SalePrice));
+        const saleCost = Math.round(Number(params.SaleCost));
+        const margin = salePrice === 0 ? 0 : Math.floor(((salePrice - saleCost) / salePrice) * 100);
+        const values = {
+            salemoney0: Math.floor(saleCost), salemoney1: params.SalePrice, salecount: margin, isappl: params.IsAppl,
+            edtday: editTimestamp(now), starttime: today, endtime: '-',
+        };
+
+        const existing = readyOf(tables, params.Junno).find(r => r.barcode === params.Barcode);
+        if (existing) {
+            Object.assign(existing, values);
+        } else {
+            const serial = String(readyOf(tables, params.Junno).length + 1).padStart(5, '0');
+            table(tables, 'sale_ready').push({
+                junno_serial: `${params.Junno}_${serial}`, junno: params.Junno, salename: mast.salename, barcode: params.Barcode, comcode: part.comcode,
+                orgmoney1: orgPrice, startday: mast.startday, endday: mast.endday, inpday: today,
+                islink: options.islink, isautoappl: '1', isautoback: '1', ...values,
+            });
+        }
+        refreshMastSummary(tables, params.Junno);
+
+        if (options.applyToParts && params.IsAppl === '1' && mast.isappl === '1') {
+            Object.assign(part, { money1comp: params.SalePrice, salemoney0: Math.floor(saleCost), salestartday: mast.startday, saleendday: mast.endday });
+        }
+        return result([[{ RESULT: 'SUCCESS', MSG: '저장되었습니다.' }]]);
+    });
+}
+
+function checkEventProduct(ctx: QueryContext, continuous: boolean): DbResult {
+    const { tables, params } = ctx;
+    const mast = findMast(tables, params.Junno);
+    const myStart = mast?.startday ?? null;
+    const myEnd = mast?.endday ?? null;
+    const part = findPart(tables, params.Barcode);
+    if (!part) return result([[]]);
+
+    const mine = readyOf(tables, params.Junno).find(r => r.barcode === params.Barcode);
+    const others = otherEventItems(tables, params.Barcode, params.Junno);
+    const overlapping = others
+        .filter(({ m }) => m.isappl === '1' && myStart !== null && myEnd !== null && m.startday <= myEnd && m.endday >= myStart)
+        .sort((a, b) => byKeys({ key: 'startday', desc: true })(a.m, b.m))[0];
+    const warning = overlapping
+        ? `[${overlapping.m.salename}] ${Math.trunc(Number(overlapping.r.salemoney1))}원${continuous ? '' : ` (${overlapping.m.startday}~${overlapping.m.endday})`}`
+        : null;
+
+    const row: FixtureRow = {
+        GoodsName: part.descr, Spec: part.spec, Cost: part.money0vat, Price: part.money1, MyStart: myStart,
+        Mode: mine ? 'UPDATE' : 'INSERT',
+        SaleCost: mine?.salemoney0 ?? part.money0vat,
+        SalePrice: mine?.salemoney1 ?? part.money1,
+    };
+    if (continuous) {
+        const previous = [...others].sort((a, b) => byKeys({ key: 'endday', desc: true })(a.m, b.m))[0];
+        Object.assign(row, { WarningMsg: warning, PreviousSalePrice: previous ? previous.r.salemoney1 : null });
+    } else {
+        Object.assign(row, { Margin: mine?.salecount ?? 0, WarningMsg: warning, DuplicatePrice: overlapping ? overlapping.r.salemoney1 : null });
+    }
+    return result([[row]]);
+}
+
+// --- 이름 기반 쿼리 처리기 (./namedQueries.ts 와 같은 결과) ---
+const NAMED_HANDLERS: Record<string, QueryHandler> = {
+    '실시간재고확인': ({ tables, params }) => {
+        const part = findPart(tables, params.Barcode);
+        return result([part ? [{ curjago: part.curjago ?? 0 }] : []]);
+    },
+    '재고실사_즉시저장': ctx => atomically(ctx, true, () => {
+        const { tables, params, now } = ctx;
+        const part = findPart(tables, params.Barcode);
+        if (!part) throw new MemoryDbError('등록되지 않은 상품입니다.');
+        const current = Number(part.curjago ?? 0);
+        const diff = Number(params.RealQty) - current;
+        if (diff !== 0) {
+            const cost = Number(part.money0 ?? 0);
+            const price = Number(part.money1 ?? 0);
+            table(tables, `bojung_${yymm(now)}`).push({
+                comcode: trim(part.comcode).slice(0, 5), day1: formatDate(now), barcode: params.Barcode, itemcount: diff,
+                money0vat: cost, tmoney: cost * diff, money1: price, tmoney1: price * diff, upgubun: '0', mancode: '',
+            });
+            // 매장 DB에서는 보정 테이블 트리거가 재고를 계산합니다.
+            part.curjago = current + diff;
+        }
+        return result([[{ RESULT: 'SUCCESS', OLD_QTY: current, NEW_QTY: params.RealQty, DIFF_QTY: diff }]]);
+    }),
+    '입고등록': ({ tables, params }) => {
+        const part = findPart(tables, params.barcode);
+        table(tables, 'dt900_ipgo').push({
+            day1: params.time, dtcomcode: params.dtcomcode, comcode: params.dtcomcode, comname: params.comname, barcode: params.barcode,
+            descr: params.item_name ?? '', money0vat: params.cost, money1: params.price, itemcount: params.qty,
+            gubun: Number(params.qty) >= 0 ? 'I' : 'B', lstmoney0vat: part?.money0vat ?? 0,
+        });
+        return result([], [1]);
+    },
+    '행사마스터_신규등록': ctx => atomically(ctx, true, () => {
+        const { tables, params, now } = ctx;
+        const prefix = yymmdd(now);
+        const maxSeq = table(tables, 'sale_mast')
+            .map(m => trim(m.junno))
+            .filter(junno => junno.length === 13 && junno.startsWith(`${prefix}_`) && /^\d{6}$/.test(junno.slice(-6)))
+            .reduce((max, junno) => Math.max(max, Number(junno.slice(-6))), 0);
+        const junno = `${prefix}_${String(maxSeq + 1).padStart(6, '0')}`;
+        table(tables, 'sale_mast').push({
+            junno, salename: params.SaleName, startday: params.StartDay, endday: params.EndDay, itemcount: 0, isappl: '0',
+            appendid: '', appendday: formatDate(now), avgmgrate: 0,
+        });
+        return result([[{ RESULT: 'SUCCESS', NEW_JUNNO: junno }]]);
+    }),
+    '행사등록_취소삭제': ctx => atomically(ctx, true, () => {
+        const { tables, params } = ctx;
+        tables.sale_ready = table(tables, 'sale_ready').filter(r => !sameJunno(r.junno, params.Junno));
+        tables.sale_mast = table(tables, 'sale_mast').filter(m => !sameJunno(m.junno, params.Junno));
+        return result([[{ RESULT: 'SUCCESS', MSG: '행사가 취소 및 삭제되었습니다.' }]]);
+    }),
+    '행사등록_상품저장': ctx => upsertEventItem(ctx, { islink: '0', applyToParts: false }),
+    '행사상품_저장': ctx => upsertEventItem(ctx, { islink: '1', applyToParts: true }),
+    '행사등록_최종확정': ctx => atomically(ctx, true, () => {
+        const { tables, params, now } = ctx;
+        const status = params.FinalStart <= formatDate(now) ? '1' : '0';
+        const mast = findMast(tables, params.TargetJunno);
+        if (mast) Object.assign(mast, { salename: params.FinalName, startday: params.FinalStart, endday: params.FinalEnd, isappl: status });
+        for (const item of readyOf(tables, params.TargetJunno)) {
+            Object.assign(item, { startday: params.FinalStart, endday: params.FinalEnd, isappl: status });
+            if (status === '1') applyToParts(tables, item, item.startday, item.endday);
+        }
+        return result([[{ RESULT: 'SUCCESS', STATUS: status === '1' ? 'APPLIED' : 'RESERVED' }]]);
+    }),
+    '행사찾기': ({ tables, params }) => {
+        const found = table(tables, 'sale_ready')
+            .filter(r => r.barcode === params.Barcode)
+            .map(r => table(tables, 'sale_mast').find(m => m.junno === r.junno))
+            .filter((m): m is FixtureRow => !!m)
+            .sort(byKeys({ key: 'startday', desc: true }, { key: 'junno', desc: true }))[0];
+        return result([found ? [{
+            junno: found.junno, salename: found.salename, startday: found.startday, endday: found.endday,
+            isappl: found.isappl, itemcount: found.itemcount, avgmgrate: found.avgmgrate,
+        }] : []]);
+    },
+    '행사기간_및_상태_수정': ctx => atomically(ctx, true, () => {
+        const { tables, params, now } = ctx;
+        const today = formatDate(now);
+        const mast = findMast(tables, params.Junno);
+        const oldStatus = mast?.isappl;
+        const newStatus = params.StartDay > today ? '0' : params.EndDay < today ? '2' : '1';
+        if (mast) Object.assign(mast, { startday: params.StartDay, endday: params.EndDay, isappl: newStatus });
+
+        const items = readyOf(tables, params.Junno);
+        const itemStatus = { '0': '0', '1': '1', '2': 'D' }[newStatus];
+        for (const item of items) {
+            Object.assign(item, { startday: params.StartDay, endday: params.EndDay });
+            if (item.isappl !== 'D') item.isappl = itemStatus;
+        }
+        if (oldStatus === '1' && newStatus !== '1') {
+            items.forEach(item => revertParts(tables, item.barcode, params.Junno));
+        } else if (oldStatus !== '1' && newStatus === '1') {
+            items.filter(item => item.isappl === '1').forEach(item => applyToParts(tables, item, params.StartDay, params.EndDay));
+        }
+        return result([[{ RESULT: 'SUCCESS', MSG: '기간 및 상태가 업데이트되었습니다.' }]]);
+    }),
+    '행사_적용_및_Parts업데이트': ctx => atomically(ctx, false, () => {
+        const { tables, params } = ctx;
+        const mast = findMast(tables, params.Junno);
+        if (mast) mast.isappl = '1';
+        for (const item of readyOf(tables, params.Junno)) {
+            if (item.isappl !== 'D') item.isappl = '1';
+            if (item.isappl === '1' && mast) applyToParts(tables, item, mast.startday, mast.endday);
+        }
+        return result([]);
+    }),
+    '행사_상태변경': ctx => atomically(ctx, false, () => {
+        const { tables, params } = ctx;
+        const stopForGood = params.TargetStatus !== '0';
+        const mast = findMast(tables, params.Junno);
+        if (mast) mast.isappl = stopForGood ? '2' : '0';
+        const items = readyOf(tables, params.Junno);
+        for (const item of items) {
+            if (item.isappl !== 'D') item.isappl = stopForGood ? 'D' : '0';
+        }
+        items.forEach(item => revertParts(tables, item.barcode, params.Junno));
+        return result([]);
+    }),
+    '행사_삭제': ({ tables, params }) => {
+        const ready = table(tables, 'sale_ready');
+        const mast = table(tables, 'sale_mast');
+        tables.sale_ready = ready.filter(r => !sameJunno(r.junno, params.Junno));
+        tables.sale_mast = mast.filter(m => !sameJunno(m.junno, params.Junno));
+        return result([], [ready.length - tables.sale_ready.length, mast.length - tables.sale_mast.length]);
+    },
+    '행사상품_개별중지_및_Parts업데이트': ctx => atomically(ctx, false, () => {
+        const { tables, params } = ctx;
+        readyOf(tables, params.Junno).filter(r => r.barcode === params.Barcode).forEach(r => { r.isappl = 'D'; });
+        revertParts(tables, params.Barcode, params.Junno);
+        return result([]);
+    }),
+    '행사상품_개별삭제': ({ tables, params }) => {
+        const before = table(tables, 'sale_ready').length;
+        tables.sale_ready = table(tables, 'sale_ready').filter(r => !(sameJunno(r.junno, params.Junno) && r.barcode === params.Barcode));
+        refreshMastSummary(tables, params.Junno);
+        return result([], [before - tables.sale_ready.length, findMast(tables, params.Junno) ? 1 : 0]);
+    },
+    '행사상품체크': ctx => checkEventProduct(ctx, false),
+    '행사상품체크_연속스캔': ctx => checkEventProduct(ctx, true),
+    'BOM구성': ({ tables, params }) => result([table(tables, 'bom')
+        .filter(b => b.parebar === params.barcode)
+        .map(b => ({ b, p: findPart(tables, b.childbar) }))
+        .filter((item): item is { b: FixtureRow; p: FixtureRow } => !!item.p)
+        .map(({ b, p }) => ({ 바코드: b.childbar, 상품명: p.descr, 규격: p.spec, 매입가: p.money0vat, 수량: b.childcount }))]),
+    '거래처목록': ({ tables }) => result([activeCustomers(tables).sort(byKeys({ key: 'comname' }))]),
+    '고객검색': ({ tables, params }) => {
+        const kw = String(params.kw ?? '');
+        return result([table(tables, 'comp')
+            .filter(c => c.isuse !== '0' && [c.comname, c.comcode, c.tel].some(value => String(value ?? '').includes(kw)))
+            .map(c => ({ 고객번호: c.comcode, 고객명: c.comname, 전화번호: c.tel, 포인트: c.point }))]);
+    },
+    '매입내역': ({ tables, params }) => {
+        const [startYear, startMonth] = String(params.startDate).split('-').map(Number);
+        const end = new Date(`${params.endDate}T00:00:00`);
+        const rows: FixtureRow[] = [];
+        let foundTable = false;
+        for (let month = new Date(startYear, startMonth - 1, 1); month <= end; month.setMonth(month.getMonth() + 1)) {
+            const monthly = tables[`ipgom_${yymm(month)}`];
+            if (!monthly) continue;
+            foundTable = true;
+            for (const a of monthly) {
+                if (a.day1 < params.startDate || a.day1 > params.endDate) continue;
+                if (params.comcode && a.comcode !== params.comcode) continue;
+                const comp = table(tables, 'comp').find(c => c.comcode === a.comcode);
+                rows.push({
+                    day1: a.day1, junno: a.junno, comname: comp?.comname ?? '미등록거래처', ipgo: a.ipgo ?? 0, banpum: a.banpum ?? 0,
+                    tmoney1: (a.ipgo ?? 0) - (a.banpum ?? 0), remark: a.remark, comcode: a.comcode,
+                });
+            }
+        }
+        if (!foundTable) return result([[{ RESULT: 'NO_DATA', MSG: '조회된 기간에 매입 내역이 없습니다.' }]]);
+        return result([rows.sort(byKeys({ key: 'day1', desc: true }, { key: 'junno', desc: true }))]);
+    },
+};
+
+// --- 동기화/조회 처리기 (api/sql.ts 의 고정 쿼리와 같은 결과) ---
+const activeCustomers = (tables: FixtureTables) => table(tables, 'comp').filter(c => c.isuse !== '0').map(c => ({ comcode: c.comcode, comname: c.comname }));
+
+const syncProductRow = (p: FixtureRow) => ({
+    barcode: p.barcode, descr: p.descr, spec: p.spec, money0vat: p.money0vat, money1: p.money1, comcode: p.comcode,
+    gubun1: p.gubun1, gubun2: p.gubun2, gubun3: p.gubun3, 재고수량: p.curjago, isuse: p.isuse, ispack: p.ispack, upday1: p.upday1,
+});
+
+const bomRows = (tables: FixtureTables) => table(tables, 'bom').map(b => ({ pcode: b.parebar, ccode: b.childbar, childcount: b.childcount }));
+
+function categoryRecordsets(tables: FixtureTables): any[][] {
+    return [
+        [...table(tables, 'gubun1')].sort(byKeys({ key: 'gubun1' })),
+        [...table(tables, 'gubun2')].sort(byKeys({ key: 'gubun1' }, { key: 'gubun2' })),
+        [...table(tables, 'gubun3')].sort(byKeys({ key: 'gubun1' }, { key: 'gubun2' }, { key: 'gubun3' })),
+    ];
+}
+
+function searchProducts({ tables, params, now }: QueryContext): DbResult {
+    const today = formatDate(now);
+    const kw = String(params.kw ?? '');
+    const rows = table(tables, 'parts')
+        .filter(p => p.barcode === kw || String(p.descr ?? '').includes(kw))
+        .sort((a, b) => (a.barcode === kw ? 0 : 1) - (b.barcode === kw ? 0 : 1) || byKeys({ key: 'descr' })(a, b))
+        .slice(0, 50)
+        .map(p => {
+            const comp = table(tables, 'comp').find(c => c.comcode === p.comcode);
+            const item = table(tables, 'sale_ready').find(r => r.barcode === p.barcode && r.isappl === '1');
+            const mast = item && table(tables, 'sale_mast').find(m => m.junno === item.junno && m.isappl === '1' && today >= m.startday && today <= m.endday);
+            return {
+                바코드: p.barcode, 상품명: p.descr, 규격: p.spec, 과세여부: p.isvat, 매입가: p.money0vat, 판매가: p.money1, 재고수량: p.curjago ?? 0,
+                BOM여부: p.ispack === '1' ? '묶음' : '일반', 행사유무: item ? 'Y' : 'N', 행사매입가: item?.salemoney0 ?? 0, 행사판매가: item?.salemoney1 ?? 0,
+                행사명: mast?.salename ?? '', 행사시작일: mast?.startday ?? null, 행사종료일: mast?.endday ?? null,
+                거래처코드: p.comcode, 거래처명: comp?.comname ?? '', gubun1: p.gubun1, gubun2: p.gubun2, gubun3: p.gubun3,
+                사용유무: p.isuse, 포인트적립: p.ispoint, 재고관리: p.isjago, ispack: p.ispack,
+            };
+        });
+    return result([rows]);
+}
+
+const IDEMPOTENCY_TABLE = 'app_idempotency_keys';
+
+const HANDLERS: Record<string, QueryHandler> = {
+    'diagnostics:version': ({ now }) => result([[{ version: 'KJ Mart memory driver (fixture data)', dbTime: now.toISOString() }]]),
+    'schema:updayKind': () => result([[{ dataType: FIXTURE_COLUMNS.parts.upday1, maxLength: 19 }]]),
+    getDatabaseSchema: ({ tables }) => {
+        const columns: FixtureRow[] = [];
+        for (const name of Object.keys(tables).sort()) {
+            const monthly = /^(ipgom|bojung)_\d{4}$/.exec(name);
+            const definition = FIXTURE_COLUMNS[name] ?? (monthly ? MONTHLY_COLUMNS[monthly[1] as 'ipgom' | 'bojung'] : undefined);
+            if (!definition) continue;
+            for (const [columnName, dataType] of Object.entries(definition)) columns.push({ tableName: name, columnName, dataType });
+        }
+        return result([columns]);
+    },
+    'idempotency:check': () => result([[{ objectId: 1 }]]),
+    'idempotency:purge': ({ tables, now }) => {
+        const cutoff = now.getTime() - IDEMPOTENCY_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+        const rows = table(tables, IDEMPOTENCY_TABLE);
+        tables[IDEMPOTENCY_TABLE] = rows.filter(row => row.created_at.getTime() >= cutoff);
+        const deleted = rows.length - tables[IDEMPOTENCY_TABLE].length;
+        return result([[{ deleted }]], [deleted]);
+    },
+    'idempotency:lookup': ({ tables, params }) => {
+        const row = table(tables, IDEMPOTENCY_TABLE).find(r => r.idem_key === params.idemKey);
+        return result([row ? [{ query_name: row.query_name, result: row.result }] : []]);
+    },
+    'idempotency:record': ({ tables, params, now }) => {
+        if (table(tables, IDEMPOTENCY_TABLE).some(r => r.idem_key === params.idemKey)) {
+            throw new MemoryDbError(`Violation of PRIMARY KEY constraint. Cannot insert duplicate key in object 'dbo.${IDEMPOTENCY_TABLE}'.`, 2627);
+        }
+        table(tables, IDEMPOTENCY_TABLE).push({ idem_key: params.idemKey, query_name: params.idemName, result: params.idemResult, created_at: now });
+        return result([], [1]);
+    },
+    syncCustomers: ({ tables }) => result([activeCustomers(tables)]),
+    syncProductsIncrementally: ({ tables, params }) => result([table(tables, 'parts').filter(p => p.upday1 >= params.lastDate).map(syncProductRow)]),
+    syncBOM: ({ tables }) => result([bomRows(tables)]),
+    syncCategories: ({ tables }) => result(categoryRecordsets(tables)),
+    syncCustomersAndProducts: ({ tables }) => result([activeCustomers(tables), table(tables, 'parts').map(syncProductRow), bomRows(tables), ...categoryRecordsets(tables)]),
+    syncProductsPage: ({ tables, params, now }) => {
+        const matching = table(tables, 'parts').filter(p => p.upday1 >= params.lastDate);
+        const hasCursor = params.cursorBarcode !== undefined;
+        const rows = matching
+            .filter(p => !hasCursor || p.upday1 > params.cursorUpday || (p.upday1 === params.cursorUpday && p.barcode > params.cursorBarcode))
+            .sort(byKeys({ key: 'upday1' }, { key: 'barcode' }))
+            .slice(0, Number(params.pageSize))
+            .map(syncProductRow);
+        if (hasCursor) return result([rows]);
+        const watermark = formatDateTime(new Date(now.getTime() - 5 * 60 * 1000));
+        return result([[{ watermark, total: matching.length }], rows]);
+    },
+    activeBarcodes: ({ tables }) => result([table(tables, 'parts').filter(p => p.isuse !== '0').map(p => ({ barcode: trim(p.barcode) }))]),
+    syncProductsByBarcode: ({ tables, params }) => {
+        const barcodes = new Set(Object.entries(params).filter(([key]) => /^b\d+$/.test(key)).map(([, value]) => String(value)));
+        return result([table(tables, 'parts').filter(p => barcodes.has(p.barcode)).map(syncProductRow)]);
+    },
+    searchProductsOnline: searchProducts,
+    searchProductsForEdit: searchProducts,
+};
+
+function findHandler(queryId: string | undefined): QueryHandler | undefined {
+    if (!queryId) return undefined;
+    if (queryId.startsWith('named:')) return NAMED_HANDLERS[queryId.slice('named:'.length)];
+    return HANDLERS[queryId];
+}
+
+/** 처리기가 없는 이름 기반 쿼리 (새 쿼리를 추가할 때 대체 드라이버도 함께 구현해야 합니다) */
+export function listMissingNamedHandlers(names: string[]): string[] {
+    return names.filter(name => !NAMED_HANDLERS[name]);
+}
+
+export function createMemoryDriver(seed: () => FixtureTables = () => createFixtureTables()): DbDriver {
+    let tables: FixtureTables | null = null;
+    // 트랜잭션은 한 번에 하나씩 실행합니다. (메모리 스냅샷으로 롤백하므로 동시 실행 시 서로의 변경을 덮어쓰게 됩니다)
+    let transactionQueue: Promise<void> = Promise.resolve();
+    let activeTransactions = 0;
+
+    const getTables = () => {
+        if (!tables) tables = seed();
+        return tables;
+    };
+
+    const createRequest = (): DbRequest => {
+        const params: Record<string, any> = {};
+        const request: DbRequest = {
+            input(name, _type, value) {
+                params[name] = value;
+                return request;
+            },
+            async query(_text, queryId) {
+                const handler = findHandler(queryId);
+                if (!handler) {
+                    throw new MemoryDbError(`로컬 DB 드라이버는 이 쿼리를 지원하지 않습니다 (${queryId || '임의 SQL'}). 임의 SQL은 MSSQL 서버에서만 실행할 수 있습니다.`);
+                }
+                return handler({ tables: getTables(), params, now: new Date() });
+            },
+            on() {
+                return request;
+            },
+        };
+        return request;
+    };
+
+    return {
+        kind: 'memory',
+        get connected() {
+            return tables !== null;
+        },
+        // 연결이 없으므로 진행 중인 트랜잭션을 사용 중인 연결로 보고합니다.
+        stats: () => ({ size: tables ? 1 : 0, available: tables && activeTransactions === 0 ? 1 : 0, borrowed: Math.min(activeTransactions, 1), pending: Math.max(activeTransactions - 1, 0) }),
+        async connect() {
+            getTables();
+        },
+        async close() {
+            tables = null;
+        },
+        request: createRequest,
+        transaction(): DbTransaction {
+            let snapshot: FixtureTables | null = null;
+            let release: () => void = () => {};
+            const finish = () => {
+                snapshot = null;
+                activeTransactions--;
+                release();
+            };
+            return {
+                async begin() {
+                    activeTransactions++;
+                    const previous = transactionQueue;
+                    transactionQueue = new Promise(resolve => { release = resolve; });
+                    await previous;
+                    snapshot = structuredClone(getTables());
+                },
+                async commit() {
+                    if (!snapshot) throw new MemoryDbError('진행 중인 트랜잭션이 없습니다.', 3902);
+                    finish();
+                },
+                async rollback() {
+                    if (!snapshot) throw new MemoryDbError('진행 중인 트랜잭션이 없습니다.', 3903);
+                    tables = snapshot;
+                    finish();
+                },
+                request: createRequest,
+            };
+        },
+    };
+}
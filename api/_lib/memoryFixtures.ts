@@ -0,0 +1,145 @@
+// api/_lib/memoryFixtures.ts
+// 로컬 대체 드라이버(./memoryDb.ts)의 초기 데이터입니다.
+// 컬럼은 매장 DB에서 앱이 사용하는 것만 정의하며, 날짜는 실행 시각 기준으로 만들어 행사/매입 조회가 항상 결과를 갖도록 합니다.
+
+export type FixtureRow = Record<string, any>;
+export type FixtureTables = Record<string, FixtureRow[]>;
+
+/** 테이블별 컬럼과 데이터 타입 (getDatabaseSchema 응답과 upday1 형식 판별에 사용) */
+export const FIXTURE_COLUMNS: Record<string, Record<string, string>> = {
+    parts: {
+        barcode: 'varchar', descr: 'varchar', spec: 'varchar', isvat: 'varchar', money0: 'decimal', money0vat: 'decimal', money1: 'decimal',
+        money1comp: 'decimal', salemoney0: 'decimal', salestartday: 'varchar', saleendday: 'varchar', comcode: 'varchar',
+        gubun1: 'varchar', gubun2: 'varchar', gubun3: 'varchar', curjago: 'decimal', isuse: 'varchar', ispack: 'varchar',
+        ispoint: 'varchar', isjago: 'varchar', upday1: 'varchar',
+    },
+    comp: { comcode: 'varchar', comname: 'varchar', tel: 'varchar', point: 'int', isuse: 'varchar' },
+    bom: { parebar: 'varchar', childbar: 'varchar', childcount: 'decimal' },
+    gubun1: { gubun1: 'varchar', gubun1x: 'varchar' },
+    gubun2: { gubun1: 'varchar', gubun2: 'varchar', gubun2x: 'varchar' },
+    gubun3: { gubun1: 'varchar', gubun2: 'varchar', gubun3: 'varchar', gubun3x: 'varchar' },
+    sale_mast: {
+        junno: 'varchar', salename: 'varchar', startday: 'varchar', endday: 'varchar', itemcount: 'int', isappl: 'varchar',
+        appendid: 'varchar', appendday: 'varchar', avgmgrate: 'decimal',
+    },
+    sale_ready: {
+        junno_serial: 'varchar', junno: 'varchar', salename: 'varchar', barcode: 'varchar', comcode: 'varchar', salemoney0: 'decimal',
+        salemoney1: 'decimal', orgmoney1: 'decimal', salecount: 'decimal', startday: 'varchar', endday: 'varchar', isappl: 'varchar',
+        inpday: 'varchar', islink: 'varchar', isautoappl: 'varchar', isautoback: 'varchar', edtday: 'varchar', starttime: 'varchar', endtime: 'varchar',
+    },
+    dt900_ipgo: {
+        day1: 'varchar', dtcomcode: 'varchar', comcode: 'varchar', comname: 'varchar', barcode: 'varchar', descr: 'varchar',
+        money0vat: 'decimal', money1: 'decimal', itemcount: 'int', gubun: 'varchar', lstmoney0vat: 'decimal',
+    },
+};
+
+// 월별 테이블(ipgom_YYMM, bojung_YYMM)은 같은 컬럼 구성을 가집니다.
+export const MONTHLY_COLUMNS: Record<'ipgom' | 'bojung', Record<string, string>> = {
+    ipgom: { day1: 'varchar', junno: 'varchar', comcode: 'varchar', ipgo: 'decimal', banpum: 'decimal', remark: 'varchar' },
+    bojung: {
+        comcode: 'varchar', day1: 'varchar', barcode: 'varchar', itemcount: 'decimal', money0vat: 'decimal', tmoney: 'decimal',
+        money1: 'decimal', tmoney1: 'decimal', upgubun: 'varchar', mancode: 'varchar',
+    },
+};
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+export const formatDate = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+export const formatDateTime = (d: Date) => `${formatDate(d)} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+/** 'YYMM' (월별 테이블 이름) */
+export const yymm = (d: Date) => `${pad(d.getFullYear() % 100)}${pad(d.getMonth() + 1)}`;
+/** 'YYMMDD' (행사 전표번호 접두어) */
+export const yymmdd = (d: Date) => `${yymm(d)}${pad(d.getDate())}`;
+
+function addDays(d: Date, days: number): Date {
+    const result = new Date(d);
+    result.setDate(result.getDate() + days);
+    return result;
+}
+
+function product(barcode: string, descr: string, spec: string, comcode: string, cost: number, price: number, stock: number, categories: [string, string, string], upday1: string, extra: FixtureRow = {}): FixtureRow {
+    return {
+        barcode, descr, spec, isvat: '1', money0: Math.round(cost / 1.1), money0vat: cost, money1: price, money1comp: price, salemoney0: cost,
+        salestartday: null, saleendday: null, comcode, gubun1: categories[0], gubun2: categories[1], gubun3: categories[2],
+        curjago: stock, isuse: '1', ispack: '0', ispoint: '1', isjago: '1', upday1, ...extra,
+    };
+}
+
+export function createFixtureTables(now: Date = new Date()): FixtureTables {
+    const today = formatDate(now);
+    const lastWeek = formatDateTime(addDays(now, -7));
+    const yesterday = formatDateTime(addDays(now, -1));
+    const prevMonth = new Date(now.getFullYear(), now.getMonth() - 1, 15);
+
+    const runningStart = formatDate(addDays(now, -3));
+    const runningEnd = formatDate(addDays(now, 11));
+    const upcomingStart = formatDate(addDays(now, 14));
+    const upcomingEnd = formatDate(addDays(now, 27));
+    const runningJunno = `${yymmdd(addDays(now, -5))}_000001`;
+    const upcomingJunno = `${yymmdd(addDays(now, -1))}_000001`;
+
+    const tables: FixtureTables = {
+        comp: [
+            { comcode: '00001', comname: '경진유통', tel: '031-000-1001', point: 0, isuse: '1' },
+            { comcode: '00002', comname: '한빛식품', tel: '031-000-1002', point: 0, isuse: '1' },
+            { comcode: '00003', comname: '새벽음료', tel: '031-000-1003', point: 0, isuse: '1' },
+            { comcode: '00009', comname: '거래중지상사', tel: '031-000-1009', point: 0, isuse: '0' },
+            { comcode: '90001', comname: '김고객', tel: '010-1234-5678', point: 1200, isuse: '1' },
+        ],
+        gubun1: [
+            { gubun1: '10', gubun1x: '식품' },
+            { gubun1: '20', gubun1x: '음료' },
+        ],
+        gubun2: [
+            { gubun1: '10', gubun2: '01', gubun2x: '라면' },
+            { gubun1: '10', gubun2: '02', gubun2x: '과자' },
+            { gubun1: '20', gubun2: '01', gubun2x: '탄산' },
+        ],
+        gubun3: [
+            { gubun1: '10', gubun2: '01', gubun3: '001', gubun3x: '봉지라면' },
+            { gubun1: '10', gubun2: '02', gubun3: '001', gubun3x: '스낵' },
+            { gubun1: '20', gubun2: '01', gubun3: '001', gubun3x: '콜라/사이다' },
+        ],
+        parts: [
+            product('8801043014809', '테스트 라면', '120g', '00001', 700, 1000, 40, ['10', '01', '001'], lastWeek),
+            product('8801043014816', '테스트 라면 5입', '120g*5', '00001', 3300, 4500, 12, ['10', '01', '001'], lastWeek, { ispack: '1' }),
+            product('8801117752804', '테스트 감자칩', '60g', '00002', 1100, 1500, 25, ['10', '02', '001'], yesterday),
+            product('8801117752811', '테스트 새우과자', '90g', '00002', 1000, 1400, 0, ['10', '02', '001'], yesterday),
+            product('8801094017200', '테스트 콜라', '500ml', '00003', 1200, 2000, 60, ['20', '01', '001'], yesterday),
+            product('8801094017217', '테스트 사이다', '500ml', '00003', 1100, 1900, 48, ['20', '01', '001'], yesterday),
+            product('8801094099990', '단종 음료', '250ml', '00003', 500, 900, 0, ['20', '01', '001'], lastWeek, { isuse: '0' }),
+        ],
+        bom: [
+            { parebar: '8801043014816', childbar: '8801043014809', childcount: 5 },
+        ],
+        sale_mast: [
+            { junno: runningJunno, salename: '진행중 테스트 행사', startday: runningStart, endday: runningEnd, itemcount: 1, isappl: '1', appendid: '', appendday: runningStart, avgmgrate: 30 },
+            { junno: upcomingJunno, salename: '예약 테스트 행사', startday: upcomingStart, endday: upcomingEnd, itemcount: 1, isappl: '0', appendid: '', appendday: today, avgmgrate: 35 },
+        ],
+        sale_ready: [
+            {
+                junno_serial: `${runningJunno}_00001`, junno: runningJunno, salename: '진행중 테스트 행사', barcode: '8801094017200', comcode: '00003',
+                salemoney0: 1100, salemoney1: 1600, orgmoney1: 2000, salecount: 31, startday: runningStart, endday: runningEnd, isappl: '1',
+                inpday: runningStart, islink: '1', isautoappl: '1', isautoback: '1', edtday: runningStart, starttime: runningStart, endtime: '-',
+            },
+            {
+                junno_serial: `${upcomingJunno}_00001`, junno: upcomingJunno, salename: '예약 테스트 행사', barcode: '8801117752804', comcode: '00002',
+                salemoney0: 1000, salemoney1: 1200, orgmoney1: 1500, salecount: 16, startday: upcomingStart, endday: upcomingEnd, isappl: '0',
+                inpday: today, islink: '0', isautoappl: '1', isautoback: '1', edtday: today, starttime: today, endtime: '-',
+            },
+        ],
+        dt900_ipgo: [],
+        [`ipgom_${yymm(prevMonth)}`]: [
+            { day1: formatDate(prevMonth), junno: `${yymmdd(prevMonth)}0001`, comcode: '00001', ipgo: 66000, banpum: 0, remark: '' },
+        ],
+        [`ipgom_${yymm(now)}`]: [
+            { day1: formatDate(new Date(now.getFullYear(), now.getMonth(), 1)), junno: `${yymm(now)}010001`, comcode: '00002', ipgo: 27500, banpum: 2200, remark: '파손 반품' },
+            { day1: today, junno: `${yymmdd(now)}0001`, comcode: '00003', ipgo: 48000, banpum: 0, remark: '' },
+        ],
+        [`bojung_${yymm(now)}`]: [],
+    };
+
+    // 진행 중인 행사 품목은 parts의 행사가에 반영되어 있는 상태로 시작합니다.
+    const cola = tables.parts.find(p => p.barcode === '8801094017200')!;
+    Object.assign(cola, { money1comp: 1600, salemoney0: 1100, salestartday: runningStart, saleendday: runningEnd });
+    return tables;
+}
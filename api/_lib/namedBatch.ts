@@ -0,0 +1,69 @@
+// api/_lib/namedBatch.ts
+// 여러 이름 기반 쿼리를 하나의 트랜잭션으로 실행하는 요청(type: 'batch')의 입력을 검증합니다.
+// 트랜잭션을 시작하기 전에 모든 문장을 확인하여, 잘못된 요청이 DB에 일부라도 반영되지 않도록 합니다.
+import { getNamedQuery, NamedQuery } from './namedQueries';
+import { normalizeIdempotencyKey } from './idempotency';
+import { validateParams } from './paramTypes';
+
+export const BATCH_MAX_STATEMENTS = 1000;
+
+export interface BatchStatement {
+    name: string;
+    params: Record<string, any>;
+    /** 이미 완료된 키이면 실행하지 않고 저장된 결과를 반환합니다. */
+    idempotencyKey?: string;
+}
+
+export interface ResolvedStatement extends BatchStatement {
+    def: NamedQuery;
+}
+
+export class BatchValidationError extends Error {
+    constructor(message: string, public readonly index?: number) {
+        super(message);
+        this.name = 'BatchValidationError';
+    }
+}
+
+/** 쿼리가 RESULT 컬럼으로 실패를 알린 경우 (쿼리 내부 CATCH 블록) 전체 배치를 취소합니다. */
+export class StatementRejectedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StatementRejectedError';
+    }
+}
+
+export function resolveBatchStatements(input: unknown): ResolvedStatement[] {
+    if (!Array.isArray(input) || input.length === 0) throw new BatchValidationError('실행할 작업이 없습니다.');
+    if (input.length > BATCH_MAX_STATEMENTS) throw new BatchValidationError(`한 번에 실행할 수 있는 작업은 최대 ${BATCH_MAX_STATEMENTS}건입니다.`);
+
+    const seenKeys = new Set<string>();
+    return input.map((statement: any, index) => {
+        const name = statement?.name;
+        const def = typeof name === 'string' ? getNamedQuery(name) : undefined;
+        if (!def) throw new BatchValidationError(`${index + 1}번째 작업: 등록되지 않은 쿼리입니다: ${name}`, index);
+
+        const params = statement.params && typeof statement.params === 'object' ? statement.params : {};
+        let idempotencyKey: string | undefined;
+        try {
+            // 누락/길이 초과 등 선언에 맞지 않는 값은 트랜잭션 시작 전에 거부합니다.
+            validateParams(def.params, params);
+            idempotencyKey = normalizeIdempotencyKey(statement.idempotencyKey);
+        } catch (err: any) {
+            throw new BatchValidationError(`${index + 1}번째 작업: ${err.message}`, index);
+        }
+        if (idempotencyKey) {
+            if (seenKeys.has(idempotencyKey)) throw new BatchValidationError(`${index + 1}번째 작업: 멱등성 키가 중복되었습니다: ${idempotencyKey}`, index);
+            seenKeys.add(idempotencyKey);
+        }
+
+        return { name, params, def, idempotencyKey };
+    });
+}
+
+/** 결과 집합에 RESULT 컬럼이 있고 SUCCESS가 아니면 실패 메시지를 반환합니다. */
+export function getRejectionMessage(recordset: any[] | undefined): string | null {
+    const first = recordset?.[0];
+    if (!first || first.RESULT === undefined || first.RESULT === 'SUCCESS') return null;
+    return first.MSG || `처리 결과: ${first.RESULT}`;
+}
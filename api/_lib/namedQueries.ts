@@ -0,0 +1,1062 @@
+// api/_lib/namedQueries.ts
+// 서버가 소유하는 이름 기반 쿼리 목록입니다.
+// 클라이언트는 { name, params } 만 전송하며, 목록에 없는 이름은 서버에서 거부됩니다.
+// SQL을 수정할 때는 반드시 version 을 올려 클라이언트가 변경 여부를 알 수 있도록 합니다.
+// 파라미터는 대상 컬럼에 맞게 'varchar(14)', 'decimal(18,0)' 처럼 길이/정밀도까지 선언합니다. (./paramTypes.ts)
+import { ParamDeclaration } from './paramTypes';
+
+export interface NamedQuery {
+    version: number;
+    description: string;
+    params: Record<string, ParamDeclaration>;
+    sql: string;
+}
+
+// --- 재고 실사 ---
+const REALTIME_STOCK_SQL = `SELECT ISNULL(curjago, 0) as curjago FROM parts WITH(NOLOCK) WHERE barcode = @Barcode`;
+
+const IMMEDIATE_AUDIT_SQL = `
+-- [SQL 2005 호환] 재고 실사 반영 (이중 업데이트 방지 - 차이값 기록 방식)
+SET NOCOUNT ON;
+SET XACT_ABORT ON;
+
+DECLARE @CurQty DECIMAL(18,0)
+DECLARE @DiffQty DECIMAL(18,0)
+DECLARE @Cost DECIMAL(18,0)
+DECLARE @Price DECIMAL(18,0)
+DECLARE @ComCode NVARCHAR(MAX)
+DECLARE @Today VARCHAR(10)
+DECLARE @YYMM VARCHAR(4)
+DECLARE @TableName NVARCHAR(100)
+DECLARE @SQL NVARCHAR(MAX)
+DECLARE @ErrMsg NVARCHAR(MAX)
+
+SET @Today = CONVERT(VARCHAR(10), GETDATE(), 120)
+SET @YYMM = LEFT(CONVERT(VARCHAR(6), GETDATE(), 12), 4)
+SET @TableName = 'bojung_' + @YYMM
+
+BEGIN TRY
+    BEGIN TRANSACTION;
+
+    -- 1. 현재 전산 재고 조회 (정확한 차이 계산을 위해 조회 직전 시점 데이터 사용)
+    SELECT @CurQty = ISNULL(curjago, 0),
+           @Cost = ISNULL(money0, 0),
+           @Price = ISNULL(money1, 0),
+           @ComCode = ISNULL(comcode, '')
+    FROM parts WITH(UPDLOCK, HOLDLOCK)
+    WHERE barcode = @Barcode
+
+    IF @CurQty IS NULL
+    BEGIN
+         RAISERROR('등록되지 않은 상품입니다.', 16, 1)
+    END
+
+    -- 2. 차이 수량 계산 (실사수량 - 전산재고)
+    SET @DiffQty = @RealQty - @CurQty
+
+    IF @DiffQty <> 0
+    BEGIN
+        -- [중요] 직접 UPDATE parts 대신 보정 테이블 INSERT만 수행
+        -- 트리거가 있는 시스템에서는 보정 테이블 입력 시 자동으로 재고가 계산됩니다.
+        SET @SQL = N'INSERT INTO ' + @TableName + N' (
+                        comcode, day1, barcode, 
+                        itemcount, money0vat, tmoney, money1, tmoney1, 
+                        upgubun, mancode
+                     )
+                     SELECT 
+                        LEFT(@P_ComCode, 5),
+                        LEFT(@P_Day1, 10),
+                        @P_Barcode,
+                        @P_DiffQty,
+                        @P_Cost,
+                        @P_Cost * @P_DiffQty,
+                        @P_Price,
+                        @P_Price * @P_DiffQty,
+                        ''0'',
+                        '''' -- mancode'
+
+        EXEC sp_executesql @SQL,
+            N'@P_ComCode NVARCHAR(MAX), @P_Day1 VARCHAR(10), @P_Barcode VARCHAR(15), 
+              @P_DiffQty DECIMAL(18,0), @P_Cost DECIMAL(18,0), @P_Price DECIMAL(18,0)',
+            @ComCode, @Today, @Barcode, 
+            @DiffQty, @Cost, @Price
+    END
+
+    COMMIT TRANSACTION;
+
+    -- 클라이언트에 결과 반환
+    SELECT 'SUCCESS' AS RESULT,
+           @CurQty AS OLD_QTY,
+           @RealQty AS NEW_QTY,
+           @DiffQty AS DIFF_QTY
+
+END TRY
+BEGIN CATCH
+    IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
+    SET @ErrMsg = ERROR_MESSAGE()
+    SELECT 'FAIL' AS RESULT, @ErrMsg AS MSG
+END CATCH
+`;
+
+// --- 입고 ---
+const RECEIVING_INSERT_SQL = `INSERT INTO dbo.dt900_ipgo (day1, dtcomcode, comcode, comname, barcode, descr, money0vat, money1, itemcount, gubun, lstmoney0vat) SELECT @time, @dtcomcode, @dtcomcode, @comname, @barcode, ISNULL(@item_name, ''), @cost, @price, @qty, CASE WHEN CAST(@qty AS INT) >= 0 THEN 'I' ELSE 'B' END, ISNULL(p.money0vat, 0) FROM (SELECT 1 AS dummy) AS t LEFT JOIN dbo.parts AS p WITH (NOLOCK) ON p.barcode = @barcode`;
+
+// --- 행사 등록 ---
+const CREATE_EVENT_MASTER_SQL = `
+-- [행사 마스터 신규 생성] sale_mast 테이블 사용
+SET NOCOUNT ON;
+SET XACT_ABORT ON;
+
+DECLARE @NewJunno VARCHAR(20)
+DECLARE @Today VARCHAR(10)
+SET @Today = CONVERT(VARCHAR(10), GETDATE(), 120)
+
+-- [수정] 전표번호 형식: YYMMDD_XXXXXX (일련번호)
+DECLARE @TodayPrefix VARCHAR(6)
+SET @TodayPrefix = CONVERT(VARCHAR(6), GETDATE(), 12) -- YYMMDD
+
+DECLARE @MaxSeq INT
+-- 해당 일자의 마지막 번호 추출 (길이 13자리이고 뒷자리 6자리가 숫자인 것 조회)
+SELECT @MaxSeq = MAX(CAST(RIGHT(LTRIM(RTRIM(junno)), 6) AS INT))
+FROM sale_mast WITH(NOLOCK)
+WHERE junno LIKE @TodayPrefix + '_%'
+  AND ISNUMERIC(RIGHT(LTRIM(RTRIM(junno)), 6)) = 1
+  AND LEN(LTRIM(RTRIM(junno))) = 13
+
+IF @MaxSeq IS NULL SET @MaxSeq = 0
+
+-- 다음 번호 생성 (000001 형식)
+SET @NewJunno = @TodayPrefix + '_' + RIGHT('000000' + CAST(@MaxSeq + 1 AS VARCHAR), 6)
+
+BEGIN TRY
+    BEGIN TRANSACTION;
+
+    INSERT INTO sale_mast (junno, salename, startday, endday, itemcount, isappl, appendid, appendday, avgmgrate)
+    VALUES (
+        @NewJunno, 
+        @SaleName, 
+        @StartDay, 
+        @EndDay, 
+        0, 
+        '0', -- 초기 상태: 대기(0)
+        '', 
+        @Today, 
+        0
+    )
+
+    COMMIT TRANSACTION;
+    
+    SELECT 'SUCCESS' AS RESULT, @NewJunno AS NEW_JUNNO
+END TRY
+BEGIN CATCH
+    IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
+    SELECT 'FAIL' AS RESULT, ERROR_MESSAGE() AS MSG
+END CATCH
+`;
+
+const CANCEL_EVENT_REGISTRATION_SQL = `
+-- [행사 등록 중 취소 및 완전 삭제]
+SET NOCOUNT ON;
+SET XACT_ABORT ON;
+
+BEGIN TRY
+    BEGIN TRANSACTION;
+
+    -- 1. 중지 상태로 변경 (0)
+    UPDATE sale_mast SET isappl = '0' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno));
+    UPDATE sale_ready SET isappl = '0' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno));
+    
+    -- 2. 관련 데이터 삭제
+    DELETE FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno));
+    DELETE FROM sale_mast WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno));
+
+    COMMIT TRANSACTION;
+    SELECT 'SUCCESS' AS RESULT, '행사가 취소 및 삭제되었습니다.' AS MSG;
+END TRY
+BEGIN CATCH
+    IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
+    SELECT 'FAIL' AS RESULT, ERROR_MESSAGE() AS MSG;
+END CATCH
+`;
+
+const REGISTRATION_UPSERT_ITEM_SQL = `
+-- 쿼리 이름: 행사상품_저장_통합 (SQL 2005) - 이전 행사가격 자동 조회 기능 추가
+-- 파라미터: @Junno, @Barcode, @SaleCost, @SalePrice, @IsAppl
+
+DECLARE @TargetStart VARCHAR(10)
+DECLARE @TargetEnd VARCHAR(10)
+DECLARE @SaleName VARCHAR(30)
+DECLARE @ComCode VARCHAR(5)
+DECLARE @MarginRate DECIMAL(18,2)
+DECLARE @NextSerial VARCHAR(5)
+DECLARE @JunnoSerial VARCHAR(25)
+DECLARE @Today VARCHAR(10)
+DECLARE @OrgPriceToUse DECIMAL(18,0)
+
+-- [추가] edtday 포맷 생성을 위한 변수 선언
+DECLARE @Now DATETIME
+DECLARE @EdtTimeStr VARCHAR(30)
+DECLARE @HH INT
+DECLARE @AmPm VARCHAR(4)
+DECLARE @HH12 INT
+
+SET @Today = CONVERT(VARCHAR(10), GETDATE(), 120)
+
+-- [추가] 'YYYY-MM-DD 오후 H:MM:SS' 포맷 생성 로직 (SQL 2005 호환)
+SET @Now = GETDATE()
+SET @HH = DATEPART(HOUR, @Now)
+SET @AmPm = CASE WHEN @HH >= 12 THEN '오후' ELSE '오전' END
+SET @HH12 = CASE WHEN @HH > 12 THEN @HH - 12
+                 WHEN @HH = 0 THEN 12 
+                 ELSE @HH END
+
+-- 예: 2026-01-14 오후 7:06:21
+SET @EdtTimeStr = @Today + ' ' + @AmPm + ' ' + 
+                  CAST(@HH12 AS VARCHAR) + ':' + 
+                  RIGHT('0' + CAST(DATEPART(MINUTE, @Now) AS VARCHAR), 2) + ':' + 
+                  RIGHT('0' + CAST(DATEPART(SECOND, @Now) AS VARCHAR), 2)
+
+
+SET NOCOUNT ON;
+SET XACT_ABORT ON;
+
+BEGIN TRY
+    BEGIN TRANSACTION;
+
+        -- [1] 행사 헤더 정보(기간, 행사명) 조회
+        SELECT @SaleName = salename, 
+               @TargetStart = startday, 
+               @TargetEnd = endday
+        FROM sale_mast WITH(UPDLOCK, ROWLOCK) 
+        WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))
+
+        IF ISNULL(@SaleName, '') = ''
+        BEGIN
+            RAISERROR('존재하지 않는 행사 전표이거나 행사명이 없습니다.', 16, 1)
+        END
+
+        -- [2] 상품 기본 정보(거래처코드) 조회
+        SELECT @ComCode = comcode
+        FROM parts WITH(NOLOCK)
+        WHERE barcode = @Barcode
+
+        IF @ComCode IS NULL
+        BEGIN
+            RAISERROR('상품 마스터에 없는 바코드입니다.', 16, 1)
+        END
+        
+        -- [3] 기준 정상가 조회 (이전 행사 가격이 있으면 그것을 우선, 없으면 현재 마스터 판매가)
+        SET @OrgPriceToUse = ISNULL(
+            (SELECT TOP 1 r.salemoney1 
+             FROM sale_ready r JOIN sale_mast m ON r.junno = m.junno
+             WHERE r.barcode = @Barcode AND LTRIM(RTRIM(m.junno)) <> LTRIM(RTRIM(@Junno))
+             ORDER BY m.endday DESC, m.startday DESC),
+            (SELECT money1 FROM parts WHERE barcode = @Barcode)
+        );
+
+        -- [4] 마진율 계산
+        IF CAST(@SalePrice AS DECIMAL) = 0
+            SET @MarginRate = 0
+        ELSE
+            SET @MarginRate = FLOOR(((CAST(@SalePrice AS DECIMAL) - CAST(@SaleCost AS DECIMAL)) / CAST(@SalePrice AS DECIMAL)) * 100)
+
+        -- [5] 데이터 저장 (UPSERT: 있으면 수정, 없으면 추가)
+        IF EXISTS (SELECT 1 FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)) AND barcode = @Barcode)
+        BEGIN
+            -- 이미 등록된 경우: UPDATE
+            UPDATE sale_ready
+            SET salemoney0 = FLOOR(CAST(@SaleCost AS DECIMAL)), -- 소수점 제거
+                salemoney1 = @SalePrice,
+                salecount  = @MarginRate,
+                isappl     = @IsAppl,
+                
+                -- [수정됨] 요청하신 날짜/시간 포맷 적용
+                edtday     = @EdtTimeStr,
+                starttime  = @Today,
+                endtime    = '-'
+                
+            WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)) AND barcode = @Barcode
+        END
+        ELSE
+        BEGIN
+            -- 신규 등록인 경우: INSERT
+            -- 일련번호 생성 (junno_serial)
+            SELECT @NextSerial = RIGHT('00000' + CAST(ISNULL(COUNT(*), 0) + 1 AS VARCHAR), 5)
+            FROM sale_ready 
+            WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))
+
+            SET @JunnoSerial = @Junno + '_' + @NextSerial
+
+            INSERT INTO sale_ready (
+                junno_serial, junno, salename, barcode, comcode, 
+                salemoney0, salemoney1, orgmoney1, salecount, 
+                startday, endday, isappl, inpday, 
+                islink, isautoappl, isautoback,
+                
+                -- [추가됨] 요청하신 컬럼 추가
+                edtday, starttime, endtime
+            )
+            VALUES (
+                @JunnoSerial, @Junno, @SaleName, @Barcode, @ComCode,
+                FLOOR(CAST(@SaleCost AS DECIMAL)), @SalePrice, @OrgPriceToUse, @MarginRate, -- 소수점 제거
+                @TargetStart, @TargetEnd, @IsAppl, @Today,
+                '0', '1', '1',
+                
+                -- [추가됨] 요청하신 값 매핑
+                @EdtTimeStr,
+                @Today,
+                '-'
+            )
+        END
+        
+        -- [6] 마스터 테이블 요약 정보(품목 수, 평균 마진율) 자동 업데이트
+        UPDATE sale_mast 
+        SET itemcount = (SELECT COUNT(*) FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))),
+            avgmgrate = (SELECT ISNULL(AVG(salecount), 0) FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)))
+        WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))
+
+    COMMIT TRANSACTION;
+    SELECT 'SUCCESS' AS RESULT, '저장되었습니다.' AS MSG
+
+END TRY
+BEGIN CATCH
+    IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
+    SELECT 'FAIL' AS RESULT, ERROR_MESSAGE() AS MSG
+END CATCH
+`;
+
+const FINAL_CONFIRM_EVENT_SQL = `
+-- [행사 최종 확정 및 상태 변경 + Parts 업데이트]
+SET NOCOUNT ON;
+SET XACT_ABORT ON;
+
+DECLARE @Today VARCHAR(10)
+DECLARE @TargetStatus VARCHAR(1)
+SET @Today = CONVERT(VARCHAR(10), GETDATE(), 120)
+
+-- 날짜 조건에 따른 최종 상태 결정 (시작일이 오늘이거나 지났으면 '1', 아니면 '0')
+SET @TargetStatus = CASE 
+                        WHEN @FinalStart <= @Today THEN '1'
+                        ELSE '0'
+                    END
+
+BEGIN TRY
+    BEGIN TRANSACTION;
+
+        -- 1. 마스터 정보 업데이트
+        UPDATE sale_mast
+        SET salename = @FinalName,
+            startday = @FinalStart,
+            endday   = @FinalEnd,
+            isappl   = @TargetStatus
+        WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@TargetJunno))
+
+        -- 2. 소속된 모든 품목 상태도 마스터와 동일하게 업데이트
+        UPDATE sale_ready
+        SET startday = @FinalStart,
+            endday = @FinalEnd,
+            isappl = @TargetStatus
+        WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@TargetJunno))
+
+        -- 3. [추가] 만약 적용 상태('1')가 되면 parts 테이블 업데이트
+        IF @TargetStatus = '1'
+        BEGIN
+            UPDATE p
+            SET p.money1comp = r.salemoney1,
+                p.salemoney0 = r.salemoney0,
+                p.salestartday = r.startday,
+                p.saleendday = r.endday
+            FROM parts p
+            JOIN sale_ready r ON p.barcode = r.barcode
+            WHERE LTRIM(RTRIM(r.junno)) = LTRIM(RTRIM(@TargetJunno));
+        END
+
+    COMMIT TRANSACTION;
+
+    SELECT 'SUCCESS' AS RESULT, 
+           CASE WHEN @TargetStatus = '1' THEN 'APPLIED' ELSE 'RESERVED' END AS STATUS
+END TRY
+BEGIN CATCH
+    IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
+    SELECT 'FAIL' AS RESULT, ERROR_MESSAGE() AS MSG
+END CATCH
+`;
+
+// --- 행사 관리 ---
+const FIND_EVENT_BY_PRODUCT_SQL = `
+-- [상품 바코드로 소속 행사 찾기]
+SELECT TOP 1 
+    M.junno, 
+    M.salename, 
+    M.startday, 
+    M.endday, 
+    M.isappl, 
+    M.itemcount,
+    M.avgmgrate
+FROM sale_ready R WITH(NOLOCK)
+JOIN sale_mast M WITH(NOLOCK) ON R.junno = M.junno
+WHERE R.barcode = @Barcode
+ORDER BY M.startday DESC, M.junno DESC
+`;
+
+const MANAGEMENT_UPSERT_ITEM_SQL = `
+-- 파라미터: @Junno(전표번호), @Barcode(상품바코드), @SaleCost(행사매입가), @SalePrice(행사판매가), @IsAppl(적용상태)
+
+DECLARE @TargetStart VARCHAR(10)
+DECLARE @TargetEnd VARCHAR(10)
+DECLARE @SaleName VARCHAR(30)
+DECLARE @ComCode VARCHAR(5)
+DECLARE @MarginRate DECIMAL(18,2)
+DECLARE @NextSerial VARCHAR(5)
+DECLARE @JunnoSerial VARCHAR(25)
+DECLARE @Today VARCHAR(10)
+DECLARE @OrgPriceToUse DECIMAL(18,0)
+
+-- [추가] edtday 포맷 생성을 위한 변수 선언
+DECLARE @Now DATETIME
+DECLARE @EdtTimeStr VARCHAR(30)
+DECLARE @HH INT
+DECLARE @AmPm VARCHAR(4)
+DECLARE @HH12 INT
+
+SET @Today = CONVERT(VARCHAR(10), GETDATE(), 120)
+
+-- [추가] 'YYYY-MM-DD 오후 H:MM:SS' 포맷 생성 로직 (SQL 2005 호환)
+SET @Now = GETDATE()
+SET @HH = DATEPART(HOUR, @Now)
+SET @AmPm = CASE WHEN @HH >= 12 THEN '오후' ELSE '오전' END
+SET @HH12 = CASE WHEN @HH > 12 THEN @HH - 12
+                 WHEN @HH = 0 THEN 12 
+                 ELSE @HH END
+
+-- 예: 2026-01-14 오후 7:06:21
+SET @EdtTimeStr = @Today + ' ' + @AmPm + ' ' + 
+                  CAST(@HH12 AS VARCHAR) + ':' + 
+                  RIGHT('0' + CAST(DATEPART(MINUTE, @Now) AS VARCHAR), 2) + ':' + 
+                  RIGHT('0' + CAST(DATEPART(SECOND, @Now) AS VARCHAR), 2)
+
+
+SET NOCOUNT ON;
+SET XACT_ABORT ON;
+
+BEGIN TRY
+    BEGIN TRANSACTION;
+
+        -- [1] 행사 헤더 정보(기간, 행사명) 조회
+        SELECT @SaleName = salename, 
+               @TargetStart = startday, 
+               @TargetEnd = endday
+        FROM sale_mast WITH(UPDLOCK, ROWLOCK) 
+        WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))
+
+        IF ISNULL(@SaleName, '') = ''
+        BEGIN
+            RAISERROR('존재하지 않는 행사 전표이거나 행사명이 없습니다.', 16, 1)
+        END
+
+        -- [2] 상품 기본 정보(거래처코드) 조회
+        SELECT @ComCode = comcode
+        FROM parts WITH(NOLOCK)
+        WHERE barcode = @Barcode
+
+        IF @ComCode IS NULL
+        BEGIN
+            RAISERROR('상품 마스터에 없는 바코드입니다.', 16, 1)
+        END
+        
+        -- [3] 기준 정상가 조회 (이전 행사 가격이 있으면 그것을 우선, 없으면 현재 마스터 판매가)
+        SET @OrgPriceToUse = ISNULL(
+            (SELECT TOP 1 r.salemoney1 
+             FROM sale_ready r JOIN sale_mast m ON r.junno = m.junno
+             WHERE r.barcode = @Barcode AND LTRIM(RTRIM(m.junno)) <> LTRIM(RTRIM(@Junno))
+             ORDER BY m.endday DESC, m.startday DESC),
+            (SELECT money1 FROM parts WHERE barcode = @Barcode)
+        );
+
+        -- [4] 마진율 계산
+        IF CAST(@SalePrice AS DECIMAL) = 0
+            SET @MarginRate = 0
+        ELSE
+            SET @MarginRate = FLOOR(((CAST(@SalePrice AS DECIMAL) - CAST(@SaleCost AS DECIMAL)) / CAST(@SalePrice AS DECIMAL)) * 100)
+
+        -- [5] 데이터 저장 (UPSERT: 있으면 수정, 없으면 추가)
+        IF EXISTS (SELECT 1 FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)) AND barcode = @Barcode)
+        BEGIN
+            -- 이미 등록된 경우: UPDATE
+            UPDATE sale_ready
+            SET salemoney0 = FLOOR(CAST(@SaleCost AS DECIMAL)), -- 소수점 제거
+                salemoney1 = @SalePrice,
+                salecount  = @MarginRate,
+                isappl     = @IsAppl,
+                
+                -- [수정됨] 요청하신 날짜/시간 포맷 적용
+                edtday     = @EdtTimeStr, 
+                starttime  = @Today,      
+                endtime    = '-'          
+                
+            WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)) AND barcode = @Barcode
+        END
+        ELSE
+        BEGIN
+            -- 신규 등록인 경우: INSERT
+            -- 일련번호 생성 (junno_serial)
+            SELECT @NextSerial = RIGHT('00000' + CAST(ISNULL(COUNT(*), 0) + 1 AS VARCHAR), 5)
+            FROM sale_ready 
+            WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))
+
+            SET @JunnoSerial = @Junno + '_' + @NextSerial
+
+            INSERT INTO sale_ready (
+                junno_serial, junno, salename, barcode, comcode, 
+                salemoney0, salemoney1, orgmoney1, salecount, 
+                startday, endday, isappl, inpday, 
+                islink, isautoappl, isautoback,
+                
+                -- [추가됨] 요청하신 컬럼 추가
+                edtday, starttime, endtime
+            )
+            VALUES (
+                @JunnoSerial, @Junno, @SaleName, @Barcode, @ComCode,
+                FLOOR(CAST(@SaleCost AS DECIMAL)), @SalePrice, @OrgPriceToUse, @MarginRate, -- 소수점 제거
+                @TargetStart, @TargetEnd, @IsAppl, @Today, 
+                '1', '1', '1',
+                
+                -- [추가됨] 요청하신 값 매핑
+                @EdtTimeStr, 
+                @Today,      
+                '-'          
+            )
+        END
+        
+        -- [6] 마스터 테이블 요약 정보(품목 수, 평균 마진율) 자동 업데이트
+        UPDATE sale_mast 
+        SET itemcount = (SELECT COUNT(*) FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))),
+            avgmgrate = (SELECT ISNULL(AVG(salecount), 0) FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)))
+        WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))
+        
+        -- [7] [추가] 행사 마스터가 '진행중'이고, 현재 품목도 '적용'으로 저장될 때만 parts 즉시 업데이트
+        IF @IsAppl = '1' AND EXISTS(SELECT 1 FROM sale_mast WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)) AND isappl = '1')
+        BEGIN
+            UPDATE parts
+            SET money1comp = @SalePrice,
+                salemoney0 = FLOOR(CAST(@SaleCost AS DECIMAL)), -- 소수점 제거
+                salestartday = @TargetStart,
+                saleendday = @TargetEnd
+            WHERE barcode = @Barcode
+        END
+
+    COMMIT TRANSACTION;
+    SELECT 'SUCCESS' AS RESULT, '저장되었습니다.' AS MSG
+
+END TRY
+BEGIN CATCH
+    IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
+    SELECT 'FAIL' AS RESULT, ERROR_MESSAGE() AS MSG
+END CATCH
+`;
+
+const UPDATE_EVENT_PERIOD_SQL = `
+-- [행사 기간 변경 및 상태 자동 조정]
+SET NOCOUNT ON;
+SET XACT_ABORT ON;
+
+DECLARE @JunnoToUpdate VARCHAR(20) = @Junno;
+DECLARE @NewStartDay VARCHAR(10) = @StartDay;
+DECLARE @NewEndDay VARCHAR(10) = @EndDay;
+DECLARE @Today VARCHAR(10) = CONVERT(VARCHAR(10), GETDATE(), 120);
+
+DECLARE @OldStatus VARCHAR(1);
+DECLARE @NewStatus VARCHAR(1);
+
+BEGIN TRY
+    BEGIN TRANSACTION;
+
+        -- 1. 현재 상태와 새로운 상태 결정
+        SELECT @OldStatus = isappl FROM sale_mast WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@JunnoToUpdate));
+
+        SET @NewStatus = CASE 
+                            WHEN @NewStartDay > @Today THEN '0' -- 미래: 대기
+                            WHEN @NewEndDay < @Today THEN '2'   -- 과거: 종료
+                            ELSE '1'                           -- 현재: 진행
+                         END;
+
+        -- 2. 날짜 및 상태 업데이트
+        UPDATE sale_mast SET startday = @NewStartDay, endday = @NewEndDay, isappl = @NewStatus WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@JunnoToUpdate));
+        UPDATE sale_ready SET startday = @NewStartDay, endday = @NewEndDay WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@JunnoToUpdate));
+        
+        -- 3. 상태 변경에 따른 소속 상품(sale_ready) 상태 업데이트 ('D' 상태는 제외)
+        IF @NewStatus = '0' -- 대기 상태로 변경 시
+        BEGIN
+            UPDATE sale_ready SET isappl = '0' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@JunnoToUpdate)) AND isappl <> 'D';
+        END
+        ELSE IF @NewStatus = '1' -- 진행 상태로 변경 시
+        BEGIN
+            UPDATE sale_ready SET isappl = '1' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@JunnoToUpdate)) AND isappl <> 'D';
+        END
+        ELSE IF @NewStatus = '2' -- 종료 상태로 변경 시
+        BEGIN
+            UPDATE sale_ready SET isappl = 'D' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@JunnoToUpdate)) AND isappl <> 'D';
+        END
+
+        -- 4. 상태 변경에 따른 Parts 테이블 업데이트
+        IF @OldStatus = '1' AND @NewStatus <> '1'
+        BEGIN
+            -- [행사 중지 로직]
+            UPDATE p
+            SET p.money1comp = ISNULL(ne.salemoney1, p.money1),
+                p.salemoney0 = ISNULL(ne.salemoney0, p.money0vat),
+                p.salestartday = ne.startday,
+                p.saleendday = ne.endday
+            FROM parts p JOIN sale_ready r ON p.barcode = r.barcode
+            OUTER APPLY (
+                SELECT TOP 1 r2.salemoney1, r2.salemoney0, m2.startday, m2.endday
+                FROM sale_ready r2 JOIN sale_mast m2 ON r2.junno = m2.junno
+                WHERE r2.barcode = p.barcode AND m2.isappl = '1' AND LTRIM(RTRIM(m2.junno)) <> LTRIM(RTRIM(@JunnoToUpdate))
+                ORDER BY m2.startday DESC
+            ) AS ne
+            WHERE LTRIM(RTRIM(r.junno)) = LTRIM(RTRIM(@JunnoToUpdate));
+        END
+        else if @OldStatus <> '1' AND @NewStatus = '1'
+        BEGIN
+            -- [행사 적용 로직]
+            UPDATE p
+            SET p.money1comp = r.salemoney1,
+                p.salemoney0 = r.salemoney0,
+                p.salestartday = @NewStartDay,
+                p.saleendday = @NewEndDay
+            FROM parts p JOIN sale_ready r ON p.barcode = r.barcode
+            WHERE LTRIM(RTRIM(r.junno)) = LTRIM(RTRIM(@JunnoToUpdate)) AND r.isappl = '1';
+        END
+
+    COMMIT TRANSACTION;
+    SELECT 'SUCCESS' AS RESULT, '기간 및 상태가 업데이트되었습니다.' AS MSG;
+END TRY
+BEGIN CATCH
+    IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
+    SELECT 'FAIL' AS RESULT, ERROR_MESSAGE() AS MSG;
+END CATCH
+`;
+
+const APPLY_EVENT_SQL = `
+SET NOCOUNT ON; SET XACT_ABORT ON;
+BEGIN TRY
+    BEGIN TRANSACTION;
+    UPDATE sale_mast SET isappl = '1' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno));
+    UPDATE sale_ready SET isappl = '1' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)) AND isappl <> 'D';
+
+    UPDATE p SET p.money1comp = r.salemoney1, p.salemoney0 = r.salemoney0, p.salestartday = m.startday, p.saleendday = m.endday 
+    FROM parts p JOIN sale_ready r ON p.barcode = r.barcode JOIN sale_mast m ON r.junno = m.junno 
+    WHERE LTRIM(RTRIM(m.junno)) = LTRIM(RTRIM(@Junno)) AND r.isappl = '1';
+    COMMIT TRANSACTION;
+END TRY
+BEGIN CATCH
+    IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
+    DECLARE @err_msg_apply NVARCHAR(MAX) = ERROR_MESSAGE();
+    RAISERROR(@err_msg_apply, 16, 1);
+END CATCH
+`;
+
+const STOP_EVENT_SQL = `
+-- [행사 미적용/종료 처리] @TargetStatus: '0' = 미적용(재적용 가능), '2' = 완전 종료
+SET NOCOUNT ON; SET XACT_ABORT ON;
+BEGIN TRY
+    BEGIN TRANSACTION;
+        IF @TargetStatus = '0'
+        BEGIN
+            UPDATE sale_mast SET isappl = '0' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno));
+            UPDATE sale_ready SET isappl = '0' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)) AND isappl <> 'D';
+        END
+        ELSE
+        BEGIN
+            UPDATE sale_mast SET isappl = '2' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno));
+            UPDATE sale_ready SET isappl = 'D' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)) AND isappl <> 'D';
+        END
+
+        UPDATE p
+        SET 
+            p.money1comp = ISNULL(next_event.salemoney1, p.money1),
+            p.salemoney0 = ISNULL(next_event.salemoney0, p.money0vat),
+            p.salestartday = next_event.startday,
+            p.saleendday = next_event.endday
+        FROM parts p JOIN sale_ready r_stopped ON p.barcode = r_stopped.barcode
+        OUTER APPLY (
+            SELECT TOP 1 r_other.salemoney1, r_other.salemoney0, m_other.startday, m_other.endday
+            FROM sale_ready r_other WITH(NOLOCK) JOIN sale_mast m_other WITH(NOLOCK) ON r_other.junno = m_other.junno
+            WHERE r_other.barcode = p.barcode AND m_other.isappl = '1' AND LTRIM(RTRIM(m_other.junno)) <> LTRIM(RTRIM(@Junno))
+            ORDER BY m_other.startday DESC
+        ) AS next_event
+        WHERE LTRIM(RTRIM(r_stopped.junno)) = LTRIM(RTRIM(@Junno));
+    COMMIT TRANSACTION;
+END TRY
+BEGIN CATCH
+    IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
+    DECLARE @err_msg_stop NVARCHAR(MAX) = ERROR_MESSAGE();
+    RAISERROR(@err_msg_stop, 16, 1);
+END CATCH
+`;
+
+const DELETE_EVENT_SQL = `DELETE FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)); DELETE FROM sale_mast WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno));`;
+
+const STOP_EVENT_ITEM_SQL = `
+SET NOCOUNT ON; SET XACT_ABORT ON;
+DECLARE @JunnoToStop VARCHAR(20) = @Junno; DECLARE @BarcodeToStop VARCHAR(20) = @Barcode;
+BEGIN TRY
+    BEGIN TRANSACTION;
+        UPDATE sale_ready SET isappl = 'D' WHERE LTRIM(RTRIM(junno)) = @JunnoToStop AND barcode = @BarcodeToStop;
+        
+        DECLARE @NextBestSalePrice DECIMAL(18,0), @NextBestSaleCost DECIMAL(18,0), @NextBestStart VARCHAR(10), @NextBestEnd VARCHAR(10);
+        SELECT TOP 1 
+            @NextBestSalePrice = r.salemoney1, @NextBestSaleCost = r.salemoney0, 
+            @NextBestStart = m.startday, @NextBestEnd = m.endday 
+        FROM sale_ready r WITH(NOLOCK) 
+        JOIN sale_mast m WITH(NOLOCK) ON r.junno = m.junno 
+        WHERE r.barcode = @BarcodeToStop AND m.isappl = '1' AND LTRIM(RTRIM(m.junno)) <> LTRIM(RTRIM(@JunnoToStop)) 
+        ORDER BY m.startday DESC;
+        
+        IF @@ROWCOUNT > 0
+            UPDATE p SET p.money1comp = @NextBestSalePrice, p.salemoney0 = @NextBestSaleCost, p.salestartday = @NextBestStart, p.saleendday = @NextBestEnd FROM parts p WHERE p.barcode = @BarcodeToStop;
+        ELSE
+            UPDATE p SET p.money1comp = p.money1, p.salemoney0 = p.money0vat, p.salestartday = NULL, p.saleendday = NULL FROM parts p WHERE p.barcode = @BarcodeToStop;
+    COMMIT TRANSACTION;
+END TRY
+BEGIN CATCH
+    IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
+    DECLARE @err_msg_remove NVARCHAR(MAX) = ERROR_MESSAGE();
+    RAISERROR(@err_msg_remove, 16, 1);
+END CATCH
+`;
+
+const DELETE_EVENT_ITEM_SQL = `DELETE FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)) AND barcode = @Barcode; UPDATE sale_mast SET itemcount = (SELECT COUNT(*) FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))), avgmgrate = (SELECT ISNULL(AVG(salecount), 0) FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))) WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno));`;
+
+const CHECK_EVENT_PRODUCT_SQL = `
+-- [행사상품 상세조회 및 중복체크]
+-- 파라미터: @Junno (현재 전표), @Barcode (상품)
+
+DECLARE @MyStart VARCHAR(10)
+DECLARE @MyEnd VARCHAR(10)
+DECLARE @Today VARCHAR(10)
+SET @Today = CONVERT(VARCHAR(10), GETDATE(), 120)
+
+-- 1. 현재 내 행사의 시작/종료일 확보
+SELECT @MyStart = startday, @MyEnd = endday
+FROM sale_mast WITH(NOLOCK)
+WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))
+
+-- 2. 상품 정보 + 내 행사 등록 여부 + 타 행사 중복 여부 조회
+SELECT 
+    P.descr      AS [GoodsName],
+    P.spec       AS [Spec],
+    P.money0vat  AS [Cost],        -- 부가세포함 매입가
+    P.money1     AS [Price],       -- 정상 판매가
+    @MyStart     AS [MyStart],     -- 내 행사의 시작일
+    
+    CASE 
+        WHEN R.junno IS NOT NULL THEN 'UPDATE'
+        ELSE 'INSERT'
+    END AS [Mode],
+    ISNULL(R.salemoney0, P.money0vat) AS [SaleCost],
+    ISNULL(R.salemoney1, P.money1)    AS [SalePrice],
+    ISNULL(R.salecount, 0)            AS [Margin],
+    
+    (
+        SELECT TOP 1 
+            '[' + M2.salename + '] ' + 
+            CONVERT(VARCHAR, CAST(R2.salemoney1 AS INT)) + '원 (' + 
+            M2.startday + '~' + M2.endday + ')'
+        FROM sale_ready R2 WITH(NOLOCK)
+        INNER JOIN sale_mast M2 WITH(NOLOCK) ON R2.junno = M2.junno
+        WHERE R2.barcode = P.barcode
+          AND LTRIM(RTRIM(R2.junno)) <> LTRIM(RTRIM(@Junno))
+          AND M2.isappl = '1'
+          AND (
+              REPLACE(M2.startday, '-', '') <= REPLACE(@MyEnd, '-', '') 
+              AND 
+              REPLACE(M2.endday, '-', '') >= REPLACE(@MyStart, '-', '')
+          )
+        ORDER BY M2.startday DESC
+    ) AS [WarningMsg],
+    (
+        SELECT TOP 1 R2.salemoney1
+        FROM sale_ready R2 WITH(NOLOCK)
+        INNER JOIN sale_mast M2 WITH(NOLOCK) ON R2.junno = M2.junno
+        WHERE R2.barcode = P.barcode
+          AND LTRIM(RTRIM(R2.junno)) <> LTRIM(RTRIM(@Junno))
+          AND M2.isappl = '1'
+          AND (
+              REPLACE(M2.startday, '-', '') <= REPLACE(@MyEnd, '-', '') 
+              AND 
+              REPLACE(M2.endday, '-', '') >= REPLACE(@MyStart, '-', '')
+          )
+        ORDER BY M2.startday DESC
+    ) AS [DuplicatePrice]
+
+FROM parts P WITH(NOLOCK)
+LEFT JOIN sale_ready R WITH(NOLOCK) 
+    ON P.barcode = R.barcode AND LTRIM(RTRIM(R.junno)) = LTRIM(RTRIM(@Junno))
+WHERE P.barcode = @Barcode
+`;
+
+const CHECK_EVENT_PRODUCT_CONTINUOUS_SQL = `
+-- [행사상품 상세조회 및 중복체크]
+DECLARE @MyStart VARCHAR(10)
+DECLARE @MyEnd VARCHAR(10)
+
+SELECT @MyStart = startday, @MyEnd = endday
+FROM sale_mast WITH(NOLOCK)
+WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))
+
+SELECT 
+    P.descr      AS [GoodsName],
+    P.spec       AS [Spec],
+    P.money0vat  AS [Cost],
+    P.money1     AS [Price],
+    @MyStart     AS [MyStart],
+    CASE WHEN R.junno IS NOT NULL THEN 'UPDATE' ELSE 'INSERT' END AS [Mode],
+    ISNULL(R.salemoney0, P.money0vat) AS [SaleCost],
+    ISNULL(R.salemoney1, P.money1)    AS [SalePrice],
+    (
+        SELECT TOP 1 '[' + M2.salename + '] ' + CONVERT(VARCHAR, CAST(R2.salemoney1 AS INT)) + '원'
+        FROM sale_ready R2 WITH(NOLOCK)
+        INNER JOIN sale_mast M2 WITH(NOLOCK) ON R2.junno = M2.junno
+        WHERE R2.barcode = P.barcode
+          AND LTRIM(RTRIM(R2.junno)) <> LTRIM(RTRIM(@Junno))
+          AND M2.isappl = '1'
+          AND (REPLACE(M2.startday, '-', '') <= REPLACE(@MyEnd, '-', '') AND REPLACE(M2.endday, '-', '') >= REPLACE(@MyStart, '-', ''))
+        ORDER BY M2.startday DESC
+    ) AS [WarningMsg],
+    (
+        SELECT TOP 1 R2.salemoney1
+        FROM sale_ready R2 WITH(NOLOCK)
+        INNER JOIN sale_mast M2 WITH(NOLOCK) ON R2.junno = M2.junno
+        WHERE R2.barcode = P.barcode AND LTRIM(RTRIM(R2.junno)) <> LTRIM(RTRIM(@Junno))
+        ORDER BY M2.endday DESC
+    ) AS [PreviousSalePrice]
+FROM parts P WITH(NOLOCK)
+LEFT JOIN sale_ready R WITH(NOLOCK) 
+    ON P.barcode = R.barcode AND LTRIM(RTRIM(R.junno)) = LTRIM(RTRIM(@Junno))
+WHERE P.barcode = @Barcode
+`;
+
+// --- 상품/거래처/매입 조회 ---
+const BOM_COMPONENTS_SQL = `
+SELECT 
+    b.childbar AS [바코드],
+    p.descr AS [상품명],
+    p.spec  AS [규격],
+    p.money0vat AS [매입가],
+    b.childcount AS [수량]
+FROM bom AS b WITH(NOLOCK)
+JOIN parts AS p WITH(NOLOCK) ON b.childbar = p.barcode
+WHERE b.parebar = @barcode
+`;
+
+const SUPPLIERS_SQL = `SELECT comcode, comname FROM comp WITH(NOLOCK) WHERE isuse <> '0' ORDER BY comname`;
+
+const CUSTOMER_SEARCH_SQL = `SELECT comcode as [고객번호], comname as [고객명], tel as [전화번호], point as [포인트] FROM comp WITH(NOLOCK) WHERE isuse <> '0' AND (comname LIKE '%' + @kw + '%' OR comcode LIKE '%' + @kw + '%' OR tel LIKE '%' + @kw + '%')`;
+
+const PURCHASE_HISTORY_SQL = `
+-- [매입 목록 조회] 전체/개별 거래처 통합 조회 (SQL 2005 호환)
+SET NOCOUNT ON;
+
+DECLARE @p_StartDate  VARCHAR(10);
+DECLARE @p_EndDate    VARCHAR(10);
+DECLARE @p_ComCode    VARCHAR(5);
+
+-- ★ 앱에서 "전체" 선택 시 빈 값('')을 보내주세요.
+SET @p_StartDate = @startDate;
+SET @p_EndDate   = @endDate;
+SET @p_ComCode   = @comcode;   -- 값이 있으면 개별, 없으면('') 전체
+
+DECLARE @FinalSQL     NVARCHAR(MAX);
+DECLARE @UnionStr     NVARCHAR(10);
+DECLARE @CurrDate     DATETIME;
+DECLARE @EndTarget    DATETIME;
+DECLARE @YYMM         VARCHAR(4);
+DECLARE @TableName    VARCHAR(20);
+
+SET @FinalSQL    = N'';
+SET @UnionStr    = N'';
+SET @CurrDate    = CONVERT(DATETIME, @p_StartDate);
+SET @EndTarget   = CONVERT(DATETIME, @p_EndDate);
+SET @CurrDate    = DATEADD(MONTH, DATEDIFF(MONTH, 0, @CurrDate), 0); -- 매월 1일로 셋팅
+
+WHILE @CurrDate <= @EndTarget
+BEGIN
+    SET @YYMM = CONVERT(VARCHAR(4), @CurrDate, 12); 
+    SET @TableName = 'ipgom_' + @YYMM;
+
+    IF EXISTS (SELECT 1 FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = @TableName)
+    BEGIN
+        SET @FinalSQL = @FinalSQL + @UnionStr + N'
+            SELECT 
+                  A.day1             AS day1
+                , A.junno            AS junno
+                , ISNULL(B.comname, ''미등록거래처'') AS comname
+                , ISNULL(A.ipgo, 0)   AS ipgo
+                , ISNULL(A.banpum, 0) AS banpum
+                , (ISNULL(A.ipgo, 0) - ISNULL(A.banpum, 0)) AS tmoney1
+                , A.remark           AS remark
+                , A.comcode          AS comcode
+            FROM ' + @TableName + ' A WITH(NOLOCK)
+            LEFT OUTER JOIN comp B WITH(NOLOCK) ON A.comcode = B.comcode
+            WHERE A.day1 BETWEEN @s AND @e
+        ';
+
+        -- [핵심] 코드가 있을 때만 AND 조건을 붙입니다. (빈 값이면 전체 조회됨)
+        -- 값은 문자열로 붙이지 않고 sp_executesql 파라미터(@s, @e, @c)로 전달합니다.
+        IF @p_ComCode IS NOT NULL AND @p_ComCode <> ''
+        BEGIN
+            SET @FinalSQL = @FinalSQL + N' AND A.comcode = @c';
+        END
+
+        SET @UnionStr = N' UNION ALL ';
+    END
+    SET @CurrDate = DATEADD(MONTH, 1, @CurrDate);
+END
+
+IF @FinalSQL <> N''
+BEGIN
+    SET @FinalSQL = @FinalSQL + N' ORDER BY day1 DESC, junno DESC';
+    EXEC sp_executesql @FinalSQL, N'@s VARCHAR(10), @e VARCHAR(10), @c VARCHAR(5)', @s = @p_StartDate, @e = @p_EndDate, @c = @p_ComCode;
+END
+ELSE
+BEGIN
+    SELECT 'NO_DATA' AS [RESULT], '조회된 기간에 매입 내역이 없습니다.' AS [MSG];
+END`;
+export const NAMED_QUERIES: Record<string, NamedQuery> = {
+    '실시간재고확인': {
+        version: 2,
+        description: '상품의 현재 전산 재고 조회',
+        params: { Barcode: 'varchar(20)' },
+        sql: REALTIME_STOCK_SQL,
+    },
+    '재고실사_즉시저장': {
+        version: 2,
+        description: '실사 수량과 전산 재고의 차이를 bojung_YYMM 에 기록',
+        params: { Barcode: 'varchar(15)', RealQty: 'decimal(18,0)' },
+        sql: IMMEDIATE_AUDIT_SQL,
+    },
+    '입고등록': {
+        version: 2,
+        description: '입고 품목 한 건을 dt900_ipgo 에 등록',
+        params: {
+            time: 'varchar(19)', dtcomcode: 'varchar(5)', barcode: 'varchar(14)',
+            // 거래처명/상품명은 표시용 사본입니다. 길이를 넘으면 잘리지 않고 오류가 되므로 클라이언트가 컬럼 길이에 맞춰 보냅니다.
+            comname: 'varchar(10)', item_name: 'varchar(30)',
+            qty: 'int', cost: 'decimal(18,4)', price: 'decimal(18,4)',
+        },
+        sql: RECEIVING_INSERT_SQL,
+    },
+    '행사마스터_신규등록': {
+        version: 2,
+        description: '행사 전표(sale_mast) 신규 생성',
+        params: { SaleName: 'varchar(30)', StartDay: 'date', EndDay: 'date' },
+        sql: CREATE_EVENT_MASTER_SQL,
+    },
+    '행사등록_취소삭제': {
+        version: 1,
+        description: '등록 중인 행사 전표와 품목 삭제',
+        params: { Junno: 'varchar(20)' },
+        sql: CANCEL_EVENT_REGISTRATION_SQL,
+    },
+    '행사등록_상품저장': {
+        version: 1,
+        description: '등록 중인 행사에 품목 추가/수정 (parts 미반영)',
+        params: { Junno: 'varchar(20)', Barcode: 'varchar(20)', SaleCost: 'decimal(18,4)', SalePrice: 'decimal(18,4)', IsAppl: 'varchar(1)' },
+        sql: REGISTRATION_UPSERT_ITEM_SQL,
+    },
+    '행사등록_최종확정': {
+        version: 2,
+        description: '행사 최종 확정 및 시작일 도래 시 parts 반영',
+        params: { TargetJunno: 'varchar(20)', FinalName: 'varchar(30)', FinalStart: 'date', FinalEnd: 'date' },
+        sql: FINAL_CONFIRM_EVENT_SQL,
+    },
+    '행사찾기': {
+        version: 1,
+        description: '상품 바코드로 소속 행사 조회',
+        params: { Barcode: 'varchar(20)' },
+        sql: FIND_EVENT_BY_PRODUCT_SQL,
+    },
+    '행사상품_저장': {
+        version: 1,
+        description: '진행 중인 행사의 품목 추가/수정 (적용 상태면 parts 즉시 반영)',
+        params: { Junno: 'varchar(20)', Barcode: 'varchar(20)', SaleCost: 'decimal(18,4)', SalePrice: 'decimal(18,4)', IsAppl: 'varchar(1)' },
+        sql: MANAGEMENT_UPSERT_ITEM_SQL,
+    },
+    '행사기간_및_상태_수정': {
+        version: 1,
+        description: '행사 기간 변경 및 상태 자동 조정',
+        params: { Junno: 'varchar(20)', StartDay: 'date', EndDay: 'date' },
+        sql: UPDATE_EVENT_PERIOD_SQL,
+    },
+    '행사_적용_및_Parts업데이트': {
+        version: 1,
+        description: '행사 전체 적용 및 parts 판매가 반영',
+        params: { Junno: 'varchar(20)' },
+        sql: APPLY_EVENT_SQL,
+    },
+    '행사_상태변경': {
+        version: 1,
+        description: '행사 미적용(0)/종료(2) 처리 및 parts 가격 원복',
+        params: { Junno: 'varchar(20)', TargetStatus: 'varchar(1)' },
+        sql: STOP_EVENT_SQL,
+    },
+    '행사_삭제': {
+        version: 1,
+        description: '행사 전표와 품목 삭제',
+        params: { Junno: 'varchar(20)' },
+        sql: DELETE_EVENT_SQL,
+    },
+    '행사상품_개별중지_및_Parts업데이트': {
+        version: 1,
+        description: '행사 품목 개별 중지 및 parts 가격 원복',
+        params: { Junno: 'varchar(20)', Barcode: 'varchar(20)' },
+        sql: STOP_EVENT_ITEM_SQL,
+    },
+    '행사상품_개별삭제': {
+        version: 1,
+        description: '행사 품목 삭제 및 전표 요약 갱신',
+        params: { Junno: 'varchar(20)', Barcode: 'varchar(20)' },
+        sql: DELETE_EVENT_ITEM_SQL,
+    },
+    '행사상품체크': {
+        version: 1,
+        description: '행사 품목 상세 조회 및 타 행사 중복 확인',
+        params: { Junno: 'varchar(20)', Barcode: 'varchar(20)' },
+        sql: CHECK_EVENT_PRODUCT_SQL,
+    },
+    '행사상품체크_연속스캔': {
+        version: 1,
+        description: '연속 스캔용 행사 품목 조회 (이전 행사가 포함)',
+        params: { Junno: 'varchar(20)', Barcode: 'varchar(20)' },
+        sql: CHECK_EVENT_PRODUCT_CONTINUOUS_SQL,
+    },
+    'BOM구성': {
+        version: 1,
+        description: '묶음 상품의 구성 품목 조회',
+        params: { barcode: 'varchar(20)' },
+        sql: BOM_COMPONENTS_SQL,
+    },
+    '거래처목록': {
+        version: 1,
+        description: '사용 중인 거래처 목록',
+        params: {},
+        sql: SUPPLIERS_SQL,
+    },
+    '고객검색': {
+        version: 1,
+        description: '고객명/번호/전화번호로 고객 검색',
+        params: { kw: 'nvarchar(50)' },
+        sql: CUSTOMER_SEARCH_SQL,
+    },
+    '매입내역': {
+        version: 1,
+        description: '기간별 매입 목록 (ipgom_YYMM 통합)',
+        params: { startDate: 'date', endDate: 'date', comcode: 'varchar(5)' },
+        sql: PURCHASE_HISTORY_SQL,
+    },
+};
+
+export function getNamedQuery(name: string): NamedQuery | undefined {
+    return Object.prototype.hasOwnProperty.call(NAMED_QUERIES, name) ? NAMED_QUERIES[name] : undefined;
+}
@@ -0,0 +1,98 @@
+// api/_lib/openAiCompatibleProvider.ts
+// OpenAI 호환 Chat Completions API 제공자. (POST {baseUrl}/chat/completions)
+// 매장 PC의 Ollama(http://localhost:11434/v1)나 llama.cpp 서버처럼 같은 형식을 제공하는 로컬 모델에 연결할 수 있습니다.
+// 도구 호출은 tools / tool_calls 형식을 사용하므로 함수 호출을 지원하는 모델이어야 AI 어시스턴트가 데이터를 조회할 수 있습니다.
+import type { AgentMessage, AgentToolCall } from './aiAgent';
+import type { LlmProvider } from './llmProvider';
+
+// 로컬 모델은 첫 요청에서 모델을 불러오느라 오래 걸릴 수 있습니다.
+const REQUEST_TIMEOUT_MS = 120 * 1000;
+
+/** AI 서버가 오류를 응답했거나 응답 형식이 올바르지 않은 경우 */
+export class LlmProviderError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LlmProviderError';
+    }
+}
+
+function toChatMessages(systemInstruction: string, messages: AgentMessage[]): object[] {
+    const chat: object[] = [{ role: 'system', content: systemInstruction }];
+    for (const message of messages) {
+        if (message.role === 'user') {
+            chat.push({ role: 'user', content: message.text });
+        } else if (message.role === 'model') {
+            chat.push({
+                role: 'assistant',
+                content: message.text ?? null,
+                ...(message.toolCalls.length > 0 ? {
+                    tool_calls: message.toolCalls.map(call => ({ id: call.id, type: 'function', function: { name: call.name, arguments: JSON.stringify(call.args) } })),
+                } : {}),
+            });
+        } else {
+            chat.push({ role: 'tool', tool_call_id: message.call.id, content: JSON.stringify(message.result) });
+        }
+    }
+    return chat;
+}
+
+function parseArguments(value: unknown): Record<string, unknown> {
+    if (value && typeof value === 'object') return value as Record<string, unknown>;
+    if (typeof value !== 'string' || !value.trim()) return {};
+    try {
+        const parsed = JSON.parse(value);
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+        return {};
+    }
+}
+
+export function createOpenAiCompatibleProvider(baseUrl: string, apiKey: string | undefined): LlmProvider {
+    const endpoint = `${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`;
+    let callSeq = 0;
+
+    async function complete(body: Record<string, unknown>): Promise<any> {
+        if (!baseUrl.trim()) throw new LlmProviderError('OPENAI_COMPAT_BASE_URL이 설정되지 않았습니다.');
+        const response = await fetch(endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+            body: JSON.stringify(body),
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+            const detail = (await response.text().catch(() => '')).slice(0, 300);
+            throw new LlmProviderError(`AI 서버 오류 (${response.status}): ${detail}`);
+        }
+        const data: any = await response.json();
+        const message = data?.choices?.[0]?.message;
+        if (!message) throw new LlmProviderError('AI 서버 응답 형식이 올바르지 않습니다.');
+        return message;
+    }
+
+    return {
+        kind: 'openai',
+        async generateText(model, prompt) {
+            const message = await complete({ model, messages: [{ role: 'user', content: prompt }], stream: false });
+            return typeof message.content === 'string' ? message.content : '';
+        },
+        createAgentModel(model) {
+            return {
+                async generate(systemInstruction, messages, tools) {
+                    const message = await complete({
+                        model,
+                        messages: toChatMessages(systemInstruction, messages),
+                        stream: false,
+                        ...(tools.length > 0 ? {
+                            tools: tools.map(tool => ({ type: 'function', function: { name: tool.name, description: tool.description, parameters: tool.parameters } })),
+                        } : {}),
+                    });
+                    // 결과를 돌려줄 때 호출 ID가 필요하므로 ID를 주지 않는 서버에서는 직접 붙입니다.
+                    const toolCalls: AgentToolCall[] = (Array.isArray(message.tool_calls) ? message.tool_calls : [])
+                        .filter((call: any) => typeof call?.function?.name === 'string')
+                        .map((call: any) => ({ id: call.id || `call_${++callSeq}`, name: call.function.name, args: parseArguments(call.function.arguments) }));
+                    return { text: typeof message.content === 'string' ? message.content : undefined, toolCalls };
+                },
+            };
+        },
+    };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { coerceParamValue, parseParamType, ParamValidationError, validateParams } from './paramTypes';
+
+describe('coerceParamValue', () => {
+    it('keeps the entered wall-clock time for datetime regardless of the server time zone', () => {
+        const date = coerceParamValue('time', parseParamType('datetime'), '2024-03-10 02:30:15.5');
+        expect(date.toISOString()).toBe('2024-03-10T02:30:15.500Z');
+    });
+
+    it.each(['2024-02-30 10:00', '2024-03-10 24:00', '2024-03-10 10:60', '2024-03-10 10:00:60'])('rejects the invalid datetime %s', value => {
+        expect(() => coerceParamValue('time', parseParamType('datetime'), value)).toThrow(ParamValidationError);
+    });
+
+    it('counts non-ASCII characters as two bytes for varchar', () => {
+        expect(coerceParamValue('comname', parseParamType('varchar(10)'), '가나다라마')).toBe('가나다라마');
+        expect(() => coerceParamValue('comname', parseParamType('varchar(10)'), '가나다라마바')).toThrow('최대 10바이트');
+        expect(coerceParamValue('comname', parseParamType('nvarchar(6)'), '가나다라마바')).toBe('가나다라마바');
+    });
+});
+
+describe('validateParams', () => {
+    it('rejects over-long display names instead of truncating them', () => {
+        expect(() => validateParams({ item_name: 'varchar(30)' }, { item_name: '아주 긴 상품명을 가진 행사용 묶음 상품' })).toThrow(ParamValidationError);
+    });
+
+    it('reports missing parameters and ignores undeclared ones', () => {
+        expect(() => validateParams({ qty: 'int' }, {})).toThrow('@qty');
+        expect(Object.keys(validateParams({ qty: 'int' }, { qty: '3', extra: 1 }))).toEqual(['qty']);
+    });
+});
@@ -0,0 +1,154 @@
+// api/_lib/paramTypes.ts
+// 쿼리 파라미터의 타입 선언('varchar(14)', 'decimal(18,0)', 'datetime' 등)을 해석하고 값을 검증합니다.
+// 값이 선언된 길이/범위를 넘으면 DB에서 잘리거나 반올림되기 전에 오류로 알려줍니다.
+
+export type ParamKind = 'varchar' | 'nvarchar' | 'char' | 'nchar' | 'int' | 'bigint' | 'decimal' | 'bit' | 'date' | 'datetime';
+
+export interface ParamTypeSpec {
+    kind: ParamKind;
+    /** 문자열 길이 (varchar/char은 바이트, nvarchar/nchar은 문자 수). 'max'이면 제한 없음 */
+    length?: number | 'max';
+    precision?: number;
+    scale?: number;
+}
+
+/** 'varchar(14)', 'decimal(18,4)' 처럼 SQL Server 타입 이름으로 선언합니다. */
+export type ParamDeclaration = string;
+
+export class ParamValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ParamValidationError';
+    }
+}
+
+const DECLARATION_PATTERN = /^\s*([a-z]+)\s*(?:\(\s*(max|\d+)\s*(?:,\s*(\d+)\s*)?\))?\s*$/i;
+const INT_RANGE = { int: [-2147483648, 2147483647], bigint: [Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER] } as const;
+const STRING_KINDS: ParamKind[] = ['varchar', 'nvarchar', 'char', 'nchar'];
+
+export function parseParamType(text: ParamDeclaration): ParamTypeSpec {
+    const match = DECLARATION_PATTERN.exec(text || '');
+    if (!match) throw new ParamValidationError(`알 수 없는 파라미터 타입입니다: ${text}`);
+
+    const kind = (match[1].toLowerCase() === 'numeric' ? 'decimal' : match[1].toLowerCase()) as ParamKind;
+    const first = match[2];
+    const second = match[3];
+
+    if (STRING_KINDS.includes(kind)) {
+        const length = first === undefined ? 'max' : first.toLowerCase() === 'max' ? 'max' : Number(first);
+        if (length !== 'max' && (length < 1 || length > (kind.startsWith('n') ? 4000 : 8000))) throw new ParamValidationError(`문자열 길이가 올바르지 않습니다: ${text}`);
+        return { kind, length };
+    }
+    if (kind === 'decimal') {
+        const precision = first === undefined ? 18 : Number(first);
+        const scale = second === undefined ? 0 : Number(second);
+        if (!(precision >= 1 && precision <= 38) || scale > precision) throw new ParamValidationError(`decimal 정밀도가 올바르지 않습니다: ${text}`);
+        return { kind, precision, scale };
+    }
+    if (kind === 'int' || kind === 'bigint' || kind === 'bit' || kind === 'date' || kind === 'datetime') {
+        if (first !== undefined) throw new ParamValidationError(`${kind} 타입에는 길이를 지정할 수 없습니다: ${text}`);
+        return { kind };
+    }
+    throw new ParamValidationError(`지원하지 않는 파라미터 타입입니다: ${text}`);
+}
+
+/** varchar/char 컬럼은 한글 등 ASCII 외 문자를 2바이트로 저장합니다. (한국어 데이터베이스 정렬 기준) */
+function byteLength(value: string): number {
+    let length = 0;
+    for (const ch of value) length += ch.charCodeAt(0) < 0x80 ? 1 : 2;
+    return length;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?$/;
+
+function isValidCalendarDate(year: number, month: number, day: number): boolean {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * 선언에 맞게 값을 검증하고 바인딩할 값으로 변환합니다. null은 그대로 허용됩니다.
+ * @param name 오류 메시지에 표시할 파라미터 이름
+ */
+export function coerceParamValue(name: string, spec: ParamTypeSpec, value: any): any {
+    if (value === null) return null;
+    const label = `@${name}`;
+
+    switch (spec.kind) {
+        case 'varchar':
+        case 'char':
+        case 'nvarchar':
+        case 'nchar': {
+            if (typeof value === 'object') throw new ParamValidationError(`${label}: 문자열이어야 합니다.`);
+            const text = String(value);
+            if (spec.length === 'max' || spec.length === undefined) return text;
+            const isUnicode = spec.kind === 'nvarchar' || spec.kind === 'nchar';
+            const size = isUnicode ? [...text].length : byteLength(text);
+            if (size <= spec.length) return text;
+            throw new ParamValidationError(`${label}: 최대 ${spec.length}${isUnicode ? '자' : '바이트'}까지 입력할 수 있습니다 (현재 ${size}).`);
+        }
+        case 'int':
+        case 'bigint': {
+            const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+            if (typeof num !== 'number' || !Number.isInteger(num)) throw new ParamValidationError(`${label}: 정수여야 합니다 (${value}).`);
+            const [min, max] = INT_RANGE[spec.kind];
+            if (num < min || num > max) throw new ParamValidationError(`${label}: ${spec.kind} 범위를 벗어났습니다 (${value}).`);
+            return num;
+        }
+        case 'decimal': {
+            const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+            if (typeof num !== 'number' || !Number.isFinite(num)) throw new ParamValidationError(`${label}: 숫자여야 합니다 (${value}).`);
+            const scale = spec.scale ?? 0;
+            const precision = spec.precision ?? 18;
+            const [intPart, fracPart = ''] = Math.abs(num).toFixed(Math.max(scale, 10)).replace(/0+$/, '').split('.');
+            if (fracPart.length > scale) throw new ParamValidationError(`${label}: 소수점 이하 ${scale}자리까지 입력할 수 있습니다 (${value}).`);
+            if (intPart.replace(/^0+/, '').length > precision - scale) throw new ParamValidationError(`${label}: decimal(${precision},${scale}) 범위를 벗어났습니다 (${value}).`);
+            return num;
+        }
+        case 'bit': {
+            if (value === true || value === 1 || value === '1') return true;
+            if (value === false || value === 0 || value === '0') return false;
+            throw new ParamValidationError(`${label}: 0 또는 1이어야 합니다 (${value}).`);
+        }
+        case 'date': {
+            // 이 DB는 날짜를 'YYYY-MM-DD' 문자열 컬럼에 저장합니다.
+            const text = String(value);
+            const [y, m, d] = text.split('-').map(Number);
+            if (!DATE_PATTERN.test(text) || !isValidCalendarDate(y, m, d)) throw new ParamValidationError(`${label}: YYYY-MM-DD 형식의 날짜여야 합니다 (${value}).`);
+            return text;
+        }
+        case 'datetime': {
+            if (value instanceof Date && !isNaN(value.getTime())) return value;
+            const match = DATETIME_PATTERN.exec(String(value));
+            if (!match || !isValidCalendarDate(Number(match[1]), Number(match[2]), Number(match[3]))) {
+                throw new ParamValidationError(`${label}: YYYY-MM-DD HH:mm:ss 형식의 날짜/시간이어야 합니다 (${value}).`);
+            }
+            // 입력한 시각을 그대로 UTC로 만들어야 드라이버가 UTC로 바인딩할 때 서버 시간대와 관계없이 같은 값이 저장됩니다.
+            const [, y, mo, d, h = '0', mi = '0', s = '0', ms = '0'] = match;
+            const date = new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s), Number(ms.padEnd(3, '0'))));
+            if (date.getUTCDate() !== Number(d) || date.getUTCHours() !== Number(h) || date.getUTCMinutes() !== Number(mi) || date.getUTCSeconds() !== Number(s)) {
+                throw new ParamValidationError(`${label}: 시간이 올바르지 않습니다 (${value}).`);
+            }
+            return date;
+        }
+    }
+}
+
+export interface TypedParam {
+    spec: ParamTypeSpec;
+    value: any;
+}
+
+/**
+ * 선언된 파라미터를 모두 검증합니다. 선언되지 않은 값은 무시되고, 누락된 값은 오류입니다.
+ */
+export function validateParams(declarations: Record<string, ParamDeclaration>, params: Record<string, any>): Record<string, TypedParam> {
+    const typed: Record<string, TypedParam> = {};
+    for (const [key, declaration] of Object.entries(declarations)) {
+        if (params[key] === undefined) throw new ParamValidationError(`필수 파라미터가 누락되었습니다: @${key}`);
+        const spec = parseParamType(declaration);
+        typed[key] = { spec, value: coerceParamValue(key, spec, params[key]) };
+    }
+    return typed;
+}
@@ -0,0 +1,5 @@
+// api/_lib/productDigest.ts
+// 상품 바코드 집합을 버킷별 요약값(건수, 해시 합)으로 나타내어 클라이언트 캐시와 비교합니다.
+// 클라이언트와 해시 규칙이 어긋나지 않도록 클라이언트 모듈(src/utils/productDigest.ts)을 그대로 사용합니다.
+export { DIGEST_BUCKETS, hashBarcode, bucketOf, buildDigest } from '../../src/utils/productDigest';
+export type { BucketDigest } from '../../src/utils/productDigest';
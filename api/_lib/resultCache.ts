@@ -0,0 +1,117 @@
+// api/_lib/resultCache.ts
+// 읽기 전용 조회 결과를 짧은 시간 동안 보관하는 메모리 캐시입니다.
+// 마감 시간에 여러 기기가 같은 매출 보고서를 반복 조회할 때 DB에 같은 쿼리가 몰리지 않도록 합니다.
+// 요청이 cacheTtlSeconds를 지정한 경우에만 사용하며(opt-in), 쿼리 이름 + SQL + 정규화한 파라미터로 구분합니다.
+// 같은 키로 동시에 들어온 요청은 한 번만 실행하고 결과를 함께 받습니다.
+// 캐시는 프로세스(서버리스 인스턴스, 매장 서버) 단위이며 재시작하면 비워집니다.
+import { createHash } from 'crypto';
+
+export const MAX_CACHE_TTL_SECONDS = 300;
+const MAX_ENTRIES = 200;
+
+export interface CacheOptions {
+    ttlSeconds: number;
+    /** true이면 보관된 결과를 쓰지 않고 다시 조회하여 갱신합니다. */
+    refresh: boolean;
+}
+
+/** 응답에 포함되는 캐시 정보 */
+export interface CacheInfo {
+    hit: boolean;
+    cachedAt: string;
+    ageSeconds: number;
+    ttlSeconds: number;
+}
+
+export class CacheOptionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CacheOptionError';
+    }
+}
+
+interface CacheEntry {
+    value: object;
+    cachedAt: number;
+    expiresAt: number;
+    ttlSeconds: number;
+}
+
+// Map은 삽입 순서를 유지하므로 가장 앞의 항목이 가장 오래된 항목입니다.
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<CacheEntry>>();
+
+/** 요청의 캐시 옵션을 확인합니다. cacheTtlSeconds가 없으면 null (캐시 사용 안 함) */
+export function parseCacheOptions(ttlSeconds: unknown, refresh: unknown): CacheOptions | null {
+    if (ttlSeconds === undefined || ttlSeconds === null) return null;
+    if (typeof ttlSeconds !== 'number' || !Number.isInteger(ttlSeconds) || ttlSeconds < 1) {
+        throw new CacheOptionError('cacheTtlSeconds는 1 이상의 정수여야 합니다.');
+    }
+    return { ttlSeconds: Math.min(ttlSeconds, MAX_CACHE_TTL_SECONDS), refresh: refresh === true };
+}
+
+function normalizeValue(value: any): any {
+    if (typeof value === 'string') return value.trim();
+    if (value instanceof Date) return value.toISOString();
+    return value;
+}
+
+/**
+ * 캐시 키. 파라미터 이름은 SQL Server처럼 대소문자를 구분하지 않고, 값이 없는 파라미터는 제외합니다.
+ * SQL 본문은 해시로만 포함합니다.
+ */
+export function buildCacheKey(name: string, sqlText: string, params: Record<string, any> = {}, paramTypes: Record<string, any> = {}): string {
+    const normalized = Object.keys(params)
+        .filter(key => params[key] !== undefined && params[key] !== null)
+        .map(key => [key.toLowerCase(), normalizeValue(params[key]), paramTypes[key] ?? null])
+        .sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+    const sqlHash = createHash('sha1').update(sqlText).digest('hex');
+    return `${name}:${sqlHash}:${JSON.stringify(normalized)}`;
+}
+
+function store(key: string, entry: CacheEntry) {
+    entries.delete(key);
+    entries.set(key, entry);
+    const now = Date.now();
+    for (const [k, e] of entries) {
+        if (entries.size <= MAX_ENTRIES && e.expiresAt > now) break;
+        entries.delete(k);
+    }
+}
+
+function toInfo(entry: CacheEntry, hit: boolean): CacheInfo {
+    return {
+        hit,
+        cachedAt: new Date(entry.cachedAt).toISOString(),
+        ageSeconds: Math.max(0, Math.floor((Date.now() - entry.cachedAt) / 1000)),
+        ttlSeconds: entry.ttlSeconds,
+    };
+}
+
+/**
+ * 보관된 결과가 유효하면 그대로, 아니면 load를 실행하여 보관한 뒤 반환합니다.
+ * 오류는 보관하지 않습니다.
+ */
+export async function withResultCache<T extends object>(key: string, options: CacheOptions, load: () => Promise<T>): Promise<T & { cache: CacheInfo }> {
+    const cached = entries.get(key);
+    if (cached && !options.refresh && cached.expiresAt > Date.now()) {
+        return { ...(cached.value as T), cache: toInfo(cached, true) };
+    }
+
+    // 같은 조회가 이미 실행 중이면 갱신 요청이라도 새로 실행하지 않고 그 결과를 함께 받습니다.
+    let pending = inFlight.get(key);
+    const joined = !!pending;
+    if (!pending) {
+        pending = (async () => {
+            const value = await load();
+            const cachedAt = Date.now();
+            const entry: CacheEntry = { value, cachedAt, expiresAt: cachedAt + options.ttlSeconds * 1000, ttlSeconds: options.ttlSeconds };
+            store(key, entry);
+            return entry;
+        })();
+        inFlight.set(key, pending);
+        pending.then(() => inFlight.delete(key), () => inFlight.delete(key));
+    }
+    const entry = await pending;
+    return { ...(entry.value as T), cache: toInfo(entry, joined) };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { classifySql, listStatementKeywords } from './sqlClassifier';
+
+describe('classifySql', () => {
+    it.each([
+        'SELECT a, b FROM parts WITH(NOLOCK) WHERE barcode = 1',
+        'WITH c AS (SELECT 1 AS a) SELECT * FROM c',
+        ';WITH c(a) AS (SELECT 1) SELECT TOP 5 WITH TIES a FROM c ORDER BY a',
+        'DECLARE @a INT = 1, @t TABLE (x INT); SET @a = (SELECT COUNT(*) FROM parts); INSERT INTO @t SELECT 1; SELECT * FROM @t',
+        'SELECT a INTO #t FROM parts; UPDATE #t SET a = 1; DELETE FROM #t; DROP TABLE #t',
+        'DROP TABLE IF EXISTS #t',
+        '(SELECT 1) UNION (SELECT 2)',
+        'SELECT * FROM parts ORDER BY barcode OFFSET 0 ROWS FETCH NEXT 5 ROWS ONLY',
+        "SELECT 'DELETE FROM parts' AS [drop] -- KILL 1",
+        'SELECT "DELETE FROM parts" AS [a]]; KILL 1] FROM parts',
+        'MERGE INTO #t USING parts p ON 1 = 0 WHEN NOT MATCHED THEN INSERT (a) VALUES (p.a) WHEN MATCHED THEN UPDATE SET a = 1;',
+        'SET NOCOUNT ON; SET XACT_ABORT ON; SELECT 1',
+        'SET NOCOUNT, ANSI_WARNINGS OFF SET TRANSACTION ISOLATION LEVEL READ UNCOMMITTED SELECT * FROM parts',
+        'IF 1 = 1 SELECT 1',
+        "IF EXISTS (SELECT 1 FROM parts) BEGIN SELECT 1 END ELSE BEGIN PRINT 'none' RETURN END",
+        'DECLARE @i INT = 0; WHILE @i < 3 BEGIN SET @i = @i + 1; IF @i = 2 BREAK ELSE CONTINUE END',
+        "BEGIN TRY SELECT 1 / 0 END TRY BEGIN CATCH RAISERROR('x', 16, 1); THROW; END CATCH",
+    ])('treats %s as read-only', sql => {
+        expect(classifySql(sql).readOnly).toBe(true);
+    });
+
+    it.each([
+        'SHUTDOWN WITH NOWAIT',
+        'KILL 55',
+        "BACKUP DATABASE kjmart TO DISK = 'c:\\a.bak'",
+        'DBCC CHECKDB',
+        'DBCC FREEPROCCACHE',
+        'DISABLE TRIGGER ALL ON parts',
+        'RECONFIGURE',
+        "WAITFOR DELAY '00:00:05'",
+        "SELECT * FROM OPENROWSET('SQLNCLI', 'Server=.;Trusted_Connection=yes', 'EXEC xp_cmdshell ''dir''')",
+        'DROP TABLE #a, parts',
+        'SELECT 1; SET NOEXEC OFF; KILL 53',
+        'SELECT 1 SET ROWCOUNT 0',
+        'UPDATE #t SET a = 1 SET NOEXEC OFF',
+        'SELECT a INTO newtable FROM parts',
+        'INSERT INTO #t SELECT * FROM (DELETE FROM parts OUTPUT deleted.*) d',
+        'DELETE FROM #t OUTPUT deleted.* INTO parts',
+        'MERGE parts USING #t ON 1 = 0 WHEN MATCHED THEN DELETE;',
+        "EXEC('DELETE FROM parts')",
+        'SET NOCOUNT, NOEXEC ON',
+        'SET NOCOUNT ON SET PARSEONLY OFF',
+        'SET XACT_ABORT ON DELETE FROM parts',
+        'SET NOCOUNT, ANSI_NULLS OFF (SELECT 1) UNION (SELECT 2) KILL 53',
+        'BEGIN SELECT 1 END CONVERSATION @h',
+        'SET IDENTITY_INSERT parts ON',
+        'IF 1 = 1 DELETE FROM parts',
+        'WHILE 1 = 1 BEGIN KILL 53 END',
+        'BEGIN TRAN SELECT * FROM parts WITH(UPDLOCK)',
+        'SELECT 1 COMMIT',
+        'SELECT 1 USE master',
+        // 식별자 안의 작은따옴표가 문자열로 읽혀 뒤의 문장이 가려지면 안 됩니다.
+        `SELECT 1 AS "a'"; DELETE FROM parts; SELECT 'x'`,
+        `SELECT "a'" FROM parts; UPDATE parts SET money1 = 0 --'`,
+        "SELECT 1 [a]]'] ; DELETE FROM parts",
+    ])('treats %s as a write', sql => {
+        expect(classifySql(sql).readOnly).toBe(false);
+    });
+
+    it('reports the statements that made the batch a write', () => {
+        expect(classifySql('SELECT 1; SET NOEXEC OFF; KILL 53')).toEqual({
+            readOnly: false,
+            kinds: ['select', 'other'],
+            keywords: ['SET NOEXEC', 'KILL'],
+        });
+        expect(classifySql('DROP TABLE #a, parts').kinds).toEqual(['ddl']);
+    });
+});
+
+describe('listStatementKeywords', () => {
+    it('sees statements after quoted identifiers that contain quotes', () => {
+        expect(listStatementKeywords(`SELECT 1 AS "a'"; DELETE FROM parts; SELECT 'x'`)).toEqual(['SELECT', 'DELETE', 'SELECT']);
+        expect(listStatementKeywords(`SELECT "a""'" FROM parts; UPDATE parts SET money1 = 0 --'`)).toEqual(['SELECT', 'UPDATE']);
+        expect(listStatementKeywords("SELECT 1 [a]]'] ; DELETE FROM parts")).toEqual(['SELECT', 'DELETE']);
+    });
+
+    it('lists the keyword that starts each statement, ignoring UPDATE ... SET and strings', () => {
+        expect(listStatementKeywords("DECLARE @a INT; SET @a = 1 UPDATE #t SET a = 'SET NOEXEC ON' SELECT * FROM #t")).toEqual(['DECLARE', 'SET', 'UPDATE', 'SELECT']);
+    });
+});
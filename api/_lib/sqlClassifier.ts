@@ -0,0 +1,267 @@
+// api/_lib/sqlClassifier.ts
+// SQL Runner에서 전달된 T-SQL 배치를 분석하여 읽기 전용 여부와 위험 구문 종류를 판별합니다.
+// 완전한 파서는 아니며, 주석/문자열/식별자([..], "..")를 제거한 뒤 키워드 단위로 판단합니다.
+// 허용 목록 방식입니다. 배치를 문장 단위로 나눈 뒤 각 문장이 다음 중 하나일 때만 읽기 전용으로 봅니다.
+//   SELECT, WITH ... SELECT, 로컬 변수의 DECLARE/SET, 임시 테이블(#tmp)·테이블 변수(@t)에 대한 쓰기,
+//   실행에 영향이 없는 세션 옵션 SET(NOCOUNT, XACT_ABORT 등), 흐름 제어(IF, BEGIN ... END, WHILE, PRINT 등)
+// 그 밖의 문장(KILL, DBCC, SET NOEXEC/ROWCOUNT, 트랜잭션 시작/종료 포함)은 모두 쓰기로 취급합니다.
+
+export type SqlStatementKind = 'select' | 'dml' | 'ddl' | 'exec' | 'dynamic' | 'other';
+
+export interface SqlClassification {
+    readOnly: boolean;
+    kinds: SqlStatementKind[];
+    keywords: string[];
+}
+
+const DML_KEYWORDS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE', 'UPDATETEXT', 'WRITETEXT']);
+const DDL_KEYWORDS = new Set(['CREATE', 'ALTER', 'DROP', 'TRUNCATE', 'GRANT', 'REVOKE', 'DENY', 'RENAME']);
+const EXEC_KEYWORDS = new Set(['EXEC', 'EXECUTE']);
+// 문장을 시작하는 T-SQL 키워드. 세미콜론 없이 이어진 배치도 이 키워드에서 다음 문장으로 나눕니다.
+// (CASE ... END, IF ... ELSE 의 END/ELSE, OFFSET ... FETCH 의 FETCH는 식 안에도 나오므로 제외)
+const STATEMENT_KEYWORDS = new Set([
+    'SELECT', 'WITH', 'DECLARE', 'SET',
+    ...DML_KEYWORDS, ...DDL_KEYWORDS, ...EXEC_KEYWORDS,
+    'ADD', 'BACKUP', 'BEGIN', 'BREAK', 'BULK', 'CHECKPOINT', 'CLOSE', 'COMMIT', 'CONTINUE', 'DBCC', 'DEALLOCATE',
+    'DISABLE', 'ENABLE', 'GET', 'GO', 'GOTO', 'IF', 'KILL', 'MOVE', 'OPEN', 'PRINT', 'RAISERROR', 'READTEXT',
+    'RECEIVE', 'RECONFIGURE', 'RESTORE', 'RETURN', 'REVERT', 'ROLLBACK', 'SAVE', 'SEND', 'SETUSER', 'SHUTDOWN',
+    'THROW', 'USE', 'WAITFOR', 'WHILE',
+]);
+// 바로 뒤에 오는 단어가 키워드가 아니라 식별자/옵션인 경우 (SELECT open, a AS kill, ON DELETE CASCADE 등)
+// 식별자 앞에 올 수 있는 보조 키워드 (INSERT INTO, DELETE FROM, DROP TABLE IF EXISTS 등)
+const TARGET_PREFIXES = new Set(['INTO', 'FROM', 'TABLE', 'TOP', 'INDEX', 'VIEW', 'PROCEDURE', 'PROC', 'FUNCTION', 'TRIGGER', 'IF', 'EXISTS']);
+// 바로 뒤에 오는 단어가 새 문장이 아니라 식별자/옵션인 경우 (SELECT open, a AS kill, ON DELETE CASCADE, THEN UPDATE 등)
+const NON_STATEMENT_PREFIXES = new Set([...TARGET_PREFIXES, ',', '.', 'AS', 'SELECT', 'ON', 'FOR', 'AFTER', 'OF', 'INSTEAD', 'THEN', 'NOT']);
+// 읽기 전용 배치에서 허용하는 세션 옵션. NOEXEC/PARSEONLY/FMTONLY(확인 우회), ROWCOUNT(행 제한 해제),
+// IDENTITY_INSERT 등 목록에 없는 옵션은 쓰기로 취급합니다.
+const SAFE_SET_OPTIONS = new Set([
+    'NOCOUNT', 'XACT_ABORT', 'ANSI_NULLS', 'ANSI_WARNINGS', 'ANSI_PADDING', 'ARITHABORT', 'QUOTED_IDENTIFIER',
+    'CONCAT_NULL_YIELDS_NULL', 'DATEFIRST', 'DATEFORMAT', 'LANGUAGE', 'LOCK_TIMEOUT', 'DEADLOCK_PRIORITY',
+    'TEXTSIZE', 'TRANSACTION', 'STATISTICS',
+]);
+// 데이터를 바꾸지 않는 흐름 제어 문장. 트랜잭션(BEGIN TRAN, COMMIT, ROLLBACK, SAVE)은 커밋하지 않으면
+// 풀에 돌아간 연결이 잠금을 계속 잡고 있으므로 포함하지 않습니다.
+// END/ELSE는 문장 키워드가 아니지만 'THROW; END CATCH' 처럼 세미콜론 뒤에서 문장 처음에 올 수 있습니다.
+const CONTROL_FLOW_KEYWORDS = new Set(['IF', 'ELSE', 'BEGIN', 'END', 'WHILE', 'BREAK', 'CONTINUE', 'RETURN', 'GOTO', 'PRINT', 'RAISERROR', 'THROW']);
+// BEGIN TRAN, BEGIN DIALOG, END CONVERSATION 처럼 흐름 제어가 아닌 BEGIN/END
+const TRANSACTION_OR_BROKER_TARGETS = /^(TRAN|TRANSACTION|DISTRIBUTED|DIALOG|CONVERSATION)$/i;
+const ON_OFF = /^(ON|OFF)$/i;
+// SELECT 안에서도 다른 서버/명령을 실행할 수 있는 행 집합 함수
+const REMOTE_ROWSET_FUNCTIONS = new Set(['OPENROWSET', 'OPENDATASOURCE', 'OPENQUERY']);
+
+/**
+ * 닫는 문자까지 건너뛴 다음 위치를 돌려줍니다. 닫는 문자를 두 번 쓴 것('', ]], "")은 이스케이프로 보고 계속 읽습니다.
+ * 닫히지 않았으면 끝까지 건너뜁니다. (서버에서 구문 오류가 되어 실행되지 않습니다)
+ */
+function skipDelimited(sqlText: string, start: number, close: string): number {
+    let i = start + 1;
+    while (i < sqlText.length) {
+        if (sqlText[i] === close) {
+            if (sqlText[i + 1] !== close) return i + 1;
+            i += 2;
+            continue;
+        }
+        i++;
+    }
+    return sqlText.length;
+}
+
+/**
+ * 주석, 문자열 리터럴, 대괄호/큰따옴표 식별자를 공백/자리표시자로 치환합니다.
+ * 문자열 안의 'DELETE' 같은 단어가 키워드로 오인되지 않도록 하기 위함입니다.
+ * 식별자 안의 작은따옴표("a'", [a]]'])가 문자열 시작으로 읽히면 뒤의 문장이 가려지므로 식별자도 같은 규칙으로 건너뜁니다.
+ */
+function stripNonCode(sqlText: string): string {
+    let out = '';
+    let i = 0;
+    while (i < sqlText.length) {
+        const ch = sqlText[i];
+        const next = sqlText[i + 1];
+        if (ch === '-' && next === '-') {
+            while (i < sqlText.length && sqlText[i] !== '\n') i++;
+            out += ' ';
+        } else if (ch === '/' && next === '*') {
+            const end = sqlText.indexOf('*/', i + 2);
+            i = end === -1 ? sqlText.length : end + 2;
+            out += ' ';
+        } else if (ch === "'") {
+            i = skipDelimited(sqlText, i, "'");
+            out += " '' ";
+        } else if (ch === '[' || ch === '"') {
+            const end = skipDelimited(sqlText, i, ch === '[' ? ']' : '"');
+            const ident = sqlText.slice(i + 1, end - 1);
+            i = end;
+            // [delete] 같은 식별자가 키워드로 인식되지 않도록 치환하되 임시 테이블 표시(#)는 유지
+            out += ident.startsWith('#') ? ' #ident ' : ' ident ';
+        } else {
+            out += ch;
+            i++;
+        }
+    }
+    return out;
+}
+
+function tokenize(code: string): string[] {
+    return code.match(/[#@]{0,2}[A-Za-z0-9_가-힣$.]+|''|[(),;.=]/g) || [];
+}
+
+const isTemporary = (token: string | undefined) => !!token && (token.startsWith('#') || token.startsWith('@'));
+
+/** 보조 키워드와 TOP (n) 을 건너뛴 다음 대상 식별자의 위치 */
+function targetIndex(tokens: string[], index: number): number {
+    let j = index + 1;
+    while (j < tokens.length) {
+        const word = tokens[j].toUpperCase();
+        if (word === 'TOP' && tokens[j + 1] === '(') {
+            const close = tokens.indexOf(')', j + 2);
+            j = close === -1 ? tokens.length : close + 1;
+        } else if (TARGET_PREFIXES.has(word)) {
+            j++;
+        } else {
+            break;
+        }
+    }
+    return j;
+}
+
+/** 다음 대상 식별자가 임시 테이블(#tmp)이나 테이블 변수(@t)이면 true. DROP TABLE #a, b 처럼 여러 개면 모두 확인합니다. */
+function targetsTemporaryObject(tokens: string[], index: number, allowList = false): boolean {
+    let j = targetIndex(tokens, index);
+    if (!isTemporary(tokens[j])) return false;
+    while (allowList && tokens[j + 1] === ',') {
+        j += 2;
+        if (!isTemporary(tokens[j])) return false;
+    }
+    return true;
+}
+
+/** SET 다음의 옵션 이름들 (SET NOCOUNT, XACT_ABORT ON 처럼 쉼표로 여러 개 지정 가능) */
+function setOptionNames(tokens: string[], index: number): string[] {
+    const names = [(tokens[index + 1] || '').toUpperCase()];
+    for (let j = index + 1; tokens[j + 1] === ','; j += 2) names.push((tokens[j + 2] || '').toUpperCase());
+    return names;
+}
+
+/** 문장을 시작하는 키워드이면 true (식별자나 다른 구문의 일부로 쓰인 경우 제외) */
+function startsStatement(tokens: string[], index: number, pendingSet: boolean): boolean {
+    const word = tokens[index].toUpperCase();
+    if (!STATEMENT_KEYWORDS.has(word)) return false;
+    const prev = (tokens[index - 1] || '').toUpperCase();
+    if (NON_STATEMENT_PREFIXES.has(prev)) return false;
+    // UPDATE t SET ... 의 SET
+    if (word === 'SET' && pendingSet) return false;
+    // WITH(NOLOCK) 같은 테이블 힌트, WITH TIES / ROLLUP / CUBE
+    if (word === 'WITH' && /^(\(|TIES|ROLLUP|CUBE)$/i.test(tokens[index + 1] || '')) return false;
+    return true;
+}
+
+interface SqlScan extends SqlClassification {
+    /** 각 문장의 첫 키워드 (SELECT, SET, INSERT ...) */
+    statements: string[];
+}
+
+function scanSql(sqlText: string): SqlScan {
+    const tokens = tokenize(stripNonCode(sqlText || ''));
+    const statements: string[] = [];
+    const kinds = new Set<SqlStatementKind>();
+    const keywords = new Set<string>();
+    const markWrite = (kind: SqlStatementKind, keyword: string) => {
+        kinds.add(kind);
+        keywords.add(keyword);
+    };
+
+    // 문장의 첫 단어는 키워드 목록과 관계없이 허용 목록으로 확인합니다. (알 수 없는 명령도 쓰기로 취급)
+    let atStatementStart = true;
+    let statement = '';
+    // UPDATE ... SET 의 SET을 기다리는 중
+    let pendingSet = false;
+    // SET NOCOUNT ON 다음 위치. ON 뒤의 단어는 보통 새 문장으로 보지 않으므로(ON DELETE CASCADE) 따로 표시합니다.
+    let forcedStartIndex = -1;
+    tokens.forEach((token, index) => {
+        if (token === ';') {
+            atStatementStart = true;
+            return;
+        }
+        if (index === forcedStartIndex) atStatementStart = true;
+        // (SELECT ...) UNION (SELECT ...) 처럼 괄호로 시작하는 문장
+        if (token === '(' && atStatementStart) return;
+
+        const word = token.toUpperCase();
+        const prev = (tokens[index - 1] || '').toUpperCase();
+        const next = tokens[index + 1] || '';
+        const isStart = atStatementStart || startsStatement(tokens, index, pendingSet);
+        atStatementStart = false;
+
+        if (REMOTE_ROWSET_FUNCTIONS.has(word)) {
+            markWrite('exec', word);
+            return;
+        }
+        if (word === 'INTO') {
+            // SELECT ... INTO 새테이블, OUTPUT ... INTO 테이블 (INSERT/MERGE INTO는 해당 문장에서 확인)
+            if (prev !== 'INSERT' && prev !== 'MERGE' && !isTemporary(next)) {
+                if (statement === 'SELECT') markWrite('ddl', 'SELECT INTO');
+                else markWrite('dml', 'OUTPUT INTO');
+            }
+            return;
+        }
+        if (!isStart) {
+            if (word === 'SET' && pendingSet) pendingSet = false;
+            // BEGIN ... END CONVERSATION @h 의 END는 문장 키워드가 아니므로 여기서 확인합니다.
+            if (word === 'CONVERSATION' && prev === 'END') markWrite('other', 'END CONVERSATION');
+            // MERGE ... WHEN MATCHED THEN UPDATE SET (대상은 MERGE 문에서 확인)
+            if (word === 'UPDATE' && prev === 'THEN') pendingSet = true;
+            return;
+        }
+
+        statement = word;
+        statements.push(word);
+        pendingSet = false;
+        if (word === 'SELECT' || word === 'WITH') {
+            kinds.add('select');
+        } else if (word === 'DECLARE') {
+            // 로컬 변수만 허용 (DECLARE 커서 제외)
+            if (!next.startsWith('@')) markWrite('other', `${word} ${next.toUpperCase()}`.trim());
+        } else if (word === 'SET') {
+            // 로컬 변수와 허용된 세션 옵션만 허용 (SET NOEXEC/ROWCOUNT 등은 제외)
+            if (next.startsWith('@')) return;
+            const options = setOptionNames(tokens, index);
+            const unsafe = options.find(option => !SAFE_SET_OPTIONS.has(option));
+            if (unsafe !== undefined) markWrite('other', `SET ${unsafe}`.trim());
+            const valueIndex = index + options.length * 2;
+            if (ON_OFF.test(tokens[valueIndex] || '')) forcedStartIndex = valueIndex + 1;
+        } else if (CONTROL_FLOW_KEYWORDS.has(word)) {
+            if ((word === 'BEGIN' || word === 'END') && TRANSACTION_OR_BROKER_TARGETS.test(next)) markWrite('other', `${word} ${next.toUpperCase()}`);
+        } else if (DML_KEYWORDS.has(word)) {
+            if (word === 'UPDATE') pendingSet = true;
+            if (!targetsTemporaryObject(tokens, index)) markWrite('dml', word);
+        } else if (DDL_KEYWORDS.has(word)) {
+            if (!targetsTemporaryObject(tokens, index, word === 'DROP')) markWrite('ddl', word);
+        } else if (EXEC_KEYWORDS.has(word)) {
+            const isDynamic = next === '(' || next.startsWith('@') || /^(dbo\.)?sp_executesql$/i.test(next);
+            markWrite(isDynamic ? 'dynamic' : 'exec', isDynamic ? 'DYNAMIC SQL' : `${word} ${next}`.trim());
+        } else {
+            markWrite('other', word);
+        }
+    });
+
+    const writeKinds: SqlStatementKind[] = ['dml', 'ddl', 'exec', 'dynamic', 'other'];
+    return {
+        readOnly: !writeKinds.some(k => kinds.has(k)),
+        kinds: Array.from(kinds),
+        keywords: Array.from(keywords),
+        statements,
+    };
+}
+
+export function classifySql(sqlText: string): SqlClassification {
+    const { readOnly, kinds, keywords } = scanSql(sqlText);
+    return { readOnly, kinds, keywords };
+}
+
+/**
+ * 배치의 각 문장이 시작하는 키워드를 순서대로 돌려줍니다. (주석/문자열 안의 단어는 제외)
+ * 다른 SQL로 감싸서 실행하는 경우처럼 읽기 전용 여부보다 엄격하게 문장 종류를 제한할 때 사용합니다.
+ */
+export function listStatementKeywords(sqlText: string): string[] {
+    return scanSql(sqlText).statements;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { DbDriver } from './dbDriver';
+import { validateReadOnlySql } from './sqlDryRun';
+
+/** 보낸 배치만 기록하는 MSSQL 드라이버 대역 */
+function recordingDriver() {
+    const batches: string[] = [];
+    const request = () => ({
+        input() { return this; },
+        on() { return this; },
+        async query(text: string) {
+            batches.push(text);
+            return { recordset: [], recordsets: [], rowsAffected: [] };
+        },
+    });
+    const driver = { kind: 'mssql', connected: true, request } as unknown as DbDriver;
+    return { driver, batches };
+}
+
+describe('validateReadOnlySql', () => {
+    it('checks a SELECT with PARSEONLY and then NOEXEC', async () => {
+        const { driver, batches } = recordingDriver();
+        const result = await validateReadOnlySql(driver, 'SELECT TOP 5 barcode FROM parts');
+        expect(result).toMatchObject({ valid: true, checked: 'noExec' });
+        expect(batches).toHaveLength(2);
+        expect(batches[0]).toMatch(/^SET PARSEONLY ON;/);
+        expect(batches[1]).toMatch(/^SET NOEXEC ON;/);
+    });
+
+    it.each([
+        'SET NOEXEC OFF; SELECT 1',
+        'SELECT 1; SET PARSEONLY OFF',
+        'SET ROWCOUNT 0 SELECT * FROM parts',
+        'SET FMTONLY OFF; SELECT 1',
+        'DECLARE @a INT; SET @a = 1; SELECT @a',
+        // 식별자 안의 작은따옴표로 SET/DELETE를 숨겨 확인을 끄고 실행하려는 경우
+        `SELECT "a'"; SET PARSEONLY OFF; DELETE FROM parts`,
+        "SELECT [a]]']; SET NOEXEC OFF; DELETE FROM parts",
+    ])('rejects %s without sending it to the server', async sql => {
+        const { driver, batches } = recordingDriver();
+        const result = await validateReadOnlySql(driver, sql);
+        expect(result.valid).toBe(false);
+        expect(result.checked).toBeNull();
+        expect(batches).toHaveLength(0);
+    });
+
+    it('still allows a local variable declared with a value', async () => {
+        const { driver } = recordingDriver();
+        await expect(validateReadOnlySql(driver, "DECLARE @today VARCHAR(10) = '2024-05-01'; SELECT @today")).resolves.toMatchObject({ valid: true });
+    });
+});
@@ -0,0 +1,70 @@
+// api/_lib/sqlDryRun.ts
+// AI가 생성한 SQL을 실행하지 않고 확인합니다. (type: 'validateSql')
+// 1) 쓰기 구문이 있으면 거부합니다. AI 쿼리는 조회만 허용합니다.
+//    확인용 SET 옵션 사이에 SQL을 그대로 넣으므로, SET 문(NOEXEC/PARSEONLY/ROWCOUNT/FMTONLY 등으로 확인을 끄는 경우)도 거부합니다.
+// 2) SET PARSEONLY로 구문 오류를, SET NOEXEC로 컴파일(존재하지 않는 컬럼 등) 오류를 확인합니다.
+// PARSEONLY는 구문 분석 시점에 적용되므로 같은 배치 안에서 켜고 끕니다. NOEXEC는 배치 전체가 컴파일된 뒤 적용되므로
+// 컴파일 오류는 그대로 보고되고 조회는 실행되지 않습니다.
+import type { DbDriver } from './dbDriver';
+import { classifySql, listStatementKeywords, SqlClassification } from './sqlClassifier';
+import { describeSqlError, SqlErrorInfo } from './sqlResult';
+
+export type DryRunStage = 'parseOnly' | 'noExec';
+
+export interface SqlValidationResponse {
+    valid: boolean;
+    classification: SqlClassification;
+    /** 서버 확인을 통과한 단계. 로컬 대체 드라이버처럼 확인할 수 없으면 'skipped' */
+    checked: DryRunStage | 'skipped' | null;
+    errors: string[];
+    sqlError?: SqlErrorInfo;
+}
+
+export async function validateReadOnlySql(driver: DbDriver, sqlText: string): Promise<SqlValidationResponse> {
+    const classification = classifySql(sqlText);
+    if (!classification.readOnly) {
+        return {
+            valid: false,
+            classification,
+            checked: null,
+            errors: [`데이터를 변경하는 구문은 AI 쿼리에서 사용할 수 없습니다 (${classification.keywords.join(', ')}). SELECT 문만 사용하세요.`],
+        };
+    }
+    // 로컬 변수 SET(@a = ...)도 허용하지 않습니다. 옵션을 바꾸는 SET이 허용 목록을 우회하지 못하도록 문장 종류로도 막습니다.
+    if (listStatementKeywords(sqlText).includes('SET')) {
+        return {
+            valid: false,
+            classification,
+            checked: null,
+            errors: ['SET 문은 AI 쿼리에서 사용할 수 없습니다. 변수는 DECLARE @변수 = 값 형태로 선언하세요.'],
+        };
+    }
+    if (driver.kind === 'memory') return { valid: true, classification, checked: 'skipped', errors: [] };
+
+    const stages: [DryRunStage, string][] = [
+        ['parseOnly', `SET PARSEONLY ON;\n${sqlText}\n;SET PARSEONLY OFF;`],
+        ['noExec', `SET NOEXEC ON;\n${sqlText}\n;SET NOEXEC OFF;`],
+    ];
+    let checked: DryRunStage | null = null;
+    for (const [stage, batch] of stages) {
+        try {
+            await driver.request().query(batch, `validate:${stage}`);
+            checked = stage;
+        } catch (err: any) {
+            const sqlError = describeSqlError(err);
+            // 연결 오류 등 SQL 오류가 아니면 쿼리 문제가 아니므로 그대로 전달합니다.
+            if (!sqlError) throw err;
+            // 오류 줄 번호는 앞에 붙인 SET 줄을 빼야 원래 SQL의 줄과 맞습니다.
+            if (sqlError.lineNumber) sqlError.lineNumber = Math.max(1, sqlError.lineNumber - 1);
+            const location = sqlError.lineNumber ? ` (${sqlError.lineNumber}행)` : '';
+            return {
+                valid: false,
+                classification,
+                checked,
+                errors: [`${stage === 'parseOnly' ? '구문 오류' : '컴파일 오류'}${location}: ${sqlError.message}`],
+                sqlError,
+            };
+        }
+    }
+    return { valid: true, classification, checked, errors: [] };
+}
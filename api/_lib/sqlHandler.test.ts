@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { signLocalIdToken } from './localAuth';
+
+// api/sql.ts 핸들러를 메모리 드라이버(DB_DRIVER=memory)와 로컬 인증 키로 실행합니다. 운영 DB나 Google 인증서 없이 동작합니다.
+const PROJECT_ID = 'kjmart-test';
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+type Handler = (req: VercelRequest, res: VercelResponse) => unknown;
+let handler: Handler;
+let token: string;
+
+interface CallResult {
+    status: number;
+    body: any;
+}
+
+async function call(body: object, authorization: string | null = `Bearer ${token}`): Promise<CallResult> {
+    const result: CallResult = { status: 200, body: undefined };
+    const res = {
+        setHeader: () => res,
+        status(code: number) {
+            result.status = code;
+            return res;
+        },
+        json(value: any) {
+            result.body = value;
+            return res;
+        },
+        end: () => res,
+    };
+    await handler({ method: 'POST', headers: { authorization: authorization ?? undefined }, body } as unknown as VercelRequest, res as unknown as VercelResponse);
+    return result;
+}
+
+const stockOf = async (barcode: string) => (await call({ type: 'namedQuery', name: '실시간재고확인', params: { Barcode: barcode } })).body.recordset[0]?.curjago;
+
+beforeAll(async () => {
+    process.env.DB_DRIVER = 'memory';
+    process.env.FIREBASE_PROJECT_ID = PROJECT_ID;
+    process.env.LOCAL_AUTH_PUBLIC_KEY = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+    // api/sql.ts는 불러올 때 환경 변수를 읽으므로 설정 후에 불러옵니다.
+    ({ default: handler } = await import('../sql'));
+    token = signLocalIdToken(privateKey, PROJECT_ID, { uid: 'staff-1', email: 'staff@example.com' });
+});
+
+describe('api/sql.ts on the memory driver', () => {
+    it('rejects requests without a token or with a token signed by another key', async () => {
+        expect((await call({ type: 'connect' }, null)).status).toBe(401);
+        const otherKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+        const forged = signLocalIdToken(otherKey, PROJECT_ID, { uid: 'staff-1' });
+        expect((await call({ type: 'connect' }, `Bearer ${forged}`)).status).toBe(401);
+        expect((await call({ type: 'connect' })).body).toMatchObject({ success: true });
+    });
+
+    it('limits typed SQL to ad-hoc users but runs saved user queries through the write check', async () => {
+        expect((await call({ type: 'query', query: 'SELECT 1' })).status).toBe(403);
+
+        const userQuery = 'UPDATE parts SET money1 = @price WHERE barcode = @barcode';
+        const params = { price: 1000, barcode: '8801043014809' };
+        const blocked = await call({ type: 'executeUserQuery', name: '상품수정', userQuery, params });
+        expect(blocked.status).toBe(403);
+        expect(blocked.body.classification.keywords).toEqual(['UPDATE']);
+        const unconfirmed = await call({ type: 'executeUserQuery', name: '상품수정', userQuery, params, allowDestructive: true });
+        expect(unconfirmed.body).toMatchObject({ needsConfirmation: true });
+    });
+
+    it('serves the data an order is built from', async () => {
+        const customers = await call({ type: 'syncCustomers' });
+        expect(customers.body.recordset.map((row: any) => row.comcode)).toContain('00001');
+
+        const firstPage = await call({ type: 'syncProductsPage', limit: 3 });
+        expect(firstPage.status).toBe(200);
+        expect(firstPage.body.recordset).toHaveLength(3);
+        expect(firstPage.body.nextCursor).toBeTruthy();
+        const nextPage = await call({ type: 'syncProductsPage', cursor: firstPage.body.nextCursor, limit: 3 });
+        expect(nextPage.body.recordset[0].barcode).not.toBe(firstPage.body.recordset[2].barcode);
+
+        const search = await call({ type: 'searchProductsOnline', searchTerm: '라면' });
+        expect(search.body.recordset.map((row: any) => row['바코드'])).toContain('8801043014809');
+    });
+
+    it('registers receiving items once, even when the batch is resent', async () => {
+        const statements = [
+            { name: '입고등록', idempotencyKey: 'ipgo:test-1:a', params: { time: '2024-05-01 10:00:00', dtcomcode: '00001', comname: '경진유통', barcode: '8801043014809', qty: 10, cost: 700, price: 1000, item_name: '테스트 라면' } },
+            { name: '입고등록', idempotencyKey: 'ipgo:test-1:b', params: { time: '2024-05-01 10:00:00', dtcomcode: '00001', comname: '경진유통', barcode: '8801043014816', qty: 2, cost: 3300, price: 4500, item_name: '테스트 라면 5입' } },
+        ];
+        const first = await call({ type: 'batch', statements });
+        expect(first.status).toBe(200);
+        expect(first.body.committed).toBe(true);
+        expect(first.body.results.some((r: any) => r.replayed)).toBe(false);
+
+        const resent = await call({ type: 'batch', statements });
+        expect(resent.status).toBe(200);
+        expect(resent.body.results.every((r: any) => r.replayed)).toBe(true);
+    });
+
+    it('rejects a receiving item whose name does not fit the column', async () => {
+        const response = await call({
+            type: 'batch',
+            statements: [{ name: '입고등록', params: { time: '2024-05-01 10:00:00', dtcomcode: '00001', comname: '아주 긴 거래처 이름', barcode: '8801043014809', qty: 1, cost: 700, price: 1000, item_name: '' } }],
+        });
+        expect(response.status).toBe(400);
+        expect(response.body.failedIndex).toBe(0);
+    });
+
+    it('saves an audit count and adjusts the stock', async () => {
+        const saved = await call({ type: 'namedQuery', name: '재고실사_즉시저장', params: { Barcode: '8801117752804', RealQty: 20 } });
+        expect(saved.status).toBe(200);
+        expect(saved.body.recordset[0]).toMatchObject({ RESULT: 'SUCCESS', OLD_QTY: 25, DIFF_QTY: -5 });
+        expect(await stockOf('8801117752804')).toBe(20);
+    });
+
+    it('rolls back the whole audit batch when one item fails', async () => {
+        const response = await call({
+            type: 'batch',
+            statements: [
+                { name: '재고실사_즉시저장', params: { Barcode: '8801094017200', RealQty: 1 } },
+                { name: '재고실사_즉시저장', params: { Barcode: '0000000000000', RealQty: 1 } },
+            ],
+        });
+        expect(response.body).toMatchObject({ rolledBack: true, failedIndex: 1 });
+        expect(await stockOf('8801094017200')).toBe(60);
+    });
+});
@@ -0,0 +1,64 @@
+// api/_lib/sqlResult.ts
+// 쿼리 실행 결과를 응답 형태로 정리합니다.
+// 여러 문장으로 된 스크립트의 모든 결과 집합(recordsets)과 PRINT/RAISERROR(심각도 10 이하) 메시지,
+// 오류 시 SQL Server 오류 번호/상태/줄 번호를 함께 전달하여 클라이언트가 RESULT 컬럼에만 의존하지 않도록 합니다.
+import type { DbRequest, DbResult } from './dbDriver';
+
+export interface SqlMessage {
+    message: string;
+    number?: number;
+    state?: number;
+    class?: number;
+    lineNumber?: number;
+    procName?: string;
+}
+
+export interface SqlErrorInfo extends SqlMessage {
+    /** 같은 요청에서 먼저 발생한 오류 (한 문장이 여러 오류를 내는 경우) */
+    precedingErrors?: SqlMessage[];
+}
+
+export interface QueryResponse {
+    recordset: any[];
+    recordsets: any[][];
+    rowsAffected: number[];
+    messages: SqlMessage[];
+}
+
+function toSqlMessage(info: any): SqlMessage {
+    const message: SqlMessage = { message: String(info?.message ?? '') };
+    if (typeof info?.number === 'number') message.number = info.number;
+    if (typeof info?.state === 'number') message.state = info.state;
+    if (typeof info?.class === 'number') message.class = info.class;
+    if (typeof info?.lineNumber === 'number') message.lineNumber = info.lineNumber;
+    if (info?.procName) message.procName = String(info.procName);
+    return message;
+}
+
+/** 요청에서 발생하는 PRINT/정보 메시지를 모읍니다. 쿼리 실행 전에 호출해야 합니다. */
+export function collectMessages(request: DbRequest): SqlMessage[] {
+    const messages: SqlMessage[] = [];
+    request.on('info', (info: any) => messages.push(toSqlMessage(info)));
+    return messages;
+}
+
+export function toQueryResponse(result: DbResult, messages: SqlMessage[] = []): QueryResponse {
+    return { ...result, messages };
+}
+
+/** SQL Server 오류이면 오류 번호 등을 담은 정보를, 연결 오류 등 그 밖의 오류이면 null을 반환합니다. */
+export function describeSqlError(err: any): SqlErrorInfo | null {
+    const source = err?.originalError?.info ?? err;
+    if (typeof source?.number !== 'number' && typeof err?.number !== 'number') return null;
+    const info: SqlErrorInfo = toSqlMessage({ ...source, number: source?.number ?? err.number, message: err?.message ?? source?.message });
+    if (Array.isArray(err?.precedingErrors) && err.precedingErrors.length > 0) {
+        info.precedingErrors = err.precedingErrors.map(toSqlMessage);
+    }
+    return info;
+}
+
+/** 오류 응답 본문. SQL 오류이면 sqlError에 번호/상태/줄 번호가 담깁니다. */
+export function toErrorBody(err: any, extra: Record<string, any> = {}): Record<string, any> {
+    const sqlError = describeSqlError(err);
+    return { error: err?.message || String(err), ...extra, ...(sqlError ? { sqlError } : {}) };
+}
@@ -0,0 +1,37 @@
+// api/_lib/syncCursor.ts
+// 페이지 단위 동기화에서 사용하는 키셋 커서를 인코딩/디코딩합니다.
+// 클라이언트는 커서 내용을 해석하지 않고 다음 요청에 그대로 돌려보내기만 합니다.
+
+export interface ProductSyncCursor {
+    /** 동기화 시작 기준일 (upday1 >= since) */
+    since: string;
+    /** 마지막으로 전달한 행의 upday1 값 */
+    upday1: string;
+    /** upday1 컬럼이 datetime 형식으로 반환되었는지 여부 */
+    upday1IsDate: boolean;
+    /** 마지막으로 전달한 행의 바코드 */
+    barcode: string;
+}
+
+const CURSOR_VERSION = 1;
+
+export function encodeProductCursor(cursor: ProductSyncCursor): string {
+    const payload = { v: CURSOR_VERSION, s: cursor.since, u: cursor.upday1, d: cursor.upday1IsDate ? 1 : 0, b: cursor.barcode };
+    return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+}
+
+/** 형식이 올바르지 않거나 버전이 다른 커서는 null을 반환합니다. */
+export function decodeProductCursor(token: string): ProductSyncCursor | null {
+    try {
+        const payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+        if (payload?.v !== CURSOR_VERSION || typeof payload.s !== 'string' || typeof payload.u !== 'string' || typeof payload.b !== 'string') return null;
+        return {
+            since: payload.s,
+            upday1: payload.u,
+            upday1IsDate: payload.d === 1,
+            barcode: payload.b,
+        };
+    } catch {
+        return null;
+    }
+}
@@ -2,7 +2,23 @@
 // api/sql.ts
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import sql from 'mssql';
-import { GoogleGenAI } from '@google/genai';
+import { getNamedQuery, NamedQuery, NAMED_QUERIES } from './_lib/namedQueries';
+import { createMssqlDriver, DbDriver, DbRequest, DbTransaction, resolveDriverKind } from './_lib/dbDriver';
+import { createMemoryDriver, listMissingNamedHandlers } from './_lib/memoryDb';
+import { ParamDeclaration, ParamTypeSpec, ParamValidationError, TypedParam, validateParams } from './_lib/paramTypes';
+import { classifySql } from './_lib/sqlClassifier';
+import { decodeProductCursor, encodeProductCursor } from './_lib/syncCursor';
+import { buildDigest, bucketOf, BucketDigest, DIGEST_BUCKETS } from './_lib/productDigest';
+import { AuthError, DEFAULT_FIREBASE_PROJECT_ID, extractBearerToken, setPublicKeyProvider, verifyIdToken, VerifiedIdentity } from './_lib/firebaseAuth';
+import { createLocalKeyProvider, readLocalAuthPublicKey } from './_lib/localAuth';
+import { BatchValidationError, StatementRejectedError, getRejectionMessage, resolveBatchStatements, ResolvedStatement } from './_lib/namedBatch';
+import { collectMessages, describeSqlError, SqlMessage, toErrorBody, toQueryResponse } from './_lib/sqlResult';
+import { collectDiagnostics, recordServerError } from './_lib/diagnostics';
+import { validateReadOnlySql } from './_lib/sqlDryRun';
+import { AgentToolError, AgentToolExecutor, assertSelectOnly, formatSchemaForPrompt, runAgent } from './_lib/aiAgent';
+import { getLlmProvider, LlmConfigError, resolveLlmChoice } from './_lib/llmProvider';
+import { buildCacheKey, CacheOptionError, CacheOptions, parseCacheOptions, withResultCache } from './_lib/resultCache';
+import { CHECK_IDEMPOTENCY_TABLE_SQL, IDEMPOTENCY_PURGE_BATCH_SIZE, IDEMPOTENCY_PURGE_INTERVAL_MS, IDEMPOTENCY_TABLE_MISSING_MESSAGE, LOOKUP_IDEMPOTENCY_KEY_SQL, PURGE_IDEMPOTENCY_KEYS_SQL, RECORD_IDEMPOTENCY_KEY_SQL, normalizeIdempotencyKey, parseStoredResult, serializeStoredResult } from './_lib/idempotency';
 
 const config: sql.config = {
   user: process.env.DB_USER,
@@ -18,17 +34,29 @@ const config: sql.config = {
   requestTimeout: 30000,
 };
 
-let pool: sql.ConnectionPool | undefined;
-let connectingPromise: Promise<sql.ConnectionPool> | null = null;
+// DB_DRIVER=memory 이면 픽스처 데이터로 동작하는 로컬 대체 드라이버를 사용합니다. (운영 DB 없이 개발/테스트)
+const DB_DRIVER = resolveDriverKind(process.env.DB_DRIVER);
 
-async function getPool(): Promise<sql.ConnectionPool> {
+function createDriver(): DbDriver {
+    if (DB_DRIVER === 'memory') {
+        const missing = listMissingNamedHandlers(Object.keys(NAMED_QUERIES));
+        if (missing.length > 0) console.warn('[MEMORY_DB] 처리기가 없는 쿼리:', missing.join(', '));
+        return createMemoryDriver();
+    }
+    return createMssqlDriver(config);
+}
+
+let pool: DbDriver | undefined;
+let connectingPromise: Promise<DbDriver> | null = null;
+
+async function getPool(): Promise<DbDriver> {
     if (pool && pool.connected) return pool;
     if (connectingPromise) return connectingPromise;
 
     connectingPromise = (async () => {
         try {
             if (pool) await pool.close();
-            const newPool = new sql.ConnectionPool(config);
+            const newPool = createDriver();
             await newPool.connect();
             pool = newPool;
             connectingPromise = null;
@@ -41,16 +69,348 @@ async function getPool(): Promise<sql.ConnectionPool> {
     return connectingPromise;
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// --- 동기화 쿼리 ---
+const SYNC_CUSTOMERS_SQL = "SELECT comcode, comname FROM comp WITH(NOLOCK) WHERE isuse <> '0'";
+const SYNC_PRODUCTS_SQL = "SELECT barcode, descr, spec, money0vat, money1, comcode, gubun1, gubun2, gubun3, curjago AS [재고수량], isuse, ispack, upday1 FROM parts WITH(NOLOCK)";
+const PRODUCT_PAGE_SIZE_DEFAULT = 2000;
+const PRODUCT_PAGE_SIZE_MAX = 5000;
+const PRODUCT_BY_BARCODE_MAX = 500;
+// 워터마크를 조금 앞당겨 동기화 도중 커밋된 변경분도 다음 동기화에서 다시 받도록 합니다.
+const WATERMARK_OVERLAP_MINUTES = 5;
+// 사용 중인 상품 바코드 전체 (삭제/사용중지 상품 대조용). 동기화 쿼리처럼 isuse가 NULL인 상품도 사용 중으로 봅니다.
+const ACTIVE_BARCODES_SQL = "SELECT RTRIM(LTRIM(barcode)) AS barcode FROM parts WITH(NOLOCK) WHERE ISNULL(isuse, '1') <> '0'";
+// 서버 바코드 요약은 모든 기기가 함께 쓰도록 보관합니다. (기기마다 주기적으로 대조해도 parts 전체 조회는 이 간격에 한 번)
+const ACTIVE_BARCODES_CACHE_TTL_SECONDS = 300;
+// 클라이언트 BOM 캐시는 pcode(모상품)/ccode(구성상품)/childcount 컬럼을 기대합니다.
+const SYNC_BOM_SQL = "SELECT parebar AS pcode, childbar AS ccode, childcount FROM bom WITH(NOLOCK)";
+// 대/중/소분류는 각각 gubun1/gubun2/gubun3 테이블에 코드와 이름(gubunNx)으로 저장되어 있습니다.
+const SYNC_CATEGORIES_SQL = `
+SELECT gubun1, gubun1x FROM gubun1 WITH(NOLOCK) ORDER BY gubun1;
+SELECT gubun1, gubun2, gubun2x FROM gubun2 WITH(NOLOCK) ORDER BY gubun1, gubun2;
+SELECT gubun1, gubun2, gubun3, gubun3x FROM gubun3 WITH(NOLOCK) ORDER BY gubun1, gubun2, gubun3;
+`;
+
+// parts.upday1 컬럼의 저장 형식에 따라 워터마크의 정밀도가 달라집니다.
+// 날짜만 저장하는 컬럼이면 당일 변경분을 놓치지 않도록 날짜 단위 워터마크를 사용합니다.
+type UpdayKind = 'datetime' | 'timestampText' | 'dateText';
+let updayKindPromise: Promise<UpdayKind> | null = null;
+
+function getUpdayKind(): Promise<UpdayKind> {
+    if (!updayKindPromise) {
+        updayKindPromise = (async () => {
+            const result = await (await getPool()).request().query(
+                "SELECT DATA_TYPE AS dataType, CHARACTER_MAXIMUM_LENGTH AS maxLength FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'parts' AND COLUMN_NAME = 'upday1'",
+                'schema:updayKind'
+            );
+            const column = result.recordset[0];
+            if (!column) return 'dateText';
+            if (/date|time/i.test(column.dataType)) return 'datetime';
+            return column.maxLength === -1 || column.maxLength >= 19 ? 'timestampText' : 'dateText';
+        })().catch(err => {
+            updayKindPromise = null;
+            throw err;
+        });
+    }
+    return updayKindPromise;
+}
+
+/** 서버 현재 시각을 upday1과 비교 가능한 문자열로 만드는 SQL 식 */
+function watermarkExpression(kind: UpdayKind): string {
+    const base = `DATEADD(MINUTE, -${WATERMARK_OVERLAP_MINUTES}, GETDATE())`;
+    if (kind === 'datetime') return `CONVERT(VARCHAR(23), ${base}, 126)`;
+    if (kind === 'timestampText') return `CONVERT(VARCHAR(19), ${base}, 120)`;
+    return `CONVERT(VARCHAR(10), ${base}, 120)`;
+}
+
+const FIREBASE_PROJECT_ID = process.env.FIREBASE_PROJECT_ID || DEFAULT_FIREBASE_PROJECT_ID;
+
+// 메모리 드라이버에서는 로컬 공개 키(LOCAL_AUTH_PUBLIC_KEY[_FILE])가 설정되어 있으면 Google 인증서 대신 그 키로 토큰을 검증합니다.
+// 운영 DB에 연결할 때는 설정되어 있어도 무시합니다.
+const LOCAL_AUTH_PUBLIC_KEY = readLocalAuthPublicKey();
+if (LOCAL_AUTH_PUBLIC_KEY) {
+    if (DB_DRIVER === 'memory') setPublicKeyProvider(createLocalKeyProvider(LOCAL_AUTH_PUBLIC_KEY));
+    else console.warn('[AUTH] LOCAL_AUTH_PUBLIC_KEY는 DB_DRIVER=memory 에서만 사용됩니다. 무시합니다.');
+}
+
+// SQL Runner의 임의 SQL 실행과 AI 쿼리 확인/SELECT 도구를 허용할 사용자 이메일 목록 (쉼표 구분)
+// 비어 있으면 아무도 허용하지 않습니다. 저장된 사용자 쿼리(executeUserQuery)는 이 목록과 관계없이 실행됩니다.
+const ADHOC_SQL_USERS = (process.env.ADHOC_SQL_USERS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+function canRunAdhocSql(identity: VerifiedIdentity): boolean {
+    return !!identity.email && identity.emailVerified && ADHOC_SQL_USERS.includes(identity.email.toLowerCase());
+}
+
+function bindInferredParams(request: DbRequest, params: Record<string, any>) {
+    for (const key in params) {
+        const val = params[key];
+        if (typeof val === 'number') {
+            if (Number.isInteger(val)) request.input(key, sql.Int, val);
+            else request.input(key, sql.Decimal(18, 4), val);
+        } else if (val instanceof Date) {
+            request.input(key, sql.DateTime, val);
+        } else if (typeof val === 'string') {
+            if (/^\d{4}-\d{2}-\d{2}$/.test(val)) request.input(key, sql.VarChar(10), val);
+            else request.input(key, sql.NVarChar, val);
+        } else {
+            request.input(key, sql.NVarChar, val);
+        }
+    }
+}
+
+/** 선언된 타입을 mssql 타입으로 변환합니다. 'date'는 이 DB의 날짜 문자열 컬럼(VARCHAR(10))에 대응합니다. */
+function toSqlType(spec: ParamTypeSpec): sql.ISqlType | sql.ISqlTypeFactoryWithNoParams {
+    const length = spec.length === 'max' || spec.length === undefined ? sql.MAX : spec.length;
+    switch (spec.kind) {
+        case 'varchar': return sql.VarChar(length);
+        case 'nvarchar': return sql.NVarChar(length);
+        case 'char': return sql.Char(length === sql.MAX ? 8000 : length);
+        case 'nchar': return sql.NChar(length === sql.MAX ? 4000 : length);
+        case 'int': return sql.Int;
+        case 'bigint': return sql.BigInt;
+        case 'decimal': return sql.Decimal(spec.precision ?? 18, spec.scale ?? 0);
+        case 'bit': return sql.Bit;
+        case 'date': return sql.VarChar(10);
+        case 'datetime': return sql.DateTime;
+    }
+}
+
+function bindTypedParams(request: DbRequest, typed: Record<string, TypedParam>) {
+    for (const [key, { spec, value }] of Object.entries(typed)) {
+        request.input(key, toSqlType(spec), value);
+    }
+}
+
+/**
+ * 임의 SQL의 파라미터를 바인딩합니다. 타입이 선언된 파라미터(paramTypes)는 선언대로 검증하고,
+ * 선언되지 않은 파라미터는 기존처럼 값으로 타입을 추정합니다.
+ */
+function bindAdhocParams(request: DbRequest, params: Record<string, any>, paramTypes: unknown): string | null {
+    const declarations: Record<string, ParamDeclaration> = {};
+    if (paramTypes && typeof paramTypes === 'object') {
+        for (const [key, declaration] of Object.entries(paramTypes as Record<string, unknown>)) {
+            if (typeof declaration === 'string' && params[key] !== undefined) declarations[key] = declaration;
+        }
+    }
+    try {
+        bindTypedParams(request, validateParams(declarations, params));
+    } catch (err: any) {
+        if (err instanceof ParamValidationError) return err.message;
+        throw err;
+    }
+    const inferred = Object.fromEntries(Object.entries(params).filter(([key]) => !(key in declarations)));
+    bindInferredParams(request, inferred);
+    return null;
+}
+
+/**
+ * 등록된 쿼리에 선언된 파라미터만 선언된 타입으로 검증 후 바인딩합니다.
+ * @returns 누락되었거나 선언에 맞지 않는 값이 있으면 오류 메시지, 없으면 null
+ */
+function bindNamedParams(request: DbRequest, def: NamedQuery, params: Record<string, any>): string | null {
+    try {
+        bindTypedParams(request, validateParams(def.params, params));
+        return null;
+    } catch (err: any) {
+        if (err instanceof ParamValidationError) return err.message;
+        throw err;
+    }
+}
+
+let idempotencyTablePromise: Promise<void> | null = null;
+
+/** 멱등성 키 테이블이 마이그레이션으로 만들어져 있는지 한 번 확인합니다. (런타임에 CREATE TABLE 하지 않습니다) */
+function ensureIdempotencyTable(): Promise<void> {
+    if (!idempotencyTablePromise) {
+        idempotencyTablePromise = (async () => {
+            const check = await (await getPool()).request().query(CHECK_IDEMPOTENCY_TABLE_SQL, 'idempotency:check');
+            if (!check.recordset[0]?.objectId) throw new Error(IDEMPOTENCY_TABLE_MISSING_MESSAGE);
+        })().catch(err => {
+            idempotencyTablePromise = null;
+            throw err;
+        });
+    }
+    return idempotencyTablePromise;
+}
+
+let lastIdempotencyPurgeAt = 0;
+let idempotencyPurgePromise: Promise<void> | null = null;
+
+/**
+ * 보관 기간이 지난 멱등성 키를 정리합니다. 키를 기록한 요청이 끝날 때 호출되며, 정리 주기가 지났을 때만 실행합니다.
+ * 한 번에 다 지우지 못했으면 다음 요청에서 이어서 정리합니다. 실패해도 요청 결과에는 영향을 주지 않습니다.
+ */
+function purgeExpiredIdempotencyKeys() {
+    if (idempotencyPurgePromise || Date.now() - lastIdempotencyPurgeAt < IDEMPOTENCY_PURGE_INTERVAL_MS) return;
+    lastIdempotencyPurgeAt = Date.now();
+    idempotencyPurgePromise = (async () => {
+        const result = await (await getPool()).request().query(PURGE_IDEMPOTENCY_KEYS_SQL, 'idempotency:purge');
+        if ((result.recordset[0]?.deleted ?? 0) >= IDEMPOTENCY_PURGE_BATCH_SIZE) lastIdempotencyPurgeAt = 0;
+    })()
+        .catch(err => console.warn('[idempotency] 만료된 키 정리 실패:', err?.message || err))
+        .finally(() => { idempotencyPurgePromise = null; });
+}
+
+interface StatementResult {
+    name: string;
+    recordset: any[];
+    recordsets?: any[][];
+    rowsAffected: number[];
+    messages?: SqlMessage[];
+    /** 멱등성 키가 이미 완료되어 저장된 결과를 반환한 경우 true */
+    replayed?: boolean;
+}
+
+/** 트랜잭션 실행 중 실패한 문장의 위치를 함께 전달합니다. */
+class StatementExecutionError extends Error {
+    constructor(public readonly index: number, public readonly cause: any) {
+        super(cause?.message || String(cause));
+        this.name = 'StatementExecutionError';
+    }
+}
+
+/**
+ * 문장들을 하나의 트랜잭션으로 실행합니다.
+ * 멱등성 키가 있는 문장은 같은 트랜잭션 안에서 키를 확인/기록하므로, 커밋된 경우에만 완료로 남습니다.
+ * rejectOnFailResult가 false이면 RESULT가 SUCCESS가 아닌 결과를 오류 대신 그대로 반환하고 롤백합니다.
+ */
+async function executeNamedStatements(statements: ResolvedStatement[], rejectOnFailResult: boolean): Promise<StatementResult[]> {
+    if (statements.some(s => s.idempotencyKey)) await ensureIdempotencyTable();
+
+    const transaction = (await getPool()).transaction();
+    await transaction.begin();
+    const results: StatementResult[] = [];
+    let index = 0;
+    let rejected = false;
+    try {
+        for (; index < statements.length; index++) {
+            const statement = statements[index];
+            if (statement.idempotencyKey) {
+                const lookup = await transaction.request().input('idemKey', sql.NVarChar(200), statement.idempotencyKey).query(LOOKUP_IDEMPOTENCY_KEY_SQL, 'idempotency:lookup');
+                const stored = lookup.recordset[0];
+                if (stored) {
+                    if (stored.query_name !== statement.name) throw new StatementRejectedError(`이미 다른 작업(${stored.query_name})에 사용된 멱등성 키입니다.`);
+                    results.push({ name: statement.name, ...parseStoredResult(stored.result), replayed: true });
+                    continue;
+                }
+            }
+
+            const request = transaction.request();
+            bindNamedParams(request, statement.def, statement.params);
+            const messages = collectMessages(request);
+            const result = await request.query(statement.def.sql, `named:${statement.name}`);
+            const response = { name: statement.name, ...toQueryResponse(result, messages) };
+            const rejection = getRejectionMessage(result.recordset);
+            if (rejection) {
+                if (rejectOnFailResult) throw new StatementRejectedError(rejection);
+                results.push(response);
+                rejected = true;
+                break;
+            }
+            if (statement.idempotencyKey) {
+                await transaction.request()
+                    .input('idemKey', sql.NVarChar(200), statement.idempotencyKey)
+                    .input('idemName', sql.NVarChar(100), statement.name)
+                    .input('idemResult', sql.NVarChar(sql.MAX), serializeStoredResult({ recordset: result.recordset || [], rowsAffected: result.rowsAffected }))
+                    .query(RECORD_IDEMPOTENCY_KEY_SQL, 'idempotency:record');
+            }
+            results.push(response);
+        }
+        if (rejected) await rollbackQuietly(transaction);
+        else await transaction.commit();
+        if (statements.some(s => s.idempotencyKey)) purgeExpiredIdempotencyKeys();
+        return results;
+    } catch (err: any) {
+        await rollbackQuietly(transaction);
+        throw new StatementExecutionError(index, err);
+    }
+}
+
+async function rollbackQuietly(transaction: DbTransaction) {
+    try {
+        await transaction.rollback();
+    } catch (rollbackErr: any) {
+        // 쿼리 내부 CATCH 블록에서 이미 ROLLBACK 한 경우입니다.
+        console.warn('[TRANSACTION_ROLLBACK]', rollbackErr.message);
+    }
+}
+
+/**
+ * 요청의 캐시 옵션. 읽기 전용 쿼리만 보관하며, 데이터를 변경하는 쿼리이면 옵션을 무시하고 매번 실행합니다.
+ */
+function readOnlyCacheOptions(sqlText: string, ttlSeconds: unknown, refresh: unknown): CacheOptions | null {
+    const options = parseCacheOptions(ttlSeconds, refresh);
+    if (!options || !classifySql(sqlText).readOnly) return null;
+    return options;
+}
+
+/**
+ * AI 어시스턴트가 사용할 쿼리 실행기. 임의 SQL 권한이 있는 사용자에게만 SELECT 실행을 제공합니다.
+ * SELECT는 검증(SELECT 외 문장 거부, PARSEONLY/NOEXEC) 후 SET ROWCOUNT로 받는 행 수를 제한해 실행합니다.
+ * ROWCOUNT는 연결 단위 설정이므로 트랜잭션으로 연결을 고정하고 같은 연결에서 되돌립니다.
+ */
+function createAgentExecutor(identity: VerifiedIdentity): AgentToolExecutor {
+    const runNamedQuery: AgentToolExecutor['runNamedQuery'] = async (name, params) => {
+        const def = getNamedQuery(name);
+        if (!def) throw new AgentToolError(`등록되지 않은 쿼리입니다: ${name}`);
+        // 에이전트에 안내한 목록과 관계없이 실행기에서도 데이터를 변경하는 쿼리를 거부합니다.
+        if (!classifySql(def.sql).readOnly) throw new AgentToolError(`데이터를 변경하는 쿼리는 실행할 수 없습니다: ${name}`);
+        const request = (await getPool()).request();
+        const paramError = bindNamedParams(request, def, params);
+        if (paramError) throw new AgentToolError(paramError);
+        const result = await request.query(def.sql, `named:${name}`);
+        return { recordset: result.recordset || [] };
+    };
+    if (!canRunAdhocSql(identity)) return { runNamedQuery };
+
+    const runSelect: AgentToolExecutor['runSelect'] = async (sqlText, maxRows) => {
+        // SET ROWCOUNT 사이에 그대로 넣어 실행하므로 SET ROWCOUNT 0 같은 문장이나 SELECT 외 문장은 검증 전에 거부합니다.
+        assertSelectOnly(sqlText);
+        const driver = await getPool();
+        const validation = await validateReadOnlySql(driver, sqlText);
+        if (!validation.valid) throw new AgentToolError(validation.errors.join(' / '));
+        const transaction = driver.transaction();
+        await transaction.begin();
+        try {
+            const result = await transaction.request().query(`SET ROWCOUNT ${Math.floor(maxRows)};\n${sqlText}\n;SET ROWCOUNT 0;`, 'aiAgent:select');
+            return { recordset: result.recordset || [] };
+        } finally {
+            await transaction.request().query('SET ROWCOUNT 0', 'aiAgent:resetRowcount').catch(() => undefined);
+            await rollbackQuietly(transaction);
+        }
+    };
+    return { runNamedQuery, runSelect };
+}
+
+/** SQL 오류나 쿼리가 거부한 경우는 재시도해도 같으므로 409, 연결 문제는 500으로 응답합니다. */
+function statementErrorStatus(err: StatementExecutionError): number {
+    return err.cause instanceof StatementRejectedError || typeof err.cause?.number === 'number' ? 409 : 500;
+}
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
     res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
     if (req.method === 'OPTIONS') return res.status(200).end();
     if (req.method !== 'POST') return res.status(405).json({ error: 'Method Not Allowed' });
 
-    const { type, query, params, userQuery, naturalLanguagePrompt, lastSyncDate, schema, context, userCurrentDate, searchTerm, limit } = req.body;
+    // 모든 요청은 로그인한 사용자의 Firebase ID 토큰을 포함해야 합니다.
+    const idToken = extractBearerToken(req.headers.authorization);
+    if (!idToken) return res.status(401).json({ error: '로그인이 필요합니다.' });
+
+    let identity: VerifiedIdentity;
+    try {
+        identity = await verifyIdToken(idToken, FIREBASE_PROJECT_ID);
+    } catch (err: any) {
+        if (err instanceof AuthError) return res.status(err.status).json({ error: err.message });
+        console.error('[AUTH_ERROR]', err.message);
+        recordServerError(err, 'auth');
+        return res.status(503).json({ error: '로그인 정보를 확인할 수 없습니다. 잠시 후 다시 시도해주세요.' });
+    }
+
+    const { type, name, version, query, params, paramTypes, userQuery, confirmed, allowDestructive, naturalLanguagePrompt, lastSyncDate, cursor, digest, barcodes, statements, idempotencyKey, schema, context, userCurrentDate, searchTerm, limit, clientTime, cacheTtlSeconds, cacheRefresh, repair, llm } = req.body;
 
     try {
         if (type === 'connect') {
@@ -58,47 +418,272 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             return res.status(200).json({ success: true, message: 'Connected.' });
         }
 
+        // DB에 연결할 수 없어도 200으로 응답합니다. (db.ok = false, API 서버는 정상)
+        if (type === 'diagnostics') {
+            return res.status(200).json(await collectDiagnostics(DB_DRIVER, getPool, clientTime));
+        }
+
         if (type === 'naturalLanguageToSql') {
-            const prompt = `Based on the following MS-SQL schema and context, write a T-SQL query. Current Date: ${userCurrentDate}. Schema: ${JSON.stringify(schema)}. Context: ${context}. Request: "${naturalLanguagePrompt}". Respond with raw SQL only.`;
-            const response = await ai.models.generateContent({ model: 'gemini-3-pro-preview', contents: prompt });
-            return res.status(200).json({ sql: response.text?.replace(/```sql|```/g, '').trim() });
+            // repair: 이전에 생성한 SQL이 검증(스키마 확인, 서버 구문 확인)을 통과하지 못한 경우 오류와 함께 한 번 더 요청합니다.
+            const repairPrompt = repair && typeof repair.sql === 'string'
+                ? ` Your previous answer was rejected. Previous SQL: """${repair.sql}""". Problems: ${(Array.isArray(repair.errors) ? repair.errors : []).join(' / ')}. Fix these problems. Use only tables and columns that exist in the schema. Do not modify data (SELECT only).`
+                : '';
+            const prompt = `Based on the following MS-SQL schema and context, write a T-SQL query. Current Date: ${userCurrentDate}. Schema: ${formatSchemaForPrompt(schema)}. Context: ${context}. Request: "${naturalLanguagePrompt}". Write a read-only query (SELECT only).${repairPrompt} Respond with raw SQL only.`;
+            // llm: 공통 설정에서 지정한 제공자/모델 (없으면 서버 기본값)
+            const choice = resolveLlmChoice('sql', llm);
+            const text = await getLlmProvider(choice.provider).generateText(choice.model, prompt);
+            return res.status(200).json({ sql: text.replace(/```sql|```/g, '').trim(), llm: choice });
         }
 
+        // AI 어시스턴트: 모델이 읽기 전용 쿼리를 실행해 실제 데이터를 확인한 뒤 답합니다. 실행한 쿼리는 trace로 함께 반환합니다.
         if (type === 'aiChat') {
-            const prompt = `You are a helpful database assistant for KJ Mart. Current Date: ${userCurrentDate}. Schema: ${JSON.stringify(schema)}. Context: ${context}. User Request: "${naturalLanguagePrompt}". Provide a clear and concise explanation or answer based on the data structure provided.`;
-            const response = await ai.models.generateContent({ model: 'gemini-3-flash-preview', contents: prompt });
-            return res.status(200).json({ answer: response.text });
+            if (typeof naturalLanguagePrompt !== 'string' || !naturalLanguagePrompt.trim()) return res.status(400).json({ error: '질문을 입력해주세요.' });
+            const choice = resolveLlmChoice('chat', llm);
+            const result = await runAgent(getLlmProvider(choice.provider).createAgentModel(choice.model), createAgentExecutor(identity), {
+                prompt: naturalLanguagePrompt,
+                schema,
+                context,
+                currentDate: userCurrentDate,
+                namedQueries: NAMED_QUERIES,
+            });
+            return res.status(200).json({ ...result, llm: choice });
         }
 
-        const activePool = await getPool();
-        const request = activePool.request();
+        if (type === 'namedQuery' || (type === 'executeUserQuery' && !userQuery)) {
+            const def = typeof name === 'string' ? getNamedQuery(name) : undefined;
+            if (!def) return res.status(400).json({ error: `등록되지 않은 쿼리입니다: ${name}` });
+            if (version !== undefined && version !== def.version) {
+                return res.status(409).json({ error: `쿼리 버전이 일치하지 않습니다: ${name} (요청 v${version}, 서버 v${def.version})` });
+            }
+
+            let key: string | undefined;
+            try {
+                key = normalizeIdempotencyKey(idempotencyKey);
+            } catch (err: any) {
+                return res.status(400).json({ error: err.message });
+            }
+            const namedParams = params && typeof params === 'object' ? params : {};
+
+            // 멱등성 키가 있으면 키 기록과 함께 트랜잭션으로 실행합니다. 재전송이면 저장된 결과를 반환합니다.
+            if (key) {
+                try {
+                    validateParams(def.params, namedParams);
+                } catch (err: any) {
+                    if (err instanceof ParamValidationError) return res.status(400).json({ error: err.message });
+                    throw err;
+                }
+                try {
+                    const [result] = await executeNamedStatements([{ name, params: namedParams, def, idempotencyKey: key }], false);
+                    return res.status(200).json({ version: def.version, ...result });
+                } catch (err: any) {
+                    if (err instanceof StatementExecutionError) return res.status(statementErrorStatus(err)).json(toErrorBody(err.cause));
+                    throw err;
+                }
+            }
+
+            let cacheOptions: CacheOptions | null;
+            try {
+                cacheOptions = readOnlyCacheOptions(def.sql, cacheTtlSeconds, cacheRefresh);
+            } catch (err: any) {
+                if (err instanceof CacheOptionError) return res.status(400).json({ error: err.message });
+                throw err;
+            }
+
+            const request = (await getPool()).request();
+            const paramError = bindNamedParams(request, def, namedParams);
+            if (paramError) return res.status(400).json({ error: paramError });
+
+            const messages = collectMessages(request);
+            const execute = async () => toQueryResponse(await request.query(def.sql, `named:${name}`), messages);
+            const response = cacheOptions
+                ? await withResultCache(buildCacheKey(`named:${name}@${def.version}`, def.sql, namedParams), cacheOptions, execute)
+                : await execute();
+            return res.status(200).json({ name, version: def.version, ...response });
+        }
+
+        // 여러 쓰기 작업을 하나의 트랜잭션으로 실행합니다. 하나라도 실패하면 전체를 롤백합니다.
+        if (type === 'batch') {
+            let resolved: ResolvedStatement[];
+            try {
+                resolved = resolveBatchStatements(statements);
+            } catch (err: any) {
+                if (err instanceof BatchValidationError) return res.status(400).json({ error: err.message, failedIndex: err.index });
+                throw err;
+            }
+
+            try {
+                const results = await executeNamedStatements(resolved, true);
+                return res.status(200).json({ committed: true, results });
+            } catch (err: any) {
+                if (!(err instanceof StatementExecutionError)) throw err;
+                const failed = resolved[err.index];
+                const sqlError = describeSqlError(err.cause);
+                return res.status(statementErrorStatus(err)).json({
+                    error: failed ? `${err.index + 1}번째 작업(${failed.name}) 실패로 전체 취소되었습니다: ${err.message}` : err.message,
+                    failedIndex: failed ? err.index : undefined,
+                    rolledBack: true,
+                    ...(sqlError ? { sqlError } : {}),
+                });
+            }
+        }
+
+        // 여러 결과 집합을 반환하는 동기화 요청은 이름별 { recordset } 으로 나누어 응답합니다.
+        if (type === 'syncBOM') {
+            const result = await (await getPool()).request().query(SYNC_BOM_SQL, type);
+            return res.status(200).json({ recordset: result.recordset });
+        }
 
-        if (params && typeof params === 'object') {
-            for (const key in params) {
-                const val = params[key];
-                if (typeof val === 'number') {
-                    if (Number.isInteger(val)) request.input(key, sql.Int, val);
-                    else request.input(key, sql.Decimal(18, 4), val);
-                } else if (val instanceof Date) {
-                    request.input(key, sql.DateTime, val);
-                } else if (typeof val === 'string') {
-                    if (/^\d{4}-\d{2}-\d{2}$/.test(val)) request.input(key, sql.VarChar(10), val);
-                    else request.input(key, sql.NVarChar, val);
-                } else {
-                    request.input(key, sql.NVarChar, val);
+        if (type === 'syncCategories') {
+            const result = await (await getPool()).request().query(SYNC_CATEGORIES_SQL, type);
+            const [gubun1, gubun2, gubun3] = result.recordsets;
+            return res.status(200).json({
+                gubun1: { recordset: gubun1 || [] },
+                gubun2: { recordset: gubun2 || [] },
+                gubun3: { recordset: gubun3 || [] },
+            });
+        }
+
+        if (type === 'syncCustomersAndProducts') {
+            const batch = [SYNC_CUSTOMERS_SQL, SYNC_PRODUCTS_SQL, SYNC_BOM_SQL].join(';\n') + ';\n' + SYNC_CATEGORIES_SQL;
+            const result = await (await getPool()).request().query(batch, type);
+            const [customers, products, bom, gubun1, gubun2, gubun3] = result.recordsets;
+            return res.status(200).json({
+                customers: { recordset: customers || [] },
+                products: { recordset: products || [] },
+                bom: { recordset: bom || [] },
+                gubun1: { recordset: gubun1 || [] },
+                gubun2: { recordset: gubun2 || [] },
+                gubun3: { recordset: gubun3 || [] },
+            });
+        }
+
+        // 상품 페이지 동기화: (upday1, barcode) 순서의 키셋 페이지와 다음 페이지 커서를 반환합니다.
+        if (type === 'syncProductsPage') {
+            const decoded = cursor ? decodeProductCursor(cursor) : null;
+            if (cursor && !decoded) return res.status(400).json({ error: '동기화 커서가 올바르지 않습니다. 처음부터 다시 동기화해주세요.' });
+
+            const since = decoded ? decoded.since : (lastSyncDate || '1900-01-01');
+            const pageSize = Math.min(Math.max(parseInt(limit, 10) || PRODUCT_PAGE_SIZE_DEFAULT, 1), PRODUCT_PAGE_SIZE_MAX);
+
+            const request = (await getPool()).request();
+            request.input('lastDate', sql.VarChar, since);
+            request.input('pageSize', sql.Int, pageSize);
+            let where = 'upday1 >= @lastDate';
+            if (decoded) {
+                request.input('cursorUpday', decoded.upday1IsDate ? sql.DateTime : sql.VarChar, decoded.upday1IsDate ? new Date(decoded.upday1) : decoded.upday1);
+                request.input('cursorBarcode', sql.VarChar, decoded.barcode);
+                where += ' AND (upday1 > @cursorUpday OR (upday1 = @cursorUpday AND barcode > @cursorBarcode))';
+            }
+
+            // 첫 페이지에서는 조회 직전의 서버 시각(워터마크)과 전체 건수를 함께 반환합니다.
+            // 다음 증분 동기화는 이 워터마크 이후 변경분만 요청합니다.
+            const headerSql = decoded ? '' : `SELECT ${watermarkExpression(await getUpdayKind())} AS watermark, COUNT(*) AS total FROM parts WITH(NOLOCK) WHERE upday1 >= @lastDate;`;
+            const result = await request.query(`${headerSql}${SYNC_PRODUCTS_SQL.replace('SELECT ', 'SELECT TOP (@pageSize) ')} WHERE ${where} ORDER BY upday1, barcode`, type);
+            const recordsets = result.recordsets;
+            const rows = recordsets[recordsets.length - 1] || [];
+            const header = decoded ? undefined : recordsets[0]?.[0];
+
+            const last = rows[rows.length - 1];
+            const nextCursor = rows.length === pageSize && last ? encodeProductCursor({
+                since,
+                upday1: last.upday1 instanceof Date ? last.upday1.toISOString() : String(last.upday1),
+                upday1IsDate: last.upday1 instanceof Date,
+                barcode: String(last.barcode),
+            }) : null;
+            return res.status(200).json({ recordset: rows, nextCursor, total: header?.total, watermark: header?.watermark });
+        }
+
+        // 상품 대조: 클라이언트 버킷 요약과 다른 버킷의 서버 바코드 목록을 반환합니다.
+        if (type === 'reconcileProducts') {
+            if (!Array.isArray(digest) || digest.length !== DIGEST_BUCKETS) {
+                return res.status(400).json({ error: '상품 대조 요약값 형식이 올바르지 않습니다.' });
+            }
+            const { serverBarcodes, serverDigest, cache: snapshot } = await withResultCache(
+                buildCacheKey('reconcile:activeBarcodes', ACTIVE_BARCODES_SQL),
+                { ttlSeconds: ACTIVE_BARCODES_CACHE_TTL_SECONDS, refresh: false },
+                async () => {
+                    const result = await (await getPool()).request().query(ACTIVE_BARCODES_SQL, 'activeBarcodes');
+                    const barcodes: string[] = result.recordset.map((r: any) => String(r.barcode)).filter(Boolean);
+                    return { serverBarcodes: barcodes, serverDigest: buildDigest(barcodes) };
                 }
+            );
+
+            // 요약값이 같은 버킷은 바코드 목록을 보내지 않습니다. 모두 같으면 클라이언트는 아무것도 바꾸지 않습니다.
+            const mismatched: Record<number, string[]> = {};
+            serverDigest.forEach(([count, sum], i) => {
+                const [clientCount, clientSum] = (digest[i] || []) as BucketDigest;
+                if (count !== clientCount || sum !== clientSum) mismatched[i] = [];
+            });
+            serverBarcodes.forEach(barcode => mismatched[bucketOf(barcode)]?.push(barcode));
+            // snapshotAt: 바코드 목록을 조회한 시각. 그 뒤에 추가된 상품은 목록에 없을 수 있습니다.
+            return res.status(200).json({ total: serverBarcodes.length, buckets: mismatched, snapshotAt: snapshot.cachedAt });
+        }
+
+        if (type === 'syncProductsByBarcode') {
+            if (!Array.isArray(barcodes) || barcodes.length > PRODUCT_BY_BARCODE_MAX) {
+                return res.status(400).json({ error: `바코드는 최대 ${PRODUCT_BY_BARCODE_MAX}개까지 요청할 수 있습니다.` });
             }
+            if (barcodes.length === 0) return res.status(200).json({ recordset: [] });
+
+            // SQL 2005 호환을 위해 STRING_SPLIT 대신 개별 파라미터로 바인딩합니다.
+            const request = (await getPool()).request();
+            const placeholders = barcodes.map((barcode: any, i: number) => {
+                request.input(`b${i}`, sql.VarChar, String(barcode));
+                return `@b${i}`;
+            });
+            const result = await request.query(`${SYNC_PRODUCTS_SQL} WHERE barcode IN (${placeholders.join(', ')})`, type);
+            return res.status(200).json({ recordset: result.recordset });
+        }
+
+        // AI가 생성한 SQL을 실행하지 않고 확인합니다. (쓰기 구문 거부 + PARSEONLY/NOEXEC)
+        if (type === 'validateSql') {
+            if (!canRunAdhocSql(identity)) return res.status(403).json({ error: '임의 SQL 실행 권한이 없습니다.' });
+            if (typeof query !== 'string' || !query.trim()) return res.status(400).json({ error: 'No query provided' });
+            return res.status(200).json(await validateReadOnlySql(await getPool(), query));
         }
 
-        let finalQuery = userQuery || query;
-        
-        if (type === 'getDatabaseSchema') {
+        // 임의 SQL은 SQL Runner(query)와 저장된 사용자 쿼리(executeUserQuery)에서만 허용됩니다.
+        // 저장된 사용자 쿼리는 매출 보고서, 상품 검색/저장, 행사 조회 같은 일반 화면이 쓰므로 로그인한 사용자 모두 실행할 수 있고,
+        // SQL Runner에서 직접 입력한 SQL만 ADHOC_SQL_USERS로 제한합니다. 쓰기 구문 확인은 두 경우 모두 거칩니다.
+        const isAdhoc = type === 'query' || type === 'executeUserQuery';
+        if (type === 'query' && !canRunAdhocSql(identity)) {
+            return res.status(403).json({ error: '임의 SQL 실행 권한이 없습니다.' });
+        }
+
+        // SQL Runner와 저장된 사용자 쿼리: 쓰기 구문은 'SQL 실행 권한' 설정과 사용자 확인을 모두 거쳐야 실행됩니다.
+        if (isAdhoc) {
+            const classification = classifySql((type === 'query' ? query : userQuery) || '');
+            if (!classification.readOnly) {
+                if (!allowDestructive) {
+                    return res.status(403).json({ error: `데이터를 변경하는 쿼리는 실행할 수 없습니다 (${classification.keywords.join(', ')}). 설정에서 SQL 실행 권한을 허용해주세요.`, classification });
+                }
+                if (!confirmed) {
+                    return res.status(200).json({ needsConfirmation: true, classification, message: '데이터를 변경하는 쿼리입니다. 실행하시겠습니까?' });
+                }
+            }
+        }
+
+        const activePool = await getPool();
+        const request = activePool.request();
+
+        if (isAdhoc && params && typeof params === 'object') {
+            const paramError = bindAdhocParams(request, params, paramTypes);
+            if (paramError) return res.status(400).json({ error: paramError });
+        }
+
+        let finalQuery: string | undefined;
+
+        if (type === 'query') {
+            finalQuery = query;
+        } else if (type === 'executeUserQuery') {
+            finalQuery = userQuery;
+        } else if (type === 'getDatabaseSchema') {
             finalQuery = "SELECT t.TABLE_NAME as tableName, c.COLUMN_NAME as columnName, c.DATA_TYPE as dataType FROM INFORMATION_SCHEMA.TABLES t JOIN INFORMATION_SCHEMA.COLUMNS c ON t.TABLE_NAME = c.TABLE_NAME WHERE t.TABLE_TYPE = 'BASE TABLE' ORDER BY t.TABLE_NAME, c.ORDINAL_POSITION";
         } else if (type === 'syncCustomers') {
-            finalQuery = "SELECT comcode, comname FROM comp WITH(NOLOCK) WHERE isuse <> '0'";
+            finalQuery = SYNC_CUSTOMERS_SQL;
         } else if (type === 'syncProductsIncrementally') {
             request.input('lastDate', sql.VarChar, lastSyncDate || '1900-01-01');
-            finalQuery = "SELECT barcode, descr, spec, money0vat, money1, comcode, gubun1, gubun2, gubun3, curjago AS [재고수량], isuse, ispack, upday1 FROM parts WITH(NOLOCK) WHERE upday1 >= @lastDate";
+            finalQuery = `${SYNC_PRODUCTS_SQL} WHERE upday1 >= @lastDate`;
         } else if (type === 'searchProductsOnline' || type === 'searchProductsForEdit') {
             const kw = searchTerm || '';
             request.input('kw', sql.NVarChar, kw);
@@ -145,11 +730,30 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         if (!finalQuery) return res.status(400).json({ error: 'No query provided' });
 
-        const result = await request.query(finalQuery);
-        return res.status(200).json({ recordset: result.recordset, rowsAffected: result.rowsAffected });
+        // 저장된 사용자 쿼리(매출 보고서 등)는 요청하면 결과를 잠시 보관합니다.
+        let cacheOptions: CacheOptions | null = null;
+        if (type === 'executeUserQuery') {
+            try {
+                cacheOptions = readOnlyCacheOptions(finalQuery, cacheTtlSeconds, cacheRefresh);
+            } catch (err: any) {
+                if (err instanceof CacheOptionError) return res.status(400).json({ error: err.message });
+                throw err;
+            }
+        }
+
+        const sqlText = finalQuery;
+        const messages = collectMessages(request);
+        const execute = async () => toQueryResponse(await request.query(sqlText, type), messages);
+        if (cacheOptions) {
+            const key = buildCacheKey(`user:${typeof name === 'string' ? name : ''}`, sqlText, params && typeof params === 'object' ? params : {}, paramTypes && typeof paramTypes === 'object' ? paramTypes : {});
+            return res.status(200).json(await withResultCache(key, cacheOptions, execute));
+        }
+        return res.status(200).json(await execute());
 
     } catch (err: any) {
+        if (err instanceof LlmConfigError) return res.status(400).json({ error: err.message });
         console.error('[API_ERROR]', err.message);
-        res.status(500).json({ error: err.message });
+        recordServerError(err, typeof type === 'string' ? type : undefined);
+        res.status(500).json(toErrorBody(err));
     }
 }
@@ -0,0 +1,21 @@
+-- migrations/001_app_idempotency_keys.sql
+-- 쓰기 요청의 멱등성 키를 기록하는 테이블입니다. (api/_lib/idempotency.ts)
+-- API 계정에는 DDL 권한이 없으므로, 배포 전에 DB 관리자 계정으로 한 번 실행합니다. 여러 번 실행해도 안전합니다.
+IF OBJECT_ID('dbo.app_idempotency_keys', 'U') IS NULL
+BEGIN
+    CREATE TABLE dbo.app_idempotency_keys (
+        idem_key NVARCHAR(200) NOT NULL PRIMARY KEY,
+        query_name NVARCHAR(100) NOT NULL,
+        result NVARCHAR(MAX) NULL,
+        created_at DATETIME NOT NULL DEFAULT GETDATE()
+    );
+END;
+GO
+
+-- 보관 기간이 지난 키를 정리할 때 created_at으로 찾습니다.
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_app_idempotency_keys_created_at' AND object_id = OBJECT_ID('dbo.app_idempotency_keys'))
+    CREATE INDEX IX_app_idempotency_keys_created_at ON dbo.app_idempotency_keys (created_at);
+GO
+
+-- API 계정에는 이 테이블의 조회/기록/정리 권한만 부여합니다. (계정 이름은 환경에 맞게 바꿔서 실행)
+-- GRANT SELECT, INSERT, DELETE ON dbo.app_idempotency_keys TO [kjmart_api];
@@ -0,0 +1,92 @@
+// server/config.ts
+// 매장 PC에서 실행하는 SQL API 서버(LAN 모드)의 설정을 읽습니다.
+// 설정 파일(JSON)과 환경 변수를 함께 사용하며, 같은 항목은 환경 변수가 우선합니다.
+import fs from 'fs';
+import path from 'path';
+
+export interface LanServerConfig {
+    host: string;
+    port: number;
+    /** 설정하면 HTTPS로 실행합니다. (인증서/키 파일 경로 또는 PFX) */
+    https?: {
+        certFile?: string;
+        keyFile?: string;
+        pfxFile?: string;
+        passphrase?: string;
+    };
+    /** 요청 본문 최대 크기 (바이트) */
+    maxBodyBytes: number;
+    /** api/sql.ts가 읽는 환경 변수 (DB_SERVER, DB_USER, DB_PASSWORD, API_KEY 등) */
+    env: Record<string, string>;
+}
+
+export class ConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConfigError';
+    }
+}
+
+const DEFAULT_CONFIG_FILE = 'kjmart-server.json';
+const DEFAULT_PORT = 3000;
+const DEFAULT_MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+function readConfigFile(filePath: string, required: boolean): Partial<LanServerConfig> {
+    if (!fs.existsSync(filePath)) {
+        if (required) throw new ConfigError(`설정 파일을 찾을 수 없습니다: ${filePath}`);
+        return {};
+    }
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (err: any) {
+        throw new ConfigError(`설정 파일을 읽을 수 없습니다 (${filePath}): ${err.message}`);
+    }
+}
+
+function parsePort(value: unknown): number {
+    const port = Number(value);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) throw new ConfigError(`포트 번호가 올바르지 않습니다: ${value}`);
+    return port;
+}
+
+/**
+ * 설정을 읽습니다. 파일 경로는 --config 인자, KJMART_SERVER_CONFIG, 현재 폴더의 kjmart-server.json 순서로 찾습니다.
+ * 설정 파일의 상대 경로(인증서 등)는 설정 파일 위치를 기준으로 해석합니다.
+ */
+export function loadConfig(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): LanServerConfig {
+    const argIndex = argv.indexOf('--config');
+    const explicitPath = argIndex >= 0 ? argv[argIndex + 1] : env.KJMART_SERVER_CONFIG;
+    const filePath = path.resolve(explicitPath || DEFAULT_CONFIG_FILE);
+    const file = readConfigFile(filePath, !!explicitPath);
+    const baseDir = path.dirname(filePath);
+    const resolveFile = (value?: string) => (value ? path.resolve(baseDir, value) : undefined);
+
+    const https = {
+        certFile: env.HTTPS_CERT_FILE || resolveFile(file.https?.certFile),
+        keyFile: env.HTTPS_KEY_FILE || resolveFile(file.https?.keyFile),
+        pfxFile: env.HTTPS_PFX_FILE || resolveFile(file.https?.pfxFile),
+        passphrase: env.HTTPS_PASSPHRASE || file.https?.passphrase,
+    };
+    const useHttps = !!(https.pfxFile || https.certFile || https.keyFile);
+    if (useHttps && !https.pfxFile && !(https.certFile && https.keyFile)) {
+        throw new ConfigError('HTTPS를 사용하려면 certFile과 keyFile을 모두 지정하거나 pfxFile을 지정해야 합니다.');
+    }
+
+    const maxBodyBytes = Number(env.MAX_BODY_BYTES || file.maxBodyBytes || DEFAULT_MAX_BODY_BYTES);
+    if (!Number.isFinite(maxBodyBytes) || maxBodyBytes <= 0) throw new ConfigError(`maxBodyBytes 값이 올바르지 않습니다: ${maxBodyBytes}`);
+
+    return {
+        host: env.HOST || file.host || '0.0.0.0',
+        port: parsePort(env.PORT || file.port || DEFAULT_PORT),
+        https: useHttps ? https : undefined,
+        maxBodyBytes,
+        env: Object.fromEntries(Object.entries(file.env || {}).map(([key, value]) => [key, String(value)])),
+    };
+}
+
+/** 설정 파일의 env 값을 process.env에 반영합니다. 이미 설정된 환경 변수는 덮어쓰지 않습니다. */
+export function applyEnv(config: LanServerConfig, env: NodeJS.ProcessEnv = process.env): void {
+    for (const [key, value] of Object.entries(config.env)) {
+        if (env[key] === undefined) env[key] = value;
+    }
+}
@@ -0,0 +1,152 @@
+// server/lanServer.ts
+// api/sql.ts 핸들러를 매장 PC에서 직접 실행하는 Node HTTP(S) 서버입니다.
+// 매장 Wi-Fi의 휴대폰이 클라우드(Vercel)를 거치지 않고 같은 요청 형식으로 MSSQL에 접근할 수 있습니다.
+//   빌드: npm run server:build   실행: npm run server:start -- --config ./kjmart-server.json
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { applyEnv, ConfigError, LanServerConfig, loadConfig } from './config';
+
+type Handler = (req: VercelRequest, res: VercelResponse) => unknown;
+
+const API_PATH = '/api/sql';
+const HEALTH_PATH = '/health';
+
+class BodyError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'BodyError';
+    }
+}
+
+function readBody(req: http.IncomingMessage, maxBytes: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBytes) {
+                reject(new BodyError('요청 본문이 너무 큽니다.', 413));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+}
+
+function parseBody(raw: string, contentType: string | undefined): any {
+    if (!raw) return {};
+    if (contentType && !contentType.includes('application/json')) return raw;
+    try {
+        return JSON.parse(raw);
+    } catch {
+        throw new BodyError('요청 본문이 올바른 JSON이 아닙니다.', 400);
+    }
+}
+
+/** Vercel 함수와 같은 req/res 도우미(status, json, send)를 붙입니다. */
+function toVercelResponse(res: http.ServerResponse): VercelResponse {
+    const response = res as VercelResponse;
+    response.status = (statusCode: number) => {
+        res.statusCode = statusCode;
+        return response;
+    };
+    response.json = (body: any) => {
+        if (!res.getHeader('Content-Type')) res.setHeader('Content-Type', 'application/json; charset=utf-8');
+        res.end(JSON.stringify(body));
+        return response;
+    };
+    response.send = (body: any) => {
+        if (body !== null && typeof body === 'object' && !Buffer.isBuffer(body)) return response.json(body);
+        res.end(body);
+        return response;
+    };
+    response.redirect = (statusOrUrl: string | number, url?: string) => {
+        res.statusCode = typeof statusOrUrl === 'number' ? statusOrUrl : 307;
+        res.setHeader('Location', typeof statusOrUrl === 'number' ? url || '/' : statusOrUrl);
+        res.end();
+        return response;
+    };
+    return response;
+}
+
+function createRequestListener(handler: Handler, config: LanServerConfig): http.RequestListener {
+    return async (req, res) => {
+        const startedAt = Date.now();
+        const url = new URL(req.url || '/', 'http://localhost');
+        const response = toVercelResponse(res);
+        res.on('finish', () => console.log(`${req.method} ${url.pathname} ${res.statusCode} ${Date.now() - startedAt}ms`));
+
+        try {
+            if (url.pathname === HEALTH_PATH) {
+                response.status(200).json({ ok: true });
+                return;
+            }
+            if (url.pathname !== API_PATH) {
+                response.status(404).json({ error: 'Not Found' });
+                return;
+            }
+
+            const body = req.method === 'POST' ? parseBody(await readBody(req, config.maxBodyBytes), req.headers['content-type']) : undefined;
+            const request = Object.assign(req, {
+                body,
+                query: Object.fromEntries(url.searchParams),
+                cookies: {},
+            }) as VercelRequest;
+            await handler(request, response);
+        } catch (err: any) {
+            if (res.headersSent) {
+                res.end();
+                return;
+            }
+            // CORS 헤더가 없으면 브라우저(웹뷰)가 오류 내용을 읽지 못합니다.
+            res.setHeader('Access-Control-Allow-Origin', '*');
+            if (err instanceof BodyError) {
+                response.status(err.status).json({ error: err.message });
+                return;
+            }
+            console.error('[LAN_SERVER_ERROR]', err);
+            response.status(500).json({ error: err?.message || 'Internal Server Error' });
+        }
+    };
+}
+
+function createServer(listener: http.RequestListener, config: LanServerConfig): http.Server {
+    if (!config.https) return http.createServer(listener);
+    const { certFile, keyFile, pfxFile, passphrase } = config.https;
+    return https.createServer({
+        cert: certFile ? fs.readFileSync(certFile) : undefined,
+        key: keyFile ? fs.readFileSync(keyFile) : undefined,
+        pfx: pfxFile ? fs.readFileSync(pfxFile) : undefined,
+        passphrase,
+    }, listener);
+}
+
+async function main() {
+    const config = loadConfig();
+    applyEnv(config);
+    // api/sql.ts는 불러올 때 DB 설정(process.env)을 읽으므로 env 반영 후에 불러옵니다.
+    const { default: handler } = await import('../api/sql');
+
+    const server = createServer(createRequestListener(handler, config), config);
+    const protocol = config.https ? 'https' : 'http';
+    server.listen(config.port, config.host, () => {
+        console.log(`KJ Mart SQL API 서버 실행 중: ${protocol}://${config.host}:${config.port}${API_PATH}`);
+    });
+
+    const shutdown = () => {
+        console.log('서버를 종료합니다.');
+        server.close(() => process.exit(0));
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+}
+
+main().catch(err => {
+    console.error(err instanceof ConfigError ? `설정 오류: ${err.message}` : err);
+    process.exit(1);
+});
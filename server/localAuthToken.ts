@@ -0,0 +1,25 @@
+// server/localAuthToken.ts
+// DB_DRIVER=memory 로 실행한 API에 보낼 로컬 ID 토큰을 만듭니다. (api/_lib/localAuth.ts)
+//   npm run auth:local-token -- --key ./local-auth.key --email dev@example.com
+import fs from 'fs';
+import { parseArgs } from 'util';
+import { DEFAULT_FIREBASE_PROJECT_ID } from '../api/_lib/firebaseAuth';
+import { signLocalIdToken } from '../api/_lib/localAuth';
+
+const { values } = parseArgs({
+    options: {
+        key: { type: 'string' },
+        email: { type: 'string', default: 'dev@example.com' },
+        uid: { type: 'string', default: 'local-dev' },
+        project: { type: 'string', default: process.env.FIREBASE_PROJECT_ID || DEFAULT_FIREBASE_PROJECT_ID },
+        ttl: { type: 'string', default: '3600' },
+    },
+});
+
+if (!values.key) {
+    console.error('개인 키 파일을 지정해주세요: --key ./local-auth.key');
+    process.exit(1);
+}
+
+const token = signLocalIdToken(fs.readFileSync(values.key, 'utf8'), values.project!, { uid: values.uid!, email: values.email }, undefined, Number(values.ttl));
+console.log(token);
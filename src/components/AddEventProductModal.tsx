@@ -2,7 +2,7 @@
 import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { createPortal } from 'react-dom';
 import { useAlert, useScanner } from '../context/AppContext';
-import { executeUserQuery } from '../services/sqlService';
+import { executeNamedQuery } from '../services/sqlService';
 import { Product } from '../types';
 import { SpinnerIcon, XCircleIcon, WarningIcon, CheckCircleIcon, BarcodeScannerIcon } from './Icons';
 import ProductSearchBar from './ProductSearchBar';
@@ -19,74 +19,6 @@ interface AddEventProductModalProps {
     onSwitchToContinuousScan?: () => void;
 }
 
-const CHECK_PRODUCT_EVENT_SQL = `
--- [행사상품 상세조회 및 중복체크]
--- 파라미터: @Junno (현재 전표), @Barcode (상품)
-
-DECLARE @MyStart VARCHAR(10)
-DECLARE @MyEnd VARCHAR(10)
-DECLARE @Today VARCHAR(10)
-SET @Today = CONVERT(VARCHAR(10), GETDATE(), 120)
-
--- 1. 현재 내 행사의 시작/종료일 확보
-SELECT @MyStart = startday, @MyEnd = endday
-FROM sale_mast WITH(NOLOCK)
-WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))
-
--- 2. 상품 정보 + 내 행사 등록 여부 + 타 행사 중복 여부 조회
-SELECT 
-    P.descr      AS [GoodsName],
-    P.spec       AS [Spec],
-    P.money0vat  AS [Cost],        -- 부가세포함 매입가
-    P.money1     AS [Price],       -- 정상 판매가
-    @MyStart     AS [MyStart],     -- 내 행사의 시작일
-    
-    CASE 
-        WHEN R.junno IS NOT NULL THEN 'UPDATE'
-        ELSE 'INSERT'
-    END AS [Mode],
-    ISNULL(R.salemoney0, P.money0vat) AS [SaleCost],
-    ISNULL(R.salemoney1, P.money1)    AS [SalePrice],
-    ISNULL(R.salecount, 0)            AS [Margin],
-    
-    (
-        SELECT TOP 1 
-            '[' + M2.salename + '] ' + 
-            CONVERT(VARCHAR, CAST(R2.salemoney1 AS INT)) + '원 (' + 
-            M2.startday + '~' + M2.endday + ')'
-        FROM sale_ready R2 WITH(NOLOCK)
-        INNER JOIN sale_mast M2 WITH(NOLOCK) ON R2.junno = M2.junno
-        WHERE R2.barcode = P.barcode
-          AND LTRIM(RTRIM(R2.junno)) <> LTRIM(RTRIM(@Junno))
-          AND M2.isappl = '1'
-          AND (
-              REPLACE(M2.startday, '-', '') <= REPLACE(@MyEnd, '-', '') 
-              AND 
-              REPLACE(M2.endday, '-', '') >= REPLACE(@MyStart, '-', '')
-          )
-        ORDER BY M2.startday DESC
-    ) AS [WarningMsg],
-    (
-        SELECT TOP 1 R2.salemoney1
-        FROM sale_ready R2 WITH(NOLOCK)
-        INNER JOIN sale_mast M2 WITH(NOLOCK) ON R2.junno = M2.junno
-        WHERE R2.barcode = P.barcode
-          AND LTRIM(RTRIM(R2.junno)) <> LTRIM(RTRIM(@Junno))
-          AND M2.isappl = '1'
-          AND (
-              REPLACE(M2.startday, '-', '') <= REPLACE(@MyEnd, '-', '') 
-              AND 
-              REPLACE(M2.endday, '-', '') >= REPLACE(@MyStart, '-', '')
-          )
-        ORDER BY M2.startday DESC
-    ) AS [DuplicatePrice]
-
-FROM parts P WITH(NOLOCK)
-LEFT JOIN sale_ready R WITH(NOLOCK) 
-    ON P.barcode = R.barcode AND LTRIM(RTRIM(R.junno)) = LTRIM(RTRIM(@Junno))
-WHERE P.barcode = @Barcode
-`;
-
 const AddEventProductModal: React.FC<AddEventProductModalProps> = ({ 
     isOpen, onClose, junno, onSuccess, existingBarcodes, parentStatus = 'new', onSwitchToContinuousScan
 }) => {
@@ -142,7 +74,7 @@ const AddEventProductModal: React.FC<AddEventProductModalProps> = ({
             setWarning(null);
             
             try {
-                const res = await executeUserQuery('행사상품체크', { Junno: junno, Barcode: product.barcode }, CHECK_PRODUCT_EVENT_SQL);
+                const res = await executeNamedQuery('행사상품체크', { Junno: junno, Barcode: product.barcode });
                 
                 if (res && res.length > 0) {
                     const info = res[0];
@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { ApiEndpointProfile } from '../types';
+import { useAlert, useDeviceSettings } from '../context/AppContext';
+import { checkSqlConnection } from '../services/sqlService';
+import { getApiEndpointProfiles, getLastUsedEndpoint, normalizeEndpointUrl, validateEndpointUrl } from '../services/apiEndpointService';
+import { SpinnerIcon, XMarkIcon, TrashIcon, ChevronDownIcon, CheckCircleIcon, WarningIcon } from './Icons';
+import ToggleSwitch from './ToggleSwitch';
+
+type TestResult = { ok: boolean; message: string; latencyMs?: number };
+
+const EndpointItem: React.FC<{
+    profile: ApiEndpointProfile;
+    index: number;
+    count: number;
+    isInUse: boolean;
+    testResult?: TestResult | 'testing';
+    onChange: (patch: Partial<ApiEndpointProfile>) => void;
+    onMove: (offset: number) => void;
+    onRemove: () => void;
+    onTest: () => void;
+}> = ({ profile, index, count, isInUse, testResult, onChange, onMove, onRemove, onTest }) => (
+    <div className="p-3 space-y-2">
+        <div className="flex items-center gap-2">
+            <span className="w-5 h-5 flex-shrink-0 flex items-center justify-center rounded-full bg-gray-100 text-[10px] font-black text-gray-500">{index + 1}</span>
+            <input
+                value={profile.name}
+                onChange={e => onChange({ name: e.target.value })}
+                placeholder="이름"
+                className="flex-grow min-w-0 p-1.5 text-sm font-bold border border-gray-300 rounded-lg focus:ring-1 focus:ring-blue-500 text-gray-800"
+            />
+            {isInUse && <span className="flex-shrink-0 text-[10px] font-black text-blue-600">사용 중</span>}
+            <ToggleSwitch id={`endpoint-${profile.id}`} label="" checked={profile.enabled} onChange={checked => onChange({ enabled: checked })} />
+        </div>
+        <input
+            value={profile.url}
+            onChange={e => onChange({ url: e.target.value })}
+            onBlur={() => onChange({ url: normalizeEndpointUrl(profile.url) })}
+            placeholder="https://192.168.0.10:3443/api/sql"
+            inputMode="url"
+            autoCapitalize="off"
+            autoCorrect="off"
+            className="w-full p-1.5 text-xs font-mono border border-gray-300 rounded-lg focus:ring-1 focus:ring-blue-500 text-gray-700"
+        />
+        <div className="flex items-center gap-1">
+            <button onClick={() => onMove(-1)} disabled={index === 0} className="p-1.5 text-gray-500 bg-gray-100 rounded-lg disabled:opacity-30" aria-label="위로">
+                <ChevronDownIcon className="w-4 h-4 rotate-180" />
+            </button>
+            <button onClick={() => onMove(1)} disabled={index === count - 1} className="p-1.5 text-gray-500 bg-gray-100 rounded-lg disabled:opacity-30" aria-label="아래로">
+                <ChevronDownIcon className="w-4 h-4" />
+            </button>
+            <button onClick={onTest} disabled={testResult === 'testing'} className="px-2.5 py-1.5 text-[11px] font-black text-blue-600 bg-blue-50 rounded-lg active:scale-95 disabled:opacity-50">
+                연결 테스트
+            </button>
+            <div className="flex-grow min-w-0 text-[10px] font-bold truncate">
+                {testResult === 'testing' && <SpinnerIcon className="w-4 h-4 text-blue-500" />}
+                {testResult && testResult !== 'testing' && (
+                    <span className={`flex items-center gap-1 ${testResult.ok ? 'text-emerald-600' : 'text-rose-500'}`} title={testResult.message}>
+                        {testResult.ok ? <CheckCircleIcon className="w-3.5 h-3.5 flex-shrink-0" /> : <WarningIcon className="w-3.5 h-3.5 flex-shrink-0" />}
+                        <span className="truncate">{testResult.ok ? `연결됨 (${testResult.latencyMs}ms)` : testResult.message}</span>
+                    </span>
+                )}
+            </div>
+            <button onClick={onRemove} disabled={count === 1} className="p-1.5 text-gray-400 hover:bg-rose-50 hover:text-rose-500 rounded-full disabled:opacity-30" aria-label="삭제">
+                <TrashIcon className="w-4 h-4" />
+            </button>
+        </div>
+    </div>
+);
+
+interface ApiEndpointModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const ApiEndpointModal: React.FC<ApiEndpointModalProps> = ({ isOpen, onClose }) => {
+    const { apiEndpoints, setApiEndpoints } = useDeviceSettings();
+    const { showAlert, showToast } = useAlert();
+    const [isRendered, setIsRendered] = useState(false);
+    const [drafts, setDrafts] = useState<ApiEndpointProfile[]>([]);
+    const [testResults, setTestResults] = useState<Record<string, TestResult | 'testing'>>({});
+
+    useEffect(() => {
+        if (isOpen) {
+            const timer = setTimeout(() => setIsRendered(true), 10);
+            // 기기에 지정한 목록이 없으면 현재 적용 중인 목록(공통 설정 또는 기본값)으로 시작합니다.
+            setDrafts((apiEndpoints || getApiEndpointProfiles()).map(p => ({ ...p })));
+            setTestResults({});
+            return () => clearTimeout(timer);
+        } else {
+            setIsRendered(false);
+        }
+    }, [isOpen, apiEndpoints]);
+
+    const updateDraft = (id: string, patch: Partial<ApiEndpointProfile>) => {
+        setDrafts(prev => prev.map(p => p.id === id ? { ...p, ...patch } : p));
+        if (patch.url !== undefined) setTestResults(prev => { const { [id]: _, ...rest } = prev; return rest; });
+    };
+
+    const moveDraft = (index: number, offset: number) => {
+        setDrafts(prev => {
+            const next = [...prev];
+            const [item] = next.splice(index, 1);
+            next.splice(index + offset, 0, item);
+            return next;
+        });
+    };
+
+    const addDraft = () => {
+        setDrafts(prev => [...prev, { id: `ep_${Date.now().toString(36)}`, name: '매장 서버', url: '', enabled: true }]);
+    };
+
+    const handleTest = async (profile: ApiEndpointProfile) => {
+        const invalid = validateEndpointUrl(profile.url);
+        if (invalid) {
+            setTestResults(prev => ({ ...prev, [profile.id]: { ok: false, message: invalid } }));
+            return;
+        }
+        setTestResults(prev => ({ ...prev, [profile.id]: 'testing' }));
+        const startedAt = Date.now();
+        let result: TestResult;
+        try {
+            const response = await checkSqlConnection(profile.url);
+            result = response.success
+                ? { ok: true, message: response.message, latencyMs: Date.now() - startedAt }
+                : { ok: false, message: response.message || '연결 실패' };
+        } catch (e: any) {
+            result = { ok: false, message: e.message || '연결 실패' };
+        }
+        setTestResults(prev => ({ ...prev, [profile.id]: result }));
+    };
+
+    const handleSave = async () => {
+        for (const profile of drafts) {
+            const invalid = validateEndpointUrl(profile.url);
+            if (invalid) {
+                showAlert(`'${profile.name || '이름 없음'}': ${invalid}`);
+                return;
+            }
+        }
+        if (!drafts.some(p => p.enabled)) {
+            showAlert('사용할 서버를 하나 이상 켜주세요.');
+            return;
+        }
+        await setApiEndpoints(drafts.map(p => ({ ...p, name: p.name.trim() || '이름 없음', url: normalizeEndpointUrl(p.url) })));
+        showToast('서버 주소가 저장되었습니다.', 'success');
+        onClose();
+    };
+
+    const handleResetToCommon = () => {
+        showAlert('이 기기의 서버 주소 설정을 지우고 공통 설정을 따르시겠습니까?', async () => {
+            await setApiEndpoints(undefined);
+            showToast('공통 설정을 따릅니다.', 'success');
+            onClose();
+        }, '되돌리기');
+    };
+
+    if (!isOpen) return null;
+
+    const inUseUrl = getLastUsedEndpoint()?.url;
+
+    return (
+        <div
+            className={`fixed inset-0 bg-black z-[80] transition-opacity duration-300 ${isRendered ? 'bg-opacity-50' : 'bg-opacity-0'}`}
+            onClick={onClose}
+            role="dialog"
+            aria-modal="true"
+        >
+            <div
+                style={{ top: 'calc(env(safe-area-inset-top) + 1rem)', bottom: '1rem' }}
+                className={`absolute left-1/2 -translate-x-1/2 w-[95%] max-w-2xl flex flex-col bg-gray-50 shadow-lg transition-[opacity,transform] duration-500 ease-[cubic-bezier(0.32,1.25,0.37,1.02)] ${isRendered ? 'opacity-100 scale-100' : 'opacity-0 scale-95'} rounded-xl will-change-[opacity,transform]`}
+                onClick={e => e.stopPropagation()}
+            >
+                <header className="relative bg-white p-4 flex-shrink-0 border-b border-gray-200 z-20 rounded-t-xl flex items-center justify-center">
+                    <h2 className="text-lg font-bold text-gray-800">서버 주소</h2>
+                    <button onClick={onClose} className="absolute top-1/2 right-4 -translate-y-1/2 p-2 text-gray-500 hover:bg-gray-200 rounded-full transition-colors" aria-label="닫기">
+                        <XMarkIcon className="w-6 h-6"/>
+                    </button>
+                </header>
+
+                <main className="flex-grow overflow-y-auto">
+                    <p className="px-4 py-2 text-[11px] text-gray-500 leading-snug">
+                        위에서부터 순서대로 연결하며, 연결할 수 없으면 다음 서버로 요청합니다.
+                        {!apiEndpoints && ' 현재 공통 설정을 따르고 있습니다.'}
+                    </p>
+                    <div className="divide-y divide-gray-200 bg-white border-y border-gray-200">
+                        {drafts.map((profile, index) => (
+                            <EndpointItem
+                                key={profile.id}
+                                profile={profile}
+                                index={index}
+                                count={drafts.length}
+                                isInUse={!!inUseUrl && normalizeEndpointUrl(profile.url) === inUseUrl}
+                                testResult={testResults[profile.id]}
+                                onChange={patch => updateDraft(profile.id, patch)}
+                                onMove={offset => moveDraft(index, offset)}
+                                onRemove={() => setDrafts(prev => prev.filter(p => p.id !== profile.id))}
+                                onTest={() => handleTest(profile)}
+                            />
+                        ))}
+                    </div>
+                    <button onClick={addDraft} className="w-full py-3 text-[12px] font-black text-blue-600 active:bg-blue-50">+ 서버 추가</button>
+                </main>
+
+                <footer className="p-3 bg-white border-t border-gray-200 flex-shrink-0 rounded-b-xl flex gap-2">
+                    {apiEndpoints && (
+                        <button onClick={handleResetToCommon} className="px-4 py-3 bg-white border border-gray-200 text-gray-500 rounded-xl text-xs font-black active:scale-95 transition-all">
+                            공통 설정으로
+                        </button>
+                    )}
+                    <button onClick={handleSave} className="flex-grow py-3 bg-blue-600 text-white rounded-xl font-bold active:scale-95 shadow-sm transition-all text-sm">
+                        저장
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default ApiEndpointModal;
@@ -1,8 +1,11 @@
 
 import React, { useState, useEffect } from 'react';
-import { useDataActions, useAlert } from '../context/AppContext';
+import { useDataActions, useAlert, useDeviceSettings } from '../context/AppContext';
+import { buildRetentionPolicies, applyRetention, RetentionReport } from '../services/retentionService';
 import { SpinnerIcon } from './Icons';
 
+type ClearOption = 'all' | 'beforeDate' | 'retention';
+
 interface ClearHistoryModalProps {
     isOpen: boolean;
     onClose: () => void;
@@ -10,11 +13,14 @@ interface ClearHistoryModalProps {
 
 const ClearHistoryModal: React.FC<ClearHistoryModalProps> = ({ isOpen, onClose }) => {
     const [isRendered, setIsRendered] = useState(false);
-    const [clearOption, setClearOption] = useState<'all' | 'beforeDate'>('beforeDate');
+    const [clearOption, setClearOption] = useState<ClearOption>('beforeDate');
     const [date, setDate] = useState(new Date().toISOString().slice(0, 10));
     const [isLoading, setIsLoading] = useState(false);
+    const [preview, setPreview] = useState<RetentionReport[] | null>(null);
+    const [isPreviewLoading, setIsPreviewLoading] = useState(false);
     const { clearOrders, clearOrdersBeforeDate } = useDataActions();
     const { showAlert, showToast } = useAlert();
+    const { logRetentionDays } = useDeviceSettings();
 
     useEffect(() => {
         if (isOpen) {
@@ -23,12 +29,27 @@ const ClearHistoryModal: React.FC<ClearHistoryModalProps> = ({ isOpen, onClose }
             setDate(new Date().toISOString().slice(0, 10));
             setClearOption('beforeDate');
             setIsLoading(false);
+            setPreview(null);
             return () => clearTimeout(timer);
         } else {
             setIsRendered(false);
         }
     }, [isOpen]);
 
+    // 보관 정책 적용을 선택하면 실제로 삭제하지 않고 삭제 예정 건수를 먼저 계산합니다.
+    useEffect(() => {
+        if (!isOpen || clearOption !== 'retention') return;
+        let cancelled = false;
+        setIsPreviewLoading(true);
+        applyRetention(buildRetentionPolicies(logRetentionDays), { dryRun: true })
+            .then(reports => { if (!cancelled) setPreview(reports); })
+            .catch(err => { if (!cancelled) { console.error("Retention preview failed:", err); setPreview([]); } })
+            .finally(() => { if (!cancelled) setIsPreviewLoading(false); });
+        return () => { cancelled = true; };
+    }, [isOpen, clearOption, logRetentionDays]);
+
+    const previewTotal = preview ? preview.reduce((sum, r) => sum + r.deleted, 0) : 0;
+
     const handleConfirm = () => {
         if (clearOption === 'all') {
             showAlert(
@@ -48,6 +69,30 @@ const ClearHistoryModal: React.FC<ClearHistoryModalProps> = ({ isOpen, onClose }
                 '전체 삭제',
                 'bg-rose-500 hover:bg-rose-600 focus:ring-rose-500'
             );
+        } else if (clearOption === 'retention') {
+            showAlert(
+                `보관 기간(${logRetentionDays}일)이 지난 기록 ${previewTotal}건을 삭제하시겠습니까?\n미전송 발주/입고 내역은 삭제되지 않습니다.`,
+                async () => {
+                    setIsLoading(true);
+                    try {
+                        const reports = await applyRetention(buildRetentionPolicies(logRetentionDays));
+                        const deleted = reports.reduce((sum, r) => sum + r.deleted, 0);
+                        const failed = reports.filter(r => r.error);
+                        if (failed.length > 0) {
+                            showAlert(`일부 항목 정리에 실패했습니다.\n${failed.map(r => `${r.label}: ${r.error}`).join('\n')}`);
+                        } else {
+                            showToast(`${deleted}건의 기록이 정리되었습니다.`, 'success');
+                        }
+                        onClose();
+                    } catch (err) {
+                        showAlert("보관 기간 정리에 실패했습니다.");
+                    } finally {
+                        setIsLoading(false);
+                    }
+                },
+                '정리',
+                'bg-rose-500 hover:bg-rose-600 focus:ring-rose-500'
+            );
         } else if (clearOption === 'beforeDate') {
             const targetDate = new Date(date);
             // Set time to end of day to include all orders on that day
@@ -76,7 +121,7 @@ const ClearHistoryModal: React.FC<ClearHistoryModalProps> = ({ isOpen, onClose }
 
     if (!isOpen) return null;
 
-    const RadioOption: React.FC<{ value: 'all' | 'beforeDate'; label: string }> = ({ value, label }) => (
+    const RadioOption: React.FC<{ value: ClearOption; label: string }> = ({ value, label }) => (
         <label
             htmlFor={`clear-${value}`}
             className={`flex items-center p-4 border-2 rounded-xl cursor-pointer transition-all duration-200 ${
@@ -116,6 +161,28 @@ const ClearHistoryModal: React.FC<ClearHistoryModalProps> = ({ isOpen, onClose }
                                 />
                                 <p className="text-xs text-gray-500 mt-2">선택한 날짜를 포함하여 그 이전의 모든 발주 내역이 삭제됩니다.</p>
                             </div>
+                        )}
+                        <RadioOption value="retention" label={logRetentionDays > 0 ? `보관 기간 정책 적용 (${logRetentionDays}일)` : '보관 기간 정책 적용 (사용 안 함)'} />
+                        {clearOption === 'retention' && (
+                            <div className="pl-4 animate-fade-in-down">
+                                {isPreviewLoading ? (
+                                    <div className="flex items-center gap-2 text-xs text-gray-500"><SpinnerIcon className="w-4 h-4 text-blue-500" /> 삭제 대상 확인 중...</div>
+                                ) : preview && preview.length > 0 ? (
+                                    <ul className="text-xs text-gray-600 space-y-1">
+                                        {preview.map(r => (
+                                            <li key={r.collection} className="flex justify-between gap-2">
+                                                <span className="truncate">{r.label}</span>
+                                                <span className={`flex-shrink-0 font-bold ${r.error ? 'text-rose-500' : r.deleted > 0 ? 'text-rose-600' : 'text-gray-400'}`}>
+                                                    {r.error ? '확인 실패' : `${r.deleted} / ${r.scanned}건`}
+                                                    {r.keptUnsent > 0 && <span className="font-normal text-amber-600"> (미전송 {r.keptUnsent} 보관)</span>}
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                ) : (
+                                    <p className="text-xs text-gray-500">설정에서 보관 기간을 지정하면 사용할 수 있습니다.</p>
+                                )}
+                            </div>
                         )}
                          <RadioOption value="all" label="전체 내역 삭제" />
                     </div>
@@ -130,7 +197,7 @@ const ClearHistoryModal: React.FC<ClearHistoryModalProps> = ({ isOpen, onClose }
                     </button>
                     <button
                         onClick={handleConfirm}
-                        disabled={isLoading || (clearOption === 'beforeDate' && !date)}
+                        disabled={isLoading || (clearOption === 'beforeDate' && !date) || (clearOption === 'retention' && (isPreviewLoading || previewTotal === 0))}
                         className="relative text-white px-6 py-2 rounded-lg font-bold bg-rose-600 hover:bg-rose-700 focus:outline-none focus:ring-2 focus:ring-rose-500 transition active:scale-95 disabled:bg-rose-400 disabled:cursor-not-allowed flex items-center justify-center"
                     >
                         <span className={isLoading ? 'opacity-0' : 'opacity-100'}>삭제 실행</span>
@@ -2,7 +2,7 @@
 import React, { useState, useEffect } from 'react';
 import ActionModal from './ActionModal';
 import { SearchIcon, UserCircleIcon, SpinnerIcon, ChevronDownIcon, CalendarIcon } from './Icons';
-import { querySql } from '../services/sqlService';
+import { executeUserQuery, executeNamedQuery } from '../services/sqlService';
 import { useAlert } from '../context/AppContext';
 import { subscribeToUserQueries } from '../services/dbService';
 
@@ -15,6 +15,7 @@ interface UserQuery {
     id: string;
     name: string;
     query: string;
+    paramTypes?: Record<string, string>;
 }
 
 interface QuerySqlResponse {
@@ -37,6 +38,10 @@ const normalizeDate = (input: any): string => {
     return str;
 };
 
+// 입력값은 쿼리 문자열에 붙이지 않고 파라미터로 전달합니다. (쿼리에서 쓰는 @변수만 대소문자 구분 없이 전달됨)
+const runUserQuery = (userQuery: UserQuery, params: Record<string, string>) =>
+    executeUserQuery(userQuery.name, params, userQuery.query.replace(/`/g, ''), userQuery.paramTypes);
+
 const CustomerSearchModal: React.FC<CustomerSearchModalProps> = ({ isOpen, onClose }) => {
     const { showToast } = useAlert();
     const [userQueries, setUserQueries] = useState<UserQuery[]>([]);
@@ -87,21 +92,22 @@ const CustomerSearchModal: React.FC<CustomerSearchModalProps> = ({ isOpen, onClo
         if (!searchInput.trim()) return;
 
         const targetQueryName = '고객검색';
-        const defaultSearchQuery = `SELECT comcode as [고객번호], comname as [고객명], tel as [전화번호], point as [포인트] FROM comp WITH(NOLOCK) WHERE isuse <> '0' AND (comname LIKE '%@kw%' OR comcode LIKE '%@kw%' OR tel LIKE '%@kw%')`;
-        
         const userQuery = userQueries.find(q => q.name === targetQueryName);
-        const queryToUse = userQuery ? userQuery.query : defaultSearchQuery;
 
         setStatus('loading');
         setResults(null);
         
         try {
-            const kw = searchInput.trim().replace(/'/g, "''");
-            let sql = queryToUse.replace(/@kw\b/g, kw);
-            sql = sql.replace(/`/g, '');
-
-            const data = await querySql(sql, new AbortController().signal);
-            setResults(data);
+            // 사용자 쿼리가 없으면 서버에 등록된 기본 고객검색 쿼리를 사용
+            if (!userQuery) {
+                const recordset = await executeNamedQuery(targetQueryName, { kw: searchInput.trim() });
+                setResults({ recordset });
+                setStatus('success');
+                return;
+            }
+
+            const recordset = await runUserQuery(userQuery, { kw: searchInput.trim() });
+            setResults({ recordset });
             setStatus('success');
         } catch (err) {
             console.error(err);
@@ -125,16 +131,8 @@ const CustomerSearchModal: React.FC<CustomerSearchModalProps> = ({ isOpen, onClo
         }
         
         try {
-            // Case-insensitive replace for parameters used in the template
-            let sql = userQuery.query
-                .replace(/@startDate\b/gi, `'${start.replace(/'/g, "''")}'`)
-                .replace(/@endDate\b/gi, `'${end.replace(/'/g, "''")}'`)
-                .replace(/@target\b/gi, `'${customerId.replace(/'/g, "''")}'`);
-            
-            sql = sql.replace(/`/g, '');
-
-            const data = await querySql(sql, new AbortController().signal);
-            setDetailResults(data);
+            const recordset = await runUserQuery(userQuery, { startDate: start, endDate: end, target: customerId });
+            setDetailResults({ recordset });
             setDetailStatus('success');
         } catch (err) {
             console.error("Sales list query failed:", err);
@@ -219,14 +217,8 @@ const CustomerSearchModal: React.FC<CustomerSearchModalProps> = ({ isOpen, onClo
         }
         
         try {
-            let sql = userQuery.query
-                .replace(/@searchDate\b|@date\b/gi, `'${date}'`)
-                .replace(/@searchPos\b|@pos\b/gi, `'${pos}'`)
-                .replace(/@searchJunno\b|@junno\b/gi, `'${junno}'`);
-            sql = sql.replace(/`/g, '');
-
-            const data = await querySql(sql, new AbortController().signal);
-            setRowDetails(prev => ({ ...prev, [rowKey]: { status: 'success', data: data.recordset || [] } }));
+            const data = await runUserQuery(userQuery, { searchDate: date, date, searchPos: pos, pos, searchJunno: junno, junno });
+            setRowDetails(prev => ({ ...prev, [rowKey]: { status: 'success', data } }));
         } catch (err: any) {
             setRowDetails(prev => ({ ...prev, [rowKey]: { status: 'error', data: [], error: err.message || '오류 발생' } }));
         }
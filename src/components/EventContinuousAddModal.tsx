@@ -2,7 +2,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { createPortal } from 'react-dom';
 import { useAlert } from '../context/AppContext';
-import { executeUserQuery } from '../services/sqlService';
+import { executeNamedQuery } from '../services/sqlService';
 import { Product } from '../types';
 import { SpinnerIcon, XCircleIcon, CheckCircleIcon, SaveIcon, SparklesIcon, PencilSquareIcon, WarningIcon } from './Icons';
 
@@ -16,47 +16,6 @@ interface EventContinuousAddModalProps {
     parentStatus?: 'new' | '0' | '1' | '2';
 }
 
-const CHECK_PRODUCT_EVENT_SQL = `
--- [행사상품 상세조회 및 중복체크]
-DECLARE @MyStart VARCHAR(10)
-DECLARE @MyEnd VARCHAR(10)
-
-SELECT @MyStart = startday, @MyEnd = endday
-FROM sale_mast WITH(NOLOCK)
-WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))
-
-SELECT 
-    P.descr      AS [GoodsName],
-    P.spec       AS [Spec],
-    P.money0vat  AS [Cost],
-    P.money1     AS [Price],
-    @MyStart     AS [MyStart],
-    CASE WHEN R.junno IS NOT NULL THEN 'UPDATE' ELSE 'INSERT' END AS [Mode],
-    ISNULL(R.salemoney0, P.money0vat) AS [SaleCost],
-    ISNULL(R.salemoney1, P.money1)    AS [SalePrice],
-    (
-        SELECT TOP 1 '[' + M2.salename + '] ' + CONVERT(VARCHAR, CAST(R2.salemoney1 AS INT)) + '원'
-        FROM sale_ready R2 WITH(NOLOCK)
-        INNER JOIN sale_mast M2 WITH(NOLOCK) ON R2.junno = M2.junno
-        WHERE R2.barcode = P.barcode
-          AND LTRIM(RTRIM(R2.junno)) <> LTRIM(RTRIM(@Junno))
-          AND M2.isappl = '1'
-          AND (REPLACE(M2.startday, '-', '') <= REPLACE(@MyEnd, '-', '') AND REPLACE(M2.endday, '-', '') >= REPLACE(@MyStart, '-', ''))
-        ORDER BY M2.startday DESC
-    ) AS [WarningMsg],
-    (
-        SELECT TOP 1 R2.salemoney1
-        FROM sale_ready R2 WITH(NOLOCK)
-        INNER JOIN sale_mast M2 WITH(NOLOCK) ON R2.junno = M2.junno
-        WHERE R2.barcode = P.barcode AND LTRIM(RTRIM(R2.junno)) <> LTRIM(RTRIM(@Junno))
-        ORDER BY M2.endday DESC
-    ) AS [PreviousSalePrice]
-FROM parts P WITH(NOLOCK)
-LEFT JOIN sale_ready R WITH(NOLOCK) 
-    ON P.barcode = R.barcode AND LTRIM(RTRIM(R.junno)) = LTRIM(RTRIM(@Junno))
-WHERE P.barcode = @Barcode
-`;
-
 const EventContinuousAddModal: React.FC<EventContinuousAddModalProps> = ({ 
     isOpen, onClose, onSave, product, junno, existingBarcodes
 }) => {
@@ -83,7 +42,7 @@ const EventContinuousAddModal: React.FC<EventContinuousAddModalProps> = ({
             setSaleCost(''); setSalePrice('');
             
             if (product) {
-                executeUserQuery('행사상품체크', { Junno: junno, Barcode: product.barcode }, CHECK_PRODUCT_EVENT_SQL)
+                executeNamedQuery('행사상품체크_연속스캔', { Junno: junno, Barcode: product.barcode })
                     .then(res => {
                         if (res && res.length > 0) {
                             const info = res[0];
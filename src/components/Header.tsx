@@ -2,10 +2,15 @@
 import React, { useState, useEffect } from 'react';
 import { useFullscreenStatus } from '../hooks/useFullscreenStatus';
 import { ExitFullscreenIcon } from './Icons';
+import { useAlert, useConnectivity, useDeviceSettings } from '../context/AppContext';
 
 const Header: React.FC = () => {
     const isFullscreen = useFullscreenStatus();
+    const { dataSourceSettings } = useDeviceSettings();
+    const { activeDataSource, lastSwitch } = useConnectivity();
+    const { showToast } = useAlert();
     const [currentTime, setCurrentTime] = useState(new Date());
+    const switchReason = activeDataSource.reason || lastSwitch?.reason || null;
 
     useEffect(() => {
         const timeTimerId = setInterval(() => setCurrentTime(new Date()), 10000);
@@ -15,6 +20,14 @@ const Header: React.FC = () => {
         };
     }, []);
 
+    const handleShowSwitchReason = () => {
+        if (activeDataSource.autoSwitched) showToast(`로컬 데이터 사용 중: ${switchReason || '서버 연결 불안정'}`, 'error');
+        else {
+            const source = activeDataSource.productInquiry === 'online' ? '서버' : '로컬';
+            showToast(lastSwitch ? `${source} 데이터 사용 중 (최근 전환: ${lastSwitch.reason})` : `${source} 데이터 사용 중`, 'success');
+        }
+    };
+
     const handleExitFullscreen = async () => {
         const exitFullscreen =
             document.exitFullscreen ||
@@ -36,6 +49,24 @@ const Header: React.FC = () => {
         <header id="app-header" className="bg-white px-4 flex justify-between items-center h-14 flex-shrink-0 border-b border-gray-200 sticky top-0 z-30">
             <div className="flex items-center gap-3 min-w-0">
                 <h1 className="text-xl font-extrabold text-slate-800 tracking-tight flex-shrink-0">KJ Mart</h1>
+                {dataSourceSettings.autoSwitch && (
+                    // 자동 전환 사용 시 현재 상품 조회에 쓰이는 데이터 소스를 표시합니다.
+                    // 터치 화면에서는 title 툴팁이 보이지 않으므로 전환 사유를 옆에 표시하고, 누르면 전체 사유를 알려줍니다.
+                    <button
+                        type="button"
+                        onClick={handleShowSwitchReason}
+                        className="flex items-center gap-1.5 min-w-0"
+                        title={switchReason || undefined}
+                    >
+                        <span className={`text-[11px] font-bold px-2 py-0.5 rounded-full flex-shrink-0 ${activeDataSource.autoSwitched ? 'bg-amber-100 text-amber-700' : 'bg-slate-100 text-slate-500'}`}>
+                            {activeDataSource.productInquiry === 'online' ? '서버' : '로컬'}
+                            {activeDataSource.autoSwitched && ' (자동)'}
+                        </span>
+                        {activeDataSource.autoSwitched && switchReason && (
+                            <span className="text-[11px] text-amber-700 truncate">{switchReason}</span>
+                        )}
+                    </button>
+                )}
             </div>
             
             <div className="flex items-center space-x-3">
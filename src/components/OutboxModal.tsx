@@ -0,0 +1,145 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { OutboxEntry } from '../types';
+import { getOutboxEntries, removeOutboxEntry, retryOutboxEntry, replayOutbox, subscribeOutbox } from '../services/outboxService';
+import { useAlert, useMiscUI } from '../context/AppContext';
+import { SpinnerIcon, XMarkIcon, TrashIcon, UndoIcon, WarningIcon, HistoryIcon } from './Icons';
+
+const OutboxItem: React.FC<{ entry: OutboxEntry; onRetry: () => void; onRemove: () => void }> = ({ entry, onRetry, onRemove }) => {
+    const isConflict = entry.status === 'conflict';
+    return (
+        <div className="p-4 flex items-start gap-3">
+            <div className={`mt-0.5 flex-shrink-0 w-6 h-6 flex items-center justify-center rounded-full ${isConflict ? 'bg-rose-100' : 'bg-amber-100'}`}>
+                {isConflict ? <WarningIcon className="w-4 h-4 text-rose-500" /> : <HistoryIcon className="w-4 h-4 text-amber-500" />}
+            </div>
+            <div className="flex-grow min-w-0">
+                <p className="font-semibold text-gray-800 truncate" title={entry.label}>{entry.label}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                    {new Date(entry.createdAt).toLocaleString('ko-KR', { dateStyle: 'short', timeStyle: 'short' })}
+                    {entry.statements && ` · ${entry.statements.length}건 일괄`}
+                    {entry.attempts > 0 && ` · 시도 ${entry.attempts}회`}
+                </p>
+                {entry.lastError && <p className={`text-xs mt-1 break-all ${isConflict ? 'text-rose-600 font-bold' : 'text-gray-400'}`}>{entry.lastError}</p>}
+            </div>
+            <div className="flex-shrink-0 flex items-center gap-1">
+                {isConflict && (
+                    <button onClick={onRetry} className="p-2 text-blue-500 hover:bg-blue-50 rounded-full" aria-label="다시 전송">
+                        <UndoIcon className="w-4 h-4" />
+                    </button>
+                )}
+                <button onClick={onRemove} className="p-2 text-gray-400 hover:bg-rose-50 hover:text-rose-500 rounded-full" aria-label="삭제">
+                    <TrashIcon className="w-4 h-4" />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+interface OutboxModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const OutboxModal: React.FC<OutboxModalProps> = ({ isOpen, onClose }) => {
+    const { showAlert, showToast } = useAlert();
+    const { checkSql } = useMiscUI();
+    const [isRendered, setIsRendered] = useState(false);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isReplaying, setIsReplaying] = useState(false);
+    const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+    const loadEntries = useCallback(async () => {
+        try {
+            setEntries(await getOutboxEntries());
+        } catch (error) {
+            console.error("Failed to load outbox entries:", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (isOpen) {
+            const timer = setTimeout(() => setIsRendered(true), 10);
+            setIsLoading(true);
+            loadEntries();
+            const unsubscribe = subscribeOutbox(loadEntries);
+            return () => { clearTimeout(timer); unsubscribe(); };
+        } else {
+            setIsRendered(false);
+        }
+    }, [isOpen, loadEntries]);
+
+    const handleReplay = async () => {
+        if (isReplaying) return;
+        setIsReplaying(true);
+        try {
+            if (!(await checkSql())) {
+                showAlert('SQL 서버에 연결할 수 없습니다. 연결되면 자동으로 전송됩니다.');
+                return;
+            }
+            const result = await replayOutbox();
+            showToast(`전송 ${result.sent}건${result.conflicts > 0 ? `, 거부 ${result.conflicts}건` : ''}${result.remaining > 0 ? `, 대기 ${result.remaining}건` : ''}`, result.conflicts > 0 ? 'error' : 'success');
+        } catch (e: any) {
+            showAlert(`전송 실패: ${e.message}`);
+        } finally {
+            setIsReplaying(false);
+        }
+    };
+
+    const handleRemove = (entry: OutboxEntry) => {
+        showAlert(`'${entry.label}' 항목을 대기열에서 삭제하시겠습니까?\n삭제하면 서버에 반영되지 않습니다.`, () => removeOutboxEntry(entry.id!), '삭제', 'bg-rose-500');
+    };
+
+    if (!isOpen) return null;
+
+    const pendingCount = entries.filter(e => e.status === 'pending').length;
+
+    return (
+        <div
+            className={`fixed inset-0 bg-black z-[80] transition-opacity duration-300 ${isRendered ? 'bg-opacity-50' : 'bg-opacity-0'}`}
+            onClick={onClose}
+            role="dialog"
+            aria-modal="true"
+        >
+            <div
+                style={{ top: 'calc(env(safe-area-inset-top) + 1rem)', bottom: '1rem' }}
+                className={`absolute left-1/2 -translate-x-1/2 w-[95%] max-w-2xl flex flex-col bg-gray-50 shadow-lg transition-[opacity,transform] duration-500 ease-[cubic-bezier(0.32,1.25,0.37,1.02)] ${isRendered ? 'opacity-100 scale-100' : 'opacity-0 scale-95'} rounded-xl will-change-[opacity,transform]`}
+                onClick={e => e.stopPropagation()}
+            >
+                <header className="relative bg-white p-4 flex-shrink-0 border-b border-gray-200 z-20 rounded-t-xl flex items-center justify-center">
+                    <h2 className="text-lg font-bold text-gray-800">전송 대기열</h2>
+                    <button onClick={onClose} className="absolute top-1/2 right-4 -translate-y-1/2 p-2 text-gray-500 hover:bg-gray-200 rounded-full transition-colors" aria-label="닫기">
+                        <XMarkIcon className="w-6 h-6"/>
+                    </button>
+                </header>
+
+                <main className="flex-grow overflow-y-auto">
+                    {isLoading ? (
+                        <div className="flex items-center justify-center h-full">
+                            <SpinnerIcon className="w-10 h-10 text-blue-500" />
+                        </div>
+                    ) : entries.length === 0 ? (
+                        <div className="text-center p-8 text-gray-500">
+                            <p className="font-semibold">대기 중인 전송이 없습니다.</p>
+                        </div>
+                    ) : (
+                        <div className="divide-y divide-gray-200 bg-white">
+                            {entries.map(entry => (
+                                <OutboxItem key={entry.id} entry={entry} onRetry={() => retryOutboxEntry(entry)} onRemove={() => handleRemove(entry)} />
+                            ))}
+                        </div>
+                    )}
+                </main>
+
+                <footer className="p-3 bg-white border-t border-gray-200 flex-shrink-0 rounded-b-xl">
+                    <button onClick={handleReplay} disabled={isReplaying || pendingCount === 0} className="w-full flex items-center justify-center gap-2 py-3 bg-blue-600 text-white rounded-xl font-bold active:scale-95 disabled:bg-gray-300 shadow-sm transition-all text-sm">
+                        {isReplaying && <SpinnerIcon className="w-4 h-4 animate-spin text-white" />}
+                        <span>{pendingCount > 0 ? `지금 전송 (${pendingCount}건)` : '전송할 항목 없음'}</span>
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default OutboxModal;
@@ -102,7 +102,7 @@ const ReceivingBackupModal: React.FC<ReceivingBackupModalProps> = ({ isOpen, onC
             return;
         }
         showAlert(
-            `${selectedBatchIds.size}건의 입고 내역을 기기로 불러오시겠습니까?\n(새로운 미전송 전표로 복사됩니다)`,
+            `${selectedBatchIds.size}건의 입고 내역을 기기로 불러오시겠습니까?\n(새로운 미전송 전표로 복사되며, 이미 서버에 입고된 품목은 다시 전송해도 중복 등록되지 않습니다)`,
             async () => {
                 setIsProcessing(true);
                 let successCount = 0;
@@ -120,6 +120,7 @@ const ReceivingBackupModal: React.FC<ReceivingBackupModalProps> = ({ isOpen, onC
                             const recoveredBatch: ReceivingBatch = { 
                                 ...batch, 
                                 id: newId, 
+                                originId: batch.originId ?? batch.id,
                                 status: 'draft',
                                 sentAt: undefined // 전송 기록 초기화
                             };
@@ -1,14 +1,17 @@
 
 import React, { createContext, useState, useCallback, useEffect, ReactNode, useContext, useMemo, useRef } from 'react';
-import { DeviceSettings, ScannerContext as ScannerContextType, ScannerOptions, ReceivingDraft } from '../types';
+import { DeviceSettings, ScannerContext as ScannerContextType, ScannerOptions, ReceivingDraft, ServerDiagnostics } from '../types';
 import { useAuth } from './AuthContext';
-import { checkSqlConnection } from '../services/sqlService';
+import { getServerDiagnostics } from '../services/sqlService';
 import { syncAndCacheDbSchema } from '../services/schemaService';
 import * as cache from '../services/cacheDbService';
-import { cleanupOldReceivingBatches } from '../services/dbService';
+import { runScheduledRetention } from '../services/retentionService';
 import * as receiveDb from '../services/receiveDbService';
 import * as db from '../services/dbService';
 import { getDraft } from '../services/draftDbService';
+import { createSyncScheduler } from '../services/syncScheduler';
+import { getOutboxEntries, replayOutbox, subscribeOutbox } from '../services/outboxService';
+import { ConnectivitySnapshot, ActiveDataSource, getConnectivitySnapshot, subscribeConnectivity, resolveDataSource } from '../services/connectivityService';
 
 // Re-export all necessary hooks from their source files for easy access
 import { AlertProvider, useAlert } from './AlertContext';
@@ -29,9 +32,13 @@ interface MiscUIState {
     setActiveMenuOrderId: React.Dispatch<React.SetStateAction<number | null>>;
     sqlStatus: SqlServerStatus;
     checkSql: () => Promise<boolean>;
+    // 마지막 연결 확인의 서버 진단 결과 (서버에 연결하지 못했으면 null, 오류는 serverCheckError)
+    serverDiagnostics: ServerDiagnostics | null;
+    serverCheckError: string | null;
     receivingBadgeCount: number;
     hasActiveReceivingDraft: boolean;
     refreshReceivingState: () => Promise<void>;
+    outboxCount: { pending: number; conflict: number };
 }
 const MiscUIContext = createContext<MiscUIState | undefined>(undefined);
 
@@ -47,6 +54,14 @@ interface ScannerContextValue {
 }
 const ScannerContext = createContext<ScannerContextValue | undefined>(undefined);
 
+interface ConnectivityState {
+    connectivity: ConnectivitySnapshot;
+    // autoSwitch 설정을 반영한 실제 데이터 소스 (상품 검색 등에서 사용)
+    activeDataSource: ActiveDataSource;
+    lastSwitch: { to: 'online' | 'offline'; reason: string; at: number } | null;
+}
+const ConnectivityContext = createContext<ConnectivityState | undefined>(undefined);
+
 interface PWAInstallState {
     isInstallPromptAvailable: boolean;
     triggerInstallPrompt: () => void;
@@ -60,11 +75,11 @@ const CoreAppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const { user } = useAuth();
     const { showToast } = useAlert();
     const { isSyncing, initialSyncCompleted } = useSyncState();
-    const { setInitialSyncCompleted, setSyncStatusText } = useSyncSetters();
+    const { setInitialSyncCompleted, setSyncStatusText, setSchedulerStatus } = useSyncSetters();
     const { syncWithDb, loadLocalData } = useDataActions();
 
     // Get state from the new dedicated contexts
-    const { selectedCameraId, scanSettings } = useDeviceSettings();
+    const { selectedCameraId, scanSettings, dataSourceSettings, logRetentionDays } = useDeviceSettings();
     const { isScannerOpen, scannerContext, onScanSuccess, options, openScanner, closeScanner } = useModals();
 
     const [lastModifiedOrderId, setLastModifiedOrderId] = useState<number | null>(null);
@@ -72,9 +87,14 @@ const CoreAppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const [isInstallPromptAvailable, setInstallPromptAvailable] = useState(false);
     const deferredInstallPrompt = useRef<any>(null);
     const [sqlStatus, setSqlStatus] = useState<SqlServerStatus>('unknown');
+    const [serverDiagnostics, setServerDiagnostics] = useState<ServerDiagnostics | null>(null);
+    const [serverCheckError, setServerCheckError] = useState<string | null>(null);
     const isCheckingSql = useRef(false);
     const [receivingBadgeCount, setReceivingBadgeCount] = useState(0);
     const [hasActiveReceivingDraft, setHasActiveReceivingDraft] = useState(false);
+    const [outboxCount, setOutboxCount] = useState({ pending: 0, conflict: 0 });
+    const [connectivity, setConnectivity] = useState<ConnectivitySnapshot>(getConnectivitySnapshot);
+    const [lastSwitch, setLastSwitch] = useState<ConnectivityState['lastSwitch']>(null);
 
     const refreshReceivingState = useCallback(async () => {
         try {
@@ -94,11 +114,15 @@ const CoreAppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
         isCheckingSql.current = true;
         setSqlStatus('checking');
         try {
-            const result = await checkSqlConnection();
-            const status = result.success ? 'connected' : 'error';
-            setSqlStatus(status);
-            return result.success;
-        } catch (e) {
+            // 진단 응답은 API 서버가 살아 있으면 DB가 중단되어도 도착하므로 둘을 구분할 수 있습니다.
+            const diagnostics = await getServerDiagnostics();
+            setServerDiagnostics(diagnostics);
+            setServerCheckError(null);
+            setSqlStatus(diagnostics.db.ok ? 'connected' : 'error');
+            return diagnostics.db.ok;
+        } catch (e: any) {
+            setServerDiagnostics(null);
+            setServerCheckError(e?.message || '서버에 연결할 수 없습니다.');
             setSqlStatus('error');
             return false;
         } finally {
@@ -129,14 +153,6 @@ const CoreAppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
             setSyncStatusText('로컬 데이터 불러오는 중');
             await cache.resetAllSyncFlags();
             
-            // 1.5 Perform maintenance: Cleanup old receiving data (local & remote)
-            try {
-                await cleanupOldReceivingBatches(2); // Cleanup Firebase
-                await receiveDb.cleanupOldLocalBatches(2); // Cleanup local IndexedDB
-            } catch (cleanupError) {
-                console.warn("Error during old data cleanup:", cleanupError);
-            }
-
             // 2. Load existing local data IMMEDIATELY to prevent empty state
             await loadLocalData();
             await refreshReceivingState();
@@ -149,7 +165,7 @@ const CoreAppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
                 const isConnected = await checkSql();
                 if (isConnected) {
                     const products = await cache.getCachedData('products');
-                    const syncInterrupted = await cache.isSyncInterrupted('products') || await cache.isSyncInterrupted('customers');
+                    const syncInterrupted = await cache.isSyncInterrupted('products') || await cache.isSyncInterrupted('customers') || !!(await cache.getSyncCursor('products'));
                     
                     if (!products?.length || syncInterrupted) {
                         setSyncStatusText('초기 데이터 다운로드 중...');
@@ -168,23 +184,103 @@ const CoreAppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
         });
     }, [user, initialSyncCompleted, checkSql, syncWithDb, loadLocalData, showToast, setInitialSyncCompleted, setSyncStatusText, refreshReceivingState]);
     
-    // --- Background Sync on Visibility Change ---
+    // --- Data Retention ---
+    // 보관 기간이 지난 기록을 하루 한 번 정리합니다. (실행 간격은 retentionService가 관리)
+    useEffect(() => {
+        if (!user || !initialSyncCompleted) return;
+        const run = () => {
+            runScheduledRetention(logRetentionDays)
+                .then(reports => { if (reports?.some(r => r.collection === 'localReceivingBatches' && r.deleted > 0)) refreshReceivingState(); })
+                .catch(err => console.warn("Scheduled retention failed:", err));
+        };
+        run();
+        const intervalId = setInterval(run, 60 * 60 * 1000);
+        return () => clearInterval(intervalId);
+    }, [user, initialSyncCompleted, logRetentionDays, refreshReceivingState]);
+
+    // --- Connectivity / Data Source Auto Switch ---
+    useEffect(() => subscribeConnectivity(setConnectivity), []);
+
+    const activeDataSource = useMemo(() => resolveDataSource(dataSourceSettings, connectivity), [dataSourceSettings, connectivity]);
+
+    const prevAutoSwitched = useRef(false);
+    useEffect(() => {
+        if (activeDataSource.autoSwitched === prevAutoSwitched.current) return;
+        prevAutoSwitched.current = activeDataSource.autoSwitched;
+        if (activeDataSource.autoSwitched) {
+            setLastSwitch({ to: 'offline', reason: activeDataSource.reason || '', at: Date.now() });
+            showToast(`로컬 데이터로 전환: ${activeDataSource.reason}`, 'error');
+        } else {
+            setLastSwitch({ to: 'online', reason: '서버 연결 복구', at: Date.now() });
+            showToast('서버 연결이 복구되어 서버 데이터로 전환합니다.', 'success');
+        }
+    }, [activeDataSource, showToast]);
+
+    // 자동 전환이 켜져 있으면 주기적으로 연결 상태를 측정합니다. (연결 불가 시 더 자주 확인하여 빠르게 복귀)
+    useEffect(() => {
+        if (!user || !initialSyncCompleted || !dataSourceSettings.autoSwitch) return;
+        const delay = connectivity.health === 'down' || connectivity.health === 'slow' ? 20000 : 60000;
+        const timer = setInterval(() => {
+            if (document.visibilityState === 'visible') checkSql();
+        }, delay);
+        return () => clearInterval(timer);
+    }, [user, initialSyncCompleted, dataSourceSettings.autoSwitch, connectivity.health, checkSql]);
+
+    // --- Offline Outbox ---
+    useEffect(() => {
+        const refresh = async () => {
+            try {
+                const entries = await getOutboxEntries();
+                setOutboxCount({
+                    pending: entries.filter(e => e.status === 'pending').length,
+                    conflict: entries.filter(e => e.status === 'conflict').length,
+                });
+            } catch (e) {
+                console.error("Failed to refresh outbox state:", e);
+            }
+        };
+        refresh();
+        return subscribeOutbox(refresh);
+    }, []);
+
+    // 서버에 다시 연결되면 대기 중인 쓰기 요청을 순서대로 전송합니다.
+    useEffect(() => {
+        if (!user || sqlStatus !== 'connected') return;
+        replayOutbox()
+            .then(result => {
+                if (result.sent > 0) showToast(`전송 대기열 ${result.sent}건이 서버에 반영되었습니다.`, 'success');
+                if (result.conflicts > 0) showToast(`전송 대기열 ${result.conflicts}건이 서버에서 거부되었습니다. 설정에서 확인해주세요.`, 'error');
+            })
+            .catch(err => console.warn("Outbox replay failed:", err));
+    }, [user, sqlStatus, showToast]);
+
+    // --- Background Sync Scheduler (interval / foreground / online) ---
     const isSyncingRef = useRef(isSyncing);
     useEffect(() => { isSyncingRef.current = isSyncing; }, [isSyncing]);
-    
+
     useEffect(() => {
         if (!user || !initialSyncCompleted) return;
-        const handleVisibilityChange = async () => {
-            if (document.visibilityState === 'visible' && !isSyncingRef.current) {
-                refreshReceivingState();
-                setTimeout(async () => {
-                    if (await checkSql()) await syncWithDb('incremental', true);
-                }, 3000);
-            }
+        const scheduler = createSyncScheduler({
+            runSync: async () => {
+                if (!(await checkSql())) throw new Error('서버에 연결할 수 없습니다.');
+                await replayOutbox();
+                if (!(await syncWithDb('incremental', true))) throw new Error('증분 동기화에 실패했습니다.');
+            },
+            isBusy: () => isSyncingRef.current,
+            onStatusChange: setSchedulerStatus,
+        });
+        scheduler.start();
+        return () => scheduler.stop();
+    }, [user, initialSyncCompleted, checkSql, syncWithDb, setSchedulerStatus]);
+
+    useEffect(() => {
+        if (!user || !initialSyncCompleted) return;
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'visible') refreshReceivingState();
         };
         document.addEventListener('visibilitychange', handleVisibilityChange);
         return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-    }, [user, initialSyncCompleted, checkSql, syncWithDb, refreshReceivingState]);
+    }, [user, initialSyncCompleted, refreshReceivingState]);
 
     useEffect(() => {
         if (!user || !initialSyncCompleted) return;
@@ -216,16 +312,19 @@ const CoreAppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     }, [user, initialSyncCompleted, refreshReceivingState]);
 
     // --- Memoized Context Values ---
-    const miscUIValue = useMemo(() => ({ lastModifiedOrderId, setLastModifiedOrderId, activeMenuOrderId, setActiveMenuOrderId, sqlStatus, checkSql, receivingBadgeCount, hasActiveReceivingDraft, refreshReceivingState }), [lastModifiedOrderId, activeMenuOrderId, sqlStatus, checkSql, receivingBadgeCount, hasActiveReceivingDraft, refreshReceivingState]);
+    const miscUIValue = useMemo(() => ({ lastModifiedOrderId, setLastModifiedOrderId, activeMenuOrderId, setActiveMenuOrderId, sqlStatus, checkSql, serverDiagnostics, serverCheckError, receivingBadgeCount, hasActiveReceivingDraft, refreshReceivingState, outboxCount }), [lastModifiedOrderId, activeMenuOrderId, sqlStatus, checkSql, serverDiagnostics, serverCheckError, receivingBadgeCount, hasActiveReceivingDraft, refreshReceivingState, outboxCount]);
     const scannerValue = useMemo(() => ({ isScannerOpen, scannerContext, onScanSuccess, options, openScanner, closeScanner, selectedCameraId, scanSettings }), [isScannerOpen, scannerContext, onScanSuccess, options, openScanner, closeScanner, selectedCameraId, scanSettings]);
+    const connectivityValue = useMemo(() => ({ connectivity, activeDataSource, lastSwitch }), [connectivity, activeDataSource, lastSwitch]);
     const pwaValue = useMemo(() => ({ isInstallPromptAvailable, triggerInstallPrompt }), [isInstallPromptAvailable, triggerInstallPrompt]);
 
     return (
         <MiscUIContext.Provider value={miscUIValue}>
             <ScannerContext.Provider value={scannerValue}>
-                <PWAInstallContext.Provider value={pwaValue}>
-                    {children}
-                </PWAInstallContext.Provider>
+                <ConnectivityContext.Provider value={connectivityValue}>
+                    <PWAInstallContext.Provider value={pwaValue}>
+                        {children}
+                    </PWAInstallContext.Provider>
+                </ConnectivityContext.Provider>
             </ScannerContext.Provider>
         </MiscUIContext.Provider>
     );
@@ -253,6 +352,11 @@ export const useMiscUI = () => {
     if (context === undefined) throw new Error('useMiscUI must be used within AppProvider');
     return context;
 };
+export const useConnectivity = () => {
+    const context = useContext(ConnectivityContext);
+    if (context === undefined) throw new Error('useConnectivity must be used within AppProvider');
+    return context;
+};
 export const useScanner = () => {
     const context = useContext(ScannerContext);
     if (context === undefined) throw new Error('useScanner must be used within AppProvider');
@@ -1,10 +1,11 @@
 
 import React, { createContext, useState, useCallback, useEffect, ReactNode, useContext, useMemo, useRef } from 'react';
-import { Customer, Product, Order, OrderItem, BOM, Category, UserQuery, ReceivingBatch } from '../types';
+import { Customer, Product, Order, OrderItem, BOM, Category, UserQuery } from '../types';
 import * as db from '../services/dbService';
 import * as cache from '../services/cacheDbService';
-import { syncCustomersFromDb, syncProductsIncrementally, syncBOMFromDb, syncCategoriesFromDb, executeUserQuery } from '../services/sqlService';
-import { mapSqlResultToProduct, mapSqlResultToCustomer, sanitizeString } from '../utils/mapper';
+import { syncCustomersFromDb, syncProductsPage, syncBOMFromDb, syncCategoriesFromDb, reconcileProducts, syncProductsByBarcode } from '../services/sqlService';
+import { mapSqlResultToProduct, mapSqlResultToCustomer, sanitizeString, isInactiveProductRow } from '../utils/mapper';
+import { buildDigest, bucketOf } from '../utils/productDigest';
 import { syncAndCacheDbSchema } from '../services/schemaService';
 import { useAuth } from './AuthContext';
 import { useAlert } from './AlertContext';
@@ -23,10 +24,82 @@ interface DataActions {
     updateOrderStatus: (orderId: number, completionDetails: Order['completionDetails']) => Promise<void>;
     clearOrders: () => Promise<void>;
     clearOrdersBeforeDate: (date: Date) => Promise<number>;
-    syncWithDb: (type: 'incremental' | 'full', silent?: boolean) => Promise<void>;
+    /** 동기화 성공 여부를 반환합니다. (이미 진행 중이거나 실패하면 false) */
+    syncWithDb: (type: 'incremental' | 'full', silent?: boolean) => Promise<boolean>;
     resetData: (dataType: 'customers' | 'products') => Promise<void>;
     loadLocalData: () => Promise<void>;
-    resendReceivingBatches: (batches: ReceivingBatch[]) => Promise<{ success: number; fail: number; processed: number }>;
+}
+
+const PRODUCT_PAGE_SIZE = 2000;
+const PRODUCT_BY_BARCODE_CHUNK = 500;
+
+/**
+ * 상품을 페이지 단위로 받아 각 페이지를 캐시에 바로 기록합니다. 사용 중지(isuse='0')된 상품은 캐시에서 제거합니다.
+ * persist가 true이면 페이지마다 커서를 저장하여, 중단되더라도 다음 동기화에서 이어받을 수 있습니다.
+ */
+async function downloadProductPages(initial: cache.SyncCursorState, persist: boolean, onPage: (page: Product[], removed: string[], state: cache.SyncCursorState) => void): Promise<void> {
+    let state = initial;
+    if (persist) await cache.setSyncCursor('products', state);
+    do {
+        const page = await syncProductsPage(state.since, state.cursor, PRODUCT_PAGE_SIZE);
+        const mapped = page.recordset.filter(r => !isInactiveProductRow(r)).map(mapSqlResultToProduct);
+        const removed = page.recordset.filter(isInactiveProductRow).map(r => sanitizeString(r.barcode));
+        await cache.putCachedItems('products', mapped);
+        await cache.removeCachedItems('products', removed);
+        state = { ...state, cursor: page.nextCursor, fetched: state.fetched + page.recordset.length, total: page.total ?? state.total, watermark: page.watermark ?? state.watermark };
+        if (persist) await cache.setSyncCursor('products', state);
+        onPage(mapped, removed, state);
+    } while (state.cursor);
+    // 모든 페이지를 받은 뒤에만 워터마크를 갱신해야 중간에 끊겨도 변경분을 놓치지 않습니다.
+    if (state.watermark) await cache.setSyncWatermark('products', state.watermark);
+    if (persist) await cache.setSyncCursor('products', null);
+}
+
+/**
+ * 서버의 사용 중인 바코드 집합과 로컬 상품을 버킷 단위로 대조합니다.
+ * 서버에서 삭제된 상품은 캐시와 productMap에서 지우고, 로컬에 누락된 상품은 받아서 채웁니다.
+ */
+async function reconcileProductCache(productMap: Map<string, Product>): Promise<{ removed: number; added: number }> {
+    const { buckets, snapshotAt } = await reconcileProducts(buildDigest(productMap.keys()));
+    if (Object.keys(buckets).length === 0) return { removed: 0, added: 0 };
+
+    // 서버 목록을 조회한 날(시간대 차이를 고려해 하루 전)부터 수정된 상품은 목록보다 새로울 수 있으므로 지우지 않습니다.
+    const keepModifiedSince = snapshotAt ? new Date(Date.parse(snapshotAt) - 24 * 60 * 60 * 1000).toISOString().slice(0, 10) : null;
+    const isNewerThanSnapshot = (barcode: string) => {
+        const modified = productMap.get(barcode)?.lastModified;
+        return !!keepModifiedSince && !!modified && String(modified).slice(0, 10) >= keepModifiedSince;
+    };
+
+    const localByBucket = new Map<number, string[]>();
+    for (const barcode of productMap.keys()) {
+        const bucket = bucketOf(barcode);
+        if (!buckets[bucket]) continue;
+        if (!localByBucket.has(bucket)) localByBucket.set(bucket, []);
+        localByBucket.get(bucket)!.push(barcode);
+    }
+
+    const removed: string[] = [];
+    const missing: string[] = [];
+    Object.entries(buckets).forEach(([bucket, serverBarcodes]) => {
+        const serverSet = new Set(serverBarcodes);
+        const local = localByBucket.get(Number(bucket)) || [];
+        const localSet = new Set(local);
+        local.forEach(barcode => { if (!serverSet.has(barcode) && !isNewerThanSnapshot(barcode)) removed.push(barcode); });
+        serverBarcodes.forEach(barcode => { if (!localSet.has(barcode)) missing.push(barcode); });
+    });
+
+    await cache.removeCachedItems('products', removed);
+    removed.forEach(barcode => productMap.delete(barcode));
+
+    let added = 0;
+    for (let i = 0; i < missing.length; i += PRODUCT_BY_BARCODE_CHUNK) {
+        const rows = await syncProductsByBarcode(missing.slice(i, i + PRODUCT_BY_BARCODE_CHUNK));
+        const mapped = rows.filter(r => !isInactiveProductRow(r)).map(mapSqlResultToProduct);
+        await cache.putCachedItems('products', mapped);
+        mapped.forEach(p => productMap.set(p.barcode, p));
+        added += mapped.length;
+    }
+    return { removed: removed.length, added };
 }
 
 export const DataStateContext = createContext<DataState | undefined>(undefined);
@@ -94,9 +167,12 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }, []);
     
     const syncWithDb = useCallback(async (type: 'incremental' | 'full', silent: boolean = false) => {
-        if (isSyncingRef.current) return;
+        if (isSyncingRef.current) return false;
         setIsSyncing(true);
         
+        // 중단된 전체 동기화가 남아 있으면 증분 동기화 대신 이어받기를 진행합니다.
+        if (type === 'incremental' && await cache.getSyncCursor('products')) type = 'full';
+
         let schemaChanged = false;
         try { if (type === 'full') schemaChanged = await syncAndCacheDbSchema(); } catch (e) { console.warn("Schema check failed during sync:", e); }
 
@@ -110,25 +186,26 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 if (!silent) setSyncStatusText('거래처 정보 수신 중...');
                 setSyncProgress(10);
                 const customersData = await syncCustomersFromDb();
-                
-                if (!silent) setSyncStatusText('상품 정보 수신 중...');
-                setSyncProgress(30);
-                const allProductsRaw = await syncProductsIncrementally('1900-01-01');
-                
-                if (schemaChanged || !silent) {
-                    await cache.clearDataStores();
+
+                // 이전 전체 동기화가 중간에 끊겼다면 마지막으로 저장된 커서부터 이어받습니다.
+                const resumeState = schemaChanged ? undefined : await cache.getSyncCursor('products');
+                if (!resumeState) {
+                    if (schemaChanged || !silent) await cache.clearDataStores();
+                    else await cache.setCachedData('products', []);
                 }
 
-                if (!silent) setSyncStatusText('데이터 저장 중...');
-                setSyncProgress(50);
-                
                 const mappedCustomers = customersData.map(mapSqlResultToCustomer);
                 await cache.setCachedData('customers', mappedCustomers);
                 setCustomers(mappedCustomers);
 
-                const mappedProducts = allProductsRaw.map(mapSqlResultToProduct);
-                await cache.setCachedData('products', mappedProducts, (p) => setSyncProgress(60 + Math.floor(p * 0.3)));
-                setProducts(mappedProducts);
+                if (!silent) setSyncStatusText(resumeState ? '중단된 상품 동기화 이어받는 중...' : '상품 정보 수신 중...');
+                setSyncProgress(30);
+                await downloadProductPages(resumeState || { since: '1900-01-01', cursor: null, fetched: 0 }, true, (_page, _removed, state) => {
+                    if (!state.total) return;
+                    if (!silent) setSyncStatusText(`상품 정보 수신 중... (${state.fetched.toLocaleString()}/${state.total.toLocaleString()})`);
+                    setSyncProgress(30 + Math.min(60, Math.floor((state.fetched / state.total) * 60)));
+                });
+                setProducts(await cache.getCachedData<Product>('products'));
 
                 if (!silent) setSyncStatusText('부가 정보 수신 중...');
                 setSyncProgress(90);
@@ -172,73 +249,53 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 await cache.setCachedData('customers', mappedCustomers);
                 setCustomers(mappedCustomers);
 
-                const currentLastProduct = baseProducts.reduce((latest, p) => (!p.lastModified || !latest || new Date(p.lastModified) > latest) ? (p.lastModified ? new Date(p.lastModified) : latest) : latest, null as Date | null);
-                const syncBaseline = currentLastProduct ? currentLastProduct.toISOString().slice(0, 10) : '1900-01-01';
+                // 서버 워터마크가 없는(이전 버전에서 받은) 캐시는 최종 수정일 기준으로 한 번 더 받아옵니다.
+                let syncBaseline = await cache.getSyncWatermark('products');
+                if (!syncBaseline) {
+                    const currentLastProduct = baseProducts.reduce((latest, p) => (!p.lastModified || !latest || new Date(p.lastModified) > latest) ? (p.lastModified ? new Date(p.lastModified) : latest) : latest, null as Date | null);
+                    syncBaseline = currentLastProduct ? currentLastProduct.toISOString().slice(0, 10) : '1900-01-01';
+                }
                 
                 if (!silent) setSyncStatusText('상품 업데이트 확인 중...');
-                const newProductsRaw = await syncProductsIncrementally(syncBaseline);
-                const newProducts = newProductsRaw.map(mapSqlResultToProduct);
-                
-                if (newProducts.length > 0) {
-                    if (!silent) setSyncStatusText(`${newProducts.length}건 업데이트 중...`);
-                    const productMap = new Map(baseProducts.map(p => [p.barcode, p]));
-                    newProducts.forEach(p => productMap.set(p.barcode, p));
-                    const updatedProducts = Array.from(productMap.values());
-                    await cache.setCachedData('products', updatedProducts);
-                    setProducts(updatedProducts);
-                    if (!silent) showToast(`${newProducts.length}건 업데이트 완료`, 'success');
+                const productMap = new Map(baseProducts.map(p => [p.barcode, p]));
+                let updatedCount = 0;
+                await downloadProductPages({ since: syncBaseline, cursor: null, fetched: 0 }, false, (page, removed, state) => {
+                    page.forEach(p => productMap.set(p.barcode, p));
+                    removed.forEach(barcode => productMap.delete(barcode));
+                    updatedCount = state.fetched;
+                    if (!silent && state.fetched > 0) setSyncStatusText(`${state.fetched}건 업데이트 중...`);
+                });
+
+                // 변경일이 갱신되지 않은 삭제/사용중지 상품까지 반영하기 위해 서버와 바코드 집합을 대조합니다.
+                try {
+                    if (!silent) setSyncStatusText('삭제된 상품 확인 중...');
+                    const reconciled = await reconcileProductCache(productMap);
+                    updatedCount += reconciled.removed + reconciled.added;
+                } catch (reconcileErr) {
+                    console.warn("Product reconciliation failed (skipping):", reconcileErr);
+                }
+
+                if (updatedCount > 0) {
+                    setProducts(Array.from(productMap.values()));
+                    if (!silent) showToast(`${updatedCount}건 업데이트 완료`, 'success');
                 } else {
                     if (productsRef.current.length === 0 && baseProducts.length > 0) setProducts(baseProducts);
                     if (!silent) showToast('최신 상태입니다.', 'success');
                 }
                 setSyncProgress(100);
             }
+            return true;
         } catch (error: any) {
             console.error("Sync failed:", error);
             if (!silent) showToast(`동기화 실패: ${error.message}`, 'error');
             if (productsRef.current.length === 0) await loadLocalData();
+            return false;
         } finally {
             setIsSyncing(false);
             setSyncDataType(null);
         }
     }, [showToast, setIsSyncing, setSyncDataType, setSyncProgress, setSyncStatusText, loadLocalData]);
 
-    const resendReceivingBatches = useCallback(async (batchesToResend: ReceivingBatch[]): Promise<{ success: number; fail: number; processed: number }> => {
-        if (batchesToResend.length === 0) {
-            return { success: 0, fail: 0, processed: 0 };
-        }
-    
-        const insertQuery = `INSERT INTO dbo.dt900_ipgo (day1, dtcomcode, comcode, comname, barcode, descr, money0vat, money1, itemcount, gubun, lstmoney0vat) SELECT @time, @dtcomcode, @dtcomcode, LEFT(@comname, 10), @barcode, LEFT(ISNULL(@item_name, ''), 30), @cost, @price, @qty, CASE WHEN CAST(@qty AS INT) >= 0 THEN 'I' ELSE 'B' END, ISNULL(p.money0vat, 0) FROM (SELECT 1 AS dummy) AS t LEFT JOIN dbo.parts AS p WITH (NOLOCK) ON p.barcode = @barcode`;
-        
-        let success = 0;
-        let fail = 0;
-        const now = new Date();
-        const unifiedTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}:00`; 
-    
-        for (const batch of batchesToResend) {
-            for (const item of batch.items) {
-                 const params = {
-                    time: `${batch.date} ${unifiedTime}`,
-                    dtcomcode: batch.supplier.comcode ? batch.supplier.comcode.substring(0, 5) : '',
-                    comname: batch.supplier.name ? batch.supplier.name.substring(0, 6) : '',
-                    barcode: item.barcode ? item.barcode.substring(0, 14) : '',
-                    qty: Number(item.quantity), 
-                    cost: Number(item.costPrice), 
-                    price: Number(item.sellingPrice),
-                    item_name: item.name ? item.name.substring(0, 15) : ''
-                };
-                try {
-                    await executeUserQuery('입고내역_재전송', params, insertQuery);
-                    success++;
-                } catch (e) {
-                    console.error(`Resend failed for item ${item.barcode} in batch ${batch.id}`, e);
-                    fail++;
-                }
-            }
-        }
-        return { success, fail, processed: batchesToResend.length };
-    }, []);
-
     const resetData = useCallback(async (dataType: 'customers' | 'products') => {
         if (dataType === 'customers') {
             setCustomers([]);
@@ -246,12 +303,14 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         } else {
             setProducts([]);
             await cache.setCachedData('products', []);
+            await cache.setSyncCursor('products', null);
+            await cache.setSyncWatermark('products', null);
         }
         showToast('데이터가 초기화되었습니다.', 'success');
     }, [showToast]);
 
     const dataState = useMemo(() => ({ customers, products, userQueries }), [customers, products, userQueries]);
-    const dataActions = useMemo(() => ({ addOrder, updateOrder, deleteOrder, updateOrderStatus, clearOrders, clearOrdersBeforeDate, syncWithDb, resetData, loadLocalData, resendReceivingBatches }), [addOrder, updateOrder, deleteOrder, updateOrderStatus, clearOrders, clearOrdersBeforeDate, syncWithDb, resetData, loadLocalData, resendReceivingBatches]);
+    const dataActions = useMemo(() => ({ addOrder, updateOrder, deleteOrder, updateOrderStatus, clearOrders, clearOrdersBeforeDate, syncWithDb, resetData, loadLocalData }), [addOrder, updateOrder, deleteOrder, updateOrderStatus, clearOrders, clearOrdersBeforeDate, syncWithDb, resetData, loadLocalData]);
     
     return (
         <DataStateContext.Provider value={dataState}>
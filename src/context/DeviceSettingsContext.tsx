@@ -1,8 +1,10 @@
 
 import React, { createContext, useState, useCallback, useEffect, ReactNode, useContext, useMemo, useRef } from 'react';
-import { DeviceSettings, SyncSettings } from '../types';
+import { ApiEndpointProfile, DeviceSettings, SyncSettings } from '../types';
 import * as db from '../services/dbService';
 import { getDeviceId } from '../services/deviceService';
+import { setApiEndpointProfiles } from '../services/apiEndpointService';
+import { setAiModelSettings } from '../services/sqlService';
 import { useAuth } from './AuthContext';
 
 // --- TYPE DEFINITIONS ---
@@ -14,6 +16,8 @@ interface DeviceSettingsActions {
     setDataSourceSettings: (settings: Partial<DeviceSettings['dataSourceSettings']>) => Promise<void>;
     setAllowDestructiveQueries: (allow: boolean) => Promise<void>;
     setUiFeedback: (settings: Partial<DeviceSettings['uiFeedback']>) => Promise<void>;
+    /** undefined를 전달하면 기기 지정 목록을 지우고 공통 설정을 따릅니다. */
+    setApiEndpoints: (profiles: ApiEndpointProfile[] | undefined) => Promise<void>;
 }
 
 const DeviceSettingsStateContext = createContext<DeviceSettings | undefined>(undefined);
@@ -60,16 +64,21 @@ export const DeviceSettingsProvider: React.FC<{ children: ReactNode }> = ({ chil
         }
         return defaultSettings;
     });
+    // 공통 설정(settings/common)의 서버 주소 목록. 기기에 지정한 목록이 없을 때 사용하며 기기 설정에는 복사하지 않습니다.
+    const [commonApiEndpoints, setCommonApiEndpoints] = useState<ApiEndpointProfile[] | undefined>(undefined);
 
     useEffect(() => {
         if (!user) return;
         const syncSettings = async () => {
             const deviceId = getDeviceId();
             try {
-                const [savedSettings, commonSettings] = await Promise.all([
+                const [savedSettings, { aiModels, ...commonSettings }] = await Promise.all([
                     db.getDeviceSettings(deviceId), 
                     db.getCommonSettings()
                 ]);
+                setCommonApiEndpoints(commonSettings.apiEndpoints);
+                // AI 제공자/모델은 매장 공통으로만 지정하며 기기 설정에는 복사하지 않습니다.
+                setAiModelSettings(aiModels);
                 
                 setSettings(curr => {
                     // [동기화 로직]
@@ -81,7 +90,8 @@ export const DeviceSettingsProvider: React.FC<{ children: ReactNode }> = ({ chil
                         ...savedSettings, 
                         ...curr,
                         selectedCameraId: curr.selectedCameraId || savedSettings.selectedCameraId || null,
-                        selectedCameraLabel: curr.selectedCameraLabel || savedSettings.selectedCameraLabel || undefined
+                        selectedCameraLabel: curr.selectedCameraLabel || savedSettings.selectedCameraLabel || undefined,
+                        apiEndpoints: curr.apiEndpoints || savedSettings.apiEndpoints || undefined
                     };
                     
                     // 로컬 스토리지 업데이트
@@ -99,6 +109,10 @@ export const DeviceSettingsProvider: React.FC<{ children: ReactNode }> = ({ chil
         syncSettings();
     }, [user]);
 
+    useEffect(() => {
+        setApiEndpointProfiles(settings.apiEndpoints || commonApiEndpoints);
+    }, [settings.apiEndpoints, commonApiEndpoints]);
+
     const updateDeviceSetting = useCallback(async (updater: (prev: DeviceSettings) => DeviceSettings) => {
         const deviceId = getDeviceId();
         setSettings(prev => {
@@ -126,6 +140,7 @@ export const DeviceSettingsProvider: React.FC<{ children: ReactNode }> = ({ chil
         setDataSourceSettings: async (v: Partial<DeviceSettings['dataSourceSettings']>) => { await updateDeviceSetting(p => ({ ...p, dataSourceSettings: { ...p.dataSourceSettings, ...v } })); },
         setAllowDestructiveQueries: async (a: boolean) => { await updateDeviceSetting(p => ({ ...p, allowDestructiveQueries: a })); },
         setUiFeedback: async (v: Partial<DeviceSettings['uiFeedback']>) => { await updateDeviceSetting(p => ({ ...p, uiFeedback: { ...p.uiFeedback, ...v } })); },
+        setApiEndpoints: async (v: ApiEndpointProfile[] | undefined) => { await updateDeviceSetting(p => ({ ...p, apiEndpoints: v })); },
     }), [updateDeviceSetting]);
     
     return (
@@ -1,4 +1,5 @@
 import React, { createContext, useState, ReactNode, useContext, useMemo } from 'react';
+import { SyncSchedulerStatus, initialSyncSchedulerStatus } from '../services/syncScheduler';
 
 interface SyncState {
     isSyncing: boolean;
@@ -7,6 +8,8 @@ interface SyncState {
     syncDataType: 'customers' | 'products' | 'full' | 'background' | 'incremental' | null;
     syncSource: 'local' | 'drive' | null;
     initialSyncCompleted: boolean;
+    // 백그라운드 자동 동기화 상태 (마지막 성공 시각, 연속 실패 횟수 등)
+    schedulerStatus: SyncSchedulerStatus;
 }
 
 // We need a setter context as well so DataContext can trigger sync state changes
@@ -17,6 +20,7 @@ interface SyncStateSetters {
     setSyncDataType: React.Dispatch<React.SetStateAction<'customers' | 'products' | 'full' | 'background' | 'incremental' | null>>;
     setSyncSource: React.Dispatch<React.SetStateAction<'local' | 'drive' | null>>;
     setInitialSyncCompleted: React.Dispatch<React.SetStateAction<boolean>>;
+    setSchedulerStatus: React.Dispatch<React.SetStateAction<SyncSchedulerStatus>>;
 }
 
 export const SyncStateContext = createContext<SyncState | undefined>(undefined);
@@ -29,13 +33,14 @@ export const SyncProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const [syncDataType, setSyncDataType] = useState<'customers' | 'products' | 'full' | 'background' | 'incremental' | null>(null);
     const [syncSource, setSyncSource] = useState<'local' | 'drive' | null>(null);
     const [initialSyncCompleted, setInitialSyncCompleted] = useState(false);
+    const [schedulerStatus, setSchedulerStatus] = useState<SyncSchedulerStatus>(initialSyncSchedulerStatus);
 
     const state = useMemo(() => ({
-        isSyncing, syncProgress, syncStatusText, syncDataType, syncSource, initialSyncCompleted
-    }), [isSyncing, syncProgress, syncStatusText, syncDataType, syncSource, initialSyncCompleted]);
+        isSyncing, syncProgress, syncStatusText, syncDataType, syncSource, initialSyncCompleted, schedulerStatus
+    }), [isSyncing, syncProgress, syncStatusText, syncDataType, syncSource, initialSyncCompleted, schedulerStatus]);
 
     const setters = useMemo(() => ({
-        setIsSyncing, setSyncProgress, setSyncStatusText, setSyncDataType, setSyncSource, setInitialSyncCompleted
+        setIsSyncing, setSyncProgress, setSyncStatusText, setSyncDataType, setSyncSource, setInitialSyncCompleted, setSchedulerStatus
     }), []);
 
     return (
@@ -1,7 +1,7 @@
 
 import { useState, useCallback } from 'react';
 import { Product } from '../types';
-import { useDataState, useDeviceSettings, useMiscUI } from '../context/AppContext';
+import { useDataState, useMiscUI, useConnectivity } from '../context/AppContext';
 import { searchProductsOnline, executeUserQuery, extractParamsForQuery } from '../services/sqlService';
 import { mapSqlResultToProduct } from '../utils/mapper';
 
@@ -23,8 +23,9 @@ export function useProductSearch(
     options?: { forceOnline?: boolean }
 ): UseProductSearchReturn {
     const { products, userQueries } = useDataState();
-    const { dataSourceSettings } = useDeviceSettings();
     const { sqlStatus } = useMiscUI();
+    // autoSwitch가 반영된 데이터 소스. 서버 상태가 나쁘면 '서버' 설정이어도 'offline'이 됩니다.
+    const { activeDataSource } = useConnectivity();
     
     const [searchTerm, setSearchTerm] = useState('');
     const [results, setResults] = useState<Product[]>([]);
@@ -54,8 +55,8 @@ export function useProductSearch(
         setSearchSource('offline'); // Initially, we are showing offline results
 
         // 2. Determine if an online search should follow
-        const preferredSource = dataSourceSettings[sourceSettingKey];
-        const canGoOnline = sqlStatus === 'connected';
+        const preferredSource = activeDataSource[sourceSettingKey];
+        const canGoOnline = sqlStatus === 'connected' && !activeDataSource.autoSwitched;
         const isProductInquiry = sourceSettingKey === 'productInquiry';
         const useOnline = (isProductInquiry && canGoOnline) || (options?.forceOnline && canGoOnline) || (preferredSource === 'online' && canGoOnline);
         
@@ -68,7 +69,7 @@ export function useProductSearch(
                 if (userSearchQuery && userSearchQuery.query) {
                     const params = { kw: term, keyword: term, search: term, limit: maxResults, barcode: term };
                     const dynamicParams = extractParamsForQuery(userSearchQuery.query, params);
-                    onlineData = await executeUserQuery(userSearchQuery.name, dynamicParams, userSearchQuery.query);
+                    onlineData = await executeUserQuery(userSearchQuery.name, dynamicParams, userSearchQuery.query, userSearchQuery.paramTypes);
                 } else {
                     if (specificQueryName) {
                         console.warn(`User query '${specificQueryName}' not found or empty for '${sourceSettingKey}'. Falling back to default online search.`);
@@ -84,6 +85,7 @@ export function useProductSearch(
             } catch (e) {
                 console.error("Online search fallback failed, showing local results:", e);
                 // If online fails, the user still sees the local results. The source remains 'offline'.
+                // The failure is recorded by connectivityService, so repeated failures trigger the auto switch.
             } finally {
                 setIsSearching(false);
             }
@@ -91,12 +93,12 @@ export function useProductSearch(
             // If not going online, the local search is all we do.
             setIsSearching(false);
         }
-    }, [searchTerm, products, userQueries, dataSourceSettings, sourceSettingKey, sqlStatus, maxResults, specificQueryName, options]);
+    }, [searchTerm, products, userQueries, activeDataSource, sourceSettingKey, sqlStatus, maxResults, specificQueryName, options]);
 
     const searchByBarcode = useCallback(async (barcode: string): Promise<Product | null> => {
         const localMatch = products.find(p => p.barcode === barcode);
-        const preferredSource = dataSourceSettings[sourceSettingKey];
-        const canGoOnline = sqlStatus === 'connected';
+        const preferredSource = activeDataSource[sourceSettingKey];
+        const canGoOnline = sqlStatus === 'connected' && !activeDataSource.autoSwitched;
 
         // 1. Local Mode Logic (Offline Preference)
         // If settings prefer offline, try local match first.
@@ -124,7 +126,7 @@ export function useProductSearch(
             
             let onlineData;
             if (scanQuery && scanQuery.query) {
-                onlineData = await executeUserQuery(scanQuery.name, params, scanQuery.query);
+                onlineData = await executeUserQuery(scanQuery.name, params, scanQuery.query, scanQuery.paramTypes);
             } else {
                 onlineData = await searchProductsOnline(barcode, 5);
             }
@@ -142,7 +144,7 @@ export function useProductSearch(
         // 4. Final Fallback to Local (if online search returned nothing or failed)
         return localMatch || null;
 
-    }, [sqlStatus, products, userQueries, dataSourceSettings, sourceSettingKey, options]);
+    }, [sqlStatus, products, userQueries, activeDataSource, sourceSettingKey, options]);
 
     const clear = useCallback(() => {
         setSearchTerm('');
@@ -1,6 +1,7 @@
 
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { executeUserQuery } from '../services/sqlService';
+import { executeUserQuery, executeNamedQuery } from '../services/sqlService';
+import { executeNamedQueryOrQueue } from '../services/outboxService';
 import { useAlert, useDataState, useScanner } from '../context/AppContext';
 import { SpinnerIcon, SearchIcon, PencilSquareIcon, TrashIcon, CalendarIcon, SaveIcon, ArchiveBoxIcon, ChartBarIcon, BarcodeScannerIcon } from '../components/Icons';
 import ActionModal from '../components/ActionModal';
@@ -12,261 +13,7 @@ import { EventItem, Product } from '../types';
 import { useProductSearch } from '../hooks/useProductSearch';
 import ProductSearchBar from '../components/ProductSearchBar';
 import EventContinuousAddModal from '../components/EventContinuousAddModal';
-
-// ... (기존 SQL 상수들 유지 - 변경 없음)
-const FIND_EVENT_BY_PRODUCT_SQL = `
--- [상품 바코드로 소속 행사 찾기]
-SELECT TOP 1 
-    M.junno, 
-    M.salename, 
-    M.startday, 
-    M.endday, 
-    M.isappl, 
-    M.itemcount,
-    M.avgmgrate
-FROM sale_ready R WITH(NOLOCK)
-JOIN sale_mast M WITH(NOLOCK) ON R.junno = M.junno
-WHERE R.barcode = @Barcode
-ORDER BY M.startday DESC, M.junno DESC
-`;
-
-const UPSERT_ITEM_SQL = `
--- 파라미터: @Junno(전표번호), @Barcode(상품바코드), @SaleCost(행사매입가), @SalePrice(행사판매가), @IsAppl(적용상태)
-
-DECLARE @TargetStart VARCHAR(10)
-DECLARE @TargetEnd VARCHAR(10)
-DECLARE @SaleName VARCHAR(30)
-DECLARE @ComCode VARCHAR(5)
-DECLARE @MarginRate DECIMAL(18,2)
-DECLARE @NextSerial VARCHAR(5)
-DECLARE @JunnoSerial VARCHAR(25)
-DECLARE @Today VARCHAR(10)
-DECLARE @OrgPriceToUse DECIMAL(18,0)
-
--- [추가] edtday 포맷 생성을 위한 변수 선언
-DECLARE @Now DATETIME
-DECLARE @EdtTimeStr VARCHAR(30)
-DECLARE @HH INT
-DECLARE @AmPm VARCHAR(4)
-DECLARE @HH12 INT
-
-SET @Today = CONVERT(VARCHAR(10), GETDATE(), 120)
-
--- [추가] 'YYYY-MM-DD 오후 H:MM:SS' 포맷 생성 로직 (SQL 2005 호환)
-SET @Now = GETDATE()
-SET @HH = DATEPART(HOUR, @Now)
-SET @AmPm = CASE WHEN @HH >= 12 THEN '오후' ELSE '오전' END
-SET @HH12 = CASE WHEN @HH > 12 THEN @HH - 12
-                 WHEN @HH = 0 THEN 12 
-                 ELSE @HH END
-
--- 예: 2026-01-14 오후 7:06:21
-SET @EdtTimeStr = @Today + ' ' + @AmPm + ' ' + 
-                  CAST(@HH12 AS VARCHAR) + ':' + 
-                  RIGHT('0' + CAST(DATEPART(MINUTE, @Now) AS VARCHAR), 2) + ':' + 
-                  RIGHT('0' + CAST(DATEPART(SECOND, @Now) AS VARCHAR), 2)
-
-
-SET NOCOUNT ON;
-SET XACT_ABORT ON;
-
-BEGIN TRY
-    BEGIN TRANSACTION;
-
-        -- [1] 행사 헤더 정보(기간, 행사명) 조회
-        SELECT @SaleName = salename, 
-               @TargetStart = startday, 
-               @TargetEnd = endday
-        FROM sale_mast WITH(UPDLOCK, ROWLOCK) 
-        WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))
-
-        IF ISNULL(@SaleName, '') = ''
-        BEGIN
-            RAISERROR('존재하지 않는 행사 전표이거나 행사명이 없습니다.', 16, 1)
-        END
-
-        -- [2] 상품 기본 정보(거래처코드) 조회
-        SELECT @ComCode = comcode
-        FROM parts WITH(NOLOCK)
-        WHERE barcode = @Barcode
-
-        IF @ComCode IS NULL
-        BEGIN
-            RAISERROR('상품 마스터에 없는 바코드입니다.', 16, 1)
-        END
-        
-        -- [3] 기준 정상가 조회 (이전 행사 가격이 있으면 그것을 우선, 없으면 현재 마스터 판매가)
-        SET @OrgPriceToUse = ISNULL(
-            (SELECT TOP 1 r.salemoney1 
-             FROM sale_ready r JOIN sale_mast m ON r.junno = m.junno
-             WHERE r.barcode = @Barcode AND LTRIM(RTRIM(m.junno)) <> LTRIM(RTRIM(@Junno))
-             ORDER BY m.endday DESC, m.startday DESC),
-            (SELECT money1 FROM parts WHERE barcode = @Barcode)
-        );
-
-        -- [4] 마진율 계산
-        IF CAST(@SalePrice AS DECIMAL) = 0
-            SET @MarginRate = 0
-        ELSE
-            SET @MarginRate = FLOOR(((CAST(@SalePrice AS DECIMAL) - CAST(@SaleCost AS DECIMAL)) / CAST(@SalePrice AS DECIMAL)) * 100)
-
-        -- [5] 데이터 저장 (UPSERT: 있으면 수정, 없으면 추가)
-        IF EXISTS (SELECT 1 FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)) AND barcode = @Barcode)
-        BEGIN
-            -- 이미 등록된 경우: UPDATE
-            UPDATE sale_ready
-            SET salemoney0 = FLOOR(CAST(@SaleCost AS DECIMAL)), -- 소수점 제거
-                salemoney1 = @SalePrice,
-                salecount  = @MarginRate,
-                isappl     = @IsAppl,
-                
-                -- [수정됨] 요청하신 날짜/시간 포맷 적용
-                edtday     = @EdtTimeStr, 
-                starttime  = @Today,      
-                endtime    = '-'          
-                
-            WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)) AND barcode = @Barcode
-        END
-        ELSE
-        BEGIN
-            -- 신규 등록인 경우: INSERT
-            -- 일련번호 생성 (junno_serial)
-            SELECT @NextSerial = RIGHT('00000' + CAST(ISNULL(COUNT(*), 0) + 1 AS VARCHAR), 5)
-            FROM sale_ready 
-            WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))
-
-            SET @JunnoSerial = @Junno + '_' + @NextSerial
-
-            INSERT INTO sale_ready (
-                junno_serial, junno, salename, barcode, comcode, 
-                salemoney0, salemoney1, orgmoney1, salecount, 
-                startday, endday, isappl, inpday, 
-                islink, isautoappl, isautoback,
-                
-                -- [추가됨] 요청하신 컬럼 추가
-                edtday, starttime, endtime
-            )
-            VALUES (
-                @JunnoSerial, @Junno, @SaleName, @Barcode, @ComCode,
-                FLOOR(CAST(@SaleCost AS DECIMAL)), @SalePrice, @OrgPriceToUse, @MarginRate, -- 소수점 제거
-                @TargetStart, @TargetEnd, @IsAppl, @Today, 
-                '1', '1', '1',
-                
-                -- [추가됨] 요청하신 값 매핑
-                @EdtTimeStr, 
-                @Today,      
-                '-'          
-            )
-        END
-        
-        -- [6] 마스터 테이블 요약 정보(품목 수, 평균 마진율) 자동 업데이트
-        UPDATE sale_mast 
-        SET itemcount = (SELECT COUNT(*) FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))),
-            avgmgrate = (SELECT ISNULL(AVG(salecount), 0) FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)))
-        WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))
-        
-        -- [7] [추가] 행사 마스터가 '진행중'이고, 현재 품목도 '적용'으로 저장될 때만 parts 즉시 업데이트
-        IF @IsAppl = '1' AND EXISTS(SELECT 1 FROM sale_mast WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)) AND isappl = '1')
-        BEGIN
-            UPDATE parts
-            SET money1comp = @SalePrice,
-                salemoney0 = FLOOR(CAST(@SaleCost AS DECIMAL)), -- 소수점 제거
-                salestartday = @TargetStart,
-                saleendday = @TargetEnd
-            WHERE barcode = @Barcode
-        END
-
-    COMMIT TRANSACTION;
-    SELECT 'SUCCESS' AS RESULT, '저장되었습니다.' AS MSG
-
-END TRY
-BEGIN CATCH
-    IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
-    SELECT 'FAIL' AS RESULT, ERROR_MESSAGE() AS MSG
-END CATCH
-`;
-
-const UPDATE_PERIOD_AND_STATUS_SQL = `
--- [행사 기간 변경 및 상태 자동 조정]
-SET NOCOUNT ON;
-SET XACT_ABORT ON;
-
-DECLARE @JunnoToUpdate VARCHAR(20) = @Junno;
-DECLARE @NewStartDay VARCHAR(10) = @StartDay;
-DECLARE @NewEndDay VARCHAR(10) = @EndDay;
-DECLARE @Today VARCHAR(10) = CONVERT(VARCHAR(10), GETDATE(), 120);
-
-DECLARE @OldStatus VARCHAR(1);
-DECLARE @NewStatus VARCHAR(1);
-
-BEGIN TRY
-    BEGIN TRANSACTION;
-
-        -- 1. 현재 상태와 새로운 상태 결정
-        SELECT @OldStatus = isappl FROM sale_mast WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@JunnoToUpdate));
-
-        SET @NewStatus = CASE 
-                            WHEN @NewStartDay > @Today THEN '0' -- 미래: 대기
-                            WHEN @NewEndDay < @Today THEN '2'   -- 과거: 종료
-                            ELSE '1'                           -- 현재: 진행
-                         END;
-
-        -- 2. 날짜 및 상태 업데이트
-        UPDATE sale_mast SET startday = @NewStartDay, endday = @NewEndDay, isappl = @NewStatus WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@JunnoToUpdate));
-        UPDATE sale_ready SET startday = @NewStartDay, endday = @NewEndDay WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@JunnoToUpdate));
-        
-        -- 3. 상태 변경에 따른 소속 상품(sale_ready) 상태 업데이트 ('D' 상태는 제외)
-        IF @NewStatus = '0' -- 대기 상태로 변경 시
-        BEGIN
-            UPDATE sale_ready SET isappl = '0' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@JunnoToUpdate)) AND isappl <> 'D';
-        END
-        ELSE IF @NewStatus = '1' -- 진행 상태로 변경 시
-        BEGIN
-            UPDATE sale_ready SET isappl = '1' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@JunnoToUpdate)) AND isappl <> 'D';
-        END
-        ELSE IF @NewStatus = '2' -- 종료 상태로 변경 시
-        BEGIN
-            UPDATE sale_ready SET isappl = 'D' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@JunnoToUpdate)) AND isappl <> 'D';
-        END
-
-        -- 4. 상태 변경에 따른 Parts 테이블 업데이트
-        IF @OldStatus = '1' AND @NewStatus <> '1'
-        BEGIN
-            -- [행사 중지 로직]
-            UPDATE p
-            SET p.money1comp = ISNULL(ne.salemoney1, p.money1),
-                p.salemoney0 = ISNULL(ne.salemoney0, p.money0vat),
-                p.salestartday = ne.startday,
-                p.saleendday = ne.endday
-            FROM parts p JOIN sale_ready r ON p.barcode = r.barcode
-            OUTER APPLY (
-                SELECT TOP 1 r2.salemoney1, r2.salemoney0, m2.startday, m2.endday
-                FROM sale_ready r2 JOIN sale_mast m2 ON r2.junno = m2.junno
-                WHERE r2.barcode = p.barcode AND m2.isappl = '1' AND LTRIM(RTRIM(m2.junno)) <> LTRIM(RTRIM(@JunnoToUpdate))
-                ORDER BY m2.startday DESC
-            ) AS ne
-            WHERE LTRIM(RTRIM(r.junno)) = LTRIM(RTRIM(@JunnoToUpdate));
-        END
-        else if @OldStatus <> '1' AND @NewStatus = '1'
-        BEGIN
-            -- [행사 적용 로직]
-            UPDATE p
-            SET p.money1comp = r.salemoney1,
-                p.salemoney0 = r.salemoney0,
-                p.salestartday = @NewStartDay,
-                p.saleendday = @NewEndDay
-            FROM parts p JOIN sale_ready r ON p.barcode = r.barcode
-            WHERE LTRIM(RTRIM(r.junno)) = LTRIM(RTRIM(@JunnoToUpdate)) AND r.isappl = '1';
-        END
-
-    COMMIT TRANSACTION;
-    SELECT 'SUCCESS' AS RESULT, '기간 및 상태가 업데이트되었습니다.' AS MSG;
-END TRY
-BEGIN CATCH
-    IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
-    SELECT 'FAIL' AS RESULT, ERROR_MESSAGE() AS MSG;
-END CATCH
-`;
+import { expectSuccess, QueryRejectedError, readResultStatus } from '../utils/queryResult';
 
 const EventManagementPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
     // ... (기존 상태 변수들 동일) ...
@@ -423,7 +170,7 @@ const EventManagementPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
     const jumpToEventByBarcode = async (barcode: string) => {
         setIsLoading(true);
         try {
-            const res = await executeUserQuery('행사찾기', { Barcode: barcode }, FIND_EVENT_BY_PRODUCT_SQL);
+            const res = await executeNamedQuery('행사찾기', { Barcode: barcode });
             if (res && res.length > 0) {
                 const ev = res[0];
                 const mappedEvent: EventItem = {
@@ -494,13 +241,16 @@ const EventManagementPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
                 SalePrice: newItem['행사판매가'],
                 IsAppl: newItem['isappl'] || '0'
             };
-            const result = await executeUserQuery('행사상품_추가저장', params, UPSERT_ITEM_SQL);
-            if (result && result.length > 0 && result[0].RESULT === 'FAIL') {
-                throw new Error(result[0].MSG || '상품 추가에 실패했습니다.');
+            const outcome = await executeNamedQueryOrQueue('행사상품_저장', params, `행사상품 저장 ${selectedEvent.salename} · ${newItem['상품명'] || newItem['바코드']}`);
+            if (outcome.queued) {
+                showToast('서버에 연결되지 않아 전송 대기열에 저장했습니다.', 'success');
+                return;
             }
+            const status = readResultStatus(outcome.recordset);
+            if (!status.ok) throw new QueryRejectedError(status.message, status.code);
             
             setHighlightedBarcode(newItem['바코드']);
-            showToast(result[0]?.MSG || '상품이 추가되었습니다.', 'success');
+            showToast(status.message || '상품이 추가되었습니다.', 'success');
             
             await fetchEventDetails(selectedEvent.junno);
             await handleSearch(true);
@@ -528,24 +278,7 @@ const EventManagementPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
         showAlert(`'${event.salename}' 행사를 전체 적용하시겠습니까?\n즉시 매장의 판매가가 변경됩니다.`, async () => {
             setIsProcessing(true);
             try {
-                const applySql = `
-                    SET NOCOUNT ON; SET XACT_ABORT ON;
-                    BEGIN TRY
-                        BEGIN TRANSACTION;
-                        UPDATE sale_mast SET isappl = '1' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno));
-                        UPDATE sale_ready SET isappl = '1' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)) AND isappl <> 'D';
-
-                        UPDATE p SET p.money1comp = r.salemoney1, p.salemoney0 = r.salemoney0, p.salestartday = m.startday, p.saleendday = m.endday 
-                        FROM parts p JOIN sale_ready r ON p.barcode = r.barcode JOIN sale_mast m ON r.junno = m.junno 
-                        WHERE LTRIM(RTRIM(m.junno)) = LTRIM(RTRIM(@Junno)) AND r.isappl = '1';
-                        COMMIT TRANSACTION;
-                    END TRY
-                    BEGIN CATCH
-                        IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
-                        DECLARE @err_msg_apply NVARCHAR(MAX) = ERROR_MESSAGE();
-                        RAISERROR(@err_msg_apply, 16, 1);
-                    END CATCH`;
-                await executeUserQuery('행사_적용_및_Parts업데이트', { Junno: event.junno.trim() }, applySql);
+                await executeNamedQuery('행사_적용_및_Parts업데이트', { Junno: event.junno.trim() });
                 showToast('행사가 전체 적용되었습니다.', 'success');
             } catch (e: any) {
                 showAlert('적용 실패: ' + e.message);
@@ -569,42 +302,7 @@ const EventManagementPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
             async () => {
                 setIsProcessing(true);
                 try {
-                    const finalSql = `
-                        SET NOCOUNT ON; SET XACT_ABORT ON;
-                        BEGIN TRY
-                            BEGIN TRANSACTION;
-                                ${targetStatus === '0' ? 
-                                    `UPDATE sale_mast SET isappl = '0' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno));
-                                     UPDATE sale_ready SET isappl = '0' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)) AND isappl <> 'D';` 
-                                    : 
-                                    `UPDATE sale_mast SET isappl = '2' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno));
-                                     UPDATE sale_ready SET isappl = 'D' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)) AND isappl <> 'D';`
-                                }
-    
-                                UPDATE p
-                                SET 
-                                    p.money1comp = ISNULL(next_event.salemoney1, p.money1),
-                                    p.salemoney0 = ISNULL(next_event.salemoney0, p.money0vat),
-                                    p.salestartday = next_event.startday,
-                                    p.saleendday = next_event.endday
-                                FROM parts p JOIN sale_ready r_stopped ON p.barcode = r_stopped.barcode
-                                OUTER APPLY (
-                                    SELECT TOP 1 r_other.salemoney1, r_other.salemoney0, m_other.startday, m_other.endday
-                                    FROM sale_ready r_other WITH(NOLOCK) JOIN sale_mast m_other WITH(NOLOCK) ON r_other.junno = m_other.junno
-                                    WHERE r_other.barcode = p.barcode AND m_other.isappl = '1' AND LTRIM(RTRIM(m_other.junno)) <> LTRIM(RTRIM(@Junno))
-                                    ORDER BY m_other.startday DESC
-                                ) AS next_event
-                                WHERE LTRIM(RTRIM(r_stopped.junno)) = LTRIM(RTRIM(@Junno));
-                            COMMIT TRANSACTION;
-                        END TRY
-                        BEGIN CATCH
-                            IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
-                            DECLARE @err_msg_stop NVARCHAR(MAX) = ERROR_MESSAGE();
-                            RAISERROR(@err_msg_stop, 16, 1);
-                        END CATCH
-                    `;
-                    
-                    await executeUserQuery('행사_상태변경', { Junno: selectedEvent.junno.trim() }, finalSql);
+                    await executeNamedQuery('행사_상태변경', { Junno: selectedEvent.junno.trim(), TargetStatus: targetStatus });
                     showToast(`행사가 ${actionText} 처리되었습니다.`, 'success');
                     handleSearch(true);
                 } catch (e: any) {
@@ -630,8 +328,7 @@ const EventManagementPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
         showAlert(`'${event.salename}' 행사를 완전히 삭제하시겠습니까?`, async () => {
             setIsProcessing(true);
             try {
-                const deleteSql = `DELETE FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)); DELETE FROM sale_mast WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno));`;
-                await executeUserQuery('행사_삭제', { Junno: event.junno.trim() }, deleteSql);
+                await executeNamedQuery('행사_삭제', { Junno: event.junno.trim() });
                 showToast('행사가 삭제되었습니다.', 'success');
                 handleSearch(true);
             } catch (e: any) {
@@ -665,38 +362,10 @@ const EventManagementPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
             setIsProcessing(true);
             try {
                 if (isItemApplied) {
-                    const stopSql = `
-                        SET NOCOUNT ON; SET XACT_ABORT ON;
-                        DECLARE @JunnoToStop VARCHAR(20) = @Junno; DECLARE @BarcodeToStop VARCHAR(20) = @Barcode;
-                        BEGIN TRY
-                            BEGIN TRANSACTION;
-                                UPDATE sale_ready SET isappl = 'D' WHERE LTRIM(RTRIM(junno)) = @JunnoToStop AND barcode = @BarcodeToStop;
-                                
-                                DECLARE @NextBestSalePrice DECIMAL(18,0), @NextBestSaleCost DECIMAL(18,0), @NextBestStart VARCHAR(10), @NextBestEnd VARCHAR(10);
-                                SELECT TOP 1 
-                                    @NextBestSalePrice = r.salemoney1, @NextBestSaleCost = r.salemoney0, 
-                                    @NextBestStart = m.startday, @NextBestEnd = m.endday 
-                                FROM sale_ready r WITH(NOLOCK) 
-                                JOIN sale_mast m WITH(NOLOCK) ON r.junno = m.junno 
-                                WHERE r.barcode = @BarcodeToStop AND m.isappl = '1' AND LTRIM(RTRIM(m.junno)) <> LTRIM(RTRIM(@JunnoToStop)) 
-                                ORDER BY m.startday DESC;
-                                
-                                IF @@ROWCOUNT > 0
-                                    UPDATE p SET p.money1comp = @NextBestSalePrice, p.salemoney0 = @NextBestSaleCost, p.salestartday = @NextBestStart, p.saleendday = @NextBestEnd FROM parts p WHERE p.barcode = @BarcodeToStop;
-                                ELSE
-                                    UPDATE p SET p.money1comp = p.money1, p.salemoney0 = p.money0vat, p.salestartday = NULL, p.saleendday = NULL FROM parts p WHERE p.barcode = @BarcodeToStop;
-                            COMMIT TRANSACTION;
-                        END TRY
-                        BEGIN CATCH
-                            IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
-                            DECLARE @err_msg_remove NVARCHAR(MAX) = ERROR_MESSAGE();
-                            RAISERROR(@err_msg_remove, 16, 1);
-                        END CATCH`;
-                    await executeUserQuery('행사상품_개별중지_및_Parts업데이트', { Junno: selectedEvent.junno.trim(), Barcode: barcode }, stopSql);
+                    await executeNamedQuery('행사상품_개별중지_및_Parts업데이트', { Junno: selectedEvent.junno.trim(), Barcode: barcode });
                 }
                 
-                const deleteSql = `DELETE FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)) AND barcode = @Barcode; UPDATE sale_mast SET itemcount = (SELECT COUNT(*) FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))), avgmgrate = (SELECT ISNULL(AVG(salecount), 0) FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))) WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno));`;
-                await executeUserQuery('행사상품_개별삭제', { Junno: selectedEvent.junno.trim(), Barcode: barcode }, deleteSql);
+                await executeNamedQuery('행사상품_개별삭제', { Junno: selectedEvent.junno.trim(), Barcode: barcode });
                 
                 showToast(isItemApplied ? '중지 및 삭제되었습니다.' : '상품을 삭제했습니다.', 'success');
                 
@@ -733,9 +402,7 @@ const EventManagementPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
                     StartDay: editableStartDate,
                     EndDay: editableEndDate,
                 };
-                const result = await executeUserQuery('행사기간_및_상태_수정', params, UPDATE_PERIOD_AND_STATUS_SQL);
-
-                if (result && result[0]?.RESULT === 'FAIL') throw new Error(result[0].MSG);
+                expectSuccess(await executeNamedQuery('행사기간_및_상태_수정', params));
                 
                 showToast('행사 기간이 변경되었습니다.', 'success');
 
@@ -1001,12 +668,17 @@ const EventManagementPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
                                     SalePrice: updated['행사판매가'],
                                     IsAppl: updated.isappl
                                 };
-                                const result = await executeUserQuery('행사상품_수정저장', params, UPSERT_ITEM_SQL);
-                                if (result && result[0].RESULT === 'FAIL') throw new Error(result[0].MSG);
+                                const outcome = await executeNamedQueryOrQueue('행사상품_저장', params, `행사상품 수정 ${selectedEvent.salename} · ${editingProduct.descr || updated.barcode}`);
+                                if (outcome.queued) {
+                                    showToast('서버에 연결되지 않아 전송 대기열에 저장했습니다.', 'success');
+                                    return;
+                                }
+                                const status = readResultStatus(outcome.recordset);
+                                if (!status.ok) throw new QueryRejectedError(status.message, status.code);
                                 
                                 setHighlightedBarcode(updated.barcode);
                                 await handleUpdateProduct();
-                                showToast(result[0]?.MSG || '수정되었습니다.', 'success');
+                                showToast(status.message || '수정되었습니다.', 'success');
                                 
                                 setTimeout(() => {
                                     document.getElementById(`event-item-${updated.barcode}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
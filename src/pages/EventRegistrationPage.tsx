@@ -2,7 +2,7 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useDataState, useAlert, useModals, useScanner } from '../context/AppContext';
 import { Product, EventRegistrationDraft } from '../types';
-import { executeUserQuery } from '../services/sqlService';
+import { executeUserQuery, executeNamedQuery } from '../services/sqlService';
 import { SpinnerIcon, SaveIcon, PlayCircleIcon, CalendarIcon, TrashIcon, BarcodeScannerIcon } from '../components/Icons';
 import AddEventProductModal from '../components/AddEventProductModal';
 import EditEventProductModal from '../components/EditEventProductModal';
@@ -10,290 +10,10 @@ import EventContinuousAddModal from '../components/EventContinuousAddModal';
 import { useDraft } from '../hooks/useDraft';
 import { useAdjustForKeyboard } from '../hooks/useAdjustForKeyboard';
 import { useProductSearch } from '../hooks/useProductSearch';
+import { expectSuccess } from '../utils/queryResult';
 
-// ... (기존 SQL 상수들 동일 - 변경 없음)
 const DRAFT_KEY = 'event-registration-draft';
 
-const CREATE_MASTER_SQL = `
--- [행사 마스터 신규 생성] sale_mast 테이블 사용
-SET NOCOUNT ON;
-SET XACT_ABORT ON;
-
-DECLARE @NewJunno VARCHAR(20)
-DECLARE @Today VARCHAR(10)
-SET @Today = CONVERT(VARCHAR(10), GETDATE(), 120)
-
--- [수정] 전표번호 형식: YYMMDD_XXXXXX (일련번호)
-DECLARE @TodayPrefix VARCHAR(6)
-SET @TodayPrefix = CONVERT(VARCHAR(6), GETDATE(), 12) -- YYMMDD
-
-DECLARE @MaxSeq INT
--- 해당 일자의 마지막 번호 추출 (길이 13자리이고 뒷자리 6자리가 숫자인 것 조회)
-SELECT @MaxSeq = MAX(CAST(RIGHT(LTRIM(RTRIM(junno)), 6) AS INT))
-FROM sale_mast WITH(NOLOCK)
-WHERE junno LIKE @TodayPrefix + '_%'
-  AND ISNUMERIC(RIGHT(LTRIM(RTRIM(junno)), 6)) = 1
-  AND LEN(LTRIM(RTRIM(junno))) = 13
-
-IF @MaxSeq IS NULL SET @MaxSeq = 0
-
--- 다음 번호 생성 (000001 형식)
-SET @NewJunno = @TodayPrefix + '_' + RIGHT('000000' + CAST(@MaxSeq + 1 AS VARCHAR), 6)
-
-BEGIN TRY
-    BEGIN TRANSACTION;
-
-    INSERT INTO sale_mast (junno, salename, startday, endday, itemcount, isappl, appendid, appendday, avgmgrate)
-    VALUES (
-        @NewJunno, 
-        LEFT(@SaleName, 30), 
-        @StartDay, 
-        @EndDay, 
-        0, 
-        '0', -- 초기 상태: 대기(0)
-        '', 
-        @Today, 
-        0
-    )
-
-    COMMIT TRANSACTION;
-    
-    SELECT 'SUCCESS' AS RESULT, @NewJunno AS NEW_JUNNO
-END TRY
-BEGIN CATCH
-    IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
-    SELECT 'FAIL' AS RESULT, ERROR_MESSAGE() AS MSG
-END CATCH
-`;
-
-const CANCEL_DELETE_SQL = `
--- [행사 등록 중 취소 및 완전 삭제]
-SET NOCOUNT ON;
-SET XACT_ABORT ON;
-
-BEGIN TRY
-    BEGIN TRANSACTION;
-
-    -- 1. 중지 상태로 변경 (0)
-    UPDATE sale_mast SET isappl = '0' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno));
-    UPDATE sale_ready SET isappl = '0' WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno));
-    
-    -- 2. 관련 데이터 삭제
-    DELETE FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno));
-    DELETE FROM sale_mast WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno));
-
-    COMMIT TRANSACTION;
-    SELECT 'SUCCESS' AS RESULT, '행사가 취소 및 삭제되었습니다.' AS MSG;
-END TRY
-BEGIN CATCH
-    IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
-    SELECT 'FAIL' AS RESULT, ERROR_MESSAGE() AS MSG;
-END CATCH
-`;
-
-const UPSERT_ITEM_SQL = `
--- 쿼리 이름: 행사상품_저장_통합 (SQL 2005) - 이전 행사가격 자동 조회 기능 추가
--- 파라미터: @Junno, @Barcode, @SaleCost, @SalePrice, @IsAppl
-
-DECLARE @TargetStart VARCHAR(10)
-DECLARE @TargetEnd VARCHAR(10)
-DECLARE @SaleName VARCHAR(30)
-DECLARE @ComCode VARCHAR(5)
-DECLARE @MarginRate DECIMAL(18,2)
-DECLARE @NextSerial VARCHAR(5)
-DECLARE @JunnoSerial VARCHAR(25)
-DECLARE @Today VARCHAR(10)
-DECLARE @OrgPriceToUse DECIMAL(18,0)
-
--- [추가] edtday 포맷 생성을 위한 변수 선언
-DECLARE @Now DATETIME
-DECLARE @EdtTimeStr VARCHAR(30)
-DECLARE @HH INT
-DECLARE @AmPm VARCHAR(4)
-DECLARE @HH12 INT
-
-SET @Today = CONVERT(VARCHAR(10), GETDATE(), 120)
-
--- [추가] 'YYYY-MM-DD 오후 H:MM:SS' 포맷 생성 로직 (SQL 2005 호환)
-SET @Now = GETDATE()
-SET @HH = DATEPART(HOUR, @Now)
-SET @AmPm = CASE WHEN @HH >= 12 THEN '오후' ELSE '오전' END
-SET @HH12 = CASE WHEN @HH > 12 THEN @HH - 12
-                 WHEN @HH = 0 THEN 12 
-                 ELSE @HH END
-
--- 예: 2026-01-14 오후 7:06:21
-SET @EdtTimeStr = @Today + ' ' + @AmPm + ' ' + 
-                  CAST(@HH12 AS VARCHAR) + ':' + 
-                  RIGHT('0' + CAST(DATEPART(MINUTE, @Now) AS VARCHAR), 2) + ':' + 
-                  RIGHT('0' + CAST(DATEPART(SECOND, @Now) AS VARCHAR), 2)
-
-
-SET NOCOUNT ON;
-SET XACT_ABORT ON;
-
-BEGIN TRY
-    BEGIN TRANSACTION;
-
-        -- [1] 행사 헤더 정보(기간, 행사명) 조회
-        SELECT @SaleName = salename, 
-               @TargetStart = startday, 
-               @TargetEnd = endday
-        FROM sale_mast WITH(UPDLOCK, ROWLOCK) 
-        WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))
-
-        IF ISNULL(@SaleName, '') = ''
-        BEGIN
-            RAISERROR('존재하지 않는 행사 전표이거나 행사명이 없습니다.', 16, 1)
-        END
-
-        -- [2] 상품 기본 정보(거래처코드) 조회
-        SELECT @ComCode = comcode
-        FROM parts WITH(NOLOCK)
-        WHERE barcode = @Barcode
-
-        IF @ComCode IS NULL
-        BEGIN
-            RAISERROR('상품 마스터에 없는 바코드입니다.', 16, 1)
-        END
-        
-        -- [3] 기준 정상가 조회 (이전 행사 가격이 있으면 그것을 우선, 없으면 현재 마스터 판매가)
-        SET @OrgPriceToUse = ISNULL(
-            (SELECT TOP 1 r.salemoney1 
-             FROM sale_ready r JOIN sale_mast m ON r.junno = m.junno
-             WHERE r.barcode = @Barcode AND LTRIM(RTRIM(m.junno)) <> LTRIM(RTRIM(@Junno))
-             ORDER BY m.endday DESC, m.startday DESC),
-            (SELECT money1 FROM parts WHERE barcode = @Barcode)
-        );
-
-        -- [4] 마진율 계산
-        IF CAST(@SalePrice AS DECIMAL) = 0
-            SET @MarginRate = 0
-        ELSE
-            SET @MarginRate = FLOOR(((CAST(@SalePrice AS DECIMAL) - CAST(@SaleCost AS DECIMAL)) / CAST(@SalePrice AS DECIMAL)) * 100)
-
-        -- [5] 데이터 저장 (UPSERT: 있으면 수정, 없으면 추가)
-        IF EXISTS (SELECT 1 FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)) AND barcode = @Barcode)
-        BEGIN
-            -- 이미 등록된 경우: UPDATE
-            UPDATE sale_ready
-            SET salemoney0 = FLOOR(CAST(@SaleCost AS DECIMAL)), -- 소수점 제거
-                salemoney1 = @SalePrice,
-                salecount  = @MarginRate,
-                isappl     = @IsAppl,
-                
-                -- [수정됨] 요청하신 날짜/시간 포맷 적용
-                edtday     = @EdtTimeStr,
-                starttime  = @Today,
-                endtime    = '-'
-                
-            WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)) AND barcode = @Barcode
-        END
-        ELSE
-        BEGIN
-            -- 신규 등록인 경우: INSERT
-            -- 일련번호 생성 (junno_serial)
-            SELECT @NextSerial = RIGHT('00000' + CAST(ISNULL(COUNT(*), 0) + 1 AS VARCHAR), 5)
-            FROM sale_ready 
-            WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))
-
-            SET @JunnoSerial = @Junno + '_' + @NextSerial
-
-            INSERT INTO sale_ready (
-                junno_serial, junno, salename, barcode, comcode, 
-                salemoney0, salemoney1, orgmoney1, salecount, 
-                startday, endday, isappl, inpday, 
-                islink, isautoappl, isautoback,
-                
-                -- [추가됨] 요청하신 컬럼 추가
-                edtday, starttime, endtime
-            )
-            VALUES (
-                @JunnoSerial, @Junno, @SaleName, @Barcode, @ComCode,
-                FLOOR(CAST(@SaleCost AS DECIMAL)), @SalePrice, @OrgPriceToUse, @MarginRate, -- 소수점 제거
-                @TargetStart, @TargetEnd, @IsAppl, @Today,
-                '0', '1', '1',
-                
-                -- [추가됨] 요청하신 값 매핑
-                @EdtTimeStr,
-                @Today,
-                '-'
-            )
-        END
-        
-        -- [6] 마스터 테이블 요약 정보(품목 수, 평균 마진율) 자동 업데이트
-        UPDATE sale_mast 
-        SET itemcount = (SELECT COUNT(*) FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))),
-            avgmgrate = (SELECT ISNULL(AVG(salecount), 0) FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)))
-        WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))
-
-    COMMIT TRANSACTION;
-    SELECT 'SUCCESS' AS RESULT, '저장되었습니다.' AS MSG
-
-END TRY
-BEGIN CATCH
-    IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
-    SELECT 'FAIL' AS RESULT, ERROR_MESSAGE() AS MSG
-END CATCH
-`;
-
-const FINAL_CONFIRM_SQL = `
--- [행사 최종 확정 및 상태 변경 + Parts 업데이트]
-SET NOCOUNT ON;
-SET XACT_ABORT ON;
-
-DECLARE @Today VARCHAR(10)
-DECLARE @TargetStatus VARCHAR(1)
-SET @Today = CONVERT(VARCHAR(10), GETDATE(), 120)
-
--- 날짜 조건에 따른 최종 상태 결정 (시작일이 오늘이거나 지났으면 '1', 아니면 '0')
-SET @TargetStatus = CASE 
-                        WHEN @FinalStart <= @Today THEN '1'
-                        ELSE '0'
-                    END
-
-BEGIN TRY
-    BEGIN TRANSACTION;
-
-        -- 1. 마스터 정보 업데이트
-        UPDATE sale_mast
-        SET salename = LEFT(@FinalName, 30),
-            startday = @FinalStart,
-            endday   = @FinalEnd,
-            isappl   = @TargetStatus
-        WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@TargetJunno))
-
-        -- 2. 소속된 모든 품목 상태도 마스터와 동일하게 업데이트
-        UPDATE sale_ready
-        SET startday = @FinalStart,
-            endday = @FinalEnd,
-            isappl = @TargetStatus
-        WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@TargetJunno))
-
-        -- 3. [추가] 만약 적용 상태('1')가 되면 parts 테이블 업데이트
-        IF @TargetStatus = '1'
-        BEGIN
-            UPDATE p
-            SET p.money1comp = r.salemoney1,
-                p.salemoney0 = r.salemoney0,
-                p.salestartday = r.startday,
-                p.saleendday = r.endday
-            FROM parts p
-            JOIN sale_ready r ON p.barcode = r.barcode
-            WHERE LTRIM(RTRIM(r.junno)) = LTRIM(RTRIM(@TargetJunno));
-        END
-
-    COMMIT TRANSACTION;
-
-    SELECT 'SUCCESS' AS RESULT, 
-           CASE WHEN @TargetStatus = '1' THEN 'APPLIED' ELSE 'RESERVED' END AS STATUS
-END TRY
-BEGIN CATCH
-    IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
-    SELECT 'FAIL' AS RESULT, ERROR_MESSAGE() AS MSG
-END CATCH
-`;
-
 interface EventRegistrationPageProps {
     isActive: boolean;
     onSuccess: (newJunno: string) => void;
@@ -378,16 +98,11 @@ const EventRegistrationPage: React.FC<EventRegistrationPageProps> = ({ isActive,
         setIsSaving(true);
         try {
             const params = { SaleName: eventName, StartDay: startDate, EndDay: endDate };
-            const result = await executeUserQuery('행사마스터_신규등록', params, CREATE_MASTER_SQL);
-            
-            if (result && result.length > 0 && result[0].RESULT === 'SUCCESS') {
-                const newJunno = String(result[0].NEW_JUNNO).trim();
-                setJunno(newJunno);
-                setStep(2);
-                showToast("행사 전표가 생성되었습니다.", "success");
-            } else { 
-                throw new Error(result?.[0]?.MSG || '행사 마스터 생성 실패'); 
-            }
+            const row = expectSuccess(await executeNamedQuery('행사마스터_신규등록', params), { requireResult: true, fallbackMessage: '행사 마스터 생성 실패' });
+            const newJunno = String(row.NEW_JUNNO).trim();
+            setJunno(newJunno);
+            setStep(2);
+            showToast("행사 전표가 생성되었습니다.", "success");
         } catch (error: any) { 
             showAlert(`오류: ${error.message}`); 
         } finally { setIsSaving(false); }
@@ -402,8 +117,7 @@ const EventRegistrationPage: React.FC<EventRegistrationPageProps> = ({ isActive,
                 SalePrice: itemData['행사판매가'],
                 IsAppl: '0' 
             };
-            const result = await executeUserQuery('행사상품_추가저장', params, UPSERT_ITEM_SQL);
-            if (result && result.length > 0 && result[0].RESULT === 'FAIL') throw new Error(result[0].MSG);
+            expectSuccess(await executeNamedQuery('행사등록_상품저장', params));
             
             showToast('상품이 저장되었습니다.', 'success');
             await fetchAddedItems(junno);
@@ -416,8 +130,7 @@ const EventRegistrationPage: React.FC<EventRegistrationPageProps> = ({ isActive,
     const handleDeleteItem = (barcode: string) => {
         showAlert(`목록에서 삭제하시겠습니까?`, async () => {
             try {
-                const deleteSql = `DELETE FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno)) AND barcode = @Barcode; UPDATE sale_mast SET itemcount = (SELECT COUNT(*) FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))), avgmgrate = (SELECT ISNULL(AVG(salecount), 0) FROM sale_ready WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno))) WHERE LTRIM(RTRIM(junno)) = LTRIM(RTRIM(@Junno));`;
-                await executeUserQuery('행사상품_개별삭제', { Junno: junno.trim(), Barcode: barcode }, deleteSql);
+                await executeNamedQuery('행사상품_개별삭제', { Junno: junno.trim(), Barcode: barcode });
                 showToast('삭제되었습니다.', 'success');
                 await fetchAddedItems(junno);
             } catch (e: any) { showAlert('삭제 실패: ' + e.message); }
@@ -436,18 +149,15 @@ const EventRegistrationPage: React.FC<EventRegistrationPageProps> = ({ isActive,
         showAlert(msg, async () => {
             setIsSaving(true);
             try {
-                const res = await executeUserQuery('행사등록_최종확정', { 
+                const res = await executeNamedQuery('행사등록_최종확정', { 
                     TargetJunno: junno.trim(), FinalName: eventName, FinalStart: startDate, FinalEnd: endDate 
-                }, FINAL_CONFIRM_SQL);
+                });
                 
-                if (res && res[0].RESULT === 'SUCCESS') {
-                    if (res[0].STATUS === 'APPLIED') showToast('행사가 즉시 적용되었습니다.', 'success');
-                    else showToast('행사가 성공적으로 예약되었습니다.', 'success');
-                    removeDraft(); 
-                    onSuccess(junno);
-                } else {
-                    throw new Error(res?.[0]?.MSG || '확정 실패');
-                }
+                const row = expectSuccess(res, { requireResult: true, fallbackMessage: '확정 실패' });
+                if (row.STATUS === 'APPLIED') showToast('행사가 즉시 적용되었습니다.', 'success');
+                else showToast('행사가 성공적으로 예약되었습니다.', 'success');
+                removeDraft(); 
+                onSuccess(junno);
             } catch (e: any) { 
                 showAlert(`저장 오류: ${e.message}`); 
             } finally { 
@@ -461,7 +171,7 @@ const EventRegistrationPage: React.FC<EventRegistrationPageProps> = ({ isActive,
             "작성 중인 행사를 취소하고 모든 내용을 삭제하시겠습니까?\n이 작업은 되돌릴 수 없습니다.",
             async () => {
                 try {
-                    if (junno) await executeUserQuery('행사등록_취소삭제', { Junno: junno.trim() }, CANCEL_DELETE_SQL);
+                    if (junno) await executeNamedQuery('행사등록_취소삭제', { Junno: junno.trim() });
                     removeDraft();
                     onSuccess('');
                     showToast('행사 등록이 취소되었습니다.', 'success');
@@ -7,97 +7,14 @@ import { useProductSearch } from '../hooks/useProductSearch';
 import { useDraft } from '../hooks/useDraft';
 import { useDebounce } from '../hooks/useDebounce';
 import StockAuditItemModal from '../components/StockAuditItemModal';
-import { executeUserQuery } from '../services/sqlService';
+import { executeNamedQuery } from '../services/sqlService';
+import { executeNamedQueryOrQueue, executeNamedBatchOrQueue } from '../services/outboxService';
 import SearchDropdown from '../components/SearchDropdown';
 import ProductSearchResultItem from '../components/ProductSearchResultItem';
+import { expectSuccess } from '../utils/queryResult';
 
 const DRAFT_KEY = 'inventory-audit-draft';
 
-const GET_REALTIME_STOCK_SQL = `SELECT ISNULL(curjago, 0) as curjago FROM parts WITH(NOLOCK) WHERE barcode = LEFT(@Barcode, 20)`;
-
-const IMMEDIATE_AUDIT_SQL = `
--- [SQL 2005 호환] 재고 실사 반영 (이중 업데이트 방지 - 차이값 기록 방식)
-SET NOCOUNT ON;
-SET XACT_ABORT ON;
-
-DECLARE @CurQty DECIMAL(18,0)
-DECLARE @DiffQty DECIMAL(18,0)
-DECLARE @Cost DECIMAL(18,0)
-DECLARE @Price DECIMAL(18,0)
-DECLARE @ComCode NVARCHAR(MAX)
-DECLARE @Today VARCHAR(10)
-DECLARE @YYMM VARCHAR(4)
-DECLARE @TableName NVARCHAR(100)
-DECLARE @SQL NVARCHAR(MAX)
-DECLARE @ErrMsg NVARCHAR(MAX)
-
-SET @Today = CONVERT(VARCHAR(10), GETDATE(), 120)
-SET @YYMM = LEFT(CONVERT(VARCHAR(6), GETDATE(), 12), 4)
-SET @TableName = 'bojung_' + @YYMM
-
-BEGIN TRY
-    BEGIN TRANSACTION;
-
-    -- 1. 현재 전산 재고 조회 (정확한 차이 계산을 위해 조회 직전 시점 데이터 사용)
-    SELECT @CurQty = ISNULL(curjago, 0),
-           @Cost = ISNULL(money0, 0),
-           @Price = ISNULL(money1, 0),
-           @ComCode = ISNULL(comcode, '')
-    FROM parts WITH(UPDLOCK, HOLDLOCK)
-    WHERE barcode = LEFT(@Barcode, 20)
-
-    IF @CurQty IS NULL
-    BEGIN
-         RAISERROR('등록되지 않은 상품입니다.', 16, 1)
-    END
-
-    -- 2. 차이 수량 계산 (실사수량 - 전산재고)
-    SET @DiffQty = @RealQty - @CurQty
-
-    IF @DiffQty <> 0
-    BEGIN
-        -- [중요] 직접 UPDATE parts 대신 보정 테이블 INSERT만 수행
-        -- 트리거가 있는 시스템에서는 보정 테이블 입력 시 자동으로 재고가 계산됩니다.
-        SET @SQL = N'INSERT INTO ' + @TableName + N' (
-                        comcode, day1, barcode, 
-                        itemcount, money0vat, tmoney, money1, tmoney1, 
-                        upgubun, mancode
-                     )
-                     SELECT 
-                        LEFT(@P_ComCode, 5),
-                        LEFT(@P_Day1, 10),
-                        LEFT(@P_Barcode, 15),
-                        @P_DiffQty,
-                        @P_Cost,
-                        @P_Cost * @P_DiffQty,
-                        @P_Price,
-                        @P_Price * @P_DiffQty,
-                        ''0'',
-                        '''' -- mancode'
-
-        EXEC sp_executesql @SQL,
-            N'@P_ComCode NVARCHAR(MAX), @P_Day1 VARCHAR(10), @P_Barcode NVARCHAR(MAX), 
-              @P_DiffQty DECIMAL(18,0), @P_Cost DECIMAL(18,0), @P_Price DECIMAL(18,0)',
-            @ComCode, @Today, @Barcode, 
-            @DiffQty, @Cost, @Price
-    END
-
-    COMMIT TRANSACTION;
-
-    -- 클라이언트에 결과 반환
-    SELECT 'SUCCESS' AS RESULT,
-           @CurQty AS OLD_QTY,
-           @RealQty AS NEW_QTY,
-           @DiffQty AS DIFF_QTY
-
-END TRY
-BEGIN CATCH
-    IF @@TRANCOUNT > 0 ROLLBACK TRANSACTION;
-    SET @ErrMsg = ERROR_MESSAGE()
-    SELECT 'FAIL' AS RESULT, @ErrMsg AS MSG
-END CATCH
-`;
-
 const InventoryAuditPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
     const { products: localProducts } = useDataState();
     const { showAlert, showToast } = useAlert();
@@ -153,7 +70,7 @@ const InventoryAuditPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
     const fetchRealTimeStock = async (barcode: string): Promise<number | null> => {
         if (sqlStatus !== 'connected') return null;
         try {
-            const res = await executeUserQuery('실시간재고확인', { Barcode: barcode }, GET_REALTIME_STOCK_SQL);
+            const res = await executeNamedQuery('실시간재고확인', { Barcode: barcode });
             if (res && res.length > 0) return Number(res[0].curjago);
             return null;
         } catch (e) { return null; }
@@ -213,12 +130,15 @@ const InventoryAuditPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
             setIsSaving(true);
             try {
                 const params = { Barcode: p.barcode, RealQty: auditQty };
-                const res = await executeUserQuery('재고실사_즉시저장', params, IMMEDIATE_AUDIT_SQL);
+                const outcome = await executeNamedQueryOrQueue('재고실사_즉시저장', params, `재고실사 ${p.name} (${auditQty})`);
                 
-                if (res && res[0]?.RESULT === 'SUCCESS') {
+                if (outcome.queued) {
+                    showToast(`'${p.name}' 실사가 전송 대기열에 저장되었습니다. 서버 연결 시 자동 전송됩니다.`, 'success');
+                } else {
+                    expectSuccess(outcome.recordset, { requireResult: true, fallbackMessage: '서버 처리 오류' });
                     showToast(`'${p.name}' 실사가 서버에 즉시 반영되었습니다.`, 'success');
                     // [수정됨] 즉시 적용 시 목록에 추가하지 않음
-                } else throw new Error(res?.[0]?.MSG || '서버 처리 오류');
+                }
             } catch (e: any) {
                 showAlert(`즉시 반영 실패: ${e.message}`);
                 setIsSaving(false); return;
@@ -256,23 +176,18 @@ const InventoryAuditPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
 
     const handleBatchSave = async () => {
         if (auditedItems.length === 0 || isSaving) return;
-        if (sqlStatus !== 'connected') {
-            const connected = await checkSql();
-            if (!connected) { showAlert("SQL 서버에 연결되어 있지 않습니다."); return; }
-        }
+        // 서버에 연결되지 않아도 전송 대기열에 보관되므로 연결 확인만 시도합니다.
+        if (sqlStatus !== 'connected') await checkSql();
 
         showAlert(`총 ${auditedItems.length}건의 실사를 일괄 전송하시겠습니까?`, async () => {
             setIsSaving(true);
-            let successCount = 0;
             try {
-                for (const item of auditedItems) {
-                    const params = { Barcode: item.barcode, RealQty: item.auditQty };
-                    const res = await executeUserQuery('재고실사_즉시저장', params, IMMEDIATE_AUDIT_SQL);
-                    if (res?.[0]?.RESULT === 'SUCCESS') successCount++;
-                }
-                showToast(`${successCount}건의 실사가 저장되었습니다.`, 'success');
+                // 전체 실사를 하나의 트랜잭션으로 반영합니다. 한 건이라도 실패하면 아무것도 반영되지 않습니다.
+                const statements = auditedItems.map(item => ({ name: '재고실사_즉시저장', params: { Barcode: item.barcode, RealQty: item.auditQty } }));
+                const outcome = await executeNamedBatchOrQueue(statements, `재고실사 일괄 ${auditedItems.length}건`);
+                showToast(outcome.queued ? `${auditedItems.length}건의 실사가 전송 대기열에 보관되었습니다.` : `${outcome.results.length}건의 실사가 저장되었습니다.`, 'success');
                 setAuditedItems([]); removeDraft();
-            } catch (e: any) { showAlert(`저장 중 오류 발생: ${e.message}`); } finally { setIsSaving(false); }
+            } catch (e: any) { showAlert(`저장 중 오류 발생 (저장된 항목 없음): ${e.message}`); } finally { setIsSaving(false); }
         });
     };
 
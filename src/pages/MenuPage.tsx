@@ -9,6 +9,7 @@ import {
 } from '../components/Icons';
 import { useMiscUI, useAlert, useSyncState } from '../context/AppContext';
 import { SW_VERSION } from '../config';
+import { classifyServerHealth } from '../utils/serverHealth';
 
 interface MenuPageProps {
     onNavigate: (feature: string) => void;
@@ -62,7 +63,7 @@ const SectionHeader: React.FC<{ title: string }> = ({ title }) => (
 );
 
 const MenuPage: React.FC<MenuPageProps> = ({ onNavigate }) => {
-    const { sqlStatus, checkSql, receivingBadgeCount, hasActiveReceivingDraft } = useMiscUI();
+    const { sqlStatus, checkSql, serverDiagnostics, serverCheckError, receivingBadgeCount, hasActiveReceivingDraft } = useMiscUI();
     const { showToast } = useAlert();
     const { isSyncing, syncStatusText, syncProgress } = useSyncState();
     const [isOnline, setIsOnline] = useState(navigator.onLine);
@@ -100,22 +101,26 @@ const MenuPage: React.FC<MenuPageProps> = ({ onNavigate }) => {
             );
         }
 
+        const health = classifyServerHealth(serverDiagnostics, serverCheckError, isOnline);
         let statusColor = 'bg-slate-400';
-        let statusText = '연결 확인 필요';
+        let statusText = health.label;
         
-        switch (sqlStatus) {
-            case 'connected': 
-                statusColor = 'bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.4)]'; 
-                statusText = '서버 온라인'; 
-                break;
-            case 'error': 
-                statusColor = 'bg-rose-500'; 
-                statusText = '오프라인 모드'; 
-                break;
-            case 'checking': 
-                statusColor = 'bg-amber-400 animate-pulse'; 
-                statusText = '연결 확인 중...'; 
-                break;
+        if (sqlStatus === 'checking') {
+            statusColor = 'bg-amber-400 animate-pulse'; 
+            statusText = '연결 확인 중...'; 
+        } else {
+            switch (health.level) {
+                case 'ok': 
+                    statusColor = 'bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.4)]'; 
+                    break;
+                case 'slow': 
+                    statusColor = 'bg-amber-500'; 
+                    break;
+                case 'dbDown': 
+                case 'serverDown': 
+                    statusColor = 'bg-rose-500'; 
+                    break;
+            }
         }
 
         return (
@@ -123,7 +128,7 @@ const MenuPage: React.FC<MenuPageProps> = ({ onNavigate }) => {
                 <div className="relative">
                     <div className={`w-2 h-2 rounded-full transition-all duration-300 ${statusColor}`} />
                 </div>
-                <span className={`text-[10px] font-bold transition-colors ${sqlStatus === 'connected' ? 'text-emerald-600' : 'text-slate-500'}`}>
+                <span className={`text-[10px] font-bold transition-colors ${sqlStatus === 'connected' ? 'text-emerald-600' : 'text-slate-500'}`} title={health.detail || undefined}>
                     {statusText}
                 </span>
             </div>
@@ -1,8 +1,8 @@
 
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import ActionModal from '../components/ActionModal';
-import { useAlert, useDataState, useScanner, useMiscUI } from '../context/AppContext';
-import { executeUserQuery, searchProductsForEdit, extractParamsForQuery } from '../services/sqlService';
+import { useAlert, useDataState, useScanner, useMiscUI, useDeviceSettings } from '../context/AppContext';
+import { executeUserQuery, executeNamedQuery, searchProductsForEdit, extractParamsForQuery, SqlConfirmationRequiredError } from '../services/sqlService';
 import { BarcodeScannerIcon, SearchIcon, SpinnerIcon, CheckCircleIcon, UndoIcon, XMarkIcon, ChevronDownIcon } from '../components/Icons';
 import { Customer, Category } from '../types';
 import { getCachedData } from '../services/cacheDbService';
@@ -38,18 +38,6 @@ interface BomItem {
     qty: number;
 }
 
-// [BOM 기본 쿼리 - 묶음 상품용 유지]
-const GET_BOM_COMPONENTS_SQL = `
-SELECT 
-    b.childbar AS [바코드],
-    p.descr AS [상품명],
-    p.spec  AS [규격],
-    p.money0vat AS [매입가],
-    b.childcount AS [수량]
-FROM bom AS b WITH(NOLOCK)
-JOIN parts AS p WITH(NOLOCK) ON b.childbar = p.barcode
-WHERE b.parebar = @barcode
-`;
 
 const toBoolean = (val: any): boolean => {
     if (val === true || val === 'true') return true;
@@ -65,6 +53,7 @@ export default function ProductEditPage({ isOpen, onClose, initialBarcode }: Pro
     const { showAlert, showToast } = useAlert();
     const { openScanner } = useScanner();
     const { sqlStatus } = useMiscUI();
+    const { allowDestructiveQueries } = useDeviceSettings();
 
     // --- State Variables ---
     const [barcode, setBarcode] = useState('');
@@ -134,7 +123,7 @@ export default function ProductEditPage({ isOpen, onClose, initialBarcode }: Pro
     const loadSuppliers = useCallback(async () => {
         if (sqlStatus === 'connected') {
             try {
-                const res = await executeUserQuery('getSuppliers');
+                const res = await executeNamedQuery('거래처목록');
                 const mapped = res.map((r: any) => ({ comcode: r.comcode, name: r.comname }));
                 setSupplierList(mapped);
             } catch (e) { setSupplierList(offlineCustomers); }
@@ -350,8 +339,9 @@ export default function ProductEditPage({ isOpen, onClose, initialBarcode }: Pro
         if (isPack) {
             try {
                 const userQuery = userQueries.find(q => q.name === 'BOM');
-                const sqlToRun = userQuery ? userQuery.query : GET_BOM_COMPONENTS_SQL;
-                const bomRes = await executeUserQuery('BOM', { barcode: safeBarcode }, sqlToRun);
+                const bomRes = userQuery
+                    ? await executeUserQuery('BOM', { barcode: safeBarcode }, userQuery.query)
+                    : await executeNamedQuery('BOM구성', { barcode: safeBarcode });
                 setBomList(mapBomData(bomRes));
             } catch (err) { setBomList([]); }
         } else { setBomList([]); }
@@ -404,7 +394,7 @@ export default function ProductEditPage({ isOpen, onClose, initialBarcode }: Pro
         }
     }, [isOpen, initialBarcode, performSearch, resetForm]);
 
-    const handleSave = async () => {
+    const handleSave = async (confirmed = false) => {
         if (!barcode || !productName) { showAlert("바코드와 상품명은 필수 항목입니다."); return; }
         if (!lCode) { showAlert("대분류를 선택해주세요."); return; }
         if (!comcode) { showAlert("거래처를 선택해주세요."); return; }
@@ -432,14 +422,18 @@ export default function ProductEditPage({ isOpen, onClose, initialBarcode }: Pro
             if (!userDefinedQuery) { showAlert(`'${userQueryName}' 쿼리가 설정되지 않았습니다.`); return; }
 
             const dynamicParams = extractParamsForQuery(userDefinedQuery.query, contextParams);
-            await executeUserQuery(userQueryName, dynamicParams, userDefinedQuery.query);
+            await executeUserQuery(userQueryName, dynamicParams, userDefinedQuery.query, undefined, { allowDestructive: allowDestructiveQueries, confirmed });
             
             showToast(isEditMode ? "수정되었습니다." : "등록되었습니다.", "success");
             setSearchInput('');
             if (isCategoryFixed) resetForm(false); else resetForm(true);
             recordUsage(comcode);
 
-        } catch (e: any) { showAlert(`저장 오류: ${e.message}`); } finally { setIsSaving(false); }
+        } catch (e: any) {
+            // 저장 쿼리는 데이터를 변경하므로 서버가 실행 전 확인을 요구합니다.
+            if (e instanceof SqlConfirmationRequiredError) showAlert(`${e.message}\n\n구문: ${e.classification?.keywords.join(', ') || ''}`, () => handleSave(true), '저장', 'bg-blue-600');
+            else showAlert(`저장 오류: ${e.message}`);
+        } finally { setIsSaving(false); }
     };
 
     const handleToggleWithConfirm = (label: string, currentValue: boolean, setter: (val: boolean) => void) => {
@@ -515,7 +509,7 @@ export default function ProductEditPage({ isOpen, onClose, initialBarcode }: Pro
 
                     <div ref={buttonsContainerRef} className="grid grid-cols-[1fr_4fr] gap-2 pt-1 pb-1">
                         <button onClick={handleReset} className="h-12 bg-orange-100 border border-orange-200 text-orange-600 rounded-md flex items-center justify-center hover:bg-orange-200 active:scale-95 transition-transform"><UndoIcon className="w-6 h-6" /></button>
-                        <button onClick={handleSave} disabled={isSaving} className="h-12 bg-blue-600 text-white rounded-md font-bold text-lg flex items-center justify-center gap-2 hover:bg-blue-700 shadow-md active:scale-95 disabled:bg-gray-400 transition-transform">{isSaving ? <SpinnerIcon className="w-5 h-5" /> : <CheckCircleIcon className="w-5 h-5" />}저장</button>
+                        <button onClick={() => handleSave()} disabled={isSaving} className="h-12 bg-blue-600 text-white rounded-md font-bold text-lg flex items-center justify-center gap-2 hover:bg-blue-700 shadow-md active:scale-95 disabled:bg-gray-400 transition-transform">{isSaving ? <SpinnerIcon className="w-5 h-5" /> : <CheckCircleIcon className="w-5 h-5" />}저장</button>
                     </div>
 
                     <div className="grid grid-cols-2 gap-1 mt-1 mb-0">
@@ -1,6 +1,6 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { executeUserQuery, extractParamsForQuery } from '../services/sqlService';
+import { executeUserQuery, executeNamedQuery, extractParamsForQuery } from '../services/sqlService';
 import { useAlert, useDataState } from '../context/AppContext';
 import { SpinnerIcon, SearchIcon, XMarkIcon } from '../components/Icons';
 import SearchDropdown from '../components/SearchDropdown';
@@ -74,82 +74,13 @@ const PurchaseHistoryPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
         setHasSearched(true);
 
         try {
-            const userProvidedQuery = `
--- [매입 목록 조회] 전체/개별 거래처 통합 조회 (SQL 2005 호환)
-SET NOCOUNT ON;
-
-DECLARE @p_StartDate  VARCHAR(10);
-DECLARE @p_EndDate    VARCHAR(10);
-DECLARE @p_ComCode    VARCHAR(5);
-
--- ★ 앱에서 "전체" 선택 시 빈 값('')을 보내주세요.
-SET @p_StartDate = @startDate;
-SET @p_EndDate   = @endDate;
-SET @p_ComCode   = @comcode;   -- 값이 있으면 개별, 없으면('') 전체
-
-DECLARE @FinalSQL     NVARCHAR(MAX);
-DECLARE @UnionStr     NVARCHAR(10);
-DECLARE @CurrDate     DATETIME;
-DECLARE @EndTarget    DATETIME;
-DECLARE @YYMM         VARCHAR(4);
-DECLARE @TableName    VARCHAR(20);
-
-SET @FinalSQL    = N'';
-SET @UnionStr    = N'';
-SET @CurrDate    = CONVERT(DATETIME, @p_StartDate);
-SET @EndTarget   = CONVERT(DATETIME, @p_EndDate);
-SET @CurrDate    = DATEADD(MONTH, DATEDIFF(MONTH, 0, @CurrDate), 0); -- 매월 1일로 셋팅
-
-WHILE @CurrDate <= @EndTarget
-BEGIN
-    SET @YYMM = CONVERT(VARCHAR(4), @CurrDate, 12); 
-    SET @TableName = 'ipgom_' + @YYMM;
-
-    IF EXISTS (SELECT 1 FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = @TableName)
-    BEGIN
-        SET @FinalSQL = @FinalSQL + @UnionStr + N'
-            SELECT 
-                  A.day1             AS day1
-                , A.junno            AS junno
-                , ISNULL(B.comname, ''미등록거래처'') AS comname
-                , ISNULL(A.ipgo, 0)   AS ipgo
-                , ISNULL(A.banpum, 0) AS banpum
-                , (ISNULL(A.ipgo, 0) - ISNULL(A.banpum, 0)) AS tmoney1
-                , A.remark           AS remark
-                , A.comcode          AS comcode
-            FROM ' + @TableName + ' A WITH(NOLOCK)
-            LEFT OUTER JOIN comp B WITH(NOLOCK) ON A.comcode = B.comcode
-            WHERE A.day1 BETWEEN ''' + @p_StartDate + ''' AND ''' + @p_EndDate + '''
-        ';
-
-        -- [핵심] 코드가 있을 때만 AND 조건을 붙입니다. (빈 값이면 전체 조회됨)
-        IF @p_ComCode IS NOT NULL AND @p_ComCode <> ''
-        BEGIN
-            SET @FinalSQL = @FinalSQL + N' AND A.comcode = ''' + @p_ComCode + '''';
-        END
-
-        SET @UnionStr = N' UNION ALL ';
-    END
-    SET @CurrDate = DATEADD(MONTH, 1, @CurrDate);
-END
-
-IF @FinalSQL <> N''
-BEGIN
-    SET @FinalSQL = @FinalSQL + N' ORDER BY day1 DESC, junno DESC';
-    EXEC sp_executesql @FinalSQL;
-END
-ELSE
-BEGIN
-    SELECT 'NO_DATA' AS [RESULT], '조회된 기간에 매입 내역이 없습니다.' AS [MSG];
-END`;
-
             const params = {
                 startDate: startDate,
                 endDate: endDate,
                 comcode: selectedSupplier ? selectedSupplier.comcode : '' // Use empty string for 'all'
             };
             
-            const data = await executeUserQuery('매입내역', params, userProvidedQuery);
+            const data = await executeNamedQuery('매입내역', params);
 
             if (!Array.isArray(data)) {
                 throw new Error('서버로부터 올바른 형식의 데이터를 받지 못했습니다.');
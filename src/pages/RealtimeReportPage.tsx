@@ -1,8 +1,8 @@
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useAlert, useDataState } from '../context/AppContext';
-import { SpinnerIcon, CalendarIcon, ChevronDownIcon } from '../components/Icons';
-import { executeUserQuery } from '../services/sqlService';
+import { SpinnerIcon, CalendarIcon, ChevronDownIcon, UndoIcon } from '../components/Icons';
+import { executeUserQuery, executeUserQueryResult } from '../services/sqlService';
 import ActionModal from '../components/ActionModal';
 
 // --- Helper Functions ---
@@ -32,8 +32,19 @@ const getLocalTodayString = () => {
     return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
 };
 
+const formatDataAge = (seconds: number): string => {
+    if (seconds < 5) return '방금 조회';
+    if (seconds < 60) return `${seconds}초 전 데이터`;
+    return `${Math.floor(seconds / 60)}분 전 데이터`;
+};
+
 type QueryStatus = 'idle' | 'loading' | 'success' | 'error';
 
+// 서버가 보고서 결과를 보관하는 시간(초). 마감 시간에 여러 기기가 같은 보고서를 조회해도 DB는 한 번만 조회합니다.
+const REPORT_CACHE_TTL_SECONDS = { hourly: 30, customer: 60, category: 60 };
+// 지난 날짜의 매출은 바뀌지 않으므로 더 오래 보관합니다.
+const PAST_REPORT_CACHE_TTL_SECONDS = 300;
+
 const RealtimeReportPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
     const { showAlert } = useAlert();
     const { userQueries } = useDataState();
@@ -44,6 +55,9 @@ const RealtimeReportPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
     const [reportData, setReportData] = useState<any[] | null>(null);
     const [status, setStatus] = useState<QueryStatus>('idle');
     const [error, setError] = useState<string | null>(null);
+    // 결과가 DB에서 조회된 시각 (기기 시계 기준, 서버 캐시의 경과 시간을 반영)
+    const [dataFetchedAt, setDataFetchedAt] = useState<number | null>(null);
+    const [now, setNow] = useState(Date.now());
 
     // --- Detail Modal State ---
     const [isDetailOpen, setDetailOpen] = useState(false);
@@ -53,13 +67,13 @@ const RealtimeReportPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
     const [detailTitle, setDetailTitle] = useState('');
 
     // --- Main Report Query ---
-    const runReportQuery = useCallback(async (tab: string, date: string) => {
+    const runReportQuery = useCallback(async (tab: 'hourly' | 'customer' | 'category', date: string, refresh = false) => {
         const config = {
             hourly: { name: '시간대별매출', label: '시간대별 매출' },
             customer: { name: '거래처별매출', label: '거래처별 매출' },
             category: { name: '대분류별매출', label: '대분류별 매출' },
         };
-        const target = config[tab as keyof typeof config];
+        const target = config[tab];
         const query = userQueries.find(q => q.isImportant && q.name === target.name);
 
         if (!query) {
@@ -84,8 +98,11 @@ const RealtimeReportPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
                 end: date,
                 dt: date
             };
-            const result = await executeUserQuery(query.name, params, query.query);
-            setReportData(result);
+            const ttlSeconds = date === getLocalTodayString() ? REPORT_CACHE_TTL_SECONDS[tab] : PAST_REPORT_CACHE_TTL_SECONDS;
+            const result = await executeUserQueryResult(query.name, params, query.query, { cache: { ttlSeconds, refresh } });
+            setReportData(result.recordset);
+            setDataFetchedAt(Date.now() - (result.cache?.ageSeconds ?? 0) * 1000);
+            setNow(Date.now());
             setStatus('success');
         } catch (e: any) {
             setError(e.message || '데이터를 불러오는 데 실패했습니다.');
@@ -97,6 +114,12 @@ const RealtimeReportPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
         if (isActive) runReportQuery(activeTab, selectedDate);
     }, [isActive, activeTab, selectedDate, runReportQuery]);
 
+    useEffect(() => {
+        if (!isActive || status !== 'success') return;
+        const timer = setInterval(() => setNow(Date.now()), 5000);
+        return () => clearInterval(timer);
+    }, [isActive, status]);
+
     // --- Detail (Drill-down) Click Handler ---
     const handleRowClick = async (row: any) => {
         if (!row) return;
@@ -209,6 +232,15 @@ const RealtimeReportPage: React.FC<{ isActive: boolean }> = ({ isActive }) => {
 
             {/* 본문 테이블 */}
             <div className="flex-grow overflow-y-auto p-2">
+                {status === 'success' && dataFetchedAt !== null && (
+                    <div className="flex items-center justify-end gap-2 px-1 pb-1.5">
+                        <span className="text-[11px] font-bold text-gray-400">{formatDataAge(Math.max(0, Math.floor((now - dataFetchedAt) / 1000)))}</span>
+                        <button onClick={() => runReportQuery(activeTab, selectedDate, true)} className="flex items-center gap-1 px-2 py-1 bg-white border border-gray-200 rounded-lg text-[11px] font-bold text-blue-600 active:scale-95 transition-transform">
+                            <UndoIcon className="w-3 h-3" />
+                            새로고침
+                        </button>
+                    </div>
+                )}
                 {status === 'loading' && <div className="flex items-center justify-center h-full"><SpinnerIcon className="w-8 h-8 text-blue-500 animate-spin" /></div>}
                 {status === 'error' && <div className="p-4 text-center text-red-600 bg-red-50 rounded-xl whitespace-pre-line text-sm border border-red-100">{error}</div>}
                 {status === 'success' && reportData && (
@@ -4,7 +4,8 @@ import { useDataState, useAlert, useMiscUI, useScanner } from '../context/AppCon
 import { ReceivingBatch, ReceivingItem, Product, Customer, ReceivingDraft } from '../types';
 import * as receiveDb from '../services/receiveDbService';
 import { addReceivingBatch, listenToReceivingBatchChanges, deleteReceivingBatch } from '../services/dbService';
-import { executeUserQuery } from '../services/sqlService';
+import { executeNamedBatchOrQueue } from '../services/outboxService';
+import { truncateToByteLength } from '../utils/mapper';
 import { 
     SpinnerIcon, CheckSquareIcon, TrashIcon, 
     BarcodeScannerIcon, CheckCircleIcon, 
@@ -245,7 +246,7 @@ const ReceiveManagerPage: React.FC<ReceiveManagerPageProps> = ({ isActive, onClo
         if (sqlStatus !== 'connected') {
             const connected = await checkSql();
             if (!connected) {
-                showAlert('SQL 서버에 연결되어 있지 않아 전송할 수 없습니다.');
+                showAlert('SQL 서버에 연결되어 있지 않습니다.\n전송 대기열에 저장하고 연결되면 자동으로 전송할까요?', () => executeBatchSend(), '대기열 저장');
                 return;
             }
         }
@@ -255,40 +256,40 @@ const ReceiveManagerPage: React.FC<ReceiveManagerPageProps> = ({ isActive, onClo
     const executeBatchSend = async () => {
         const batchesToSend = batches.filter(b => selectedBatches.has(b.id));
         setIsSending(true);
-        const results = { success: 0, fail: 0 };
+        const results = { success: 0, fail: 0, queued: 0 };
+        const failMessages: string[] = [];
         const successIds: number[] = [];
         
-        const insertQuery = `INSERT INTO dbo.dt900_ipgo (day1, dtcomcode, comcode, comname, barcode, descr, money0vat, money1, itemcount, gubun, lstmoney0vat) SELECT @time, @dtcomcode, @dtcomcode, LEFT(@comname, 10), @barcode, LEFT(ISNULL(@item_name, ''), 30), @cost, @price, @qty, CASE WHEN CAST(@qty AS INT) >= 0 THEN 'I' ELSE 'B' END, ISNULL(p.money0vat, 0) FROM (SELECT 1 AS dummy) AS t LEFT JOIN dbo.parts AS p WITH (NOLOCK) ON p.barcode = @barcode`;
-        
         const now = new Date();
         const unifiedTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}:00`; 
 
         for (const batch of batchesToSend) {
+            // 한 거래처의 입고 품목은 하나의 트랜잭션으로 등록되어, 실패 시 일부만 반영되는 일이 없습니다.
+            // 멱등성 키(원본 전표 ID + 품목 ID)로 응답 지연 후 재전송해도 같은 품목이 두 번 입고되지 않습니다.
+            const statements = batch.items.map(item => ({
+                name: '입고등록',
+                idempotencyKey: `ipgo:${batch.originId ?? batch.id}:${item.uniqueId}`,
+                params: {
+                    time: `${batch.date} ${unifiedTime}`,
+                    // 길이 제한은 서버의 파라미터 선언으로 검증합니다. 바코드/거래처코드는 초과 시 오류가 되고,
+                    // 표시용 사본인 거래처명/상품명만 컬럼 길이(varchar(10)/varchar(30))에 맞춰 잘라 보냅니다.
+                    dtcomcode: batch.supplier.comcode || '',
+                    comname: truncateToByteLength(batch.supplier.name || '', 10),
+                    barcode: item.barcode || '',
+                    qty: Number(item.quantity), 
+                    cost: Number(item.costPrice), 
+                    price: Number(item.sellingPrice),
+                    item_name: truncateToByteLength(item.name || '', 30)
+                },
+            }));
+
             let sqlSuccess = true;
-            let sentItemIds = new Set<number>();
             try {
-                for (const item of batch.items) {
-                    const params = {
-                        time: `${batch.date} ${unifiedTime}`,
-                        dtcomcode: batch.supplier.comcode ? batch.supplier.comcode.substring(0, 5) : '',
-                        comname: batch.supplier.name ? batch.supplier.name.substring(0, 6) : '',
-                        barcode: item.barcode ? item.barcode.substring(0, 14) : '',
-                        qty: Number(item.quantity), 
-                        cost: Number(item.costPrice), 
-                        price: Number(item.sellingPrice),
-                        item_name: item.name ? item.name.substring(0, 15) : ''
-                    };
-                    try {
-                        await executeUserQuery('입고등록_Direct', params, insertQuery);
-                        sentItemIds.add(item.uniqueId);
-                    } catch (itemErr: any) { 
-                        console.error(`Item send failed: ${item.name}`, itemErr);
-                        sqlSuccess = false; 
-                        break; 
-                    }
-                }
+                const outcome = await executeNamedBatchOrQueue(statements, `입고 ${batch.supplier.name} (${batch.items.length}개 품목)`);
+                if (outcome.queued) results.queued++;
             } catch (err: any) { 
                 console.error(`Batch send failed: ${batch.supplier.name}`, err);
+                failMessages.push(`${batch.supplier.name}: ${err.message}`);
                 sqlSuccess = false; 
             }
 
@@ -302,13 +303,6 @@ const ReceiveManagerPage: React.FC<ReceiveManagerPageProps> = ({ isActive, onClo
                     console.warn('Firebase backup failed after SQL success', fbErr);
                 }
             } else {
-                if (sentItemIds.size > 0) {
-                    const remainingItems = batch.items.filter(item => !sentItemIds.has(item.uniqueId));
-                    if (remainingItems.length < batch.items.length) {
-                        const updatedBatch = { ...batch, items: remainingItems, itemCount: remainingItems.length };
-                        await receiveDb.saveOrUpdateBatch(updatedBatch);
-                    }
-                }
                 results.fail++;
             }
         }
@@ -323,7 +317,8 @@ const ReceiveManagerPage: React.FC<ReceiveManagerPageProps> = ({ isActive, onClo
         setIsSending(false);
         refreshLocalBatches(true);
         
-        if (results.fail > 0) showAlert(`전송 결과:\n성공 ${results.success}건 / 실패 ${results.fail}건\n네트워크 또는 SQL 서버 상태를 확인하세요.`);
+        if (results.fail > 0) showAlert(`전송 결과:\n성공 ${results.success}건 / 실패 ${results.fail}건\n실패한 내역은 서버에 반영되지 않았습니다.\n\n${failMessages.join('\n')}`);
+        else if (results.queued > 0) showToast(`${results.success}건 처리 완료 (${results.queued}건은 전송 대기열에서 자동 전송됩니다)`, 'success');
         else showToast(`${results.success}건 전송 완료`, 'success');
     };
 
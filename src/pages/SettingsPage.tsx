@@ -1,11 +1,15 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { useDeviceSettings, useDataActions, useAlert, usePWAInstall, useModals, useSyncState } from '../context/AppContext';
+import { useDeviceSettings, useDataActions, useAlert, usePWAInstall, useModals, useSyncState, useMiscUI } from '../context/AppContext';
 import { useAuth } from '../context/AuthContext';
 import { DevicePhoneMobileIcon, LogoutIcon, DatabaseIcon, SpinnerIcon, CloudArrowDownIcon, HistoryIcon, UndoIcon, XMarkIcon, ChevronRightIcon } from '../components/Icons';
 import ToggleSwitch from '../components/ToggleSwitch';
 import SyncHistoryModal from '../components/SyncHistoryModal';
 import ResendModal from '../components/ResendModal';
+import OutboxModal from '../components/OutboxModal';
+import ApiEndpointModal from '../components/ApiEndpointModal';
+import { SW_VERSION } from '../config';
+import { classifyServerHealth, describeClockOffset, CLOCK_SKEW_WARN_MS } from '../utils/serverHealth';
 
 interface SettingsPageProps {
     isActive: boolean;
@@ -47,11 +51,14 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ isActive }) => {
         selectedCameraLabel,
         scanSettings, 
         dataSourceSettings,
+        logRetentionDays,
         allowDestructiveQueries,
+        apiEndpoints,
         uiFeedback,
         setSelectedCameraId, 
         setScanSettings,
         setDataSourceSettings,
+        setLogRetentionDays,
         setAllowDestructiveQueries,
         setUiFeedback,
     } = useDeviceSettings();
@@ -61,11 +68,14 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ isActive }) => {
     const { logout, user } = useAuth();
     const { openClearHistoryModal } = useModals();
     const { isInstallPromptAvailable, triggerInstallPrompt } = usePWAInstall();
-    const { isSyncing, syncStatusText } = useSyncState();
+    const { isSyncing, syncStatusText, schedulerStatus } = useSyncState();
     
     const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
     const [isSyncHistoryModalOpen, setIsSyncHistoryModalOpen] = useState(false);
     const [isResendModalOpen, setIsResendModalOpen] = useState(false);
+    const [isOutboxModalOpen, setIsOutboxModalOpen] = useState(false);
+    const [isEndpointModalOpen, setIsEndpointModalOpen] = useState(false);
+    const { outboxCount, sqlStatus, checkSql, serverDiagnostics, serverCheckError } = useMiscUI();
     const [isRefreshingCamera, setIsRefreshingCamera] = useState(false);
 
     const refreshCameras = useCallback(async () => {
@@ -124,6 +134,10 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ isActive }) => {
         });
     };
 
+    const health = classifyServerHealth(serverDiagnostics, serverCheckError, navigator.onLine);
+    const healthColor = health.level === 'ok' ? 'text-emerald-600' : health.level === 'slow' ? 'text-amber-500' : health.level === 'unknown' ? 'text-gray-400' : 'text-rose-500';
+    const clockSkewed = serverDiagnostics?.clockOffsetMs != null && Math.abs(serverDiagnostics.clockOffsetMs) >= CLOCK_SKEW_WARN_MS;
+
     const isSelectedCameraInList = selectedCameraId && cameras.find(c => c.deviceId === selectedCameraId);
 
     return (
@@ -209,6 +223,12 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ isActive }) => {
                                         <DatabaseIcon className="w-3 h-3 text-gray-400" />
                                         전체 데이터 재수신
                                     </button>
+                                    {schedulerStatus.lastSuccessAt && (
+                                        <p className="text-center text-[10px] font-bold text-gray-400">
+                                            자동 동기화 {new Date(schedulerStatus.lastSuccessAt).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' })}
+                                            {schedulerStatus.consecutiveFailures > 0 && <span className="text-rose-500"> · 실패 {schedulerStatus.consecutiveFailures}회</span>}
+                                        </p>
+                                    )}
                                 </div>
                             </div>
                         </SettingsSection>
@@ -221,9 +241,28 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ isActive }) => {
                             >
                                 <ChevronRightIcon className="w-5 h-5 text-gray-400" />
                             </SettingsRow>
+                            <SettingsRow 
+                                label="전송 대기열" 
+                                subLabel="오프라인 상태에서 저장된 쓰기 작업"
+                                onClick={() => setIsOutboxModalOpen(true)}
+                            >
+                                {outboxCount.conflict > 0 && <span className="text-[11px] font-black text-rose-500 mr-1">거부 {outboxCount.conflict}</span>}
+                                {outboxCount.pending > 0 && <span className="text-[11px] font-black text-amber-500 mr-1">대기 {outboxCount.pending}</span>}
+                                <ChevronRightIcon className="w-5 h-5 text-gray-400" />
+                            </SettingsRow>
                         </SettingsSection>
 
                         <SettingsSection title="기타 관리">
+                            <SettingsRow label="기록 보관 기간" subLabel="지난 기록은 하루 한 번 자동 정리 (미전송 제외)">
+                                <select
+                                    value={logRetentionDays}
+                                    onChange={e => setLogRetentionDays(Number(e.target.value))}
+                                    className="p-1.5 text-sm font-bold border border-gray-300 bg-white rounded-lg focus:ring-1 focus:ring-blue-500 text-gray-800"
+                                >
+                                    {[7, 14, 30, 60, 90, 180].map(d => <option key={d} value={d}>{d}일</option>)}
+                                    <option value={0}>사용 안 함</option>
+                                </select>
+                            </SettingsRow>
                             <SettingsRow label="발주 이력 정리" onClick={openClearHistoryModal}><span className="text-[11px] font-bold text-gray-400">정리하기</span></SettingsRow>
                             <SettingsRow label="동기화 로그" onClick={() => setIsSyncHistoryModalOpen(true)}><HistoryIcon className="w-4 h-4 text-gray-400" /></SettingsRow>
                             <div className="flex border-t border-gray-100">
@@ -232,7 +271,51 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ isActive }) => {
                             </div>
                         </SettingsSection>
 
+                        <SettingsSection title="서버 상태">
+                            <SettingsRow label={health.label} subLabel={health.detail || serverDiagnostics?.endpointUrl || undefined}>
+                                <button onClick={() => checkSql()} disabled={sqlStatus === 'checking'} className={`flex items-center gap-1 px-2.5 py-1.5 bg-gray-100 rounded-lg text-[11px] font-black active:scale-95 disabled:opacity-50 ${healthColor}`}>
+                                    {sqlStatus === 'checking' ? <SpinnerIcon className="w-3.5 h-3.5 animate-spin" /> : <UndoIcon className="w-3.5 h-3.5" />}
+                                    다시 확인
+                                </button>
+                            </SettingsRow>
+                            {serverDiagnostics && (
+                                <div className="p-3 grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-[11px]">
+                                    <span className="font-bold text-gray-400">응답 시간</span>
+                                    <span className="font-bold text-gray-700 text-right">{serverDiagnostics.roundTripMs}ms (DB {serverDiagnostics.db.latencyMs ?? '-'}ms)</span>
+                                    <span className="font-bold text-gray-400">DB 서버</span>
+                                    <span className="font-bold text-gray-700 text-right truncate" title={serverDiagnostics.db.version || undefined}>{serverDiagnostics.db.version || '-'}</span>
+                                    <span className="font-bold text-gray-400">연결 풀</span>
+                                    <span className="font-bold text-gray-700 text-right">
+                                        {serverDiagnostics.pool ? `사용 ${serverDiagnostics.pool.borrowed} / 전체 ${serverDiagnostics.pool.size}${serverDiagnostics.pool.pending > 0 ? ` · 대기 ${serverDiagnostics.pool.pending}` : ''}` : '-'}
+                                    </span>
+                                    <span className="font-bold text-gray-400">서버 버전</span>
+                                    <span className="font-bold text-gray-700 text-right">
+                                        {serverDiagnostics.server.appVersion || '-'} ({serverDiagnostics.server.runtime === 'vercel' ? '클라우드' : '매장 서버'}{serverDiagnostics.server.driver === 'memory' ? ', 테스트 DB' : ''}) · 앱 {SW_VERSION}
+                                    </span>
+                                    <span className="font-bold text-gray-400">시각</span>
+                                    <span className={`font-bold text-right ${clockSkewed ? 'text-rose-500' : 'text-gray-700'}`}>
+                                        {new Date(serverDiagnostics.server.time).toLocaleTimeString('ko-KR')} · {describeClockOffset(serverDiagnostics.clockOffsetMs)}
+                                    </span>
+                                    {serverDiagnostics.lastError && (
+                                        <>
+                                            <span className="font-bold text-gray-400">최근 오류</span>
+                                            <span className="font-bold text-rose-500 text-right break-all">
+                                                {new Date(serverDiagnostics.lastError.at).toLocaleString('ko-KR', { dateStyle: 'short', timeStyle: 'short' })} {serverDiagnostics.lastError.message}
+                                            </span>
+                                        </>
+                                    )}
+                                </div>
+                            )}
+                        </SettingsSection>
+
                         <SettingsSection title="시스템 정보">
+                            <SettingsRow
+                                label="서버 주소"
+                                subLabel={apiEndpoints ? apiEndpoints.filter(p => p.enabled).map(p => p.name).join(' → ') : '공통 설정 사용'}
+                                onClick={() => setIsEndpointModalOpen(true)}
+                            >
+                                <ChevronRightIcon className="w-5 h-5 text-gray-400" />
+                            </SettingsRow>
                             <SettingsRow label="SQL 실행 권한">
                                 <ToggleSwitch id="allow-destructive" label="" checked={allowDestructiveQueries} onChange={setAllowDestructiveQueries} color="red" />
                             </SettingsRow>
@@ -248,6 +331,8 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ isActive }) => {
                 <SyncHistoryModal isOpen={isSyncHistoryModalOpen} onClose={() => setIsSyncHistoryModalOpen(false)} />
             </div>
             <ResendModal isOpen={isResendModalOpen} onClose={() => setIsResendModalOpen(false)} />
+            <OutboxModal isOpen={isOutboxModalOpen} onClose={() => setIsOutboxModalOpen(false)} />
+            <ApiEndpointModal isOpen={isEndpointModalOpen} onClose={() => setIsEndpointModalOpen(false)} />
         </>
     );
 };
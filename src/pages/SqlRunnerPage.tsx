@@ -3,12 +3,17 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { useAlert, useDeviceSettings, useDataState } from '../context/AppContext';
 import { SpinnerIcon, TrashIcon, PencilSquareIcon, PlayCircleIcon, BookmarkSquareIcon, SparklesIcon, StarIcon, DocumentIcon, XMarkIcon } from '../components/Icons';
-import { querySql, naturalLanguageToSql, aiChat, QuerySqlResponse } from '../services/sqlService';
+import { querySql, aiChat, QuerySqlResponse, SqlStatementKind, getSqlErrorInfo } from '../services/sqlService';
+import { formatSqlMessage } from '../utils/queryResult';
 import { addUserQuery, deleteUserQuery, updateUserQuery, listenToLearningItems, addLearningItem, updateLearningItem, deleteLearningItem } from '../services/dbService';
 import { getCachedSchema } from '../services/schemaService';
+import { generateValidatedSql, AiSqlValidationError } from '../services/aiSqlService';
+import { buildSchemaContext, SchemaContext } from '../utils/schemaContext';
 import { getLearningContext } from '../services/learningService';
+import { buildSchemaIndex, checkSqlAgainstSchema } from '../utils/sqlSchemaCheck';
+import { parseCommaList } from '../utils/learningItems';
 import ActionModal from '../components/ActionModal';
-import { UserQuery, LearningItem } from '../types';
+import { UserQuery, LearningItem, LearningExample, AiAgentAnswer, AiAgentTraceStep } from '../types';
 import ToggleSwitch from '../components/ToggleSwitch';
 
 type QueryStatus = 'idle' | 'loading' | 'success' | 'error';
@@ -28,6 +33,15 @@ const isNumericColumn = (colName: string): boolean => {
     return numericKeywords.some(keyword => colName.includes(keyword));
 };
 
+const SQL_KIND_LABELS: Record<SqlStatementKind, string> = {
+    select: '조회',
+    dml: '데이터 변경',
+    ddl: '구조 변경',
+    exec: '프로시저 실행',
+    dynamic: '동적 SQL',
+    other: '기타 명령',
+};
+
 const formatNumericValue = (v: any) => typeof v === 'number' ? v.toLocaleString() : String(v || '');
 
 const CompactModal: React.FC<{
@@ -159,32 +173,130 @@ const LearningItemEditModal: React.FC<{
 }> = ({ item, onClose, onSave }) => {
     const [title, setTitle] = useState('');
     const [content, setContent] = useState('');
+    const [tags, setTags] = useState('');
+    const [tables, setTables] = useState('');
+    const [examples, setExamples] = useState<LearningExample[]>([]);
 
-    useEffect(() => { if(item) { setTitle(item.title); setContent(item.content); } }, [item]);
+    useEffect(() => {
+        if (!item) return;
+        setTitle(item.title); setContent(item.content);
+        setTags((item.tags || []).join(', ')); setTables((item.tables || []).join(', '));
+        setExamples(item.examples || []);
+    }, [item]);
     if (!item) return null;
-    const handleSave = () => onSave({ title, content });
+    // 빈 배열도 저장해야 수정 시 지운 태그/예시가 DB에서도 지워집니다.
+    const handleSave = () => onSave({
+        title, content,
+        tags: parseCommaList(tags),
+        tables: parseCommaList(tables),
+        examples: examples.map(e => ({ question: e.question.trim(), sql: e.sql.trim() })).filter(e => e.question || e.sql),
+    });
+    const updateExample = (index: number, updates: Partial<LearningExample>) => setExamples(prev => prev.map((e, i) => i === index ? { ...e, ...updates } : e));
 
     return (
         <CompactModal size="large" isOpen={!!item} onClose={onClose} title={item.id ? "지식 수정" : "새 지식 추가"} footer={<div className="grid grid-cols-2 gap-2"><button onClick={onClose} className="h-9 bg-gray-100 font-bold rounded-xl text-sm">취소</button><button onClick={handleSave} className="h-9 bg-indigo-600 text-white font-bold rounded-xl text-sm">저장</button></div>}>
-            <div className="flex flex-col h-full overflow-hidden bg-white">
-                <div className="p-3 border-b flex-shrink-0">
-                    <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">지식 제목 (간략히)</label>
-                    <input type="text" value={title} onChange={e => setTitle(e.target.value)} placeholder="예: 매출조회 변수 규칙" className="w-full h-8 px-2 border border-gray-200 rounded-lg text-sm font-semibold focus:ring-1 focus:ring-indigo-500"/>
+            <div className="flex flex-col h-full overflow-y-auto bg-white">
+                <div className="p-3 border-b flex-shrink-0 space-y-2">
+                    <div>
+                        <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">지식 제목 (간략히)</label>
+                        <input type="text" value={title} onChange={e => setTitle(e.target.value)} placeholder="예: 매출조회 변수 규칙" className="w-full h-8 px-2 border border-gray-200 rounded-lg text-sm font-semibold focus:ring-1 focus:ring-indigo-500"/>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <div>
+                            <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">태그 (쉼표로 구분)</label>
+                            <input type="text" value={tags} onChange={e => setTags(e.target.value)} placeholder="예: 매출, 일별" className="w-full h-8 px-2 border border-gray-200 rounded-lg text-xs focus:ring-1 focus:ring-indigo-500"/>
+                        </div>
+                        <div>
+                            <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">관련 테이블 (쉼표로 구분)</label>
+                            <input type="text" value={tables} onChange={e => setTables(e.target.value)} placeholder="예: parts, ipgom_YYMM" className="w-full h-8 px-2 border border-gray-200 rounded-lg text-xs font-mono focus:ring-1 focus:ring-indigo-500"/>
+                        </div>
+                    </div>
                 </div>
-                <div className="flex-grow flex flex-col min-h-0">
-                    <textarea 
-                        value={content} 
-                        onChange={e => setContent(e.target.value)} 
-                        placeholder="AI에게 학습시킬 세부 내용을 입력하세요. 예외 규칙이나 필드 설명 등..." 
-                        className="w-full h-full p-4 outline-none text-xs leading-relaxed text-slate-700 bg-white resize-none" 
-                        autoFocus
-                    />
+                <textarea 
+                    value={content} 
+                    onChange={e => setContent(e.target.value)} 
+                    placeholder="AI에게 학습시킬 세부 내용을 입력하세요. 예외 규칙이나 필드 설명 등..." 
+                    className="w-full h-40 flex-shrink-0 p-4 outline-none text-xs leading-relaxed text-slate-700 bg-white resize-none border-b" 
+                    autoFocus
+                />
+                <div className="p-3 space-y-2">
+                    <div className="flex justify-between items-center">
+                        <span className="text-[10px] font-bold text-gray-400 uppercase">질문 → SQL 예시 ({examples.length})</span>
+                        <button onClick={() => setExamples(prev => [...prev, { question: '', sql: '' }])} className="text-[11px] font-bold text-indigo-600">+ 예시 추가</button>
+                    </div>
+                    {examples.map((example, i) => (
+                        <div key={i} className="p-2 rounded-lg border border-slate-200 bg-slate-50 space-y-1.5">
+                            <div className="flex gap-2">
+                                <input type="text" value={example.question} onChange={e => updateExample(i, { question: e.target.value })} placeholder="질문" className="flex-grow h-8 px-2 border border-gray-200 rounded-lg text-xs focus:ring-1 focus:ring-indigo-500"/>
+                                <button onClick={() => setExamples(prev => prev.filter((_, j) => j !== i))} className="text-[11px] font-bold text-rose-500 flex-shrink-0">삭제</button>
+                            </div>
+                            <textarea value={example.sql} onChange={e => updateExample(i, { sql: e.target.value })} placeholder="SELECT ..." rows={3} className="w-full p-2 border border-gray-200 rounded-lg text-[11px] font-mono text-slate-700 bg-white resize-y focus:ring-1 focus:ring-indigo-500"/>
+                        </div>
+                    ))}
                 </div>
             </div>
         </CompactModal>
     );
 };
 
+// AI에 보낸 스키마 범위 (질문에 맞춰 고른 테이블)
+const SchemaContextBar: React.FC<{ context: SchemaContext }> = ({ context }) => (
+    <details className="bg-white rounded-xl border border-gray-200 shadow-sm text-[11px] animate-fade-in-up">
+        <summary className="px-3 py-2 cursor-pointer font-bold text-gray-500 select-none">
+            AI에 보낸 스키마: 테이블 {context.tables.length}개
+            {context.otherTables.length > 0 && ` + 이름만 ${context.otherTables.length}개`}
+            {context.omittedCount > 0 && `, 생략 ${context.omittedCount}개`}
+            <span className="text-gray-400 font-medium"> (약 {context.estimatedTokens.toLocaleString()} 토큰)</span>
+        </summary>
+        <div className="px-3 pb-3 space-y-2">
+            <div className="flex flex-wrap gap-1">
+                {context.tables.map(t => (
+                    <span key={t.name} className="px-2 py-0.5 rounded-full bg-indigo-50 border border-indigo-100 font-mono text-indigo-700" title={t.partition ? `${t.partition.first} ~ ${t.partition.last}` : `컬럼 ${t.columnCount}개`}>
+                        {t.name}{t.partition && ` ×${t.partition.count}`}
+                    </span>
+                ))}
+            </div>
+            {context.otherTables.length > 0 && (
+                <p className="font-mono text-gray-400 leading-relaxed">이름만: {context.otherTables.join(', ')}</p>
+            )}
+        </div>
+    </details>
+);
+
+// AI 어시스턴트가 답하기 위해 실행한 쿼리 목록
+const AgentTracePanel: React.FC<{ trace: AiAgentTraceStep[]; stoppedByLimit: boolean }> = ({ trace, stoppedByLimit }) => (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden animate-fade-in-up lg:w-96 lg:flex-shrink-0">
+        <div className="bg-gray-50 px-4 py-2 border-b flex justify-between items-center text-[10px] font-bold text-gray-400">
+            <span>실행한 쿼리 ({trace.length})</span>
+            {stoppedByLimit && <span className="text-amber-600">실행 제한 도달</span>}
+        </div>
+        {trace.length === 0 ? (
+            <p className="p-4 text-[11px] text-gray-400 font-bold">데이터를 조회하지 않고 답했습니다.</p>
+        ) : (
+            <ol className="divide-y divide-gray-100">
+                {trace.map(step => (
+                    <li key={step.step} className="px-4 py-2.5 space-y-1">
+                        <div className="flex items-center gap-2 text-[11px] font-bold">
+                            <span className="w-5 h-5 flex-shrink-0 flex items-center justify-center rounded-full bg-indigo-50 text-[10px] font-black text-indigo-600">{step.step}</span>
+                            <span className="flex-grow min-w-0 truncate text-gray-700">{step.tool === 'namedQuery' ? `@${step.name}` : 'SELECT'}</span>
+                            <span className={step.error ? 'text-rose-500' : 'text-gray-400'}>
+                                {step.error ? '실패' : `${step.rowCount ?? 0}${step.truncated ? '+' : ''}행`} · {step.durationMs}ms
+                            </span>
+                        </div>
+                        {step.params && Object.keys(step.params).length > 0 && (
+                            <div className="text-[10px] font-mono text-gray-500 truncate">{Object.entries(step.params).map(([k, v]) => `${k}=${String(v)}`).join(', ')}</div>
+                        )}
+                        {step.sql && (
+                            <pre className="p-2 bg-slate-800 text-slate-300 rounded-lg text-[10px] font-mono whitespace-pre-wrap overflow-x-auto max-h-40">{step.sql}</pre>
+                        )}
+                        {step.error && <div className="text-[10px] font-bold text-rose-500 whitespace-pre-wrap">{step.error}</div>}
+                    </li>
+                ))}
+            </ol>
+        )}
+    </div>
+);
+
 export const SqlRunnerView: React.FC<{ 
     isActive: boolean;
 }> = ({ isActive }) => {
@@ -194,8 +306,20 @@ export const SqlRunnerView: React.FC<{
 
     const [sqlQueryInput, setSqlQueryInput] = useState('');
     const [generatedSql, setGeneratedSql] = useState<string | null>(null);
+    // generatedSql을 만든 자연어 요청 (예시로 저장할 때 질문으로 사용)
+    const [generatedPrompt, setGeneratedPrompt] = useState<string | null>(null);
+    // 마지막으로 오류 없이 실행된 SQL (예시로 저장은 생성된 SQL이 실제로 성공했을 때만 허용)
+    const [succeededSql, setSucceededSql] = useState<string | null>(null);
+    // 검증을 통과하지 못해 실행하지 않은 AI 생성 SQL
+    const [rejectedSql, setRejectedSql] = useState<string | null>(null);
     const [showGeneratedSql, setShowGeneratedSql] = useState(false);
     const [result, setResult] = useState<QuerySqlResponse | null>(null);
+    // AI 어시스턴트 답변과 함께 받은 쿼리 실행 기록
+    const [agentRun, setAgentRun] = useState<Pick<AiAgentAnswer, 'trace' | 'stoppedByLimit'> | null>(null);
+    // 마지막 자연어 요청에서 AI에 보낸 스키마
+    const [sentSchema, setSentSchema] = useState<SchemaContext | null>(null);
+    // 여러 결과 집합을 반환한 스크립트에서 표시 중인 결과 집합
+    const [recordsetIndex, setRecordsetIndex] = useState(0);
     const [error, setError] = useState<string | null>(null);
     const [status, setStatus] = useState<QueryStatus>('idle');
     const [isAiMode, setIsAiMode] = useState(false);
@@ -232,6 +356,23 @@ export const SqlRunnerView: React.FC<{
         }
     };
 
+    // 생성된 SQL이 오류 없이 실행된 경우에만 예시로 저장할 수 있습니다. (실패하거나 다른 SQL을 실행한 뒤에는 숨김)
+    const canSaveAsExample = !!generatedPrompt && !!generatedSql && status === 'success' && succeededSql === generatedSql;
+
+    // 성공한 자연어 요청을 질문 → SQL 예시로 가진 새 학습 항목으로 엽니다.
+    const handleSaveAsExample = async () => {
+        if (!canSaveAsExample || !generatedSql || !generatedPrompt) return;
+        const index = buildSchemaIndex(await getCachedSchema());
+        const tables = index ? checkSqlAgainstSchema(generatedSql, index).tables : [];
+        setEditingLearningItem({
+            title: generatedPrompt.length > 40 ? `${generatedPrompt.slice(0, 40)}…` : generatedPrompt,
+            content: '',
+            tags: [],
+            tables,
+            examples: [{ question: generatedPrompt, sql: generatedSql }],
+        });
+    };
+
     const handleDeleteLearningItem = (item: LearningItem) => {
         showAlert(`삭제하시겠습니까?`, () => {
             deleteLearningItem(item.id).then(() => showToast('삭제됨', 'success')).catch(e => showAlert(e.message));
@@ -254,34 +395,61 @@ export const SqlRunnerView: React.FC<{
     };
 
     const executeQuery = useCallback(async (sql: string, originalPrompt?: string, confirmed?: boolean) => {
-        setStatus('loading'); setError(null); setResult(null);
+        setStatus('loading'); setError(null); setResult(null); setRejectedSql(null); setAgentRun(null); setSucceededSql(null);
+        // AI가 생성한 SQL이 아니면(직접 입력, 저장된 쿼리) AI에 보낸 스키마 표시를 지웁니다.
+        if (!originalPrompt || originalPrompt.startsWith('@')) setSentSchema(null);
         if (abortControllerRef.current) abortControllerRef.current.abort();
         abortControllerRef.current = new AbortController();
         try {
             const data = await querySql(sql, abortControllerRef.current.signal, confirmed, allowDestructiveQueries);
-            setResult(data); setStatus('success');
-            if (data.rowsAffected && data.rowsAffected > 0) showToast(`${data.rowsAffected}건 처리됨`, 'success');
+            if (data.needsConfirmation) {
+                setStatus('idle');
+                const kinds = (data.classification?.kinds || []).filter(k => k !== 'select').map(k => SQL_KIND_LABELS[k]).join(', ');
+                const keywords = data.classification?.keywords.join(', ') || '';
+                showAlert(
+                    `${data.message || '데이터를 변경하는 쿼리입니다.'}\n\n유형: ${kinds}\n구문: ${keywords}`,
+                    () => executeQuery(sql, originalPrompt, true),
+                    '실행',
+                    'bg-rose-500'
+                );
+                return;
+            }
+            setResult(data); setRecordsetIndex(0); setStatus('success'); setSucceededSql(sql);
+            const affected = (data.rowsAffected || []).reduce((sum, n) => sum + n, 0);
+            if (affected > 0 && !(data.recordsets || []).some(rs => rs.length > 0)) showToast(`${affected}건 처리됨`, 'success');
         } catch (err: any) {
-            if (err.name !== 'AbortError') { setError(err.message); setStatus('error'); }
+            const sqlError = getSqlErrorInfo(err);
+            if (err.name !== 'AbortError') { setError(sqlError ? formatSqlMessage(sqlError) : err.message); setStatus('error'); }
             else setStatus('idle');
         }
-    }, [allowDestructiveQueries, showToast]);
+    }, [allowDestructiveQueries, showToast, showAlert]);
 
     const processNaturalLanguageQuery = useCallback(async (prompt: string) => {
-        setStatus('loading'); setError(null); setResult(null); setGeneratedSql(null);
+        setStatus('loading'); setError(null); setResult(null); setGeneratedSql(null); setGeneratedPrompt(null); setSucceededSql(null); setRejectedSql(null); setAgentRun(null); setSentSchema(null);
         try {
             const schema = await getCachedSchema();
-            const context = await getLearningContext();
+            // 학습 항목 중 질문과 관련된 것만 골라 보냅니다.
+            const context = await getLearningContext(prompt);
+            // 전체 스키마 대신 질문과 학습 내용에 관련된 테이블만 토큰 예산 안에서 보냅니다.
+            const schemaContext = buildSchemaContext(schema, prompt, context);
+            setSentSchema(schemaContext);
             if (isAiMode) {
-                const response = await aiChat(prompt, schema || {}, context);
-                setResult({ answer: response.answer }); setStatus('success');
+                const response = await aiChat(prompt, schemaContext.text, context);
+                setResult({ answer: response.answer });
+                setAgentRun({ trace: response.trace || [], stoppedByLimit: !!response.stoppedByLimit });
+                setStatus('success');
             } else {
-                const { sql } = await naturalLanguageToSql(prompt, schema || {}, context);
-                if (sql) { setGeneratedSql(sql); executeQuery(sql, prompt); }
-                else throw new Error('AI가 쿼리를 생성하지 못했습니다.');
+                const { sql, repaired } = await generateValidatedSql(prompt, schema, context, schemaContext.text);
+                setGeneratedSql(sql); setGeneratedPrompt(prompt);
+                if (repaired) showToast('AI 쿼리의 오류를 자동으로 수정했습니다.', 'success');
+                executeQuery(sql, prompt);
             }
-        } catch (err: any) { setError(err.message); setStatus('error'); }
-    }, [isAiMode, executeQuery]);
+        } catch (err: any) {
+            // 검증에 실패한 SQL은 실행하지 않고 오류와 함께 보여줍니다.
+            if (err instanceof AiSqlValidationError) setRejectedSql(err.sql);
+            setError(err.message); setStatus('error');
+        }
+    }, [isAiMode, executeQuery, showToast]);
 
     const handleExecute = () => {
         const input = sqlQueryInput.trim();
@@ -312,30 +480,50 @@ export const SqlRunnerView: React.FC<{
                 {status === 'loading' ? (
                     <div className="flex flex-col items-center justify-center h-full"><SpinnerIcon className="w-12 h-12 text-indigo-600 animate-spin" /><p className="mt-4 text-indigo-600 font-black">AI 엔진 가동 중...</p></div>
                 ) : error ? (
-                    <div className="p-5 bg-rose-50 text-rose-600 rounded-2xl border border-rose-200 text-sm font-bold shadow-sm animate-fade-in-up">⚠️ {error}</div>
+                    <div className="space-y-4">
+                        {sentSchema && <SchemaContextBar context={sentSchema} />}
+                        <div className="p-5 bg-rose-50 text-rose-600 rounded-2xl border border-rose-200 text-sm font-bold shadow-sm animate-fade-in-up whitespace-pre-wrap">⚠️ {error}</div>
+                        {rejectedSql && (
+                            <div className="p-3 bg-slate-800 text-slate-300 rounded-xl text-[11px] font-mono whitespace-pre-wrap overflow-x-auto border-l-4 border-rose-500 shadow-inner">
+                                <div className="mb-2 text-rose-300 font-bold">GENERATED SQL (실행 안 함)</div>
+                                {rejectedSql}
+                            </div>
+                        )}
+                    </div>
                 ) : result ? (
                     <div className="space-y-4">
+                        {sentSchema && <SchemaContextBar context={sentSchema} />}
                         {result.answer ? (
-                            <div className="bg-white p-5 rounded-2xl shadow-sm border border-indigo-100 flex gap-3 animate-fade-in-up">
-                                <SparklesIcon className="w-6 h-6 text-indigo-600 flex-shrink-0" />
-                                <div className="text-sm text-gray-800 whitespace-pre-wrap leading-relaxed font-medium">{result.answer}</div>
+                            <div className="flex flex-col lg:flex-row lg:items-start gap-3">
+                                <div className="flex-grow min-w-0 bg-white p-5 rounded-2xl shadow-sm border border-indigo-100 flex gap-3 animate-fade-in-up">
+                                    <SparklesIcon className="w-6 h-6 text-indigo-600 flex-shrink-0" />
+                                    <div className="text-sm text-gray-800 whitespace-pre-wrap leading-relaxed font-medium">{result.answer}</div>
+                                </div>
+                                {agentRun && <AgentTracePanel trace={agentRun.trace} stoppedByLimit={agentRun.stoppedByLimit} />}
                             </div>
-                        ) : (
+                        ) : (() => {
+                            const rows = result.recordsets?.[recordsetIndex] ?? result.recordset ?? [];
+                            return (
                             <div className="bg-white rounded-2xl shadow-md border border-gray-200 overflow-hidden animate-fade-in-up flex flex-col max-h-[75vh]">
                                 <div className="bg-gray-50 px-4 py-2 border-b flex justify-between items-center text-[10px] font-bold text-gray-400">
-                                    <span>{result.recordset?.length || 0} ROWS</span>
+                                    <span>{rows.length || 0} ROWS</span>
+                                    {(result.recordsets?.length || 0) > 1 && (
+                                        <div className="flex gap-1">
+                                            {result.recordsets!.map((rs, i) => <button key={i} onClick={() => setRecordsetIndex(i)} className={`px-2 py-0.5 rounded ${i === recordsetIndex ? 'bg-indigo-600 text-white' : 'bg-white border hover:text-indigo-600'}`}>#{i + 1} ({rs.length})</button>)}
+                                        </div>
+                                    )}
                                     <div className="flex gap-2">
-                                        <button onClick={() => { const h = Object.keys(result.recordset![0]).join('\t'); const b = result.recordset!.map(r => Object.values(r).join('\t')).join('\n'); navigator.clipboard.writeText(h + '\n' + b).then(() => showToast('복사 완료', 'success')) }} className="hover:text-indigo-600">COPY</button>
+                                        <button onClick={() => { const h = Object.keys(rows[0]).join('\t'); const b = rows.map(r => Object.values(r).join('\t')).join('\n'); navigator.clipboard.writeText(h + '\n' + b).then(() => showToast('복사 완료', 'success')) }} className="hover:text-indigo-600">COPY</button>
                                         <button onClick={() => setResult(null)} className="hover:text-rose-600">CLEAR</button>
                                     </div>
                                 </div>
                                 <div className="overflow-auto">
                                     <table className="min-w-full text-xs">
                                         <thead className="bg-slate-50 sticky top-0 z-10">
-                                            <tr>{Object.keys(result.recordset?.[0] || {}).map(k => <th key={k} className={`px-3 py-2 font-black text-gray-500 border-b ${isNumericColumn(k) ? 'text-right' : 'text-left'}`}>{k}</th>)}</tr>
+                                            <tr>{Object.keys(rows[0] || {}).map(k => <th key={k} className={`px-3 py-2 font-black text-gray-500 border-b ${isNumericColumn(k) ? 'text-right' : 'text-left'}`}>{k}</th>)}</tr>
                                         </thead>
                                         <tbody className="divide-y divide-gray-50">
-                                            {result.recordset?.slice(0, INITIAL_VISIBLE_ROWS).map((row, i) => (
+                                            {rows.slice(0, INITIAL_VISIBLE_ROWS).map((row, i) => (
                                                 <tr key={i} className="hover:bg-indigo-50/30 transition-colors">
                                                     {Object.entries(row).map(([k, v], j) => <td key={j} className={`px-3 py-2 font-medium ${isNumericColumn(k) ? 'text-right font-mono text-indigo-600' : 'text-left text-gray-700'}`}>{isNumericColumn(k) ? formatNumericValue(v) : String(v ?? '')}</td>)}
                                                 </tr>
@@ -343,12 +531,25 @@ export const SqlRunnerView: React.FC<{
                                         </tbody>
                                     </table>
                                 </div>
-                                {result.recordset && result.recordset.length > INITIAL_VISIBLE_ROWS && <div className="p-2 bg-gray-50 text-center text-[10px] text-gray-400 font-bold border-t">... {result.recordset.length - INITIAL_VISIBLE_ROWS}개 행 더 있음</div>}
+                                {rows.length > INITIAL_VISIBLE_ROWS && <div className="p-2 bg-gray-50 text-center text-[10px] text-gray-400 font-bold border-t">... {rows.length - INITIAL_VISIBLE_ROWS}개 행 더 있음</div>}
+                            </div>
+                            );
+                        })()}
+                        {result.messages && result.messages.length > 0 && (
+                            <div className="p-3 bg-white rounded-xl border border-gray-200 text-[11px] font-mono text-gray-600 space-y-1 shadow-sm">
+                                <div className="text-[10px] font-bold text-gray-400">MESSAGES</div>
+                                {result.messages.map((m, i) => <div key={i} className="whitespace-pre-wrap">{formatSqlMessage(m)}</div>)}
                             </div>
                         )}
                         {generatedSql && (
                             <div className="p-3 bg-slate-800 text-slate-300 rounded-xl text-[11px] font-mono whitespace-pre-wrap overflow-x-auto border-l-4 border-indigo-500 shadow-inner">
-                                <div className="flex justify-between mb-2 text-indigo-300 font-bold"><span>GENERATED SQL</span><button onClick={() => setShowGeneratedSql(!showGeneratedSql)}>{showGeneratedSql ? 'HIDE' : 'SHOW'}</button></div>
+                                <div className="flex justify-between mb-2 text-indigo-300 font-bold">
+                                    <span>GENERATED SQL</span>
+                                    <div className="flex gap-3">
+                                        {canSaveAsExample && <button onClick={handleSaveAsExample}>예시로 저장</button>}
+                                        <button onClick={() => setShowGeneratedSql(!showGeneratedSql)}>{showGeneratedSql ? 'HIDE' : 'SHOW'}</button>
+                                    </div>
+                                </div>
                                 {showGeneratedSql && generatedSql}
                             </div>
                         )}
@@ -459,6 +660,13 @@ export const SqlRunnerView: React.FC<{
                         {learningItems.map(item => (
                             <div key={item.id} className="bg-white p-3 rounded-xl border border-slate-200 shadow-sm">
                                 <h4 className="font-bold text-slate-800 text-sm mb-2">{item.title}</h4>
+                                {(item.tags?.length || item.tables?.length || item.examples?.length) ? (
+                                    <div className="flex flex-wrap gap-1 text-[10px] font-bold">
+                                        {item.tags?.map(tag => <span key={`t-${tag}`} className="px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-600">#{tag}</span>)}
+                                        {item.tables?.map(table => <span key={`b-${table}`} className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-500 font-mono">{table}</span>)}
+                                        {!!item.examples?.length && <span className="px-1.5 py-0.5 rounded bg-emerald-50 text-emerald-600">예시 {item.examples.length}</span>}
+                                    </div>
+                                ) : null}
                                 <div className="flex justify-end gap-4 mt-2 pt-2 border-t border-slate-50">
                                     <button onClick={() => setEditingLearningItem(item)} className="text-xs font-bold text-blue-600">수정</button>
                                     <button onClick={() => handleDeleteLearningItem(item)} className="text-xs font-bold text-rose-500">삭제</button>
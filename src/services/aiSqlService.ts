@@ -0,0 +1,53 @@
+// src/services/aiSqlService.ts
+// AI가 자연어로부터 생성한 SQL을 사용자에게 보여주거나 실행하기 전에 검증합니다.
+// 1) 캐시된 스키마와 테이블/컬럼을 대조하고 2) 서버에서 쓰기 구문 거부와 PARSEONLY/NOEXEC 확인을 거칩니다.
+// 검증에 실패하면 오류를 담아 모델에 한 번만 다시 생성을 요청합니다.
+import { naturalLanguageToSql, validateSql } from './sqlService';
+import { DbSchema } from './schemaService';
+import { buildSchemaIndex, checkSqlAgainstSchema } from '../utils/sqlSchemaCheck';
+
+/** 수정 요청 후에도 검증을 통과하지 못한 경우. 실행하지 않은 SQL과 오류를 함께 전달합니다. */
+export class AiSqlValidationError extends Error {
+    constructor(public readonly sql: string, public readonly errors: string[]) {
+        super(`AI가 생성한 쿼리가 검증을 통과하지 못해 실행하지 않았습니다.\n${errors.map(e => `- ${e}`).join('\n')}`);
+        this.name = 'AiSqlValidationError';
+    }
+}
+
+export interface ValidatedSql {
+    sql: string;
+    /** 첫 번째 결과가 검증에 실패해 수정 요청으로 다시 생성한 경우 true */
+    repaired: boolean;
+}
+
+async function collectSqlProblems(sql: string, schema: DbSchema | undefined): Promise<string[]> {
+    const index = buildSchemaIndex(schema);
+    if (index) {
+        const { errors } = checkSqlAgainstSchema(sql, index);
+        if (errors.length > 0) return errors;
+    }
+    const validation = await validateSql(sql);
+    return validation.valid ? [] : validation.errors;
+}
+
+/**
+ * 자연어 요청을 SQL로 변환하고 검증합니다.
+ * 스키마 캐시가 없으면 스키마 대조는 건너뛰고 서버 확인만 합니다.
+ * @param schemaText 모델에 보낼 스키마 설명 (buildSchemaContext). 없으면 스키마 전체를 보냅니다.
+ * @throws {AiSqlValidationError} 수정 요청 후에도 검증에 실패한 경우
+ */
+export async function generateValidatedSql(prompt: string, schema: DbSchema | undefined, context: string, schemaText?: string): Promise<ValidatedSql> {
+    const sentSchema = schemaText ?? schema ?? {};
+    const { sql } = await naturalLanguageToSql(prompt, sentSchema, context);
+    if (!sql) throw new Error('AI가 쿼리를 생성하지 못했습니다.');
+
+    const errors = await collectSqlProblems(sql, schema);
+    if (errors.length === 0) return { sql, repaired: false };
+
+    const { sql: repairedSql } = await naturalLanguageToSql(prompt, sentSchema, context, { sql, errors });
+    if (!repairedSql) throw new AiSqlValidationError(sql, errors);
+
+    const repairedErrors = await collectSqlProblems(repairedSql, schema);
+    if (repairedErrors.length > 0) throw new AiSqlValidationError(repairedSql, repairedErrors);
+    return { sql: repairedSql, repaired: true };
+}
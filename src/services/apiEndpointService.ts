@@ -0,0 +1,81 @@
+// src/services/apiEndpointService.ts
+// SQL API 서버 주소(프로필) 목록과 장애 조치 순서를 관리합니다.
+// 프로필은 기기 설정(DeviceSettings.apiEndpoints)에 우선순위 순서로 저장되며, DeviceSettingsProvider가 변경될 때마다 반영합니다.
+// 연결할 수 없었던 주소는 잠시 뒤로 미뤄서, 매장 서버가 꺼져 있을 때 매 요청마다 시간 초과를 기다리지 않도록 합니다.
+import { ApiEndpointProfile } from '../types';
+
+export const DEFAULT_API_ENDPOINT = (import.meta.env.VITE_API_ENDPOINT as string | undefined)?.trim() || 'https://kjmart.vercel.app/api/sql';
+
+export const DEFAULT_API_ENDPOINT_PROFILES: ApiEndpointProfile[] = [
+    { id: 'cloud', name: '클라우드', url: DEFAULT_API_ENDPOINT, enabled: true },
+];
+
+// 연결 실패한 주소를 후순위로 미루는 시간
+const FAILURE_COOLDOWN_MS = 60 * 1000;
+
+let configured: ApiEndpointProfile[] = DEFAULT_API_ENDPOINT_PROFILES;
+let profiles: ApiEndpointProfile[] = DEFAULT_API_ENDPOINT_PROFILES;
+const failedAt = new Map<string, number>();
+let lastUsedUrl: string | null = null;
+
+/** 'http://192.168.0.10:3001' 처럼 경로 없이 입력하면 /api/sql을 붙입니다. */
+export function normalizeEndpointUrl(url: string): string {
+    const trimmed = url.trim().replace(/\/+$/, '');
+    if (!trimmed) return '';
+    try {
+        const parsed = new URL(trimmed);
+        if (parsed.pathname === '/' || parsed.pathname === '') return `${parsed.origin}/api/sql`;
+    } catch {
+        return trimmed;
+    }
+    return trimmed;
+}
+
+/** 설정 화면에서 저장하기 전에 프로필 주소를 확인합니다. 문제가 없으면 null을 반환합니다. */
+export function validateEndpointUrl(url: string): string | null {
+    if (!url.trim()) return '서버 주소를 입력해주세요.';
+    try {
+        const parsed = new URL(normalizeEndpointUrl(url));
+        if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return 'http:// 또는 https:// 주소만 사용할 수 있습니다.';
+    } catch {
+        return '올바른 주소 형식이 아닙니다.';
+    }
+    return null;
+}
+
+/** 기기 설정의 프로필 목록을 반영합니다. 사용 가능한 프로필이 없으면 기본(클라우드) 주소를 사용합니다. */
+export function setApiEndpointProfiles(next: ApiEndpointProfile[] | null | undefined) {
+    configured = next && next.length > 0 ? next : DEFAULT_API_ENDPOINT_PROFILES;
+    const usable = (next || []).filter(p => p && p.enabled && p.url && validateEndpointUrl(p.url) === null);
+    profiles = usable.length > 0 ? usable.map(p => ({ ...p, url: normalizeEndpointUrl(p.url) })) : DEFAULT_API_ENDPOINT_PROFILES;
+}
+
+/** 현재 적용된 프로필 목록 (사용 안 함 포함, 설정 화면 표시용) */
+export function getApiEndpointProfiles(): ApiEndpointProfile[] {
+    return configured;
+}
+
+/**
+ * 이번 요청에서 시도할 주소 목록 (우선순위 순서).
+ * 최근 연결에 실패한 주소는 목록 끝으로 보내되 제외하지는 않습니다. (모두 실패 중이면 원래 순서대로 다시 시도)
+ */
+export function getEndpointCandidates(): ApiEndpointProfile[] {
+    const now = Date.now();
+    const isCoolingDown = (p: ApiEndpointProfile) => now - (failedAt.get(p.url) ?? 0) < FAILURE_COOLDOWN_MS;
+    return [...profiles.filter(p => !isCoolingDown(p)), ...profiles.filter(isCoolingDown)];
+}
+
+export function markEndpointFailed(url: string) {
+    failedAt.set(url, Date.now());
+}
+
+export function markEndpointReachable(url: string) {
+    failedAt.delete(url);
+    lastUsedUrl = url;
+}
+
+/** 마지막으로 응답을 받은 서버 프로필 (아직 없으면 null) */
+export function getLastUsedEndpoint(): ApiEndpointProfile | null {
+    if (!lastUsedUrl) return null;
+    return profiles.find(p => p.url === lastUsedUrl) || { id: 'adhoc', name: lastUsedUrl, url: lastUsedUrl, enabled: true };
+}
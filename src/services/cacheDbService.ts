@@ -110,6 +110,36 @@ export async function isSyncInterrupted(storeName: string): Promise<boolean> {
     return !!flag;
 }
 
+// 페이지 단위 동기화의 진행 상태. 앱이 중단되어도 유지되어 다음 실행 시 이어받기에 사용됩니다.
+export interface SyncCursorState {
+    since: string;
+    cursor: string | null;
+    fetched: number;
+    total?: number;
+    watermark?: string;
+}
+
+const getSyncCursorKey = (storeName: string) => `sync_cursor_${storeName}`;
+
+export async function getSyncCursor(storeName: string): Promise<SyncCursorState | undefined> {
+    return await getSetting<SyncCursorState>(getSyncCursorKey(storeName)) || undefined;
+}
+
+export async function setSyncCursor(storeName: string, state: SyncCursorState | null): Promise<void> {
+    await setSetting(getSyncCursorKey(storeName), state);
+}
+
+// 마지막으로 완료된 동기화의 서버 워터마크. 다음 증분 동기화는 이 시각 이후 변경분만 요청합니다.
+const getSyncWatermarkKey = (storeName: string) => `sync_watermark_${storeName}`;
+
+export async function getSyncWatermark(storeName: string): Promise<string | undefined> {
+    return await getSetting<string>(getSyncWatermarkKey(storeName)) || undefined;
+}
+
+export async function setSyncWatermark(storeName: string, watermark: string | null): Promise<void> {
+    await setSetting(getSyncWatermarkKey(storeName), watermark);
+}
+
 // CRITICAL FIX: Reset flags on startup to prevent deadlock if app crashed during sync
 export async function resetAllSyncFlags(): Promise<void> {
     const stores = [CUSTOMERS_STORE, PRODUCTS_STORE, BOM_STORE, CATEGORIES_STORE];
@@ -214,6 +244,25 @@ export async function setCachedData(storeName: StoreName, data: any[], onProgres
     }
 }
 
+/**
+ * 기존 데이터를 지우지 않고 항목들을 추가/갱신합니다. (페이지 단위 동기화용)
+ */
+export async function putCachedItems(storeName: StoreName, items: any[]): Promise<void> {
+    if (!items.length) return;
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(storeName, 'readwrite');
+        const store = transaction.objectStore(storeName);
+        items.forEach(item => store.put(item));
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => {
+            console.error(`Error putting items in ${storeName}:`, transaction.error);
+            reject(transaction.error);
+        };
+    });
+}
+
 export async function addOrUpdateCachedItem(storeName: StoreName, item: any): Promise<void> {
     const db = await openDB();
     return new Promise((resolve, reject) => {
@@ -244,6 +293,22 @@ export async function removeCachedItem(storeName: StoreName, key: string): Promi
     });
 }
 
+export async function removeCachedItems(storeName: StoreName, keys: string[]): Promise<void> {
+    if (!keys.length) return;
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(storeName, 'readwrite');
+        const store = transaction.objectStore(storeName);
+        keys.forEach(key => store.delete(key));
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => {
+            console.error(`Error deleting items from ${storeName}:`, transaction.error);
+            reject(transaction.error);
+        };
+    });
+}
+
 export async function clearDataStores(): Promise<void> {
     const db = await openDB();
     const stores = [CUSTOMERS_STORE, PRODUCTS_STORE, BOM_STORE, CATEGORIES_STORE];
@@ -259,5 +324,7 @@ export async function clearDataStores(): Promise<void> {
         });
         // Reset flags
         await setSyncFlag(storeName, false);
+        await setSyncCursor(storeName, null);
+        await setSyncWatermark(storeName, null);
     }
 }
@@ -0,0 +1,104 @@
+// src/services/connectivityService.ts
+// API 호출 결과(성공 여부, 응답 시간)를 모아 서버 연결 품질을 판단합니다.
+// sqlService의 모든 요청이 성공 여부를 기록하고, 응답 시간은 연결 확인(connect/diagnostics) 요청만 기록합니다.
+// AI 대화나 동기화처럼 원래 오래 걸리는 요청의 시간이 섞이면 서버가 정상이어도 '느림'으로 판단되기 때문입니다.
+import { DeviceSettings } from '../types';
+
+export type ConnectionHealth = 'unknown' | 'good' | 'slow' | 'down';
+
+export interface ConnectivitySnapshot {
+    health: ConnectionHealth;
+    /** 최근 성공한 요청들의 응답 시간 중앙값 (ms) */
+    latencyMs: number | null;
+    consecutiveFailures: number;
+    lastError: string | null;
+    updatedAt: number | null;
+}
+
+interface Sample {
+    ok: boolean;
+    /** 응답 시간을 측정하지 않는 요청이면 null */
+    latencyMs: number | null;
+    at: number;
+}
+
+const WINDOW_SIZE = 10;
+// 연속 실패가 이 횟수에 도달하면 서버를 사용할 수 없는 것으로 봅니다.
+const DOWN_AFTER_FAILURES = 2;
+// 응답 시간 중앙값이 이 값을 넘으면 로컬 데이터를 쓰는 편이 빠릅니다.
+const SLOW_LATENCY_MS = 2500;
+
+let samples: Sample[] = [];
+let snapshot: ConnectivitySnapshot = { health: 'unknown', latencyMs: null, consecutiveFailures: 0, lastError: null, updatedAt: null };
+const listeners = new Set<(snapshot: ConnectivitySnapshot) => void>();
+
+function median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
+
+function evaluate(lastError: string | null): ConnectivitySnapshot {
+    let consecutiveFailures = 0;
+    for (let i = samples.length - 1; i >= 0 && !samples[i].ok; i--) consecutiveFailures++;
+
+    const successes = samples.filter(s => s.ok);
+    const latencyMs = median(successes.flatMap(s => s.latencyMs === null ? [] : [s.latencyMs]));
+    let health: ConnectionHealth = 'unknown';
+    if (consecutiveFailures >= DOWN_AFTER_FAILURES) health = 'down';
+    else if (latencyMs !== null) health = latencyMs > SLOW_LATENCY_MS ? 'slow' : 'good';
+    else if (successes.length > 0) health = 'good';
+
+    return { health, latencyMs, consecutiveFailures, lastError: consecutiveFailures > 0 ? lastError : null, updatedAt: Date.now() };
+}
+
+/**
+ * API 요청 결과를 기록합니다.
+ * @param ok 서버에 도달했으면 true (HTTP 4xx처럼 요청 자체가 거부된 경우도 연결은 정상으로 봅니다)
+ * @param latencyMs 연결 확인 요청의 응답 시간. 그 밖의 요청은 null을 넘겨 지연 판단에서 제외합니다.
+ */
+export function recordApiSample(ok: boolean, latencyMs: number | null, error?: string) {
+    samples = [...samples, { ok, latencyMs, at: Date.now() }].slice(-WINDOW_SIZE);
+    const next = evaluate(ok ? null : (error || snapshot.lastError));
+    const changed = next.health !== snapshot.health || next.consecutiveFailures !== snapshot.consecutiveFailures || next.latencyMs !== snapshot.latencyMs;
+    snapshot = next;
+    if (changed) listeners.forEach(listener => listener(snapshot));
+}
+
+export function getConnectivitySnapshot(): ConnectivitySnapshot {
+    return snapshot;
+}
+
+export function subscribeConnectivity(listener: (snapshot: ConnectivitySnapshot) => void): () => void {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+}
+
+export type DataSourceSettings = DeviceSettings['dataSourceSettings'];
+
+export interface ActiveDataSource {
+    newOrder: 'offline' | 'online';
+    productInquiry: 'offline' | 'online';
+    /** 자동 전환으로 서버 대신 로컬 데이터를 사용 중이면 true */
+    autoSwitched: boolean;
+    /** 자동 전환 사유 (전환되지 않았으면 null) */
+    reason: string | null;
+}
+
+/**
+ * 설정과 연결 품질로 실제 사용할 데이터 소스를 결정합니다.
+ * autoSwitch가 켜져 있으면 서버 응답이 없거나 느릴 때 '서버' 설정을 '로컬'로 전환합니다.
+ */
+export function resolveDataSource(settings: DataSourceSettings, snapshot: ConnectivitySnapshot): ActiveDataSource {
+    const preferred = { newOrder: settings.newOrder, productInquiry: settings.productInquiry };
+    if (!settings.autoSwitch || (settings.newOrder === 'offline' && settings.productInquiry === 'offline')) {
+        return { ...preferred, autoSwitched: false, reason: null };
+    }
+
+    let reason: string | null = null;
+    if (snapshot.health === 'down') reason = `서버 응답 없음 (연속 ${snapshot.consecutiveFailures}회 실패)`;
+    else if (snapshot.health === 'slow') reason = `서버 응답 지연 (${((snapshot.latencyMs || 0) / 1000).toFixed(1)}초)`;
+    if (!reason) return { ...preferred, autoSwitched: false, reason: null };
+
+    return { newOrder: 'offline', productInquiry: 'offline', autoSwitched: true, reason };
+}
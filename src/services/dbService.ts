@@ -11,7 +11,8 @@ import {
 } from 'firebase/database';
 
 import { firebaseConfig } from '../firebaseConfig';
-import { Order, OrderItem, Customer, Product, DeviceSettings, SyncLog, UserQuery, ReceivingBatch, LearningItem } from '../types';
+import { Order, OrderItem, Customer, Product, DeviceSettings, SyncLog, UserQuery, ReceivingBatch, LearningItem, AiModelSettings } from '../types';
+import { normalizeLearningItem } from '../utils/learningItems';
 
 export { getDatabase, ref, push, update, set };
 
@@ -69,7 +70,7 @@ const cleanForFirebase = <T>(obj: T): T => {
 };
 
 // --- Settings ---
-export const getCommonSettings = async (): Promise<Partial<DeviceSettings & { sqlPassword?: string }>> => {
+export const getCommonSettings = async (): Promise<Partial<DeviceSettings & { sqlPassword?: string; aiModels?: AiModelSettings }>> => {
     if (!db) return {};
     const settingsRef = ref(db, `settings/common`);
     const snapshot = await get(settingsRef);
@@ -186,42 +187,6 @@ export const listenToReceivingBatchChanges = (
     return () => unsubs.forEach(u => u());
 };
 
-// --- Cleanup Function ---
-export const cleanupOldReceivingBatches = async (daysToKeep: number = 2): Promise<void> => {
-    if (!db) return;
-    
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
-    const cutoffTimestamp = cutoffDate.getTime();
-
-    // Receiving batches ID is essentially a timestamp
-    const batchRef = ref(db, 'receiving-batches');
-    const oldBatchesQuery = query(batchRef, orderByKey(), endAt(String(cutoffTimestamp)));
-
-    try {
-        const snapshot = await get(oldBatchesQuery);
-        if (snapshot.exists()) {
-            const updates: { [key: string]: null } = {};
-            let count = 0;
-            snapshot.forEach((child) => {
-                const batch = child.val() as ReceivingBatch;
-                // STRICTLY check: Only delete if 'sent'. Drafts are preserved.
-                if (batch.status === 'sent') {
-                    updates[child.key!] = null;
-                    count++;
-                }
-            });
-            
-            if (Object.keys(updates).length > 0) {
-                await update(batchRef, updates);
-                console.log(`Cleaned up ${count} old sent receiving batches from Server.`);
-            }
-        }
-    } catch (e) {
-        console.error("Failed to cleanup old batches:", e);
-    }
-};
-
 // --- Data Fetching ---
 export const getStore = async <T>(storeName: string): Promise<T[]> => {
     if (!db) return [];
@@ -405,6 +370,15 @@ export const clearOrdersBeforeDate = async (isoDateString: string): Promise<numb
     return deletedCount;
 };
 
+// 여러 경로를 한 번의 update로 삭제합니다. (보관 기간 정리 등)
+export const removePaths = async (paths: string[]): Promise<void> => {
+    if (!db) throw DB_UNAVAILABLE_ERROR;
+    if (paths.length === 0) return;
+    const updates: { [key: string]: null } = {};
+    paths.forEach(path => { updates[path.startsWith('/') ? path : `/${path}`] = null; });
+    await update(ref(db), updates);
+};
+
 export const setValue = async (path: string, value: any): Promise<void> => {
     if (!db) throw DB_UNAVAILABLE_ERROR;
     await set(ref(db, path), cleanForFirebase(value));
@@ -514,7 +488,7 @@ export const listenToLearningItems = (callback: (items: LearningItem[]) => void)
   const learningRef = ref(db, 'learning/sqlContext');
   return onValue(learningRef, (snapshot) => {
     const data = snapshot.val();
-    const itemsArray = data ? Object.entries(data).map(([id, value]) => ({ id, ...(value as any) })) : [];
+    const itemsArray = data ? Object.entries(data).map(([id, value]) => normalizeLearningItem(id, value)) : [];
     callback(itemsArray);
   });
 };
@@ -77,7 +77,8 @@ export async function saveDraft(id: string | number, data: Draft): Promise<void>
     return new Promise((resolve, reject) => {
         const transaction = db.transaction(STORE_NAME, 'readwrite');
         const store = transaction.objectStore(STORE_NAME);
-        const request = store.put({ id, data });
+        // savedAt은 보관 기간 정리(retentionService)에서 오래된 임시저장을 판단하는 데 사용됩니다.
+        const request = store.put({ id, data, savedAt: Date.now() });
 
         request.onsuccess = () => {
             resolve();
@@ -105,3 +106,35 @@ export async function deleteDraft(id: string | number): Promise<void> {
         };
     });
 }
+
+export async function getAllDraftRecords(): Promise<{ id: string | number; savedAt?: number }[]> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, 'readonly');
+        const store = transaction.objectStore(STORE_NAME);
+        const request = store.getAll();
+
+        request.onsuccess = () => {
+            resolve(request.result.map((record: any) => ({ id: record.id, savedAt: record.savedAt })));
+        };
+        request.onerror = () => {
+            console.error('Error getting draft records:', request.error);
+            reject(request.error);
+        };
+    });
+}
+
+export async function deleteDrafts(ids: (string | number)[]): Promise<void> {
+    if (ids.length === 0) return;
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        ids.forEach(id => store.delete(id));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => {
+            console.error('Error deleting drafts:', transaction.error);
+            reject(transaction.error);
+        };
+    });
+}
@@ -1,42 +1,59 @@
 import { getValue } from './dbService';
 import { getSetting, setSetting } from './cacheDbService';
+import { LearningItem } from '../types';
+import { createBm25Index } from '../utils/bm25';
+import { formatLearningItem, learningItemSearchText, normalizeLearningItem } from '../utils/learningItems';
 
-const LEARNING_CONTEXT_CACHE_KEY = 'learningContext';
-
-interface LearningItem {
-    id: string;
-    title: string;
-    content: string;
-}
+const LEARNING_ITEMS_CACHE_KEY = 'learningItems';
+const DEFAULT_RETRIEVAL_LIMIT = 5;
 
 /**
- * Fetches the latest learning context from Firebase and caches it locally.
- * If Firebase is unavailable, it returns the cached version.
- * @returns {Promise<string>} A string containing the formatted learning context for the AI.
+ * Fetches all learning items from Firebase and caches them locally.
+ * If Firebase is unavailable, it returns the cached items.
+ * Legacy data stored as a single string is returned as one item.
  */
-export async function getLearningContext(): Promise<string> {
+export async function getLearningItems(): Promise<LearningItem[]> {
     try {
         // Try to fetch from Firebase first
         const data = await getValue<string | { [key: string]: Omit<LearningItem, 'id'> }>('learning/sqlContext', '');
-        
-        let contextString = '';
+
+        let items: LearningItem[] = [];
         if (typeof data === 'string') {
-            contextString = data;
+            items = data.trim() ? [{ id: 'legacy', title: '', content: data }] : [];
         } else if (typeof data === 'object' && data !== null) {
-            contextString = Object.values(data)
-                .map((item: any) => `Title: ${item.title}\nContent: ${item.content}`)
-                .join('\n\n');
+            items = Object.entries(data).map(([id, value]) => normalizeLearningItem(id, value));
         }
-        
+
         // If successful, update the cache
-        await setSetting(LEARNING_CONTEXT_CACHE_KEY, contextString);
-        return contextString;
+        await setSetting(LEARNING_ITEMS_CACHE_KEY, items);
+        return items;
 
     } catch (error) {
-        console.warn("Could not fetch learning context from Firebase. Falling back to cache.", error);
-        
+        console.warn("Could not fetch learning items from Firebase. Falling back to cache.", error);
+
         // If Firebase fails, try to get it from the local cache
-        const cachedContext = await getSetting<string>(LEARNING_CONTEXT_CACHE_KEY);
-        return cachedContext || 'No context available.';
+        return (await getSetting<LearningItem[]>(LEARNING_ITEMS_CACHE_KEY)) || [];
     }
 }
+
+/**
+ * Ranks learning items against a prompt with a local BM25 keyword index.
+ * Items that share no keyword with the prompt are left out.
+ */
+export function retrieveLearningItems(items: LearningItem[], prompt: string, limit = DEFAULT_RETRIEVAL_LIMIT): LearningItem[] {
+    const index = createBm25Index(items.map(item => ({ id: item.id, text: learningItemSearchText(item) })));
+    const byId = new Map(items.map(item => [item.id, item]));
+    return index.search(prompt, limit).map(hit => byId.get(hit.id)!);
+}
+
+/**
+ * Builds the learning context string for the AI.
+ * @param prompt When given, only the items relevant to the prompt are included; otherwise every item is.
+ * @returns {Promise<string>} A string containing the formatted learning context for the AI.
+ */
+export async function getLearningContext(prompt?: string): Promise<string> {
+    const items = await getLearningItems();
+    const selected = prompt?.trim() ? retrieveLearningItems(items, prompt) : items;
+    if (items.length === 0) return 'No context available.';
+    return selected.map(formatLearningItem).join('\n\n');
+}
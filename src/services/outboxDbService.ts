@@ -0,0 +1,78 @@
+import { OutboxEntry } from '../types';
+
+const DB_NAME = 'KJMartOutboxDB';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+let db: IDBDatabase;
+
+function openDB(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        if (db) return resolve(db);
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onerror = () => {
+            console.error("IndexedDB error:", request.error);
+            reject(new Error("IndexedDB 'Outbox' database error"));
+        };
+
+        request.onsuccess = () => {
+            db = request.result;
+            resolve(db);
+        };
+
+        request.onupgradeneeded = (event) => {
+            const db = (event.target as IDBOpenDBRequest).result;
+            if (!db.objectStoreNames.contains(STORE_NAME)) {
+                // autoIncrement id가 곧 전송 순서입니다.
+                db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+            }
+        };
+    });
+}
+
+export async function addEntry(entry: Omit<OutboxEntry, 'id'>): Promise<OutboxEntry> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        const request = store.add(entry);
+        request.onsuccess = () => resolve({ ...entry, id: request.result as number });
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export async function updateEntry(entry: OutboxEntry): Promise<void> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        const request = store.put(entry);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export async function deleteEntry(id: number): Promise<void> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        const request = store.delete(id);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/** 등록 순서(id 오름차순)대로 모든 항목을 반환합니다. */
+export async function getAllEntries(): Promise<OutboxEntry[]> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, 'readonly');
+        const store = transaction.objectStore(STORE_NAME);
+        const request = store.getAll();
+        request.onsuccess = () => resolve(request.result as OutboxEntry[]);
+        request.onerror = () => reject(request.error);
+    });
+}
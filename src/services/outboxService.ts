@@ -0,0 +1,161 @@
+// src/services/outboxService.ts
+// 서버에 연결되지 않은 상태에서 발생한 쓰기 요청(이름 기반 쿼리 또는 트랜잭션 배치)을 IndexedDB 대기열에 보관하고,
+// 서버에 다시 연결되면 등록 순서대로 전송합니다.
+import { NamedStatement, OutboxEntry } from '../types';
+import * as outboxDb from './outboxDbService';
+import { executeNamedQuery, executeNamedBatch, NamedBatchResult } from './sqlService';
+import { getRejectionMessage } from '../utils/queryResult';
+
+export type OutboxOutcome =
+    | { queued: false; recordset: any[] }
+    | { queued: true; entry: OutboxEntry };
+
+export type OutboxBatchOutcome =
+    | { queued: false; results: NamedBatchResult[] }
+    | { queued: true; entry: OutboxEntry };
+
+export interface OutboxReplayResult {
+    sent: number;
+    conflicts: number;
+    remaining: number;
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+let replayPromise: Promise<OutboxReplayResult> | null = null;
+
+export function subscribeOutbox(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+}
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * 네트워크 오류, 시간 초과, 인증 만료, 서버 오류(5xx)는 다시 시도하면 성공할 수 있는 오류입니다.
+ * 그 밖의 4xx(잘못된 파라미터, 쿼리 버전 불일치 등)는 재시도해도 같은 결과이므로 충돌로 처리합니다.
+ */
+export function isRetryableError(err: any): boolean {
+    const status = err?.status;
+    if (!status) return true;
+    return status >= 500 || status === 401 || status === 408 || status === 429;
+}
+
+export async function getOutboxEntries(): Promise<OutboxEntry[]> {
+    return await outboxDb.getAllEntries();
+}
+
+export async function removeOutboxEntry(id: number): Promise<void> {
+    await outboxDb.deleteEntry(id);
+    notify();
+}
+
+/** 충돌 항목을 다시 전송 대상으로 돌립니다. */
+export async function retryOutboxEntry(entry: OutboxEntry): Promise<void> {
+    await outboxDb.updateEntry({ ...entry, status: 'pending', lastError: undefined });
+    notify();
+}
+
+type OutboxRequest = Pick<OutboxEntry, 'name' | 'params' | 'statements' | 'idempotencyKey' | 'label'>;
+
+/**
+ * 쓰기 요청마다 멱등성 키를 붙여, 응답을 받지 못해 재전송하더라도 서버에서 한 번만 실행되도록 합니다.
+ */
+export function createIdempotencyKey(prefix: string = 'op'): string {
+    const random = typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+    return `${prefix}:${random}`;
+}
+
+async function enqueue(request: OutboxRequest, lastError?: string): Promise<OutboxEntry> {
+    const entry = await outboxDb.addEntry({ ...request, createdAt: Date.now(), status: 'pending', attempts: 0, lastError });
+    notify();
+    return entry;
+}
+
+/**
+ * 요청을 즉시 실행하고, 서버에 닿지 못하면 대기열에 보관합니다.
+ * 앞서 대기 중인 항목이 있으면 순서를 지키기 위해 바로 실행하지 않고 뒤에 추가합니다.
+ */
+async function executeOrQueue<T>(request: OutboxRequest, run: () => Promise<T>): Promise<{ queued: false; value: T } | { queued: true; entry: OutboxEntry }> {
+    const pending = (await outboxDb.getAllEntries()).filter(e => e.status === 'pending');
+    if (pending.length > 0 || !navigator.onLine) {
+        const entry = await enqueue(request);
+        if (navigator.onLine) replayOutbox().catch(err => console.warn('Outbox replay failed:', err));
+        return { queued: true, entry };
+    }
+
+    try {
+        return { queued: false, value: await run() };
+    } catch (err: any) {
+        if (!isRetryableError(err)) throw err;
+        return { queued: true, entry: await enqueue(request, err.message) };
+    }
+}
+
+export async function executeNamedQueryOrQueue(name: string, params: Record<string, any>, label: string, idempotencyKey: string = createIdempotencyKey()): Promise<OutboxOutcome> {
+    const outcome = await executeOrQueue({ name, params, idempotencyKey, label }, () => executeNamedQuery(name, params, idempotencyKey));
+    return outcome.queued ? outcome : { queued: false, recordset: outcome.value };
+}
+
+/**
+ * 여러 쓰기 쿼리를 하나의 트랜잭션으로 실행하고, 서버에 닿지 못하면 배치 전체를 한 항목으로 대기열에 보관합니다.
+ * 키가 없는 문장에는 배치 키를 기준으로 한 키가 부여됩니다.
+ */
+export async function executeNamedBatchOrQueue(input: NamedStatement[], label: string): Promise<OutboxBatchOutcome> {
+    const batchKey = createIdempotencyKey('batch');
+    const statements = input.map((statement, i) => statement.idempotencyKey ? statement : { ...statement, idempotencyKey: `${batchKey}:${i}` });
+    const outcome = await executeOrQueue({ name: statements[0]?.name || 'batch', params: {}, statements, label }, () => executeNamedBatch(statements));
+    return outcome.queued ? outcome : { queued: false, results: outcome.value };
+}
+
+/** 대기열 항목을 전송하고, 서버가 거부했으면 그 사유를 반환합니다. */
+async function sendEntry(entry: OutboxEntry): Promise<string | null> {
+    if (entry.statements) {
+        // 배치는 서버에서 거부된 문장이 있으면 롤백 후 409 오류로 응답하므로 여기까지 오면 성공입니다.
+        await executeNamedBatch(entry.statements);
+        return null;
+    }
+    return getRejectionMessage(await executeNamedQuery(entry.name, entry.params, entry.idempotencyKey));
+}
+
+async function runReplay(): Promise<OutboxReplayResult> {
+    const result: OutboxReplayResult = { sent: 0, conflicts: 0, remaining: 0 };
+    const entries = (await outboxDb.getAllEntries()).filter(e => e.status === 'pending');
+
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        const attempted: OutboxEntry = { ...entry, attempts: entry.attempts + 1, lastAttemptAt: Date.now() };
+        try {
+            const rejection = await sendEntry(entry);
+            if (rejection) {
+                await outboxDb.updateEntry({ ...attempted, status: 'conflict', lastError: rejection });
+                result.conflicts++;
+            } else {
+                await outboxDb.deleteEntry(entry.id!);
+                result.sent++;
+            }
+        } catch (err: any) {
+            if (isRetryableError(err)) {
+                // 순서를 보장하기 위해 전송에 실패하면 뒤 항목도 다음 기회로 미룹니다.
+                await outboxDb.updateEntry({ ...attempted, lastError: err.message });
+                result.remaining = entries.length - i;
+                break;
+            }
+            await outboxDb.updateEntry({ ...attempted, status: 'conflict', lastError: err.message });
+            result.conflicts++;
+        } finally {
+            notify();
+        }
+    }
+    return result;
+}
+
+/** 대기 중인 항목을 등록 순서대로 전송합니다. 이미 전송 중이면 진행 중인 작업의 결과를 반환합니다. */
+export function replayOutbox(): Promise<OutboxReplayResult> {
+    if (!replayPromise) {
+        replayPromise = runReplay().finally(() => { replayPromise = null; });
+    }
+    return replayPromise;
+}
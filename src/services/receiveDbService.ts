@@ -101,32 +101,14 @@ export async function clearAllBatches(): Promise<void> {
     });
 }
 
-export async function cleanupOldLocalBatches(daysToKeep: number = 2): Promise<void> {
+export async function deleteBatches(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
     const db = await openDB();
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
-    const cutoffTimestamp = cutoffDate.getTime();
-
     return new Promise((resolve, reject) => {
         const transaction = db.transaction(STORE_NAME, 'readwrite');
         const store = transaction.objectStore(STORE_NAME);
-        // IDBKeyRange.upperBound includes everything up to cutoffTimestamp
-        const range = IDBKeyRange.upperBound(cutoffTimestamp);
-        const request = store.openCursor(range);
-
-        request.onsuccess = (event) => {
-            const cursor = (event.target as IDBRequest).result as IDBCursorWithValue;
-            if (cursor) {
-                const batch = cursor.value as ReceivingBatch;
-                // STRICT RULE: Only delete if status is 'sent'
-                if (batch.status === 'sent') {
-                    cursor.delete();
-                }
-                cursor.continue();
-            } else {
-                resolve();
-            }
-        };
-        request.onerror = () => reject(request.error);
+        ids.forEach(id => store.delete(id));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
     });
 }
@@ -0,0 +1,170 @@
+// src/services/retentionService.ts
+// 기기 설정의 보관 기간(logRetentionDays)에 따라 오래된 기록을 정리합니다.
+// 컬렉션마다 보관 기간, 최대 건수, '미전송 항목은 삭제하지 않음' 정책을 가집니다.
+import { Order, ReceivingBatch, SyncLog } from '../types';
+import { getValue, removePaths } from './dbService';
+import * as receiveDb from './receiveDbService';
+import { getAllDraftRecords, deleteDrafts } from './draftDbService';
+import { getSetting, setSetting } from './cacheDbService';
+
+export type RetentionCollection = 'syncLogsCustomers' | 'syncLogsProducts' | 'orders' | 'receivingBatches' | 'localReceivingBatches' | 'drafts';
+
+export interface RetentionPolicy {
+    collection: RetentionCollection;
+    label: string;
+    /** 이 일수보다 오래된 항목을 삭제합니다. */
+    maxAgeDays?: number;
+    /** 최신순으로 이 건수를 넘는 항목을 삭제합니다. */
+    maxCount?: number;
+    /** true이면 아직 전송(완료)되지 않은 항목은 기간/건수와 무관하게 보관합니다. */
+    keepUnsent: boolean;
+}
+
+interface RetentionRecord {
+    key: string | number;
+    /** 기준 시각(ms). 알 수 없으면 undefined이며 기간 정책에서 제외됩니다. */
+    timestamp?: number;
+    unsent: boolean;
+}
+
+interface RetentionTarget {
+    list: () => Promise<RetentionRecord[]>;
+    remove: (keys: (string | number)[]) => Promise<void>;
+}
+
+export interface RetentionReport {
+    collection: RetentionCollection;
+    label: string;
+    scanned: number;
+    deleted: number;
+    /** 정책상 삭제 대상이지만 미전송이라 보관한 건수 */
+    keptUnsent: number;
+    error?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 자동 정리는 하루에 한 번만 실행합니다.
+const SCHEDULE_INTERVAL_MS = DAY_MS;
+const LAST_RUN_KEY = 'retention_last_run';
+
+/**
+ * 보관 기간 설정으로 컬렉션별 정책을 만듭니다. 0 이하이면 자동 정리를 사용하지 않습니다.
+ */
+export function buildRetentionPolicies(logRetentionDays: number): RetentionPolicy[] {
+    if (!logRetentionDays || logRetentionDays <= 0) return [];
+    const days = logRetentionDays;
+    return [
+        { collection: 'syncLogsCustomers', label: '거래처 동기화 로그', maxAgeDays: days, maxCount: 1000, keepUnsent: false },
+        { collection: 'syncLogsProducts', label: '상품 동기화 로그', maxAgeDays: days, maxCount: 1000, keepUnsent: false },
+        { collection: 'orders', label: '발주 내역', maxAgeDays: days, keepUnsent: true },
+        { collection: 'receivingBatches', label: '입고 내역 (서버 백업)', maxAgeDays: days, keepUnsent: true },
+        { collection: 'localReceivingBatches', label: '입고 내역 (기기)', maxAgeDays: days, keepUnsent: true },
+        { collection: 'drafts', label: '임시 저장', maxAgeDays: days, maxCount: 50, keepUnsent: false },
+    ];
+}
+
+const syncLogTarget = (storeName: 'customers' | 'products'): RetentionTarget => ({
+    list: async () => {
+        const logs = await getValue<Record<string, SyncLog>>(`sync-logs/${storeName}`, {});
+        return Object.entries(logs || {}).filter(([, log]) => log != null).map(([key, log]) => ({ key, timestamp: log.timestamp, unsent: false }));
+    },
+    remove: keys => removePaths(keys.map(key => `sync-logs/${storeName}/${key}`)),
+});
+
+const targets: Record<RetentionCollection, RetentionTarget> = {
+    syncLogsCustomers: syncLogTarget('customers'),
+    syncLogsProducts: syncLogTarget('products'),
+    orders: {
+        // 완료 처리(completedAt)되지 않은 발주는 아직 거래처에 전송되지 않은 것으로 봅니다.
+        list: async () => {
+            const orders = await getValue<Record<string, Order>>('orders', {});
+            return Object.entries(orders || {}).filter(([, order]) => order != null).map(([key, order]) => ({
+                key,
+                timestamp: Date.parse(order.date || order.createdAt) || undefined,
+                unsent: !order.completedAt,
+            }));
+        },
+        remove: keys => removePaths(keys.flatMap(key => [`orders/${key}`, `order-items/${key}`])),
+    },
+    receivingBatches: {
+        // 입고 배치의 키는 생성 시각(ms)입니다.
+        list: async () => {
+            const batches = await getValue<Record<string, ReceivingBatch>>('receiving-batches', {});
+            return Object.entries(batches || {}).filter(([, batch]) => batch != null).map(([key, batch]) => ({ key, timestamp: Number(key) || undefined, unsent: batch.status !== 'sent' }));
+        },
+        remove: keys => removePaths(keys.map(key => `receiving-batches/${key}`)),
+    },
+    localReceivingBatches: {
+        list: async () => (await receiveDb.getAllBatches()).map(batch => ({ key: batch.id, timestamp: batch.id, unsent: batch.status !== 'sent' })),
+        remove: keys => receiveDb.deleteBatches(keys as number[]),
+    },
+    drafts: {
+        // savedAt 기록 이전에 저장된 임시저장은 다시 저장될 때까지 기간 정책에서 제외됩니다.
+        list: async () => (await getAllDraftRecords()).map(record => ({ key: record.id, timestamp: record.savedAt, unsent: false })),
+        remove: keys => deleteDrafts(keys),
+    },
+};
+
+function selectExpired(records: RetentionRecord[], policy: RetentionPolicy, now: number): { expired: RetentionRecord[]; keptUnsent: number } {
+    const cutoff = policy.maxAgeDays !== undefined ? now - policy.maxAgeDays * DAY_MS : null;
+    const newestFirst = [...records].sort((a, b) => (b.timestamp ?? Infinity) - (a.timestamp ?? Infinity));
+
+    const expired: RetentionRecord[] = [];
+    let keptUnsent = 0;
+    newestFirst.forEach((record, index) => {
+        const tooOld = cutoff !== null && record.timestamp !== undefined && record.timestamp < cutoff;
+        const overCount = policy.maxCount !== undefined && index >= policy.maxCount;
+        if (!tooOld && !overCount) return;
+        if (policy.keepUnsent && record.unsent) {
+            keptUnsent++;
+            return;
+        }
+        expired.push(record);
+    });
+    return { expired, keptUnsent };
+}
+
+/**
+ * 정책을 적용합니다. dryRun이면 삭제하지 않고 삭제 예정 건수만 계산합니다.
+ * 한 컬렉션의 실패가 다른 컬렉션 정리를 막지 않도록 결과에 오류를 담아 계속 진행합니다.
+ */
+export async function applyRetention(policies: RetentionPolicy[], options: { dryRun?: boolean; now?: number } = {}): Promise<RetentionReport[]> {
+    const now = options.now ?? Date.now();
+    const reports: RetentionReport[] = [];
+    for (const policy of policies) {
+        const report: RetentionReport = { collection: policy.collection, label: policy.label, scanned: 0, deleted: 0, keptUnsent: 0 };
+        try {
+            const target = targets[policy.collection];
+            const records = await target.list();
+            const { expired, keptUnsent } = selectExpired(records, policy, now);
+            report.scanned = records.length;
+            report.keptUnsent = keptUnsent;
+            if (!options.dryRun && expired.length > 0) {
+                await target.remove(expired.map(r => r.key));
+            }
+            report.deleted = expired.length;
+        } catch (e: any) {
+            console.error(`Retention failed for ${policy.collection}:`, e);
+            report.error = e?.message || String(e);
+        }
+        reports.push(report);
+    }
+    return reports;
+}
+
+/**
+ * 마지막 자동 정리 후 하루가 지났으면 정책을 적용합니다. 실행하지 않았으면 null을 반환합니다.
+ */
+export async function runScheduledRetention(logRetentionDays: number): Promise<RetentionReport[] | null> {
+    const policies = buildRetentionPolicies(logRetentionDays);
+    if (policies.length === 0) return null;
+
+    const lastRun = await getSetting<number>(LAST_RUN_KEY);
+    if (lastRun && Date.now() - lastRun < SCHEDULE_INTERVAL_MS) return null;
+
+    await setSetting(LAST_RUN_KEY, Date.now());
+    const reports = await applyRetention(policies);
+    const deleted = reports.reduce((sum, r) => sum + r.deleted, 0);
+    if (deleted > 0) console.log(`Retention: removed ${deleted} records (${logRetentionDays} days).`, reports);
+    return reports;
+}
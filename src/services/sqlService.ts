@@ -1,66 +1,172 @@
 
 // src/services/sqlService.ts
 import { DbSchema } from './schemaService';
+import { auth } from './dbService';
+import { AiAgentAnswer, AiModelSettings, NamedStatement, ServerDiagnostics, SqlMessage, SqlQueryResult } from '../types';
+import { recordApiSample } from './connectivityService';
+import { getEndpointCandidates, getLastUsedEndpoint, markEndpointFailed, markEndpointReachable, normalizeEndpointUrl } from './apiEndpointService';
 
-// [중요] APK 빌드 시에는 아래 주소를 실제 배포된 서버 주소나 PC의 IP 주소로 변경해야 합니다.
-// 예: 'https://my-kjmart-app.vercel.app/api/sql' 또는 'http://192.168.0.10:3000/api/sql'
-const API_ENDPOINT = 'https://kjmart.vercel.app/api/sql'; 
+// 요청을 보낼 서버 주소는 기기 설정의 서버 프로필(apiEndpointService)을 따릅니다.
+// 앞 순위 서버(예: 매장 LAN 서버)에 연결할 수 없으면 다음 서버(예: 클라우드)로 같은 요청을 보냅니다.
 const DEFAULT_TIMEOUT_MS = 30000;
+// 다음 순위 서버가 있을 때 한 서버의 응답을 기다리는 시간 (다시 보내도 안전한 요청만 해당)
+const FAILOVER_TIMEOUT_MS = 15000;
+const CONNECTION_CHECK_TIMEOUT_MS = 10000;
 
-async function fetchApi(body: object, signal?: AbortSignal) {
-    let timeoutId: any = null;
-    let effectiveSignal = signal;
+// 서버 데이터를 바꾸지 않아 응답을 받지 못했을 때 다른 서버로 다시 보내도 되는 요청
+const READ_ONLY_REQUEST_TYPES = new Set([
+    'connect', 'diagnostics', 'getDatabaseSchema', 'naturalLanguageToSql', 'aiChat', 'validateSql',
+    'syncCustomersAndProducts', 'syncCustomers', 'syncProductsIncrementally', 'syncProductsPage', 'reconcileProducts',
+    'syncProductsByBarcode', 'syncBOM', 'syncCategories', 'searchProductsOnline', 'searchProductsForEdit',
+]);
 
-    if (!effectiveSignal) {
-        const controller = new AbortController();
-        effectiveSignal = controller.signal;
-        timeoutId = setTimeout(() => {
-            controller.abort(new Error('서버 응답 시간이 초과되었습니다 (30초).'));
-        }, DEFAULT_TIMEOUT_MS);
+/** 서버가 요청을 받았는지 알 수 없는 상황(시간 초과, 게이트웨이 오류)에서 다른 서버로 다시 보내도 되는지 */
+function isSafeToResend(body: any): boolean {
+    if (READ_ONLY_REQUEST_TYPES.has(body?.type)) return true;
+    // 멱등성 키가 있는 쓰기는 서버가 이미 처리했어도 다시 실행되지 않습니다.
+    if (body?.type === 'namedQuery') return !!body.idempotencyKey;
+    if (body?.type === 'batch') return Array.isArray(body.statements) && body.statements.length > 0 && body.statements.every((s: any) => !!s?.idempotencyKey);
+    return false;
+}
+
+/** 서버에서 응답을 받지 못한 오류. 요청이 서버에 전달되지 않았다고 확신할 수 있으면 definitelyNotSent가 true입니다. */
+class EndpointUnreachableError extends Error {
+    constructor(message: string, public readonly definitelyNotSent: boolean) {
+        super(message);
+        this.name = 'EndpointUnreachableError';
     }
+}
+
+interface FetchApiOptions {
+    /** 지정하면 서버 프로필 대신 이 주소로만 요청합니다. (설정 화면의 연결 테스트) */
+    endpointUrl?: string;
+    /** 서버 한 곳의 응답을 기다리는 시간 (기본: 30초, 다음 순위 서버가 있으면 15초) */
+    timeoutMs?: number;
+}
+
+async function fetchFromEndpoint(url: string, body: object, timeoutMs: number | null, signal?: AbortSignal) {
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) forwardAbort();
+    else signal?.addEventListener('abort', forwardAbort);
+    let timedOut = false;
+    const timeoutId = timeoutMs === null ? null : setTimeout(() => {
+        timedOut = true;
+        controller.abort(new Error(`서버 응답 시간이 초과되었습니다 (${timeoutMs / 1000}초).`));
+    }, timeoutMs);
 
     try {
-        const response = await fetch(API_ENDPOINT, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(body),
-            signal: effectiveSignal,
-        });
+        // 서버는 Firebase ID 토큰으로 사용자를 확인합니다. (만료 임박 시 SDK가 자동 갱신)
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        const idToken = await auth?.currentUser?.getIdToken();
+        if (idToken) headers['Authorization'] = `Bearer ${idToken}`;
+
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify(body),
+                signal: controller.signal,
+            });
+        } catch (err: any) {
+            if (signal?.aborted) throw signal.reason || new Error('API 요청이 중단되었습니다.');
+            if (timedOut) throw new EndpointUnreachableError('서버 응답 시간이 초과되었습니다. 연결을 확인해주세요.', false);
+            // 모바일 환경에서 자주 발생하는 네트워크 오류 메시지 구체화
+            if (err?.message === 'Failed to fetch' || err?.name === 'TypeError') {
+                throw new EndpointUnreachableError('서버에 연결할 수 없습니다. 인터넷 연결과 서버 주소 설정을 확인해주세요.', true);
+            }
+            throw new EndpointUnreachableError(err?.message || 'API 요청에 실패했습니다.', false);
+        }
 
         if (!response.ok) {
             let errorDetails = `Server responded with status ${response.status}`;
+            let errorData: any = null;
             try {
-                const errorData = await response.json();
+                errorData = await response.json();
                 errorDetails = errorData.details || errorData.error || errorDetails;
             } catch (e) {
                 try {
                     errorDetails = await response.text();
                 } catch (textErr) {}
             }
-            throw new Error(errorDetails);
+            // 재시도 여부 판단(전송 대기열 등)을 위해 HTTP 상태 코드를 함께 전달합니다.
+            const httpError: any = new Error(errorDetails);
+            httpError.status = response.status;
+            if (errorData) httpError.data = errorData;
+            throw httpError;
         }
-        
+
         const contentType = response.headers.get("content-type");
-        if (contentType && contentType.indexOf("application/json") !== -1) {
-            return await response.json();
-        } else {
+        try {
+            if (contentType && contentType.indexOf("application/json") !== -1) {
+                return await response.json();
+            }
             return { success: true, message: await response.text() };
-        }
-
-    } catch (err: any) {
-        if (err.name === 'AbortError') {
+        } catch (err: any) {
             if (signal?.aborted) throw signal.reason || new Error('API 요청이 중단되었습니다.');
-            else throw new Error('서버 응답 시간이 초과되었습니다. 연결을 확인해주세요.');
+            if (err instanceof SyntaxError) throw new Error(`응답 해석 실패 (JSON 아님): ${err.message}`);
+            throw new Error(timedOut ? '서버 응답 시간이 초과되었습니다. 연결을 확인해주세요.' : (err.message || 'API 요청에 실패했습니다.'));
         }
-        if (err instanceof SyntaxError) throw new Error(`응답 해석 실패 (JSON 아님): ${err.message}`);
-        // 모바일 환경에서 자주 발생하는 네트워크 오류 메시지 구체화
-        if (err.message === 'Failed to fetch') throw new Error('서버에 연결할 수 없습니다. 인터넷 연결과 서버 주소 설정을 확인해주세요.');
-        throw new Error(err.message || 'API 요청에 실패했습니다.');
     } finally {
         if (timeoutId) clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', forwardAbort);
     }
 }
 
+// 응답 시간으로 연결 품질을 판단하는 요청. AI·동기화·보고서처럼 처리 시간이 긴 요청은 성공 여부만 기록합니다.
+const LATENCY_PROBE_TYPES = new Set(['connect', 'diagnostics']);
+
+async function fetchApi(body: object, signal?: AbortSignal, options: FetchApiOptions = {}) {
+    const candidates = options.endpointUrl ? [options.endpointUrl] : getEndpointCandidates().map(p => p.url);
+    // 연결 테스트는 현재 사용 중인 서버의 연결 품질이나 장애 조치 순서에 영향을 주지 않습니다.
+    const track = !options.endpointUrl;
+    const resendable = isSafeToResend(body);
+    const measureLatency = LATENCY_PROBE_TYPES.has((body as { type?: string }).type || '');
+
+    for (let i = 0; i < candidates.length; i++) {
+        const url = candidates[i];
+        const hasNext = i < candidates.length - 1;
+        // 호출자가 취소 신호를 넘긴 요청(SQL Runner 등)은 호출자가 시간을 관리하므로 장애 조치 대기 시간만 적용합니다.
+        const timeoutMs = options.timeoutMs ?? (hasNext && resendable ? FAILOVER_TIMEOUT_MS : signal ? null : DEFAULT_TIMEOUT_MS);
+        const startedAt = Date.now();
+        try {
+            const result = await fetchFromEndpoint(url, body, timeoutMs, signal);
+            if (track) {
+                recordApiSample(true, measureLatency ? Date.now() - startedAt : null);
+                markEndpointReachable(url);
+            }
+            return result;
+        } catch (err: any) {
+            if (err.status) {
+                // 5xx는 서버(또는 DB 연결)에 문제가 있는 것이므로 연결 품질 판단에서 실패로 기록합니다.
+                if (track) {
+                    recordApiSample(err.status < 500, measureLatency ? Date.now() - startedAt : null, `HTTP ${err.status}`);
+                    if (err.status < 500) markEndpointReachable(url);
+                }
+                // 프록시/게이트웨이가 서버 대신 응답한 경우에만 다음 서버로 넘어갑니다.
+                const gatewayFailure = err.status === 502 || err.status === 503 || err.status === 504;
+                if (track && gatewayFailure && hasNext && resendable) {
+                    markEndpointFailed(url);
+                    continue;
+                }
+                throw err;
+            }
+            // 사용자가 직접 취소한 요청 등은 연결 품질과 무관하므로 기록하지 않고 그대로 전달합니다.
+            if (!(err instanceof EndpointUnreachableError)) throw err;
+
+            if (track) markEndpointFailed(url);
+            if (hasNext && (err.definitelyNotSent || resendable)) {
+                console.warn(`[API] ${url} 연결 실패, 다음 서버로 전환: ${err.message}`);
+                continue;
+            }
+            if (track) recordApiSample(false, null, err.message);
+            throw new Error(err.message);
+        }
+    }
+    throw new Error('사용 가능한 서버 주소가 없습니다.');
+}
+
 /**
  * 쿼리 텍스트 내의 @변수명을 찾아 실제 전달할 파라미터만 걸러냅니다.
  * 대소문자를 무시하고 매칭하여 안정성을 높입니다.
@@ -91,45 +197,86 @@ export const extractParamsForQuery = (queryText: string, sourceParams: Record<st
 };
 
 
-export async function checkSqlConnection(): Promise<{ success: boolean; message: string }> {
-    const controller = new AbortController();
-    const timeout = 10000; 
-    const timeoutId = setTimeout(() => {
-        const error = new Error(`서버 연결 확인 시간이 초과되었습니다 (${timeout / 1000}초).`);
-        error.name = 'TimeoutError';
-        controller.abort(error);
-    }, timeout);
+/**
+ * 서버 연결을 확인합니다. endpointUrl을 주면 서버 프로필과 관계없이 그 주소만 확인합니다. (설정 화면의 연결 테스트)
+ */
+export async function checkSqlConnection(endpointUrl?: string): Promise<{ success: boolean; message: string }> {
+    return await fetchApi({ type: 'connect' }, undefined, { endpointUrl: endpointUrl ? normalizeEndpointUrl(endpointUrl) : undefined, timeoutMs: CONNECTION_CHECK_TIMEOUT_MS });
+}
 
-    try {
-        return await fetchApi({ type: 'connect' }, controller.signal);
-    } catch (err: any) {
-        if (controller.signal.reason && (controller.signal.reason as Error).name === 'TimeoutError') throw controller.signal.reason;
-        throw err;
-    } finally {
-        clearTimeout(timeoutId);
-    }
+/**
+ * 서버 진단 정보(DB 버전/왕복 시간, 연결 풀, 최근 오류, 배포 버전, 서버 시각)를 가져옵니다.
+ * DB에 연결할 수 없으면 오류 대신 db.ok = false 인 응답을 반환합니다. 서버에 연결할 수 없으면 오류가 발생합니다.
+ */
+export async function getServerDiagnostics(): Promise<ServerDiagnostics> {
+    const sentAt = Date.now();
+    const data = await fetchApi({ type: 'diagnostics', clientTime: new Date(sentAt).toISOString() }, undefined, { timeoutMs: CONNECTION_CHECK_TIMEOUT_MS });
+    const receivedAt = Date.now();
+    const serverTime = Date.parse(data?.server?.time);
+    return {
+        ...data,
+        roundTripMs: receivedAt - sentAt,
+        clockOffsetMs: Number.isNaN(serverTime) ? null : Math.round(serverTime - (sentAt + receivedAt) / 2),
+        endpointUrl: getLastUsedEndpoint()?.url ?? null,
+    };
 }
 
 export async function getDatabaseSchema(): Promise<DbSchema> {
     return await fetchApi({ type: 'getDatabaseSchema' });
 }
 
-export interface QuerySqlResponse {
-    recordset?: any[];
-    rowsAffected?: number;
+export type SqlStatementKind = 'select' | 'dml' | 'ddl' | 'exec' | 'dynamic' | 'other';
+
+export interface SqlClassification {
+    readOnly: boolean;
+    kinds: SqlStatementKind[];
+    keywords: string[];
+}
+
+export interface QuerySqlResponse extends Partial<SqlQueryResult> {
     answer?: string;
+    // 쓰기 구문이 포함되어 서버가 실행 전 확인을 요구하는 경우
+    needsConfirmation?: boolean;
+    classification?: SqlClassification;
+    message?: string;
 }
 
 export async function querySql(query: string, signal: AbortSignal, confirmed?: boolean, allowDestructive?: boolean): Promise<QuerySqlResponse> {
     return await fetchApi({ type: 'query', query, confirmed, allowDestructive }, signal);
 }
 
-export async function naturalLanguageToSql(naturalLanguagePrompt: string, schema: DbSchema, context: string): Promise<{ sql: string }> {
-    return await fetchApi({ type: 'naturalLanguageToSql', naturalLanguagePrompt, schema, context });
+// 공통 설정의 AI 제공자/모델. DeviceSettingsProvider가 공통 설정을 읽을 때 반영합니다.
+let aiModelSettings: AiModelSettings = {};
+
+export function setAiModelSettings(next: AiModelSettings | null | undefined) {
+    aiModelSettings = next || {};
+}
+
+/**
+ * schema: 질문에 맞춰 줄인 스키마 설명(buildSchemaContext) 또는 스키마 객체
+ * repair: 이전에 생성한 SQL이 검증을 통과하지 못했을 때, 그 SQL과 오류를 함께 보내 다시 생성합니다.
+ */
+export async function naturalLanguageToSql(naturalLanguagePrompt: string, schema: DbSchema | string, context: string, repair?: { sql: string; errors: string[] }): Promise<{ sql: string }> {
+    return await fetchApi({ type: 'naturalLanguageToSql', naturalLanguagePrompt, schema, context, repair, llm: aiModelSettings.sql });
+}
+
+export interface SqlValidationResponse {
+    valid: boolean;
+    classification: SqlClassification;
+    /** 서버에서 통과한 확인 단계. 서버가 확인할 수 없는 환경이면 'skipped' */
+    checked: 'parseOnly' | 'noExec' | 'skipped' | null;
+    errors: string[];
+    sqlError?: SqlMessage;
+}
+
+/** SQL을 실행하지 않고 서버에서 확인합니다. (쓰기 구문 거부, SET PARSEONLY/NOEXEC) */
+export async function validateSql(query: string): Promise<SqlValidationResponse> {
+    return await fetchApi({ type: 'validateSql', query });
 }
 
-export async function aiChat(naturalLanguagePrompt: string, schema: DbSchema, context: string, userCurrentDate?: string): Promise<{ answer: string }> {
-    return await fetchApi({ type: 'aiChat', naturalLanguagePrompt, schema, context, userCurrentDate });
+/** AI 어시스턴트. 서버에서 AI가 읽기 전용 쿼리로 실제 데이터를 확인한 뒤 답하며, 실행한 쿼리 목록(trace)을 함께 받습니다. */
+export async function aiChat(naturalLanguagePrompt: string, schema: DbSchema | string, context: string, userCurrentDate?: string): Promise<AiAgentAnswer> {
+    return await fetchApi({ type: 'aiChat', naturalLanguagePrompt, schema, context, userCurrentDate, llm: aiModelSettings.chat });
 }
 
 export async function syncCustomersAndProductsFromDb(): Promise<{ customers: any[], products: any[], bom: any[], gubun1: any[], gubun2: any[], gubun3: any[] }> {
@@ -154,6 +301,40 @@ export async function syncProductsIncrementally(lastSyncDate: string | null): Pr
     return result?.recordset || [];
 }
 
+export interface ProductSyncPage {
+    recordset: any[];
+    /** 다음 페이지 요청에 그대로 전달할 커서 (마지막 페이지이면 null) */
+    nextCursor: string | null;
+    /** 첫 페이지 요청에서만 전달되는 전체 대상 건수 */
+    total?: number;
+    /** 첫 페이지 조회 직전의 서버 시각. 다음 증분 동기화의 기준값(lastSyncDate)으로 사용합니다. */
+    watermark?: string;
+}
+
+/**
+ * 상품을 (upday1, barcode) 순서의 페이지 단위로 받아옵니다.
+ * 커서가 있으면 기준일(lastSyncDate)은 무시되고 커서에 기록된 기준일이 사용됩니다.
+ */
+export async function syncProductsPage(lastSyncDate: string, cursor: string | null, pageSize?: number): Promise<ProductSyncPage> {
+    const result = await fetchApi({ type: 'syncProductsPage', lastSyncDate, cursor, limit: pageSize });
+    return { recordset: result?.recordset || [], nextCursor: result?.nextCursor || null, total: result?.total, watermark: result?.watermark };
+}
+
+/**
+ * 로컬 상품 캐시의 버킷 요약값을 서버와 대조합니다.
+ * 요약값이 다른 버킷에 대해서만 서버의 (사용 중인) 바코드 목록이 반환됩니다.
+ * 서버는 바코드 목록을 몇 분간 보관해 여러 기기가 함께 쓰므로, snapshotAt 이후 추가된 상품은 목록에 없을 수 있습니다.
+ */
+export async function reconcileProducts(digest: [number, number][]): Promise<{ total: number; buckets: Record<string, string[]>; snapshotAt?: string }> {
+    const result = await fetchApi({ type: 'reconcileProducts', digest });
+    return { total: result?.total || 0, buckets: result?.buckets || {}, snapshotAt: result?.snapshotAt };
+}
+
+export async function syncProductsByBarcode(barcodes: string[]): Promise<any[]> {
+    const result = await fetchApi({ type: 'syncProductsByBarcode', barcodes });
+    return result?.recordset || [];
+}
+
 export async function syncBOMFromDb(): Promise<any[]> {
     const result = await fetchApi({ type: 'syncBOM' });
     return result?.recordset || [];
@@ -178,11 +359,100 @@ export async function searchProductsForEdit(searchTerm: string): Promise<any[]>
     return result?.recordset || [];
 }
 
-export async function executeUserQuery(name: string, params: Record<string, any> = {}, userQuery?: string): Promise<any[]> {
-    // 전달된 파라미터 중 쿼리에서 실제로 쓰이는 것만 추출 (API 최적화)
+/**
+ * 서버에 등록된 이름 기반 쿼리를 실행합니다. SQL 본문은 서버(api/_lib/namedQueries.ts)가 보관합니다.
+ * idempotencyKey를 주면 같은 키로 이미 완료된 요청은 다시 실행되지 않고 저장된 결과가 반환됩니다.
+ */
+export async function executeNamedQuery(name: string, params: Record<string, any> = {}, idempotencyKey?: string): Promise<any[]> {
+    return (await executeNamedQueryResult(name, params, idempotencyKey)).recordset;
+}
+
+/**
+ * executeNamedQuery와 같지만 모든 결과 집합(recordsets)과 PRINT 메시지를 포함한 응답 전체를 반환합니다.
+ */
+export async function executeNamedQueryResult(name: string, params: Record<string, any> = {}, idempotencyKey?: string): Promise<SqlQueryResult> {
+    return toSqlQueryResult(await fetchApi({ type: 'namedQuery', name, params, idempotencyKey }));
+}
+
+function toSqlQueryResult(data: any): SqlQueryResult {
+    const recordsets: any[][] = Array.isArray(data?.recordsets) ? data.recordsets : data?.recordset ? [data.recordset] : [];
+    return {
+        recordset: data?.recordset || recordsets[0] || [],
+        recordsets,
+        rowsAffected: data?.rowsAffected || [],
+        messages: data?.messages || [],
+        ...(data?.cache ? { cache: data.cache } : {}),
+    };
+}
+
+/** 서버 오류 응답에 담긴 SQL Server 오류 정보 (오류 번호, 상태, 줄 번호). SQL 오류가 아니면 undefined */
+export function getSqlErrorInfo(err: any): (SqlMessage & { precedingErrors?: SqlMessage[] }) | undefined {
+    return err?.data?.sqlError;
+}
+
+export interface NamedBatchResult {
+    name: string;
+    recordset: any[];
+    rowsAffected?: number[];
+    /** 멱등성 키가 이미 완료되어 실행하지 않고 저장된 결과를 받은 경우 true */
+    replayed?: boolean;
+    recordsets?: any[][];
+    messages?: SqlMessage[];
+}
+
+/**
+ * 여러 이름 기반 쿼리를 서버에서 하나의 트랜잭션으로 실행합니다.
+ * 하나라도 실패하면 전체가 롤백되고 오류(status 409, data.failedIndex)가 발생합니다.
+ */
+export async function executeNamedBatch(statements: NamedStatement[]): Promise<NamedBatchResult[]> {
+    const result = await fetchApi({ type: 'batch', statements });
+    return result?.results || [];
+}
+
+/**
+ * SQL Runner에 저장된 사용자 쿼리를 실행합니다. userQuery 가 없으면 등록된 쿼리로 처리됩니다.
+ */
+export async function executeUserQuery(name: string, params: Record<string, any> = {}, userQuery?: string, paramTypes?: Record<string, string>, write?: Pick<UserQueryOptions, 'allowDestructive' | 'confirmed'>): Promise<any[]> {
+    return (await executeUserQueryResult(name, params, userQuery, { paramTypes, ...write })).recordset;
+}
+
+/** 저장된 사용자 쿼리에 쓰기 구문이 있어 서버가 실행 전 사용자 확인을 요구한 경우. confirmed: true로 다시 요청합니다. */
+export class SqlConfirmationRequiredError extends Error {
+    constructor(message: string, public readonly classification?: SqlClassification) {
+        super(message);
+        this.name = 'SqlConfirmationRequiredError';
+    }
+}
+
+export interface UserQueryOptions {
+    paramTypes?: Record<string, string>;
+    /** 쓰기 구문이 있는 쿼리 실행 허용 ('SQL 실행 권한' 설정) */
+    allowDestructive?: boolean;
+    /** 쓰기 구문 실행을 사용자가 확인한 경우 */
+    confirmed?: boolean;
+    /**
+     * 읽기 전용 쿼리의 결과를 서버에 ttlSeconds 동안 보관합니다. (최대 300초, 다른 기기와 공유)
+     * refresh가 true이면 보관된 결과 대신 새로 조회합니다.
+     */
+    cache?: { ttlSeconds: number; refresh?: boolean };
+}
+
+/**
+ * executeUserQuery와 같지만 모든 결과 집합과 메시지, 캐시 정보를 포함한 응답 전체를 반환합니다.
+ */
+export async function executeUserQueryResult(name: string, params: Record<string, any> = {}, userQuery?: string, options: UserQueryOptions = {}): Promise<SqlQueryResult> {
+    // 전달된 파라미터 중 쿼리에서 실제로 쓰이는 것만 추출 (API 최적화, 캐시 키도 실제 사용 값으로만 구성됨)
     const activeParams = userQuery ? extractParamsForQuery(userQuery, params) : params;
     const body: { [key: string]: any } = { type: 'executeUserQuery', name, params: activeParams };
     if (userQuery) body.userQuery = userQuery;
-    const result = await fetchApi(body);
-    return result?.recordset || [];
+    if (options.paramTypes && Object.keys(options.paramTypes).length > 0) body.paramTypes = options.paramTypes;
+    if (options.cache) {
+        body.cacheTtlSeconds = options.cache.ttlSeconds;
+        if (options.cache.refresh) body.cacheRefresh = true;
+    }
+    if (options.allowDestructive) body.allowDestructive = true;
+    if (options.confirmed) body.confirmed = true;
+    const data = await fetchApi(body);
+    if (data?.needsConfirmation) throw new SqlConfirmationRequiredError(data.message || '데이터를 변경하는 쿼리입니다. 실행하시겠습니까?', data.classification);
+    return toSqlQueryResult(data);
 }
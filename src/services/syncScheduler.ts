@@ -0,0 +1,147 @@
+// src/services/syncScheduler.ts
+import { Capacitor, PluginListenerHandle } from '@capacitor/core';
+import { App } from '@capacitor/app';
+
+export type SyncTrigger = 'interval' | 'foreground' | 'online' | 'manual';
+
+export interface SyncSchedulerStatus {
+    lastTrigger: SyncTrigger | null;
+    lastRunAt: number | null;
+    lastSuccessAt: number | null;
+    lastError: string | null;
+    consecutiveFailures: number;
+    nextRunAt: number | null;
+}
+
+export const initialSyncSchedulerStatus: SyncSchedulerStatus = {
+    lastTrigger: null,
+    lastRunAt: null,
+    lastSuccessAt: null,
+    lastError: null,
+    consecutiveFailures: 0,
+    nextRunAt: null,
+};
+
+export interface SyncSchedulerOptions {
+    /** 실제 동기화 작업. 실패 시 예외를 던져야 백오프가 적용됩니다. */
+    runSync: () => Promise<void>;
+    /** true이면 이번 트리거는 무시합니다. (다른 동기화 진행 중 등) */
+    isBusy: () => boolean;
+    onStatusChange: (status: SyncSchedulerStatus) => void;
+    intervalMs?: number;
+    /** 앱이 다시 화면에 나타난 뒤 동기화를 시작하기까지의 지연 */
+    foregroundDelayMs?: number;
+    backoffBaseMs?: number;
+    backoffMaxMs?: number;
+}
+
+export interface SyncScheduler {
+    start: () => void;
+    stop: () => void;
+    trigger: (reason: SyncTrigger) => void;
+}
+
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+const DEFAULT_FOREGROUND_DELAY_MS = 3000;
+const DEFAULT_BACKOFF_BASE_MS = 30 * 1000;
+const DEFAULT_BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+/**
+ * 주기 실행, 앱 복귀(visibilitychange / Capacitor appStateChange), 네트워크 재연결 시
+ * 무음 증분 동기화를 실행하는 스케줄러를 만듭니다.
+ * 실패가 이어지면 재시도 간격을 지수적으로 늘리며, 네트워크 재연결/수동 트리거는 백오프를 무시합니다.
+ */
+export function createSyncScheduler(options: SyncSchedulerOptions): SyncScheduler {
+    const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    const foregroundDelayMs = options.foregroundDelayMs ?? DEFAULT_FOREGROUND_DELAY_MS;
+    const backoffBaseMs = options.backoffBaseMs ?? DEFAULT_BACKOFF_BASE_MS;
+    const backoffMaxMs = options.backoffMaxMs ?? DEFAULT_BACKOFF_MAX_MS;
+
+    let status: SyncSchedulerStatus = { ...initialSyncSchedulerStatus };
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let foregroundTimer: ReturnType<typeof setTimeout> | null = null;
+    let running = false;
+    let started = false;
+    let appStateListener: PluginListenerHandle | null = null;
+
+    const updateStatus = (patch: Partial<SyncSchedulerStatus>) => {
+        status = { ...status, ...patch };
+        options.onStatusChange(status);
+    };
+
+    const schedule = (delayMs: number) => {
+        if (!started) return;
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => trigger('interval'), delayMs);
+        updateStatus({ nextRunAt: Date.now() + delayMs });
+    };
+
+    const backoffDelay = (failures: number) => Math.min(backoffBaseMs * 2 ** Math.max(failures - 1, 0), backoffMaxMs);
+
+    const trigger = async (reason: SyncTrigger) => {
+        if (!started || running) return;
+        if (options.isBusy()) {
+            if (reason === 'interval') schedule(intervalMs);
+            return;
+        }
+        // 백그라운드 상태에서는 주기 동기화를 건너뜁니다. (복귀 시 foreground 트리거가 실행됨)
+        if (reason === 'interval' && document.visibilityState === 'hidden') {
+            schedule(intervalMs);
+            return;
+        }
+        // 실패 후 백오프 중에는 앱 복귀 트리거를 무시합니다. (예약된 재시도가 대신 실행됨)
+        if (reason === 'foreground' && status.consecutiveFailures > 0 && status.nextRunAt && Date.now() < status.nextRunAt) return;
+
+        running = true;
+        updateStatus({ lastTrigger: reason, lastRunAt: Date.now(), nextRunAt: null });
+        try {
+            await options.runSync();
+            updateStatus({ lastSuccessAt: Date.now(), lastError: null, consecutiveFailures: 0 });
+            schedule(intervalMs);
+        } catch (err: any) {
+            const failures = status.consecutiveFailures + 1;
+            updateStatus({ lastError: err?.message || String(err), consecutiveFailures: failures });
+            schedule(backoffDelay(failures));
+        } finally {
+            running = false;
+        }
+    };
+
+    const handleForeground = () => {
+        if (foregroundTimer) clearTimeout(foregroundTimer);
+        foregroundTimer = setTimeout(() => trigger('foreground'), foregroundDelayMs);
+    };
+    const handleVisibilityChange = () => {
+        if (document.visibilityState === 'visible') handleForeground();
+    };
+    const handleOnline = () => trigger('online');
+
+    return {
+        start: () => {
+            if (started) return;
+            started = true;
+            document.addEventListener('visibilitychange', handleVisibilityChange);
+            window.addEventListener('online', handleOnline);
+            // 네이티브 앱은 WebView의 visibilitychange가 누락되는 경우가 있어 앱 상태 이벤트도 함께 사용합니다.
+            if (Capacitor.isNativePlatform()) {
+                App.addListener('appStateChange', ({ isActive }) => { if (isActive) handleForeground(); })
+                    .then(handle => { if (started) appStateListener = handle; else handle.remove(); })
+                    .catch(err => console.warn('Failed to register app state listener:', err));
+            }
+            schedule(intervalMs);
+        },
+        stop: () => {
+            started = false;
+            if (timer) clearTimeout(timer);
+            if (foregroundTimer) clearTimeout(foregroundTimer);
+            timer = null;
+            foregroundTimer = null;
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+            window.removeEventListener('online', handleOnline);
+            appStateListener?.remove();
+            appStateListener = null;
+            updateStatus({ nextRunAt: null });
+        },
+        trigger: (reason: SyncTrigger) => { trigger(reason); },
+    };
+}
@@ -90,6 +90,8 @@ export interface ReceivingBatch {
     totalAmount: number;
     status: 'draft' | 'sent';
     sentAt?: string;
+    // 백업에서 불러온 전표이면 원본 전표 ID. 재전송 시 같은 멱등성 키를 사용해 중복 입고를 막습니다.
+    originId?: number;
 }
 
 export interface AddItemModalPayload {
@@ -164,6 +166,29 @@ export interface SyncSettings {
     autoSync: boolean;
 }
 
+/** SQL API 서버 주소 프로필 (클라우드, 매장 LAN 서버, 개발용 등) */
+export interface ApiEndpointProfile {
+    id: string;
+    name: string;
+    url: string;
+    enabled: boolean;
+}
+
+// AI 작업별 제공자/모델 (공통 설정 settings/common/aiModels). 지정하지 않은 항목은 서버 기본값을 사용합니다.
+export type AiProviderKind = 'gemini' | 'openai' | 'fixture';
+
+export interface AiModelChoice {
+    provider?: AiProviderKind;
+    model?: string;
+}
+
+export interface AiModelSettings {
+    /** 자연어 → SQL 변환 */
+    sql?: AiModelChoice;
+    /** AI 어시스턴트 */
+    chat?: AiModelChoice;
+}
+
 export interface DeviceSettings {
     selectedCameraId: string | null;
     selectedCameraLabel?: string;
@@ -185,6 +210,11 @@ export interface DeviceSettings {
         autoSwitch: boolean;
     };
     allowDestructiveQueries: boolean;
+    /**
+     * 우선순위 순서. 앞의 서버에 연결할 수 없으면 다음 서버로 요청합니다.
+     * 지정하지 않으면 공통 설정(settings/common)의 목록, 그것도 없으면 기본 클라우드 주소를 사용합니다.
+     */
+    apiEndpoints?: ApiEndpointProfile[];
     uiFeedback: {
         vibrateOnPress: boolean;
         soundOnPress: boolean;
@@ -225,6 +255,8 @@ export interface UserQuery {
     isQuickRun?: boolean;
     isImportant?: boolean;
     order?: number;
+    /** 파라미터 타입 선언 (예: { barcode: 'varchar(20)', qty: 'int' }). 선언되지 않은 파라미터는 값으로 타입을 추정합니다. */
+    paramTypes?: Record<string, string>;
 }
 
 export interface EventItem {
@@ -237,8 +269,122 @@ export interface EventItem {
     [key: string]: any;
 }
 
+// 학습 항목의 질문 → SQL 예시
+export interface LearningExample {
+    question: string;
+    sql: string;
+}
+
 export interface LearningItem {
     id: string;
     title: string;
     content: string;
+    /** 검색용 키워드 (예: 매출, 반품) */
+    tags?: string[];
+    /** 이 지식과 관련된 테이블 */
+    tables?: string[];
+    examples?: LearningExample[];
+}
+
+// SQL Server가 PRINT/정보 메시지 또는 오류로 보낸 내용 (오류이면 번호/상태/줄 번호 포함)
+export interface SqlMessage {
+    message: string;
+    number?: number;
+    state?: number;
+    class?: number;
+    lineNumber?: number;
+    procName?: string;
+}
+
+// 쿼리 응답 전체. recordset은 첫 번째 결과 집합, recordsets는 스크립트가 반환한 모든 결과 집합입니다.
+export interface SqlQueryResult {
+    recordset: any[];
+    recordsets: any[][];
+    rowsAffected: number[];
+    messages: SqlMessage[];
+    /** 서버 결과 캐시를 요청한 경우의 캐시 정보 (hit이면 ageSeconds 전에 조회된 결과) */
+    cache?: QueryCacheInfo;
+}
+
+export interface QueryCacheInfo {
+    hit: boolean;
+    cachedAt: string;
+    ageSeconds: number;
+    ttlSeconds: number;
+}
+
+// 서버 진단 응답 (api/_lib/diagnostics.ts) 과 클라이언트에서 측정한 값
+export interface ServerDiagnostics {
+    success: boolean;
+    server: {
+        appVersion: string | null;
+        runtime: 'vercel' | 'node';
+        driver: 'mssql' | 'memory';
+        time: string;
+        uptimeSeconds: number;
+    };
+    db: {
+        ok: boolean;
+        version: string | null;
+        latencyMs: number | null;
+        serverTime: string | null;
+        error: string | null;
+    };
+    pool: { size: number; available: number; borrowed: number; pending: number } | null;
+    lastError: { message: string; at: string; requestType?: string } | null;
+    /** 요청부터 응답까지 걸린 시간 (ms, 클라이언트 측정) */
+    roundTripMs: number;
+    /** 서버 시각 - 기기 시각 (ms, 왕복 시간의 절반을 보정) */
+    clockOffsetMs: number | null;
+    /** 응답한 서버 주소 */
+    endpointUrl: string | null;
+}
+
+// AI 어시스턴트가 답하기 위해 실행한 쿼리 한 건 (api/_lib/aiAgent.ts)
+export interface AiAgentTraceStep {
+    step: number;
+    tool: 'namedQuery' | 'select';
+    name?: string;
+    params?: Record<string, unknown>;
+    sql?: string;
+    rowCount?: number;
+    columns?: string[];
+    /** 결과가 많아 일부 행만 AI에 전달된 경우 true */
+    truncated?: boolean;
+    durationMs: number;
+    error?: string;
+}
+
+export interface AiAgentAnswer {
+    answer: string;
+    trace: AiAgentTraceStep[];
+    iterations: number;
+    /** 쿼리 실행 제한에 걸려 지금까지의 결과로 답한 경우 true */
+    stoppedByLimit: boolean;
+    /** 답변에 사용한 제공자/모델 */
+    llm?: AiModelChoice;
+}
+
+// 서버에 등록된 이름 기반 쿼리 한 건 (트랜잭션 배치의 구성 단위)
+export interface NamedStatement {
+    name: string;
+    params: Record<string, any>;
+    // 같은 논리적 작업의 재전송을 서버가 식별하는 키. 이미 완료된 키는 다시 실행되지 않습니다.
+    idempotencyKey?: string;
+}
+
+// 서버에 연결되지 않았을 때 보관했다가 재연결 시 순서대로 전송하는 쓰기 요청
+export interface OutboxEntry {
+    id?: number;
+    name: string;
+    params: Record<string, any>;
+    // 값이 있으면 name/params 대신 이 문장들을 하나의 트랜잭션으로 전송합니다.
+    statements?: NamedStatement[];
+    idempotencyKey?: string;
+    label: string;
+    createdAt: number;
+    status: 'pending' | 'conflict';
+    attempts: number;
+    lastAttemptAt?: number;
+    lastError?: string;
 }
@@ -0,0 +1,74 @@
+// src/utils/bm25.ts
+// 외부 임베딩 없이 기기에서 동작하는 키워드 검색(BM25) 색인입니다.
+// 한글은 조사가 붙은 형태("매출은", "매출을")도 찾을 수 있도록 단어와 함께 두 글자씩 나눈 조각(bigram)을 색인합니다.
+
+export interface Bm25Document {
+    id: string;
+    text: string;
+}
+
+export interface Bm25Hit {
+    id: string;
+    score: number;
+}
+
+export interface Bm25Index {
+    size: number;
+    search(query: string, limit?: number): Bm25Hit[];
+}
+
+const K1 = 1.2;
+const B = 0.75;
+
+/** 검색용 토큰. 영문/숫자는 단어(밑줄로 이어진 이름은 부분도 포함), 한글은 단어와 두 글자 조각 */
+export function tokenizeForSearch(text: string): string[] {
+    const tokens: string[] = [];
+    const words = text.toLowerCase().match(/[a-z0-9_]+|[가-힣]+/g) || [];
+    for (const word of words) {
+        if (/^[가-힣]+$/.test(word)) {
+            tokens.push(word);
+            if (word.length > 2) for (let i = 0; i + 1 < word.length; i++) tokens.push(word.slice(i, i + 2));
+        } else {
+            if (word.length >= 2) tokens.push(word);
+            if (word.includes('_')) word.split('_').filter(part => part.length >= 2).forEach(part => tokens.push(part));
+        }
+    }
+    return tokens;
+}
+
+export function createBm25Index(documents: Bm25Document[]): Bm25Index {
+    const termFrequencies = documents.map(doc => {
+        const tf = new Map<string, number>();
+        tokenizeForSearch(doc.text).forEach(token => tf.set(token, (tf.get(token) || 0) + 1));
+        return tf;
+    });
+    const lengths = termFrequencies.map(tf => [...tf.values()].reduce((sum, n) => sum + n, 0));
+    const averageLength = lengths.reduce((sum, n) => sum + n, 0) / (documents.length || 1) || 1;
+    const documentFrequency = new Map<string, number>();
+    termFrequencies.forEach(tf => tf.forEach((_, token) => documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1)));
+
+    const idf = (token: string) => {
+        const df = documentFrequency.get(token) || 0;
+        return Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+    };
+
+    return {
+        size: documents.length,
+        search(query, limit = 5) {
+            const queryTokens = [...new Set(tokenizeForSearch(query))].filter(token => documentFrequency.has(token));
+            if (queryTokens.length === 0) return [];
+            const hits: Bm25Hit[] = [];
+            documents.forEach((doc, i) => {
+                const tf = termFrequencies[i];
+                let score = 0;
+                for (const token of queryTokens) {
+                    const f = tf.get(token);
+                    if (!f) continue;
+                    score += idf(token) * (f * (K1 + 1)) / (f + K1 * (1 - B + B * lengths[i] / averageLength));
+                }
+                if (score > 0) hits.push({ id: doc.id, score });
+            });
+            return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+        },
+    };
+}
@@ -0,0 +1,50 @@
+// src/utils/learningItems.ts
+// AI 학습 항목(learning/sqlContext)을 읽고, 프롬프트용 텍스트와 검색용 텍스트로 바꿉니다.
+import { LearningExample, LearningItem } from '../types';
+
+// Firebase는 배열을 { 0: ..., 1: ... } 객체로 돌려줄 수 있어 두 형태를 모두 배열로 읽습니다.
+function toArray(value: unknown): unknown[] {
+    if (Array.isArray(value)) return value;
+    if (value && typeof value === 'object') return Object.values(value);
+    return [];
+}
+
+function toStringList(value: unknown): string[] {
+    return toArray(value).filter((v): v is string => typeof v === 'string').map(v => v.trim()).filter(Boolean);
+}
+
+/** DB에 저장된 학습 항목을 LearningItem으로 읽습니다. 예전 항목(제목/내용만)도 그대로 읽힙니다. */
+export function normalizeLearningItem(id: string, raw: any): LearningItem {
+    const examples = toArray(raw?.examples)
+        .map((e: any): LearningExample => ({ question: String(e?.question ?? '').trim(), sql: String(e?.sql ?? '').trim() }))
+        .filter(e => e.question || e.sql);
+    return {
+        id,
+        title: String(raw?.title ?? ''),
+        content: String(raw?.content ?? ''),
+        tags: toStringList(raw?.tags),
+        tables: toStringList(raw?.tables),
+        examples,
+    };
+}
+
+/** 쉼표로 구분한 입력을 목록으로 바꿉니다. (태그, 테이블 입력란) */
+export function parseCommaList(value: string): string[] {
+    return [...new Set(value.split(/[,\n]/).map(v => v.trim()).filter(Boolean))];
+}
+
+/** AI 프롬프트에 넣을 형태 */
+export function formatLearningItem(item: LearningItem): string {
+    const lines = item.title ? [`Title: ${item.title}`] : [];
+    if (item.tags?.length) lines.push(`Tags: ${item.tags.join(', ')}`);
+    if (item.tables?.length) lines.push(`Tables: ${item.tables.join(', ')}`);
+    if (item.content.trim()) lines.push(`Content: ${item.content}`);
+    item.examples?.forEach(e => lines.push(`Example Q: ${e.question}\nExample SQL: ${e.sql}`));
+    return lines.join('\n');
+}
+
+/** 검색 색인에 넣을 텍스트. 제목, 태그, 예시 질문은 본문보다 가중치를 두기 위해 두 번 넣습니다. */
+export function learningItemSearchText(item: LearningItem): string {
+    const emphasized = [item.title, ...(item.tags || []), ...(item.examples || []).map(e => e.question)].join(' ');
+    return [emphasized, emphasized, ...(item.tables || []), item.content, ...(item.examples || []).map(e => e.sql)].join('\n');
+}
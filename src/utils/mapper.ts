@@ -8,6 +8,21 @@ export const sanitizeString = (str: any): string => {
     return String(str).replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F]/g, "").trim();
 };
 
+/**
+ * varchar 컬럼의 바이트 길이(한글 등 ASCII 외 문자는 2바이트)에 맞게 문자열을 자릅니다.
+ * 서버는 길이를 넘는 값을 오류로 거부하므로, 잘려도 되는 표시용 사본만 보내기 전에 이 함수로 맞춥니다.
+ */
+export const truncateToByteLength = (str: string, maxBytes: number): string => {
+    let length = 0;
+    let result = '';
+    for (const ch of str) {
+        length += ch.charCodeAt(0) < 0x80 ? 1 : 2;
+        if (length > maxBytes) break;
+        result += ch;
+    }
+    return result;
+};
+
 export const formatDateFromSQL = (dateValue: any): string | undefined => {
     if (!dateValue) return undefined;
     try {
@@ -58,6 +73,9 @@ export const mapSqlResultToProduct = (p: any): Product => {
     };
 };
 
+/** parts.isuse = '0' 인 행은 사용 중지된 상품으로, 로컬 캐시에서 제거 대상입니다. */
+export const isInactiveProductRow = (p: any): boolean => sanitizeString(p.isuse ?? p.사용유무) === '0';
+
 export const mapSqlResultToCustomer = (c: any): Customer => ({
     comcode: sanitizeString(c.거래처코드 || c.comcode || ''),
     name: sanitizeString(c.거래처명 || c.comname || c.name || ''),
@@ -0,0 +1,33 @@
+// src/utils/productDigest.ts
+// 로컬 상품 캐시의 바코드 집합을 버킷별 요약값(건수, 해시 합)으로 만들어 서버와 비교할 때 사용합니다.
+// 서버(api/_lib/productDigest.ts)도 이 모듈을 그대로 사용하므로 브라우저와 Node 모두에서 동작해야 합니다.
+
+export const DIGEST_BUCKETS = 256;
+
+/** [건수, 해시 합(32비트)] */
+export type BucketDigest = [number, number];
+
+/** FNV-1a 32비트 해시 (UTF-16 코드 단위 기준) */
+export function hashBarcode(barcode: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < barcode.length; i++) {
+        hash ^= barcode.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+export function bucketOf(barcode: string): number {
+    return hashBarcode(barcode) % DIGEST_BUCKETS;
+}
+
+export function buildDigest(barcodes: Iterable<string>): BucketDigest[] {
+    const digest: BucketDigest[] = Array.from({ length: DIGEST_BUCKETS }, () => [0, 0]);
+    for (const barcode of barcodes) {
+        const hash = hashBarcode(barcode);
+        const bucket = digest[hash % DIGEST_BUCKETS];
+        bucket[0]++;
+        bucket[1] = (bucket[1] + hash) >>> 0;
+    }
+    return digest;
+}
@@ -0,0 +1,58 @@
+// src/utils/queryResult.ts
+// 쓰기 쿼리가 첫 행에 RESULT('SUCCESS' | 'FAIL' ...)와 MSG 컬럼으로 처리 결과를 알리는 규칙을 해석합니다.
+// 각 화면에서 data[0].RESULT를 직접 비교하지 않고 이 함수들을 사용합니다.
+import { SqlMessage } from '../types';
+
+export type ResultStatus<T = any> =
+    | { ok: true; code: string | null; message?: string; row?: T }
+    | { ok: false; code: string; message: string; row: T };
+
+/** 서버 쿼리가 RESULT 컬럼으로 처리를 거부(FAIL 등)한 경우의 오류 */
+export class QueryRejectedError extends Error {
+    constructor(message: string, public readonly code: string, public readonly row?: any) {
+        super(message);
+        this.name = 'QueryRejectedError';
+    }
+}
+
+/**
+ * 결과 집합의 첫 행을 해석합니다. RESULT 컬럼이 없으면 성공(code: null)으로 봅니다.
+ */
+export function readResultStatus<T = any>(recordset: T[] | undefined | null): ResultStatus<T> {
+    const row = recordset?.[0] as any;
+    if (!row || row.RESULT === undefined || row.RESULT === null) return { ok: true, code: null, row };
+    const code = String(row.RESULT).trim();
+    const message = row.MSG ? String(row.MSG) : undefined;
+    if (code === 'SUCCESS') return { ok: true, code, message, row };
+    return { ok: false, code, message: message || `처리 결과: ${code}`, row };
+}
+
+/**
+ * 성공이면 첫 행을 반환하고, 실패이면 QueryRejectedError를 던집니다.
+ * requireResult가 true이면 RESULT 컬럼이 없거나 결과가 비어 있는 것도 실패로 처리합니다.
+ */
+export function expectSuccess<T = any>(recordset: T[] | undefined | null, options: { fallbackMessage?: string; requireResult?: boolean } = {}): T | undefined {
+    const status = readResultStatus(recordset);
+    if (!status.ok) throw new QueryRejectedError(status.message, status.code, status.row);
+    if (options.requireResult && status.code === null) {
+        throw new QueryRejectedError(options.fallbackMessage || '서버 처리 결과를 확인할 수 없습니다.', 'UNKNOWN', status.row);
+    }
+    return status.row;
+}
+
+/** 성공이 아니면 실패 메시지를 반환합니다. (전송 대기열 등 예외 대신 메시지가 필요한 경우) */
+export function getRejectionMessage(recordset: any[] | undefined | null): string | null {
+    const status = readResultStatus(recordset);
+    return status.ok ? null : status.message;
+}
+
+/** 오류 번호/줄 번호가 있으면 메시지 뒤에 붙입니다. 서버 오류 응답(err.data.sqlError)에도 사용할 수 있습니다. */
+export function formatSqlMessage(message: SqlMessage): string {
+    const details = [
+        message.number !== undefined ? `오류 ${message.number}` : null,
+        message.state !== undefined ? `상태 ${message.state}` : null,
+        message.lineNumber ? `${message.lineNumber}번째 줄` : null,
+        message.procName ? message.procName : null,
+    ].filter(Boolean);
+    return details.length > 0 ? `${message.message} (${details.join(', ')})` : message.message;
+}
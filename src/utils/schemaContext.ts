@@ -0,0 +1,197 @@
+// src/utils/schemaContext.ts
+// AI 프롬프트에 넣을 DB 스키마 설명을 만듭니다.
+// 전체 스키마(INFORMATION_SCHEMA의 모든 테이블/컬럼)를 보내는 대신,
+// 1) ipgom_YYMM, bojung_YYMM 같은 월별 테이블을 하나의 패턴으로 합치고
+// 2) 질문과 학습 내용(learning items)에 나온 단어와 겹치는 테이블부터 순서를 매겨
+// 3) 토큰 예산 안에 들어가는 만큼만 컬럼까지 포함합니다. 나머지는 이름만, 그래도 넘치면 개수만 남깁니다.
+
+export interface SchemaTable {
+    name: string;
+    columns: { name: string; type: string }[];
+}
+
+export interface SchemaContextTable {
+    /** 테이블 이름. 월별 테이블은 'ipgom_YYMM' 형태의 패턴 */
+    name: string;
+    score: number;
+    columnCount: number;
+    /** 월별 테이블을 합친 경우 실제 테이블 수와 첫/마지막 테이블 */
+    partition?: { count: number; first: string; last: string };
+}
+
+export interface SchemaContext {
+    /** 프롬프트에 넣는 스키마 설명 */
+    text: string;
+    /** 컬럼까지 포함해 보낸 테이블 (순위 순서) */
+    tables: SchemaContextTable[];
+    /** 이름만 보낸 테이블 */
+    otherTables: string[];
+    /** 예산을 넘어 이름도 보내지 않은 테이블 수 */
+    omittedCount: number;
+    estimatedTokens: number;
+}
+
+export const DEFAULT_SCHEMA_TOKEN_BUDGET = 4000;
+
+// 월별 테이블: 이름 끝이 YYMM (예: ipgom_2401, bojung_2510)
+const MONTHLY_TABLE_PATTERN = /^(.*?[A-Za-z_])(\d{2})(0[1-9]|1[0-2])$/;
+
+/**
+ * 캐시된 스키마에서 테이블 목록을 읽습니다.
+ * { 테이블: { columns: [{ name, type }] } } 형태와 서버 응답 형태({ recordset: [{ tableName, columnName, dataType }] })를 모두 읽습니다.
+ */
+export function readSchemaTables(schema: unknown): SchemaTable[] {
+    const tables = new Map<string, SchemaTable>();
+    const add = (table: unknown, column: unknown, type: unknown) => {
+        if (typeof table !== 'string' || !table) return;
+        if (!tables.has(table)) tables.set(table, { name: table, columns: [] });
+        if (typeof column === 'string' && column) tables.get(table)!.columns.push({ name: column, type: typeof type === 'string' ? type : '' });
+    };
+
+    const rows = (schema as any)?.recordset;
+    if (Array.isArray(rows)) {
+        rows.forEach((r: any) => add(r?.tableName, r?.columnName, r?.dataType));
+    } else if (schema && typeof schema === 'object') {
+        Object.entries(schema as Record<string, any>).forEach(([table, def]) => {
+            if (!Array.isArray(def?.columns)) return;
+            add(table, null, null);
+            def.columns.forEach((c: any) => add(table, c?.name, c?.type));
+        });
+    }
+    return [...tables.values()];
+}
+
+/** 대략적인 토큰 수. 영문/숫자는 4자당 1토큰, 한글 등은 1자당 1토큰으로 계산합니다. */
+export function estimateTokens(text: string): number {
+    let ascii = 0;
+    let other = 0;
+    for (const ch of text) {
+        if (ch.charCodeAt(0) < 128) ascii++;
+        else other++;
+    }
+    return Math.ceil(ascii / 4 + other);
+}
+
+interface CandidateTable {
+    name: string;
+    /** 이름 비교용 (소문자). 월별 테이블은 접두어 */
+    key: string;
+    columns: { name: string; type: string }[];
+    partition?: { count: number; first: string; last: string };
+}
+
+/** 월별 테이블을 하나로 합칩니다. 같은 접두어의 테이블이 두 개 이상일 때만 패턴으로 봅니다. */
+function collapseMonthlyTables(tables: SchemaTable[]): CandidateTable[] {
+    const groups = new Map<string, SchemaTable[]>();
+    tables.forEach(table => {
+        const match = MONTHLY_TABLE_PATTERN.exec(table.name);
+        if (!match) return;
+        const prefix = match[1];
+        if (!groups.has(prefix)) groups.set(prefix, []);
+        groups.get(prefix)!.push(table);
+    });
+
+    const candidates: CandidateTable[] = [];
+    const grouped = new Set<string>();
+    groups.forEach((members, prefix) => {
+        if (members.length < 2) return;
+        members.sort((a, b) => a.name.localeCompare(b.name));
+        members.forEach(m => grouped.add(m.name));
+        // 컬럼은 가장 최근 테이블을 기준으로 합니다.
+        const latest = members[members.length - 1];
+        candidates.push({
+            name: `${prefix}YYMM`,
+            key: prefix.toLowerCase(),
+            columns: latest.columns,
+            partition: { count: members.length, first: members[0].name, last: latest.name },
+        });
+    });
+    tables.forEach(table => {
+        if (!grouped.has(table.name)) candidates.push({ name: table.name, key: table.name.toLowerCase(), columns: table.columns });
+    });
+    return candidates;
+}
+
+function wordsOf(text: string): string[] {
+    return [...new Set(text.toLowerCase().split(/[^a-z0-9_가-힣]+/).filter(w => w.length >= 2))];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** 텍스트에 테이블 이름이 단어로 나오는지 확인합니다. 월별 테이블은 접두어 + 연월(또는 YYMM) */
+function mentionsTable(textLower: string, table: CandidateTable): boolean {
+    const body = table.partition ? `${escapeRegExp(table.key)}(\\d{4}|yymm)` : escapeRegExp(table.key);
+    const bare = table.partition ? `|${escapeRegExp(table.key.replace(/_$/, ''))}` : '';
+    return new RegExp(`(^|[^a-z0-9_])(${body}${bare})([^a-z0-9_]|$)`).test(textLower);
+}
+
+function mentionsWord(textLower: string, word: string): boolean {
+    return new RegExp(`(^|[^a-z0-9_])${escapeRegExp(word)}([^a-z0-9_]|$)`).test(textLower);
+}
+
+/** 질문과 학습 내용을 기준으로 테이블 점수를 매깁니다. */
+function scoreTables(candidates: CandidateTable[], prompt: string, learningContext: string): Map<CandidateTable, number> {
+    const promptLower = prompt.toLowerCase();
+    const promptWords = wordsOf(prompt);
+    // 학습 내용은 항목(빈 줄로 구분) 단위로, 질문과 겹치는 단어가 많은 항목에 나온 테이블일수록 높은 점수를 줍니다.
+    const learningItems = learningContext.split(/\n\s*\n/).map(item => item.toLowerCase()).filter(Boolean);
+    const itemRelevance = learningItems.map(item => promptWords.filter(w => item.includes(w)).length);
+
+    const scores = new Map<CandidateTable, number>();
+    candidates.forEach(table => {
+        let score = mentionsTable(promptLower, table) ? 10 : 0;
+        score += 3 * table.columns.filter(c => c.name.length >= 3 && mentionsWord(promptLower, c.name.toLowerCase())).length;
+        learningItems.forEach((item, i) => {
+            if (mentionsTable(item, table)) score += 1 + 2 * itemRelevance[i];
+        });
+        scores.set(table, score);
+    });
+    return scores;
+}
+
+function describeTable(table: CandidateTable): string {
+    const columns = table.columns.map(c => (c.type ? `${c.name} ${c.type}` : c.name)).join(', ');
+    const note = table.partition ? ` [월별 테이블 ${table.partition.count}개: ${table.partition.first} ~ ${table.partition.last}, YYMM = 연도 2자리 + 월]` : '';
+    return `${table.name}${note}: ${columns}`;
+}
+
+/**
+ * 프롬프트용 스키마 설명을 만듭니다.
+ * @param learningContext getLearningContext()의 학습 내용 (테이블 순위에 사용)
+ * @param tokenBudget 스키마 설명에 쓸 최대 토큰 수 (추정치)
+ */
+export function buildSchemaContext(schema: unknown, prompt: string, learningContext = '', tokenBudget = DEFAULT_SCHEMA_TOKEN_BUDGET): SchemaContext {
+    const candidates = collapseMonthlyTables(readSchemaTables(schema));
+    const scores = scoreTables(candidates, prompt, learningContext);
+    const ranked = [...candidates].sort((a, b) => (scores.get(b)! - scores.get(a)!) || a.name.localeCompare(b.name));
+
+    const lines: string[] = [];
+    const tables: SchemaContextTable[] = [];
+    let used = 0;
+    // 관련 있는 테이블이 없으면 이름 순서로 예산만큼 채웁니다.
+    const hasRelevant = ranked.some(t => scores.get(t)! > 0);
+    const rest: CandidateTable[] = [];
+    for (const table of ranked) {
+        if (hasRelevant && scores.get(table)! === 0) { rest.push(table); continue; }
+        const line = describeTable(table);
+        const cost = estimateTokens(line) + 1;
+        if (used + cost > tokenBudget) { rest.push(table); continue; }
+        lines.push(line);
+        used += cost;
+        tables.push({ name: table.name, score: scores.get(table)!, columnCount: table.columns.length, ...(table.partition ? { partition: table.partition } : {}) });
+    }
+
+    const otherTables: string[] = [];
+    for (const table of rest) {
+        const cost = estimateTokens(table.name) + 1;
+        if (used + cost > tokenBudget) break;
+        otherTables.push(table.name);
+        used += cost;
+    }
+    if (otherTables.length > 0) lines.push(`Other tables (columns omitted): ${otherTables.join(', ')}`);
+    const omittedCount = rest.length - otherTables.length;
+    if (omittedCount > 0) lines.push(`(${omittedCount} more tables omitted)`);
+
+    const text = lines.join('\n');
+    return { text, tables, otherTables, omittedCount, estimatedTokens: estimateTokens(text) };
+}
@@ -0,0 +1,42 @@
+// src/utils/serverHealth.ts
+// 서버 진단 결과로 현재 상태를 '휴대폰 오프라인' / '서버 연결 안 됨' / 'DB 연결 안 됨' / '서버 느림' 중 하나로 판단합니다.
+// 메뉴 화면의 상태 표시와 설정 화면의 서버 상태가 같은 기준을 사용합니다.
+import { ServerDiagnostics } from '../types';
+
+export type ServerHealthLevel = 'unknown' | 'ok' | 'slow' | 'dbDown' | 'serverDown' | 'offline';
+
+export interface ServerHealth {
+    level: ServerHealthLevel;
+    label: string;
+    detail: string | null;
+}
+
+// connectivityService의 '느림' 기준과 같습니다.
+const SLOW_ROUND_TRIP_MS = 2500;
+// 기기와 서버 시각이 이 이상 차이 나면 날짜 기준 조회(오늘 매출, 행사 기간 등)가 어긋날 수 있습니다.
+export const CLOCK_SKEW_WARN_MS = 2 * 60 * 1000;
+
+export function classifyServerHealth(diagnostics: ServerDiagnostics | null, error: string | null, isOnline: boolean): ServerHealth {
+    if (!isOnline) return { level: 'offline', label: '휴대폰 오프라인', detail: 'Wi-Fi 또는 모바일 데이터 연결을 확인해주세요.' };
+    if (!diagnostics) {
+        if (error) return { level: 'serverDown', label: '서버 연결 안 됨', detail: error };
+        return { level: 'unknown', label: '연결 확인 필요', detail: null };
+    }
+    if (!diagnostics.db.ok) return { level: 'dbDown', label: 'DB 연결 안 됨', detail: diagnostics.db.error };
+
+    const slowest = Math.max(diagnostics.roundTripMs, diagnostics.db.latencyMs ?? 0);
+    if (slowest > SLOW_ROUND_TRIP_MS) {
+        return { level: 'slow', label: '서버 응답 느림', detail: `응답 ${(diagnostics.roundTripMs / 1000).toFixed(1)}초 (DB ${((diagnostics.db.latencyMs ?? 0) / 1000).toFixed(1)}초)` };
+    }
+    return { level: 'ok', label: '서버 온라인', detail: null };
+}
+
+/** 서버 시각 - 기기 시각을 '기기 시각이 3분 느림' 형태로 표시합니다. */
+export function describeClockOffset(offsetMs: number | null): string {
+    if (offsetMs === null) return '알 수 없음';
+    const seconds = Math.round(Math.abs(offsetMs) / 1000);
+    if (seconds < 5) return '일치';
+    const amount = seconds < 120 ? `${seconds}초` : seconds < 7200 ? `${Math.round(seconds / 60)}분` : `${Math.round(seconds / 3600)}시간`;
+    // 서버가 앞서 있으면 기기 시각이 느린 것입니다.
+    return `기기 시각이 ${amount} ${offsetMs > 0 ? '느림' : '빠름'}`;
+}
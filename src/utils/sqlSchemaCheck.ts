@@ -0,0 +1,296 @@
+// src/utils/sqlSchemaCheck.ts
+// AI가 생성한 T-SQL이 참조하는 테이블과 컬럼이 캐시된 DB 스키마(getCachedSchema)에 있는지 확인합니다.
+// 완전한 파서는 아니며, 토큰 단위로 FROM/JOIN 대상과 '별칭.컬럼' 참조를 찾습니다.
+// 별칭, 함수, 키워드를 컬럼으로 오인하지 않도록 확실히 없는 이름만 오류로 보고합니다.
+import { readSchemaTables } from './schemaContext';
+
+type TokenType = 'word' | 'string' | 'number' | 'variable' | 'temp' | 'punct';
+
+interface Token {
+    type: TokenType;
+    value: string;
+    /** [대괄호] 또는 "따옴표"로 감싼 식별자 */
+    quoted?: boolean;
+}
+
+export interface SchemaIndex {
+    /** 소문자 테이블 이름 → 소문자 컬럼 이름 집합 */
+    tables: Map<string, Set<string>>;
+    allColumns: Set<string>;
+}
+
+export interface SchemaCheckResult {
+    errors: string[];
+    /** 참조한 테이블 (스키마에 있는 것만) */
+    tables: string[];
+}
+
+const KEYWORDS = new Set([
+    'select', 'from', 'where', 'and', 'or', 'not', 'in', 'is', 'null', 'as', 'on', 'join', 'inner', 'left', 'right', 'full', 'outer',
+    'cross', 'apply', 'group', 'by', 'order', 'having', 'top', 'percent', 'ties', 'distinct', 'all', 'case', 'when', 'then', 'else', 'end',
+    'union', 'except', 'intersect', 'with', 'nolock', 'readuncommitted', 'holdlock', 'updlock', 'asc', 'desc', 'between', 'like', 'escape',
+    'exists', 'any', 'some', 'over', 'partition', 'rows', 'range', 'preceding', 'following', 'current', 'row', 'unbounded', 'declare',
+    'set', 'into', 'offset', 'fetch', 'next', 'only', 'first', 'collate', 'pivot', 'unpivot', 'for', 'option', 'recompile', 'maxdop',
+    'if', 'begin', 'while', 'return', 'print', 'go', 'nulls', 'current_timestamp', 'current_user', 'system_user', 'session_user', 'user',
+    'dbo', 'sys', 'information_schema', 'within', 'values',
+]);
+
+// CAST/CONVERT의 데이터 타입과 DATEADD/DATEDIFF/DATEPART의 날짜 단위
+const TYPE_AND_DATEPART_WORDS = new Set([
+    'varchar', 'nvarchar', 'char', 'nchar', 'int', 'bigint', 'smallint', 'tinyint', 'decimal', 'numeric', 'money', 'smallmoney', 'float',
+    'real', 'date', 'datetime', 'datetime2', 'smalldatetime', 'datetimeoffset', 'time', 'bit', 'text', 'ntext', 'uniqueidentifier', 'max',
+    'year', 'yy', 'yyyy', 'quarter', 'qq', 'q', 'month', 'mm', 'm', 'dayofyear', 'dy', 'y', 'day', 'dd', 'd', 'week', 'wk', 'ww', 'weekday',
+    'dw', 'hour', 'hh', 'minute', 'mi', 'n', 'second', 'ss', 's', 'millisecond', 'ms',
+]);
+
+const SYSTEM_SCHEMAS = new Set(['sys', 'information_schema']);
+
+const isWordChar = (ch: string) => /[A-Za-z0-9_$가-힣]/.test(ch);
+
+function tokenize(sqlText: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < sqlText.length) {
+        const ch = sqlText[i];
+        const next = sqlText[i + 1];
+        if (/\s/.test(ch)) { i++; continue; }
+        if (ch === '-' && next === '-') {
+            while (i < sqlText.length && sqlText[i] !== '\n') i++;
+            continue;
+        }
+        if (ch === '/' && next === '*') {
+            const end = sqlText.indexOf('*/', i + 2);
+            i = end === -1 ? sqlText.length : end + 2;
+            continue;
+        }
+        if (ch === "'" || ((ch === 'N' || ch === 'n') && next === "'")) {
+            i += ch === "'" ? 1 : 2;
+            while (i < sqlText.length) {
+                if (sqlText[i] === "'" && sqlText[i + 1] === "'") { i += 2; continue; }
+                if (sqlText[i] === "'") break;
+                i++;
+            }
+            i++;
+            tokens.push({ type: 'string', value: "''" });
+            continue;
+        }
+        if (ch === '[' || ch === '"') {
+            const close = ch === '[' ? ']' : '"';
+            let value = '';
+            i++;
+            while (i < sqlText.length) {
+                if (sqlText[i] === close && sqlText[i + 1] === close) { value += close; i += 2; continue; }
+                if (sqlText[i] === close) break;
+                value += sqlText[i++];
+            }
+            i++;
+            tokens.push({ type: 'word', value, quoted: true });
+            continue;
+        }
+        if (ch === '@' || ch === '#') {
+            let j = i;
+            while (sqlText[j] === ch) j++;
+            while (j < sqlText.length && isWordChar(sqlText[j])) j++;
+            tokens.push({ type: ch === '@' ? 'variable' : 'temp', value: sqlText.slice(i, j) });
+            i = j;
+            continue;
+        }
+        if (/[0-9]/.test(ch)) {
+            let j = i;
+            while (j < sqlText.length && /[0-9.]/.test(sqlText[j])) j++;
+            tokens.push({ type: 'number', value: sqlText.slice(i, j) });
+            i = j;
+            continue;
+        }
+        if (isWordChar(ch)) {
+            let j = i;
+            while (j < sqlText.length && isWordChar(sqlText[j])) j++;
+            tokens.push({ type: 'word', value: sqlText.slice(i, j) });
+            i = j;
+            continue;
+        }
+        tokens.push({ type: 'punct', value: ch });
+        i++;
+    }
+    return tokens;
+}
+
+/**
+ * 캐시된 스키마를 조회용 색인으로 만듭니다. (두 가지 캐시 형태는 readSchemaTables 참고)
+ * 테이블이 하나도 없으면 null (스키마 확인을 건너뜀)
+ */
+export function buildSchemaIndex(schema: unknown): SchemaIndex | null {
+    const tables = new Map<string, Set<string>>();
+    readSchemaTables(schema).forEach(table => {
+        const key = table.name.toLowerCase();
+        if (!tables.has(key)) tables.set(key, new Set());
+        table.columns.forEach(c => tables.get(key)!.add(c.name.toLowerCase()));
+    });
+    if (tables.size === 0) return null;
+
+    const allColumns = new Set<string>();
+    tables.forEach(columns => columns.forEach(c => allColumns.add(c)));
+    return { tables, allColumns };
+}
+
+const lower = (token: Token | undefined) => (token?.value || '').toLowerCase();
+const isKeyword = (token: Token | undefined) => !!token && token.type === 'word' && !token.quoted && KEYWORDS.has(lower(token));
+const isName = (token: Token | undefined) => !!token && token.type === 'word' && !isKeyword(token);
+
+/** i 위치부터 점으로 이어진 이름(dbo.parts, p.descr)을 읽습니다. */
+function readDottedName(tokens: Token[], i: number): { parts: string[]; end: number } {
+    const parts = [tokens[i].value];
+    let j = i + 1;
+    while (tokens[j]?.value === '.' && (tokens[j + 1]?.type === 'word' || tokens[j + 1]?.value === '*')) {
+        parts.push(tokens[j + 1].value);
+        j += 2;
+    }
+    return { parts, end: j };
+}
+
+/**
+ * SQL이 참조하는 테이블과 컬럼을 스키마와 대조합니다.
+ * 임시 테이블(#tmp), 테이블 변수(@t), CTE, 파생 테이블의 컬럼과 시스템 뷰(sys, INFORMATION_SCHEMA)는 확인하지 않습니다.
+ */
+export function checkSqlAgainstSchema(sqlText: string, index: SchemaIndex): SchemaCheckResult {
+    const tokens = tokenize(sqlText);
+    const errors: string[] = [];
+
+    // 1. CTE 이름과 컬럼 목록: WITH 이름 [(컬럼, ...)] AS (  /  , 이름 AS (
+    const cteNames = new Set<string>();
+    const definedNames = new Set<string>();
+    tokens.forEach((token, i) => {
+        if (!isName(token) || !(lower(tokens[i - 1]) === 'with' || tokens[i - 1]?.value === ',')) return;
+        let j = i + 1;
+        const columnList: string[] = [];
+        if (tokens[j]?.value === '(') {
+            j++;
+            while (j < tokens.length && tokens[j].value !== ')') {
+                if (tokens[j].type === 'word') columnList.push(lower(tokens[j]));
+                j++;
+            }
+            j++;
+        }
+        if (lower(tokens[j]) === 'as' && tokens[j + 1]?.value === '(') {
+            cteNames.add(lower(token));
+            columnList.forEach(c => definedNames.add(c));
+        }
+    });
+
+    // 2. FROM/JOIN 대상 테이블과 별칭
+    const aliasToTable = new Map<string, string | null>(); // null: 파생 테이블/CTE (컬럼 확인 안 함)
+    const referencedTables = new Set<string>();
+    let hasUncheckedSource = false;
+
+    const readAlias = (j: number): { alias: string | null; end: number } => {
+        if (lower(tokens[j]) === 'as' && isName(tokens[j + 1])) return { alias: lower(tokens[j + 1]), end: j + 2 };
+        if (isName(tokens[j]) && tokens[j + 1]?.value !== '(' && tokens[j + 1]?.value !== '.') return { alias: lower(tokens[j]), end: j + 1 };
+        return { alias: null, end: j };
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+        const word = lower(tokens[i]);
+        if (word !== 'from' && word !== 'join' && word !== 'apply') continue;
+        let j = i + 1;
+        while (j < tokens.length) {
+            const token = tokens[j];
+            if (token.value === '(') {
+                // 파생 테이블: 별칭은 닫는 괄호 뒤에서 처리됩니다.
+                hasUncheckedSource = true;
+                break;
+            }
+            if (token.type === 'temp' || token.type === 'variable') {
+                hasUncheckedSource = true;
+                const { alias, end } = readAlias(j + 1);
+                if (alias) aliasToTable.set(alias, null);
+                j = end;
+            } else if (token.type === 'word' && !isKeyword(token)) {
+                const { parts, end } = readDottedName(tokens, j);
+                if (tokens[end]?.value === '(') {
+                    // 테이블 반환 함수 (OPENJSON, STRING_SPLIT 등)
+                    hasUncheckedSource = true;
+                    break;
+                }
+                const tableName = parts[parts.length - 1].toLowerCase();
+                const schemaName = parts.length > 1 ? parts[parts.length - 2].toLowerCase() : '';
+                const { alias, end: aliasEnd } = readAlias(end);
+                if (SYSTEM_SCHEMAS.has(schemaName) || cteNames.has(tableName)) {
+                    hasUncheckedSource = true;
+                    aliasToTable.set(alias || tableName, null);
+                } else if (!index.tables.has(tableName)) {
+                    errors.push(`테이블 '${parts[parts.length - 1]}'이(가) 스키마에 없습니다.`);
+                    aliasToTable.set(alias || tableName, null);
+                    hasUncheckedSource = true;
+                } else {
+                    referencedTables.add(tableName);
+                    aliasToTable.set(tableName, tableName);
+                    if (alias) aliasToTable.set(alias, tableName);
+                }
+                j = aliasEnd;
+            } else {
+                break;
+            }
+            // 테이블 힌트 WITH(NOLOCK)
+            if (lower(tokens[j]) === 'with' && tokens[j + 1]?.value === '(') {
+                while (j < tokens.length && tokens[j].value !== ')') j++;
+                j++;
+            }
+            // FROM a, b 형태의 나열
+            if (word === 'from' && tokens[j]?.value === ',') { j++; continue; }
+            break;
+        }
+    }
+
+    // 3. 쿼리 안에서 정의된 이름: 컬럼 별칭(AS x, x = 식, 식 뒤의 암시적 별칭)과 파생 테이블 별칭
+    tokens.forEach((token, i) => {
+        if (!isName(token)) return;
+        const prev = tokens[i - 1];
+        const name = lower(token);
+        if (lower(prev) === 'as') { definedNames.add(name); return; }
+        if (tokens[i + 1]?.value === '=' && (lower(prev) === 'select' || prev?.value === ',' || lower(prev) === 'distinct')) { definedNames.add(name); return; }
+        const prevEndsExpression = prev && (prev.value === ')' || prev.type === 'string' || lower(prev) === 'end'
+            || (prev.type === 'number' && lower(tokens[i - 2]) !== 'top')
+            || isName(prev));
+        if (prevEndsExpression && tokens[i + 1]?.value !== '(' && tokens[i + 1]?.value !== '.') {
+            definedNames.add(name);
+            if (prev?.value === ')' && !aliasToTable.has(name)) aliasToTable.set(name, null);
+        }
+    });
+
+    // 4. 컬럼 참조
+    const reported = new Set<string>();
+    const report = (key: string, message: string) => {
+        if (reported.has(key)) return;
+        reported.add(key);
+        errors.push(message);
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.type !== 'word' || tokens[i - 1]?.value === '.') continue;
+        const { parts, end } = readDottedName(tokens, i);
+        if (tokens[end]?.value === '(') { i = end - 1; continue; } // 함수 호출
+
+        if (parts.length >= 2) {
+            const qualifier = parts[parts.length - 2].toLowerCase();
+            const column = parts[parts.length - 1];
+            const table = aliasToTable.get(qualifier);
+            if (table && column !== '*' && !index.tables.get(table)!.has(column.toLowerCase())) {
+                report(`${table}.${column.toLowerCase()}`, `컬럼 '${parts.slice(-2).join('.')}'이(가) 테이블 '${table}'에 없습니다.`);
+            }
+            i = end - 1;
+            continue;
+        }
+
+        const name = lower(token);
+        if (isKeyword(token) || TYPE_AND_DATEPART_WORDS.has(name) || definedNames.has(name) || aliasToTable.has(name) || cteNames.has(name)) continue;
+        if (index.tables.has(name)) continue;
+        if (!index.allColumns.has(name)) {
+            report(name, `컬럼 '${token.value}'이(가) 스키마에 없습니다.`);
+        } else if (!hasUncheckedSource && referencedTables.size > 0 && ![...referencedTables].some(t => index.tables.get(t)!.has(name))) {
+            report(name, `컬럼 '${token.value}'은(는) 참조한 테이블(${[...referencedTables].join(', ')})에 없습니다.`);
+        }
+    }
+
+    return { errors, tables: [...referencedTables] };
+}